@@ -14,6 +14,17 @@ declare module '@OneObjectInterfaces' {
     // Add our custom versioned object types
     export interface OneVersionedObjectInterfaces {
         GlobalLLMSettings: GlobalLLMSettings;
+        LLMFallbackChain: LLMFallbackChain;
+        LLMUsageDay: LLMUsageDay;
+        LLMUsageBucket: LLMUsageBucket;
+        LLMBudget: LLMBudget;
+        LLMKeyVault: LLMKeyVault;
+        LLMResponseCache: LLMResponseCache;
+        TopicTurnPolicy: TopicTurnPolicy;
+        TopicBranches: TopicBranches;
+        TopicResearch: TopicResearch;
+        CustomTaskDefinition: CustomTaskDefinition;
+        CustomTaskList: CustomTaskList;
         AISettings: AISettings;
         AppSettings: AppSettings;
         AI: AI;
@@ -24,6 +35,8 @@ declare module '@OneObjectInterfaces' {
         Proposal: Proposal;
         ProposalInteractionPlan: ProposalInteractionPlan;
         ProposalInteractionResponse: ProposalInteractionResponse;
+        ProposalInteractionLog: ProposalInteractionLog;
+        ProposalInteractionLogBucket: ProposalInteractionLogBucket;
         // Assembly.core types (imported above)
         Plan: Plan;
         Assembly: Assembly;
@@ -51,6 +64,12 @@ declare module '@OneObjectInterfaces' {
         enabled: boolean;        // Can disable without deleting
     }
 
+    export interface OllamaKeepAliveConfig {
+        baseUrl: string;         // Server URL
+        model: string;           // Ollama model name (e.g., "llama3.2:latest")
+        keepAlive: string;       // '-1' = pinned, '0' = unload after each request, '10m', '24h', ...
+    }
+
     export interface GlobalLLMSettings {
         $type$: 'GlobalLLMSettings';
         creator: string; // Person ID hash - this is the ID field (enables direct lookup)
@@ -63,6 +82,202 @@ declare module '@OneObjectInterfaces' {
         enableAutoResponse: boolean;
         defaultPrompt: string;
         ollamaServers?: OllamaServerConfig[];  // Multi-server support
+        ollamaKeepAlive?: OllamaKeepAliveConfig[];
+    }
+
+    export interface LLMFallbackChain {
+        $type$: 'LLMFallbackChain';
+        scope: 'ai' | 'topic'; // ID field
+        scopeId: string; // ID field - aiId or topicId
+        modelIds: string[]; // Fallback models, tried in order
+        modified: number;
+    }
+
+    export interface LLMUsageEntry {
+        id: string;
+        timestamp: number;
+        modelId: string;
+        provider: string;
+        topicId?: string;
+        aiId?: string;
+        requestClass?: string; // 'interactive' | 'background' | ...
+        promptTokens: number; // Includes cache creation and cache read tokens
+        completionTokens: number;
+        cacheCreationTokens: number;
+        cacheReadTokens: number;
+        costUsd: number;
+        priced: boolean; // false = no known price, costUsd is 0
+    }
+
+    export interface LLMUsageDay {
+        $type$: 'LLMUsageDay';
+        day: string; // ID field - UTC date 'YYYY-MM-DD'
+        bucketCount: number; // LLMUsageBucket 0 .. bucketCount - 1
+        modified: number;
+    }
+
+    export interface LLMUsageBucket {
+        $type$: 'LLMUsageBucket';
+        day: string; // ID field
+        bucket: number; // ID field
+        entries: LLMUsageEntry[];
+        modified: number;
+    }
+
+    export interface LLMBudget {
+        $type$: 'LLMBudget';
+        scope: 'ai' | 'provider'; // ID field
+        scopeId: string; // ID field - aiId or provider name
+        period: 'day' | 'month'; // UTC
+        softLimitUsd?: number; // Warn once per period
+        hardLimitUsd?: number; // Apply hardLimitAction
+        hardLimitAction: 'warn' | 'downgrade' | 'block';
+        downgradeModelId?: string; // Default: first available local model
+        modified: number;
+    }
+
+    export interface LLMVaultKey {
+        keyId: string;
+        provider: string; // 'anthropic', 'openai', or an OpenAI-compatible provider
+        label: string;
+        scope: 'personal' | 'team';
+        encryptedKey?: string; // base64 - absent once revoked
+        hint: string; // Last characters of the key, for display
+        isDefault: boolean; // Used for AIs without an assigned key
+        created: number;
+        rotated?: number;
+        revoked?: number;
+    }
+
+    export interface LLMKeyAssignment {
+        aiId: string;
+        provider: string;
+        keyId: string;
+    }
+
+    export interface LLMKeyVault {
+        $type$: 'LLMKeyVault';
+        owner: string; // Person ID hash - ID field
+        keys: LLMVaultKey[];
+        assignments: LLMKeyAssignment[];
+        modified: number;
+    }
+
+    export interface LLMCachedResponse {
+        key: string; // Hash of model, temperature and normalized prompt
+        modelId: string;
+        temperature: number;
+        response: string;
+        embedding?: number[]; // Prompt embedding for near-duplicate lookups
+        embeddingModel?: string;
+        created: number;
+        expires: number;
+        lastHit: number;
+        hits: number;
+    }
+
+    export interface LLMResponseCache {
+        $type$: 'LLMResponseCache';
+        scope: string; // ID field - topicId or 'global'
+        entries: LLMCachedResponse[];
+        modified: number;
+    }
+
+    export interface TopicTurnPolicy {
+        $type$: 'TopicTurnPolicy';
+        topicId: string; // ID field
+        mode: 'all' | 'round-robin' | 'mention-only' | 'relevance-bid' | 'moderator';
+        moderatorPersonId?: string; // AI Person ID - required for 'moderator'
+        allowAIReplies: boolean; // AI messages trigger other AIs
+        maxConsecutiveAITurns: number; // Loop guard - AI messages in a row before a human must speak
+        modified: number;
+    }
+
+    export interface TopicBranch {
+        branchId: string;
+        kind: 'regenerate' | 'edit';
+        anchorHash?: string; // Last message shared with the active conversation - undefined = topic start
+        supersededHashes: string[]; // Channel entry hashes left out of the active conversation
+        aiPersonId?: string; // AI whose reply was regenerated
+        modelId?: string; // Model of the regenerated reply
+        created: number;
+    }
+
+    export interface TopicBranches {
+        $type$: 'TopicBranches';
+        topicId: string; // ID field
+        branches: TopicBranch[];
+        forkedFromTopicId?: string;
+        forkedAtHash?: string;
+        forkPrefixLength?: number; // Messages copied from the source topic
+        modified: number;
+    }
+
+    export interface ResearchSubQuery {
+        query: string;
+        status: 'pending' | 'done' | 'failed';
+        findings?: string; // Model's answer from the gathered evidence
+        error?: string;
+    }
+
+    export interface ResearchEvidence {
+        ref: string; // E1, E2, ... - cited in the report
+        subQuery: number; // Index in subQueries
+        source: 'tool' | 'subject';
+        citation: string; // Tool call or subject the excerpt comes from
+        excerpt: string;
+    }
+
+    export interface ResearchRun {
+        researchId: string;
+        question: string;
+        status: 'planning' | 'gathering' | 'reporting' | 'complete' | 'failed';
+        depth: 'shallow' | 'deep';
+        sources: string[]; // 'tools' | 'subjects' - empty = all
+        aiPersonId: string; // AI that researches and posts the report
+        modelId: string;
+        subQueries: ResearchSubQuery[];
+        evidence: ResearchEvidence[];
+        error?: string;
+        created: number;
+        reportPostedAt?: number; // Stored before the report is sent - a resumed run does not post it again
+        completed?: number;
+    }
+
+    export interface TopicResearch {
+        $type$: 'TopicResearch';
+        topicId: string; // ID field
+        runs: ResearchRun[];
+        modified: number;
+    }
+
+    export interface CustomTaskTrigger {
+        type: 'every-message' | 'keyword' | 'every-n-messages' | 'manual';
+        keywords?: string[]; // keyword: any of them in the message (case-insensitive)
+        everyN?: number; // every-n-messages: runs at every Nth message of the topic
+    }
+
+    export interface CustomTaskDefinition {
+        $type$: 'CustomTaskDefinition';
+        topicId: string; // ID field
+        taskId: string; // ID field
+        name: string;
+        enabled: boolean;
+        promptTemplate: string; // Placeholders: {{message}}, {{history}}
+        trigger: CustomTaskTrigger;
+        outputSchema?: string; // Serialized JSON schema - undefined = plain text
+        outputAction: 'post-message' | 'attach-to-subject' | 'update-summary';
+        aiPersonId?: string; // Undefined = the topic's AI
+        modelId?: string; // Undefined = the AI's model
+        created: number;
+        modified: number;
+    }
+
+    export interface CustomTaskList {
+        $type$: 'CustomTaskList';
+        topicId: string; // ID field
+        taskIds: Set<string>; // CustomTaskDefinition IdHashes
+        modified: number;
     }
 
     export interface AISettings {
@@ -164,6 +379,7 @@ declare module '@OneObjectInterfaces' {
         architecture?: string;
         contextLength?: number;
         quantization?: string;
+        discoveredCapabilities?: LLMDiscoveredCapabilities;
         checksum?: string;
         provider?: string;
         downloadUrl?: string;
@@ -174,6 +390,25 @@ declare module '@OneObjectInterfaces' {
         encryptedAuthToken?: string;
     }
 
+    /**
+     * Model capabilities as reported by the backend (Ollama /api/show, provider
+     * model listings, GGUF metadata) - preferred over the static capability table
+     */
+    export interface LLMDiscoveredCapabilities {
+        source: 'ollama' | 'anthropic' | 'openai' | 'gguf';
+        discoveredAt: number;
+        contextWindow?: number;
+        maxOutputTokens?: number;
+        supportsVision?: boolean;
+        supportsTools?: boolean;
+        supportsThinking?: boolean;
+        supportsEmbedding?: boolean;
+        template?: string; // Chat template
+        family?: string;
+        parameterSize?: string;
+        quantization?: string;
+    }
+
     /**
      * TTS (Text-to-Speech) model configuration
      * Model weights are stored as blobs and referenced here
@@ -324,6 +559,8 @@ declare module '@OneObjectInterfaces' {
         minJaccard: number; // 0.0 to 1.0 - minimum Jaccard similarity threshold
         minSimilarity?: number; // 0.0 to 1.0 - minimum embedding similarity threshold
         maxProposals: number; // 1-50 - maximum number of proposals to return
+        minRelevance?: number; // 0.0 to 1.0 - ranking score a proposal needs to be shown
+        feedbackWeight?: number; // 0.0 to 1.0 - influence of learned weights on ranking
         updatedAt: number; // Unix timestamp of last update
     }
 
@@ -358,5 +595,26 @@ declare module '@OneObjectInterfaces' {
         error?: string; // Optional: if success = false
     }
 
+    export interface ProposalInteractionLog {
+        $type$: 'ProposalInteractionLog';
+        userEmail: string; // ID property - one log per user
+        lastBucket: number; // Index of the bucket currently appended to
+        updatedAt: number;
+    }
+
+    export interface ProposalInteractionLogBucket {
+        $type$: 'ProposalInteractionLogBucket';
+        userEmail: string; // ID property (with bucket)
+        bucket: number; // ID property - 0, 1, 2, ...
+        entries: Array<{
+            proposalIdHash: string; // IdHash of the past subject
+            action: 'view' | 'dismiss' | 'share';
+            topicId: string;
+            keywords: string[]; // Keyword terms of the subject (for learning)
+            createdAt: number;
+        }>;
+        updatedAt: number;
+    }
+
     // AssemblyPlan and CubeAssembly removed - use Plan/Assembly/Story from @assembly/core instead
 }
\ No newline at end of file
@@ -11,9 +11,8 @@
  */
 
 import { MeaningDimension } from '@cube/meaning.core';
-import { createOllamaEmbeddingProvider } from '../services/ollama-embedding-provider.js';
+import { createEmbeddingProvider, type AdapterEmbeddingProvider } from '../services/embedding-provider.js';
 import { setMeaningDimension } from '../one-ai/models/Subject.js';
-import { SemanticProposalEngine } from '../services/semantic-proposal-engine.js';
 
 /**
  * Dependencies injected by platform (Electron, web, etc.)
@@ -37,7 +36,7 @@ export interface AIServices {
   aiAssistantModel: any;
   anthropicApiKey?: string;
   meaningDimension?: any;  // MeaningDimension instance (if Ollama available)
-  semanticEngine?: any;    // SemanticProposalEngine instance (if MeaningDimension available)
+  embeddingProvider?: any; // AdapterEmbeddingProvider for hybrid proposal retrieval (if MeaningDimension available)
 }
 
 /**
@@ -72,7 +71,7 @@ export class AIInitializationPlan {
     const aiAssistantModel = await this.initializeAIAssistant();
 
     // Step 5: Initialize MeaningDimension (optional - graceful failure)
-    const { meaningDimension, semanticEngine } = await this.initializeMeaningDimension(userSettingsManager);
+    const { meaningDimension, embeddingProvider } = await this.initializeMeaningDimension(userSettingsManager);
 
     console.log('[AIInitializationPlan] ✅ AI services initialized');
 
@@ -81,7 +80,7 @@ export class AIInitializationPlan {
       aiAssistantModel,
       anthropicApiKey,
       meaningDimension,
-      semanticEngine
+      embeddingProvider
     };
   }
 
@@ -155,7 +154,7 @@ export class AIInitializationPlan {
 
   private async initializeMeaningDimension(userSettingsManager: any): Promise<{
     meaningDimension?: MeaningDimension;
-    semanticEngine?: SemanticProposalEngine;
+    embeddingProvider?: AdapterEmbeddingProvider;
   }> {
     console.log('[AIInitializationPlan] Initializing MeaningDimension...');
 
@@ -164,34 +163,25 @@ export class AIInitializationPlan {
       const aiSettings = await userSettingsManager.getSettings();
       const embeddingModel = aiSettings?.embeddingModel || 'nomic-embed-text';
 
-      // Get Ollama base URL (from config or default)
-      const ollamaBaseUrl = this.deps.ollamaBaseUrl || 'http://localhost:11434';
-
-      // Create embedding provider
-      const embeddingProvider = createOllamaEmbeddingProvider(
-        embeddingModel,
-        ollamaBaseUrl
-      );
+      // Create embedding provider (any backend with an embedding-capable adapter)
+      const embeddingProvider = createEmbeddingProvider(this.deps.llmManager, embeddingModel);
 
       // Create MeaningDimension
       const meaningDimension = new MeaningDimension({
-        model: 'nomic-embed-text-v1.5',
+        model: embeddingProvider.model,
         embeddingProvider
       });
 
       await meaningDimension.init();
       console.log('[AIInitializationPlan] ✅ MeaningDimension initialized with', embeddingModel);
 
-      // Set for Subject indexing
-      setMeaningDimension(meaningDimension);
-
-      // Create semantic engine
-      const semanticEngine = new SemanticProposalEngine(meaningDimension);
+      // Set for Subject indexing (the provider switches models with AISettings.embeddingModel)
+      setMeaningDimension(meaningDimension, embeddingProvider);
 
-      return { meaningDimension, semanticEngine };
+      return { meaningDimension, embeddingProvider };
     } catch (err) {
       console.warn('[AIInitializationPlan] MeaningDimension initialization failed (non-fatal):', err);
-      console.warn('[AIInitializationPlan] Semantic proposals will fall back to Jaccard similarity');
+      console.warn('[AIInitializationPlan] Proposals will use lexical (BM25) retrieval only');
       return {};
     }
   }
@@ -0,0 +1,115 @@
+/**
+ * Model Pricing
+ *
+ * USD per million tokens for cloud models in MODEL_REGISTRY (list prices,
+ * checked 2026-10). Used by the usage ledger to compute the cost of each call.
+ *
+ * Cache prices follow the provider's scheme: Anthropic charges cache writes
+ * (1.25x input) and reads (0.1x input); OpenAI, Gemini and DeepSeek only
+ * discount cached reads. Local providers (Ollama, LM Studio, transformers.js,
+ * self-hosted OpenAI-compatible servers) cost nothing.
+ */
+
+import { getModelProvider } from './model-registry.js';
+
+export interface ModelPrice {
+  inputPerMTok: number;
+  outputPerMTok: number;
+  cacheWritePerMTok?: number;  // Defaults to inputPerMTok
+  cacheReadPerMTok?: number;   // Defaults to inputPerMTok
+}
+
+export interface UsageTokens {
+  promptTokens: number;        // Includes cache creation and cache read tokens
+  completionTokens: number;
+  cacheCreationTokens?: number;
+  cacheReadTokens?: number;
+}
+
+/**
+ * Prices by model ID - versioned IDs match their base entry by prefix
+ * ('claude-sonnet-4-5-20250929' → 'claude-sonnet-4-5')
+ */
+export const MODEL_PRICING: Record<string, ModelPrice> = {
+  // Anthropic
+  'claude-opus-4-5': { inputPerMTok: 5, outputPerMTok: 25, cacheWritePerMTok: 6.25, cacheReadPerMTok: 0.5 },
+  'claude-sonnet-4-5': { inputPerMTok: 3, outputPerMTok: 15, cacheWritePerMTok: 3.75, cacheReadPerMTok: 0.3 },
+  'claude-sonnet-4': { inputPerMTok: 3, outputPerMTok: 15, cacheWritePerMTok: 3.75, cacheReadPerMTok: 0.3 },
+  'claude-haiku-4-5': { inputPerMTok: 1, outputPerMTok: 5, cacheWritePerMTok: 1.25, cacheReadPerMTok: 0.1 },
+  'claude-3-5-haiku': { inputPerMTok: 0.8, outputPerMTok: 4, cacheWritePerMTok: 1, cacheReadPerMTok: 0.08 },
+
+  // OpenAI
+  'gpt-5': { inputPerMTok: 1.25, outputPerMTok: 10, cacheReadPerMTok: 0.125 },
+  'gpt-4.1-mini': { inputPerMTok: 0.4, outputPerMTok: 1.6, cacheReadPerMTok: 0.1 },
+  'gpt-4.1': { inputPerMTok: 2, outputPerMTok: 8, cacheReadPerMTok: 0.5 },
+  'o3-mini': { inputPerMTok: 1.1, outputPerMTok: 4.4, cacheReadPerMTok: 0.55 },
+  'gpt-4-turbo': { inputPerMTok: 10, outputPerMTok: 30 },
+  'gpt-4': { inputPerMTok: 30, outputPerMTok: 60 },
+  'gpt-3.5-turbo': { inputPerMTok: 0.5, outputPerMTok: 1.5 },
+  'o1-preview': { inputPerMTok: 15, outputPerMTok: 60, cacheReadPerMTok: 7.5 },
+
+  // Google
+  'gemini-2.5-pro': { inputPerMTok: 1.25, outputPerMTok: 10, cacheReadPerMTok: 0.31 },
+  'gemini-2.5-flash': { inputPerMTok: 0.3, outputPerMTok: 2.5, cacheReadPerMTok: 0.075 },
+
+  // DeepSeek
+  'deepseek-chat': { inputPerMTok: 0.27, outputPerMTok: 1.1, cacheReadPerMTok: 0.07 },
+  'deepseek-reasoner': { inputPerMTok: 0.55, outputPerMTok: 2.19, cacheReadPerMTok: 0.14 },
+
+  // Qwen (Alibaba Cloud)
+  'qwen-max': { inputPerMTok: 1.6, outputPerMTok: 6.4 },
+  'qwen-plus': { inputPerMTok: 0.4, outputPerMTok: 1.2 }
+};
+
+/**
+ * Providers that run on own hardware - always free
+ */
+export const LOCAL_PROVIDERS = ['ollama', 'lmstudio', 'transformers', 'local', 'openai-compatible', 'vllm', 'llamacpp', 'localai'];
+
+/**
+ * Strip provider prefixes and the private suffix ('claude:claude-haiku-4-5-private' → 'claude-haiku-4-5')
+ */
+function normalizeModelId(modelId: string): string {
+  return modelId.replace(/-private$/, '').replace(/^(claude|anthropic|openai|google|deepseek|qwen):/, '');
+}
+
+/**
+ * Price of a model - undefined for unknown cloud models
+ * Local models get a zero price.
+ */
+export function getModelPrice(modelId: string, provider?: string): ModelPrice | undefined {
+  const id = normalizeModelId(modelId);
+  if (LOCAL_PROVIDERS.includes(provider ?? getModelProvider(id))) {
+    return { inputPerMTok: 0, outputPerMTok: 0 };
+  }
+  if (MODEL_PRICING[id]) {
+    return MODEL_PRICING[id];
+  }
+
+  // Longest matching prefix ('gpt-4.1-mini-2025-04-14' → 'gpt-4.1-mini', not 'gpt-4')
+  const match = Object.keys(MODEL_PRICING)
+    .filter(key => id.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? MODEL_PRICING[match] : undefined;
+}
+
+/**
+ * Cost of one call in USD (undefined if the model has no known price)
+ */
+export function computeUsageCost(modelId: string, usage: UsageTokens, provider?: string): number | undefined {
+  const price = getModelPrice(modelId, provider);
+  if (!price) {
+    return undefined;
+  }
+
+  const cacheWrite = usage.cacheCreationTokens ?? 0;
+  const cacheRead = usage.cacheReadTokens ?? 0;
+  const uncached = Math.max(0, usage.promptTokens - cacheWrite - cacheRead);
+
+  return (
+    uncached * price.inputPerMTok +
+    cacheWrite * (price.cacheWritePerMTok ?? price.inputPerMTok) +
+    cacheRead * (price.cacheReadPerMTok ?? price.inputPerMTok) +
+    usage.completionTokens * price.outputPerMTok
+  ) / 1_000_000;
+}
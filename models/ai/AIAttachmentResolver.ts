@@ -0,0 +1,141 @@
+/**
+ * AI Attachment Resolver
+ *
+ * Turns chat message attachments into ChatContentParts for the prompt:
+ * - images → image parts; base64 data is only loaded for vision models
+ *   (without data, adapters send a textual placeholder)
+ * - text documents (text/*, JSON, XML, ...) → document parts with their text
+ * - everything else → a text note naming the attachment
+ *
+ * Attachments are either BlobDescriptor hashes (one.models chat attachments)
+ * or {hash, type, metadata} references as stored with AI responses.
+ */
+
+import type { SHA256Hash } from '@refinio/one.core/lib/util/type-checks.js';
+import type { BLOB } from '@refinio/one.core/lib/recipes.js';
+import { getObject } from '@refinio/one.core/lib/storage-unversioned-objects.js';
+import { readBlobAsArrayBuffer, readBlobAsBase64 } from '@refinio/one.core/lib/storage-blob.js';
+import { readUTF8TextFile } from '@refinio/one.core/lib/system/storage-base.js';
+import type { ChatContentPart } from '../../services/llm-adapters/types.js';
+
+/**
+ * Image types accepted by all vision APIs (Anthropic, OpenAI, Ollama)
+ */
+const VISION_MIME_TYPES = new Set(['image/jpeg', 'image/png', 'image/gif', 'image/webp']);
+
+/**
+ * Provider limit for one image (Anthropic: 5 MB)
+ */
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Extracted document text is truncated to this length
+ */
+const MAX_DOCUMENT_CHARS = 20000;
+
+/**
+ * Attachments AIMessageProcessor stores with AI responses - never prompt content
+ */
+const INTERNAL_ATTACHMENTS = new Set(['thinking.txt', 'tool-trace.json']);
+
+interface AttachmentInfo {
+  blobHash: string;
+  kind: 'BLOB' | 'CLOB';
+  name: string;
+  mimeType: string;
+  size?: number;
+}
+
+/**
+ * Resolve a message's attachments to content parts
+ * Attachments that cannot be read become a text note instead of failing the prompt.
+ */
+export async function resolveAttachmentParts(
+  attachments: unknown[] | undefined,
+  options: { loadImages: boolean }
+): Promise<ChatContentPart[]> {
+  const parts: ChatContentPart[] = [];
+
+  for (const attachment of attachments ?? []) {
+    const info = await describeAttachment(attachment);
+    if (!info || INTERNAL_ATTACHMENTS.has(info.name)) {
+      continue;
+    }
+
+    try {
+      parts.push(await toContentPart(info, options.loadImages));
+    } catch (error) {
+      console.warn(`[AIAttachmentResolver] Failed to read attachment ${info.name}:`, error);
+      parts.push({ type: 'text', text: `[Attachment: ${info.name} (${info.mimeType}) - could not be read]` });
+    }
+  }
+
+  return parts;
+}
+
+async function toContentPart(info: AttachmentInfo, loadImages: boolean): Promise<ChatContentPart> {
+  if (info.mimeType.startsWith('image/')) {
+    const loadable = loadImages
+      && VISION_MIME_TYPES.has(info.mimeType)
+      && (info.size === undefined || info.size <= MAX_IMAGE_BYTES);
+    return {
+      type: 'image',
+      blobHash: info.blobHash,
+      mimeType: info.mimeType,
+      name: info.name,
+      data: loadable ? await readBlobAsBase64(info.blobHash as SHA256Hash<BLOB>) : undefined
+    };
+  }
+
+  if (isTextDocument(info.mimeType)) {
+    const text = info.kind === 'CLOB'
+      ? await readUTF8TextFile(info.blobHash)
+      : new TextDecoder().decode(await readBlobAsArrayBuffer(info.blobHash as SHA256Hash<BLOB>));
+    return {
+      type: 'document',
+      name: info.name,
+      mimeType: info.mimeType,
+      text: text.length > MAX_DOCUMENT_CHARS
+        ? `${text.slice(0, MAX_DOCUMENT_CHARS)}\n[... truncated, ${text.length - MAX_DOCUMENT_CHARS} more characters]`
+        : text
+    };
+  }
+
+  return { type: 'text', text: `[Attachment: ${info.name} (${info.mimeType}) - content not available to the model]` };
+}
+
+/**
+ * Normalize both attachment shapes to the BLOB they reference
+ */
+async function describeAttachment(attachment: unknown): Promise<AttachmentInfo | null> {
+  if (typeof attachment === 'string') {
+    const descriptor: any = await getObject(attachment as SHA256Hash<any>).catch(() => null);
+    if (descriptor?.$type$ !== 'BlobDescriptor') {
+      return null;
+    }
+    return {
+      blobHash: descriptor.data,
+      kind: 'BLOB',
+      name: descriptor.name || 'attachment',
+      mimeType: descriptor.type || 'application/octet-stream',
+      size: descriptor.size
+    };
+  }
+
+  const ref = attachment as any;
+  if (!ref?.hash) {
+    return null;
+  }
+  return {
+    blobHash: ref.hash,
+    kind: ref.type === 'CLOB' ? 'CLOB' : 'BLOB',
+    name: ref.metadata?.name || 'attachment',
+    mimeType: ref.metadata?.mimeType || 'application/octet-stream',
+    size: ref.metadata?.size
+  };
+}
+
+function isTextDocument(mimeType: string): boolean {
+  return mimeType.startsWith('text/')
+    || ['application/json', 'application/xml', 'application/x-yaml', 'application/yaml'].includes(mimeType);
+}
@@ -0,0 +1,362 @@
+/**
+ * AIBranchManager
+ *
+ * Conversation branching for AI topics. Channels only ever append, so nothing
+ * is replaced: a regenerated reply or an edited message supersedes messages,
+ * which are recorded in the topic's TopicBranches object and left out of the
+ * active conversation (prompts, UI). The superseded branch stays linked to the
+ * message it diverged after, as a sibling of the active continuation.
+ *
+ * Responsibilities:
+ * - Regenerate the last AI reply, with the same or another model
+ * - Edit a user message and re-run the conversation from there
+ * - Fork a topic at any message into a new topic (history prefix and subjects)
+ * - Answer which messages of a topic are superseded
+ */
+
+import type { SHA256IdHash } from '@refinio/one.core/lib/util/type-checks.js';
+import type { Person } from '@refinio/one.core/lib/recipes.js';
+import { createMessageBus } from '@refinio/one.core/lib/message-bus.js';
+import type LeuteModel from '@refinio/one.models/lib/models/Leute/LeuteModel.js';
+import type { TopicBranch, TopicBranches } from '@OneObjectInterfaces';
+import type { GlobalLLMSettingsManagerDeps } from '../settings/GlobalLLMSettingsManager.js';
+import type { AIMessageProcessor } from './AIMessageProcessor.js';
+import type { AIPromptBuilder } from './AIPromptBuilder.js';
+import type { AITopicManager } from './AITopicManager.js';
+
+const MessageBus = createMessageBus('AIBranchManager');
+
+export type AIBranchManagerDeps = GlobalLLMSettingsManagerDeps;
+
+export interface RegenerateOptions {
+  /** AI whose reply is regenerated - default: the AI that answered last */
+  aiPersonId?: SHA256IdHash<Person>;
+  /** Answer with this model instead of the AI's own */
+  modelId?: string;
+}
+
+export interface ForkOptions {
+  /** Display name of the new topic */
+  name?: string;
+  /** Carry the source topic's subjects over (default: true) */
+  includeSubjects?: boolean;
+}
+
+export interface ForkResult {
+  topicId: string;
+  copiedMessages: number;
+  copiedSubjects: number;
+}
+
+/**
+ * Channel entry hash identifying a message of retrieveAllMessages()
+ */
+export function messageHashOf(message: any): string {
+  return String(message.hash || message.channelEntryHash || '');
+}
+
+export class AIBranchManager {
+  // topicId → branches (null = none stored)
+  private cache = new Map<string, TopicBranches | null>();
+  private writeChain: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private storage: AIBranchManagerDeps,
+    private topicModel: any, // TopicModel
+    private leuteModel: LeuteModel,
+    private topicManager: AITopicManager,
+    private messageProcessor: AIMessageProcessor,
+    private promptBuilder: AIPromptBuilder,
+    private llmManager: any, // LLMManager interface
+    private topicAnalysisModel?: any,
+    private topicGroupManager?: any
+  ) {}
+
+  /**
+   * Drop a topic's cached branches together with the prompts built from them,
+   * as a new version may supersede other messages
+   */
+  invalidate(topicId: string): void {
+    this.cache.delete(topicId);
+    this.promptBuilder.invalidateMessageCache(topicId);
+    this.llmManager?.clearCachedContext?.(topicId);
+  }
+
+  /**
+   * Get the branches of a topic (null if it was never branched or forked)
+   */
+  async getBranches(topicId: string): Promise<TopicBranches | null> {
+    if (this.cache.has(topicId)) {
+      return this.cache.get(topicId) ?? null;
+    }
+
+    const idHash = await this.storage.calculateIdHashOfObj({
+      $type$: 'TopicBranches' as const,
+      topicId
+    });
+
+    try {
+      const result = await this.storage.getObjectByIdHash(idHash);
+      const branches = result.obj as TopicBranches;
+      this.cache.set(topicId, branches);
+      return branches;
+    } catch (error: any) {
+      if (error.message?.includes('not found') || error.code === 'NOT_FOUND') {
+        this.cache.set(topicId, null);
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Hashes of the messages that are not part of the active conversation
+   */
+  async getSupersededHashes(topicId: string): Promise<Set<string>> {
+    const branches = await this.getBranches(topicId);
+    return new Set(branches?.branches.flatMap(branch => branch.supersededHashes) ?? []);
+  }
+
+  /**
+   * Messages copied into a forked topic - never answered again
+   */
+  async getForkPrefixLength(topicId: string): Promise<number> {
+    return (await this.getBranches(topicId))?.forkPrefixLength ?? 0;
+  }
+
+  /**
+   * The topic's messages without the superseded ones
+   */
+  async getActiveMessages(topicId: string): Promise<any[]> {
+    const topicRoom = await this.topicModel.enterTopicRoom(topicId);
+    const messages = await topicRoom.retrieveAllMessages();
+    const superseded = await this.getSupersededHashes(topicId);
+    return superseded.size > 0
+      ? messages.filter((msg: any) => !superseded.has(messageHashOf(msg)))
+      : messages;
+  }
+
+  /**
+   * Regenerate the AI reply to the last user message
+   * The previous reply is kept as a sibling branch.
+   */
+  async regenerate(topicId: string, options: RegenerateOptions = {}): Promise<TopicBranch | null> {
+    const messages = await this.getActiveMessages(topicId);
+
+    let userIndex = -1;
+    for (let i = messages.length - 1; i >= 0; i--) {
+      if (!(await this.messageProcessor.isAIContact(senderOf(messages[i])))) {
+        userIndex = i;
+        break;
+      }
+    }
+    if (userIndex === -1) {
+      throw new Error(`No user message to regenerate a reply for in topic ${topicId}`);
+    }
+
+    const userMessage = messages[userIndex];
+    const replies = messages.slice(userIndex + 1);
+    const aiPersonId = options.aiPersonId
+      ?? (replies.length > 0 ? senderOf(replies[replies.length - 1]) : this.topicManager.getAIPersonForTopic(topicId));
+    if (!aiPersonId) {
+      throw new Error(`No AI to regenerate the reply in topic ${topicId}`);
+    }
+
+    const superseded = replies.filter(msg => senderOf(msg) === aiPersonId).map(messageHashOf);
+    const branch = superseded.length > 0
+      ? await this.addBranch(topicId, {
+          kind: 'regenerate',
+          anchorHash: messageHashOf(userMessage),
+          supersededHashes: superseded,
+          aiPersonId: aiPersonId.toString(),
+          ...(options.modelId ? { modelId: options.modelId } : {})
+        })
+      : null;
+
+    MessageBus.send('log', `Regenerating reply of ${aiPersonId.toString().substring(0, 8)} in ${topicId}${options.modelId ? ` with ${options.modelId}` : ''}`);
+    await this.messageProcessor.processMessage(
+      topicId,
+      userMessage.data?.text ?? '',
+      senderOf(userMessage),
+      aiPersonId,
+      options.modelId ? { modelId: options.modelId } : {}
+    );
+    return branch;
+  }
+
+  /**
+   * Replace a user message with an edited one and re-run the conversation from there
+   * The message and everything after it is kept as a sibling branch; the edited
+   * message is answered like any new message.
+   */
+  async editAndResend(topicId: string, messageHash: string, newText: string): Promise<TopicBranch> {
+    if (!newText.trim()) {
+      throw new Error('Edited message is empty');
+    }
+
+    const messages = await this.getActiveMessages(topicId);
+    const index = messages.findIndex(msg => messageHashOf(msg) === messageHash);
+    if (index === -1) {
+      throw new Error(`Message ${messageHash} not found in the active conversation of topic ${topicId}`);
+    }
+
+    const original = messages[index];
+    const sender = senderOf(original);
+    if (await this.messageProcessor.isAIContact(sender)) {
+      throw new Error('Only user messages can be edited - regenerate AI replies instead');
+    }
+
+    const branch = await this.addBranch(topicId, {
+      kind: 'edit',
+      ...(index > 0 ? { anchorHash: messageHashOf(messages[index - 1]) } : {}),
+      supersededHashes: messages.slice(index).map(messageHashOf)
+    });
+
+    // Posting the edited message triggers the AI responses (AIMessageListener)
+    const topicRoom = await this.topicModel.enterTopicRoom(topicId);
+    const attachments = original.data?.attachments;
+    if (attachments?.length) {
+      await topicRoom.sendMessageWithAttachmentAsHash(newText, attachments, sender);
+    } else {
+      await topicRoom.sendMessage(newText, sender);
+    }
+
+    MessageBus.send('log', `Edited message ${messageHash.substring(0, 8)} in ${topicId} - ${branch.supersededHashes.length} message(s) superseded`);
+    return branch;
+  }
+
+  /**
+   * Fork a topic at a message into a new topic
+   * The new topic gets the active conversation up to and including the message,
+   * the same AIs and (optionally) the subjects discussed until then.
+   */
+  async forkTopic(topicId: string, messageHash: string, options: ForkOptions = {}): Promise<ForkResult> {
+    const messages = await this.getActiveMessages(topicId);
+    const index = messages.findIndex(msg => messageHashOf(msg) === messageHash);
+    if (index === -1) {
+      throw new Error(`Message ${messageHash} not found in the active conversation of topic ${topicId}`);
+    }
+    const prefix = messages.slice(0, index + 1);
+
+    const sourceTopic = await this.topicModel.findTopic(topicId);
+    const ownerId = await this.leuteModel.myMainIdentity();
+    const aiPersonIds: SHA256IdHash<Person>[] = sourceTopic?.aiParticipants?.size
+      ? [...sourceTopic.aiParticipants.keys()]
+      : [this.topicManager.getAIPersonForTopic(topicId)].filter((id): id is SHA256IdHash<Person> => !!id);
+    if (aiPersonIds.length === 0) {
+      throw new Error(`Topic ${topicId} has no AI participant to fork with`);
+    }
+
+    const sourceName = this.topicManager.getTopicDisplayName(topicId) ?? sourceTopic?.name ?? 'Chat';
+    const name = options.name?.trim() || `${sourceName} (fork)`;
+    const newTopicId = `${ownerId}:fork-${Date.now().toString(36)}`;
+
+    // Recorded before copying - the listener must not answer the copied messages
+    await this.storeBranches({
+      $type$: 'TopicBranches',
+      topicId: newTopicId,
+      branches: [],
+      forkedFromTopicId: topicId,
+      forkedAtHash: messageHash,
+      forkPrefixLength: prefix.length,
+      modified: Date.now()
+    });
+
+    await this.topicModel.createTopic(name, [ownerId, ...aiPersonIds], newTopicId, ownerId);
+    if (this.topicGroupManager) {
+      await this.topicGroupManager.getOrCreateConversationGroup(newTopicId, aiPersonIds[0]);
+    }
+
+    const topicRoom = await this.topicModel.enterTopicRoom(newTopicId);
+    for (const message of prefix) {
+      const text = message.data?.text ?? '';
+      const attachments = message.data?.attachments;
+      if (attachments?.length) {
+        await topicRoom.sendMessageWithAttachmentAsHash(text, attachments, senderOf(message));
+      } else {
+        await topicRoom.sendMessage(text, senderOf(message));
+      }
+    }
+
+    this.topicManager.registerAITopic(newTopicId, aiPersonIds[0]);
+    this.topicManager.setTopicDisplayName(newTopicId, name);
+
+    const forkTime = new Date(prefix[prefix.length - 1].creationTime).getTime();
+    const copiedSubjects = options.includeSubjects === false ? 0 : await this.copySubjects(topicId, newTopicId, forkTime);
+
+    MessageBus.send('log', `Forked ${topicId} at ${messageHash.substring(0, 8)} into ${newTopicId}: ${prefix.length} message(s), ${copiedSubjects} subject(s)`);
+    return { topicId: newTopicId, copiedMessages: prefix.length, copiedSubjects };
+  }
+
+  /**
+   * Subjects of the source topic that existed at the fork point
+   */
+  private async copySubjects(sourceTopicId: string, targetTopicId: string, forkTime: number): Promise<number> {
+    if (!this.topicAnalysisModel) {
+      return 0;
+    }
+
+    try {
+      const subjects: any[] = await this.topicAnalysisModel.getSubjects(sourceTopicId);
+      const created: any[] = [];
+      for (const subject of subjects) {
+        if (subject.archived || (subject.createdAt && subject.createdAt > forkTime)) {
+          continue;
+        }
+        const keywords = String(subject.keywordCombination || '').split('+').filter(Boolean);
+        const copy = await this.topicAnalysisModel.createSubject(
+          targetTopicId,
+          keywords,
+          subject.keywordCombination,
+          subject.description,
+          subject.confidence ?? 1.0
+        );
+        for (const keyword of keywords) {
+          await this.topicAnalysisModel.addKeywordToSubject(targetTopicId, keyword, copy.idHash);
+        }
+        created.push(copy);
+      }
+      if (created.length > 0) {
+        this.topicAnalysisModel.setCachedSubjects(targetTopicId, created);
+      }
+      return created.length;
+    } catch (error) {
+      MessageBus.send('alert', `Could not copy subjects of ${sourceTopicId}:`, error);
+      return 0;
+    }
+  }
+
+  private async addBranch(topicId: string, branch: Omit<TopicBranch, 'branchId' | 'created'>): Promise<TopicBranch> {
+    const write = this.writeChain.then(async () => {
+      const current = await this.getBranches(topicId);
+      const created: TopicBranch = {
+        branchId: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+        ...branch,
+        created: Date.now()
+      };
+
+      await this.storeBranches({
+        ...(current ?? { $type$: 'TopicBranches' as const, topicId }),
+        branches: [...(current?.branches ?? []), created],
+        modified: Date.now()
+      });
+      return created;
+    });
+    this.writeChain = write.catch(() => undefined);
+    const created = await write;
+
+    // Prompts and the Ollama context must not see the superseded messages
+    this.promptBuilder.invalidateMessageCache(topicId);
+    this.llmManager?.clearCachedContext?.(topicId);
+    return created;
+  }
+
+  private async storeBranches(branches: TopicBranches): Promise<void> {
+    await this.storage.storeVersionedObject(branches);
+    this.cache.set(branches.topicId, branches);
+  }
+}
+
+function senderOf(message: any): SHA256IdHash<Person> {
+  return message.data?.sender || message.author;
+}
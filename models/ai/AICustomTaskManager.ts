@@ -0,0 +1,451 @@
+/**
+ * AICustomTaskManager
+ *
+ * Stores and runs user-defined AI tasks (AITaskType 'custom') of a topic.
+ * A CustomTaskDefinition is data instead of a JavaScript handler:
+ * - promptTemplate: what the AI is asked, with {{message}} and {{history}}
+ * - trigger:        every message, keyword match, every N messages or manual
+ * - outputSchema:   optional JSON schema - structured output via chatStructured
+ * - outputAction:   post-message      - the AI posts the result into the topic
+ *                   attach-to-subject - the result's keywords join the topic's
+ *                                       current subject (a new one if none exists)
+ *                   update-summary    - the result replaces the current subject's summary
+ *
+ * Definitions are listed per topic in a CustomTaskList (like AIList for AIs).
+ */
+
+import type { SHA256IdHash } from '@refinio/one.core/lib/util/type-checks.js';
+import type { Person } from '@refinio/one.core/lib/recipes.js';
+import { createMessageBus } from '@refinio/one.core/lib/message-bus.js';
+import type { CustomTaskDefinition, CustomTaskList } from '@OneObjectInterfaces';
+import type { GlobalLLMSettingsManagerDeps } from '../settings/GlobalLLMSettingsManager.js';
+import type { AIManager } from './AIManager.js';
+import type { AITopicManager } from './AITopicManager.js';
+
+const MessageBus = createMessageBus('AICustomTaskManager');
+
+/** Messages rendered into {{history}} */
+const HISTORY_MESSAGES = 20;
+const MAX_MESSAGE_CHARS = 4000;
+
+export type AICustomTaskManagerDeps = GlobalLLMSettingsManagerDeps;
+
+/**
+ * Fields of a task definition set by the user
+ * outputSchema may be given as object - it is stored serialized.
+ */
+export interface CustomTaskInput {
+  name: string;
+  promptTemplate: string;
+  trigger: CustomTaskDefinition['trigger'];
+  outputAction: CustomTaskDefinition['outputAction'];
+  outputSchema?: string | Record<string, any>;
+  enabled?: boolean;
+  aiPersonId?: string;
+  modelId?: string;
+}
+
+export interface CustomTaskResult {
+  taskId: string;
+  name: string;
+  status: 'done' | 'failed';
+  output?: unknown;
+  error?: string;
+}
+
+/** Output of attach-to-subject without an own schema */
+const SUBJECT_OUTPUT_SCHEMA = {
+  type: 'object',
+  properties: {
+    keywords: { type: 'array', items: { type: 'string' }, minItems: 1 },
+    description: { type: 'string' }
+  },
+  required: ['keywords']
+};
+
+export class AICustomTaskManager {
+  // topicId → task definitions (in list order)
+  private cache = new Map<string, CustomTaskDefinition[]>();
+  private writeChain: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private storage: AICustomTaskManagerDeps,
+    private topicModel: any, // TopicModel
+    private llmManager: any, // LLMManager interface
+    private topicManager: AITopicManager,
+    private aiManager: AIManager,
+    private getTopicAnalysisModel: () => any
+  ) {}
+
+  /**
+   * Drop a topic's cached definitions - triggers then match the tasks as stored last
+   */
+  invalidate(topicId: string): void {
+    this.cache.delete(topicId);
+  }
+
+  /**
+   * Get the task definitions of a topic
+   */
+  async getTasks(topicId: string): Promise<CustomTaskDefinition[]> {
+    const cached = this.cache.get(topicId);
+    if (cached) {
+      return cached;
+    }
+
+    const list = await this.getList(topicId);
+    const tasks: CustomTaskDefinition[] = [];
+    for (const idHash of list?.taskIds ?? []) {
+      try {
+        const result = await this.storage.getObjectByIdHash(idHash as SHA256IdHash<CustomTaskDefinition>);
+        tasks.push(result.obj as CustomTaskDefinition);
+      } catch (error) {
+        MessageBus.send('alert', `Could not load custom task ${String(idHash).substring(0, 8)} of ${topicId}:`, error);
+      }
+    }
+
+    this.cache.set(topicId, tasks);
+    return tasks;
+  }
+
+  /**
+   * Define a new task for a topic
+   */
+  async defineTask(topicId: string, input: CustomTaskInput): Promise<CustomTaskDefinition> {
+    const now = Date.now();
+    const task = validate({
+      $type$: 'CustomTaskDefinition',
+      topicId,
+      taskId: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      ...withSerializedSchema(input),
+      enabled: input.enabled ?? true,
+      created: now,
+      modified: now
+    });
+
+    await this.write(topicId, tasks => [...tasks, task]);
+    MessageBus.send('log', `Defined custom task "${task.name}" (${task.trigger.type}) for ${topicId}`);
+    return task;
+  }
+
+  /**
+   * Update a task - unset fields keep their current value
+   */
+  async updateTask(topicId: string, taskId: string, changes: Partial<CustomTaskInput>): Promise<CustomTaskDefinition> {
+    const current = (await this.getTasks(topicId)).find(t => t.taskId === taskId);
+    if (!current) {
+      throw new Error(`Custom task ${taskId} not found in topic ${topicId}`);
+    }
+
+    const task = validate({
+      ...current,
+      ...withSerializedSchema(changes),
+      modified: Date.now()
+    });
+
+    await this.write(topicId, tasks => tasks.map(t => t.taskId === taskId ? task : t));
+    return task;
+  }
+
+  /**
+   * Remove a task from the topic
+   */
+  async deleteTask(topicId: string, taskId: string): Promise<void> {
+    const exists = (await this.getTasks(topicId)).some(t => t.taskId === taskId);
+    if (!exists) {
+      throw new Error(`Custom task ${taskId} not found in topic ${topicId}`);
+    }
+    await this.write(topicId, tasks => tasks.filter(t => t.taskId !== taskId));
+  }
+
+  /**
+   * Run a task now, whatever its trigger
+   * @param message - Fills {{message}} (defaults to the topic's last message)
+   */
+  async runTask(topicId: string, taskId: string, message?: string): Promise<CustomTaskResult> {
+    const task = (await this.getTasks(topicId)).find(t => t.taskId === taskId);
+    if (!task) {
+      throw new Error(`Custom task ${taskId} not found in topic ${topicId}`);
+    }
+    return await this.execute(task, message);
+  }
+
+  /**
+   * Run the enabled tasks whose trigger matches a new user message
+   * @param messageNumber - Position of the message in the topic (1-based), for every-n-messages
+   */
+  async runTriggeredTasks(topicId: string, message: string, messageNumber: number): Promise<CustomTaskResult[]> {
+    const tasks = (await this.getTasks(topicId)).filter(task => task.enabled && matchesTrigger(task, message, messageNumber));
+
+    const results: CustomTaskResult[] = [];
+    for (const task of tasks) {
+      results.push(await this.execute(task, message));
+    }
+    return results;
+  }
+
+  private async execute(task: CustomTaskDefinition, message?: string): Promise<CustomTaskResult> {
+    const { topicId } = task;
+    try {
+      const aiPersonId = (task.aiPersonId ?? this.topicManager.getAIPersonForTopic(topicId)) as SHA256IdHash<Person> | null;
+      if (!aiPersonId) {
+        throw new Error(`No AI in topic ${topicId} to run the task`);
+      }
+      const modelId = task.modelId ?? this.aiManager.getModelIdForAI(aiPersonId);
+      if (!modelId) {
+        throw new Error(`No model for AI ${aiPersonId}`);
+      }
+
+      const history = await this.readHistory(topicId);
+      const prompt = renderTemplate(task.promptTemplate, {
+        message: message ?? history.lastText ?? '',
+        history: history.text
+      });
+
+      const schema = task.outputSchema
+        ? JSON.parse(task.outputSchema)
+        : task.outputAction === 'attach-to-subject' ? SUBJECT_OUTPUT_SCHEMA : undefined;
+      const options = {
+        aiId: this.aiManager.getAIId(aiPersonId) ?? undefined,
+        requestClass: 'background',
+        disableTools: true
+      };
+
+      let output: unknown;
+      if (schema) {
+        const result = await this.llmManager.chatStructured(
+          [
+            {
+              role: 'system',
+              content: `You perform the task "${task.name}" on a conversation. Reply with JSON matching this schema only:\n${JSON.stringify(schema)}`
+            },
+            { role: 'user', content: prompt }
+          ],
+          modelId,
+          schema,
+          { ...options, maxRepairAttempts: 1 }
+        );
+        output = result.value;
+      } else {
+        const response = await this.llmManager.chat(
+          [
+            { role: 'system', content: `You perform the task "${task.name}" on a conversation. Reply with the result only.` },
+            { role: 'user', content: prompt }
+          ],
+          modelId,
+          options
+        );
+        output = (typeof response === 'string' ? response : response?.content ?? '').trim();
+      }
+
+      await this.applyOutput(task, aiPersonId, output);
+      MessageBus.send('debug', `Custom task "${task.name}" done in ${topicId}`);
+      return { taskId: task.taskId, name: task.name, status: 'done', output };
+    } catch (error: any) {
+      MessageBus.send('error', `Custom task "${task.name}" failed in ${topicId}:`, error);
+      return { taskId: task.taskId, name: task.name, status: 'failed', error: error.message ?? String(error) };
+    }
+  }
+
+  private async applyOutput(task: CustomTaskDefinition, aiPersonId: SHA256IdHash<Person>, output: unknown): Promise<void> {
+    const { topicId } = task;
+
+    if (task.outputAction === 'post-message') {
+      const text = formatOutput(output);
+      if (!text) {
+        return;  // Nothing to say
+      }
+      const topicRoom = await this.topicModel.enterTopicRoom(topicId);
+      await topicRoom.sendMessage(text, aiPersonId);
+      return;
+    }
+
+    const topicAnalysisModel = this.getTopicAnalysisModel();
+    if (!topicAnalysisModel) {
+      throw new Error(`TopicAnalysisModel not available for ${task.outputAction}`);
+    }
+    const subjects: any[] = (await topicAnalysisModel.getSubjects(topicId)).filter((s: any) => !s.archived);
+    const current = subjects.sort((a, b) => (b.lastSeenAt ?? 0) - (a.lastSeenAt ?? 0))[0];
+
+    if (task.outputAction === 'attach-to-subject') {
+      const value = output as { keywords?: unknown; description?: unknown };
+      const keywords = (Array.isArray(value?.keywords) ? value.keywords : [])
+        .filter((k): k is string => typeof k === 'string' && k.trim().length > 0)
+        .map(k => k.toLowerCase().trim());
+      if (keywords.length === 0) {
+        throw new Error('Task output has no keywords to attach');
+      }
+
+      if (current) {
+        for (const keyword of keywords) {
+          await topicAnalysisModel.addKeywordToSubject(topicId, keyword, current.idHash);
+        }
+      } else {
+        const description = typeof value.description === 'string' ? value.description : task.name;
+        const subject = await topicAnalysisModel.createSubject(topicId, keywords, [...keywords].sort().join('+'), description, 1.0);
+        topicAnalysisModel.setCachedSubjects(topicId, [...subjects, subject]);
+      }
+      return;
+    }
+
+    // update-summary
+    if (!current) {
+      throw new Error(`No subject in topic ${topicId} to summarize`);
+    }
+    const prose = formatOutput(output);
+    if (!prose) {
+      throw new Error('Task output is empty');
+    }
+    await topicAnalysisModel.createSummary(current.idHash, topicId, prose);
+  }
+
+  /**
+   * The topic's recent messages as "Name: text" lines
+   */
+  private async readHistory(topicId: string): Promise<{ text: string; lastText?: string }> {
+    const topicRoom = await this.topicModel.enterTopicRoom(topicId);
+    const messages: any[] = (await topicRoom.retrieveAllMessages()).slice(-HISTORY_MESSAGES);
+
+    const lines = messages
+      .filter(msg => msg.data?.text)
+      .map(msg => {
+        const sender = msg.data?.sender || msg.author;
+        const name = this.aiManager.isAI(sender) ? (this.aiManager.getAI(sender)?.displayName ?? 'AI') : 'User';
+        return `${name}: ${truncate(msg.data.text)}`;
+      });
+    return { text: lines.join('\n'), lastText: messages[messages.length - 1]?.data?.text };
+  }
+
+  private async getList(topicId: string): Promise<CustomTaskList | null> {
+    const idHash = await this.storage.calculateIdHashOfObj({
+      $type$: 'CustomTaskList' as const,
+      topicId
+    });
+
+    try {
+      const result = await this.storage.getObjectByIdHash(idHash);
+      return result.obj as CustomTaskList;
+    } catch (error: any) {
+      if (error.message?.includes('not found') || error.code === 'NOT_FOUND') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Serialized read-modify-write of a topic's tasks
+   * Changed definitions are stored, the list always.
+   */
+  private async write(topicId: string, change: (tasks: CustomTaskDefinition[]) => CustomTaskDefinition[]): Promise<void> {
+    const write = this.writeChain.then(async () => {
+      const current = await this.getTasks(topicId);
+      const tasks = change(current);
+
+      const taskIds = new Set<string>();
+      for (const task of tasks) {
+        if (!current.includes(task)) {
+          await this.storage.storeVersionedObject(task);
+        }
+        taskIds.add(await this.storage.calculateIdHashOfObj({
+          $type$: 'CustomTaskDefinition' as const,
+          topicId,
+          taskId: task.taskId
+        }));
+      }
+
+      const list: CustomTaskList = {
+        $type$: 'CustomTaskList',
+        topicId,
+        taskIds,
+        modified: Date.now()
+      };
+      await this.storage.storeVersionedObject(list);
+      this.cache.set(topicId, tasks);
+    });
+    this.writeChain = write.catch(() => undefined);
+    await write;
+  }
+}
+
+function matchesTrigger(task: CustomTaskDefinition, message: string, messageNumber: number): boolean {
+  const { trigger } = task;
+  switch (trigger.type) {
+    case 'every-message':
+      return true;
+    case 'keyword': {
+      const lower = message.toLowerCase();
+      return (trigger.keywords ?? []).some(keyword => keyword && lower.includes(keyword.toLowerCase()));
+    }
+    case 'every-n-messages':
+      return !!trigger.everyN && messageNumber % trigger.everyN === 0;
+    case 'manual':
+      return false;
+    default:
+      return false;
+  }
+}
+
+function validate(task: CustomTaskDefinition): CustomTaskDefinition {
+  if (!task.name?.trim()) {
+    throw new Error('Custom task needs a name');
+  }
+  if (!task.promptTemplate?.trim()) {
+    throw new Error('Custom task needs a prompt template');
+  }
+  if (task.trigger.type === 'keyword' && !task.trigger.keywords?.some(k => k.trim())) {
+    throw new Error('Keyword trigger needs at least one keyword');
+  }
+  if (task.trigger.type === 'every-n-messages'
+    && (!Number.isInteger(task.trigger.everyN) || (task.trigger.everyN as number) < 1)) {
+    throw new Error('every-n-messages trigger needs everyN >= 1');
+  }
+  if (task.outputSchema !== undefined) {
+    let schema: unknown;
+    try {
+      schema = JSON.parse(task.outputSchema);
+    } catch {
+      throw new Error('Output schema is not valid JSON');
+    }
+    if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+      throw new Error('Output schema must be a JSON schema object');
+    }
+  }
+  return task;
+}
+
+function withSerializedSchema<T extends Partial<CustomTaskInput>>(input: T): Omit<T, 'outputSchema'> & { outputSchema?: string } {
+  if (input.outputSchema === undefined || typeof input.outputSchema === 'string') {
+    return input as Omit<T, 'outputSchema'> & { outputSchema?: string };
+  }
+  return { ...input, outputSchema: JSON.stringify(input.outputSchema) };
+}
+
+/**
+ * Fill {{name}} placeholders - unknown ones stay as they are
+ */
+function renderTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) => values[name] ?? placeholder);
+}
+
+/**
+ * Task output as message text - structured output as markdown
+ */
+function formatOutput(output: unknown): string {
+  if (typeof output === 'string') {
+    return output.trim();
+  }
+  if (Array.isArray(output)) {
+    return output.map(item => `- ${typeof item === 'string' ? item : JSON.stringify(item)}`).join('\n');
+  }
+  if (output && typeof output === 'object') {
+    return Object.entries(output)
+      .map(([key, value]) => `**${key}**\n${formatOutput(value)}`)
+      .join('\n\n');
+  }
+  return output === undefined || output === null ? '' : String(output);
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_MESSAGE_CHARS ? `${text.slice(0, MAX_MESSAGE_CHARS)}…` : text;
+}
@@ -7,8 +7,9 @@
  * Responsibilities:
  * - Listen to channelManager.onUpdated() events
  * - Detect messages in AI topics based on Topic.aiParticipants settings
- * - Trigger AI response generation for responding AIs
+ * - Trigger AI response generation for the responding AIs the topic's turn policy selects
  * - Debounce rapid updates
+ * - Report topic changes (onTopicChanged) for caches built on a topic's messages
  *
  * This class is platform-agnostic and works on both browser and Node.js.
  */
@@ -27,6 +28,8 @@ export interface AIMessageListenerDeps {
     topicModel: TopicModel;
     aiPlan: AIAssistantPlan;
     ownerId?: SHA256IdHash<Person>;
+    /** Called for every update of a topic's channel, AI topic or not */
+    onTopicChanged?: (topicId: string) => void;
 }
 
 /**
@@ -86,6 +89,8 @@ export class AIMessageListener {
                     return;
                 }
 
+                this.deps.onTopicChanged?.(topic.id);
+
                 // Check if this topic has responding AIs based on settings
                 // Priority: Check Topic.aiParticipants (new settings) → fallback to isAITopic (legacy)
                 let respondingAIPersonIds: SHA256IdHash<Person>[] = [];
@@ -189,35 +194,52 @@ export class AIMessageListener {
                 return;
             }
 
-            // Find the last USER message (non-AI) that needs responses
-            // Walk backwards through messages to find it
-            let lastUserMessage = null;
-            for (let i = messages.length - 1; i >= 0; i--) {
-                const msg = messages[i];
-                const sender = msg.data?.sender || msg.author;
-                const isAI = this.deps.aiPlan.isAIPerson(sender);
-                if (!isAI) {
-                    lastUserMessage = msg;
-                    break;
+            // Find the message that needs responses: the last one if it is an
+            // AI message and the topic lets AIs answer each other, else the
+            // last USER message (non-AI) - walk backwards through messages to find it
+            let triggerIndex = -1;
+            const lastMessage = messages[messages.length - 1];
+            if (this.deps.aiPlan.isAIPerson(lastMessage.data?.sender || lastMessage.author)) {
+                const policy = await this.deps.aiPlan.getTurnPolicy(topic.id);
+                if (policy.allowAIReplies) {
+                    triggerIndex = messages.length - 1;
+                }
+            }
+            if (triggerIndex === -1) {
+                for (let i = messages.length - 1; i >= 0; i--) {
+                    const msg = messages[i];
+                    const sender = msg.data?.sender || msg.author;
+                    const isAI = this.deps.aiPlan.isAIPerson(sender);
+                    if (!isAI) {
+                        triggerIndex = i;
+                        break;
+                    }
                 }
             }
 
-            if (!lastUserMessage) {
+            if (triggerIndex === -1) {
                 console.log(`[AIMessageListener] No user message found in topic - skipping`);
                 return;
             }
 
-            const messageText = lastUserMessage.data?.text;
-            const messageSender = lastUserMessage.data?.sender || lastUserMessage.author;
+            // History copied into a forked topic was answered in its source topic
+            if (triggerIndex < await this.deps.aiPlan.getForkPrefixLength(topic.id)) {
+                console.log(`[AIMessageListener] Message copied from the forked topic - skipping`);
+                return;
+            }
+
+            const triggerMessage = messages[triggerIndex];
+            const messageText = triggerMessage.data?.text;
+            const messageSender = triggerMessage.data?.sender || triggerMessage.author;
 
-            console.log(`[AIMessageListener] Last user message from ${messageSender?.toString().substring(0, 8)}...: text="${messageText?.substring(0, 50)}..."`);
+            console.log(`[AIMessageListener] Last message to answer from ${messageSender?.toString().substring(0, 8)}...: text="${messageText?.substring(0, 50)}..."`);
 
             // Check if message is recent (within last 30 seconds to allow for multi-AI responses)
-            const messageAge = Date.now() - new Date(lastUserMessage.creationTime).getTime();
+            const messageAge = Date.now() - new Date(triggerMessage.creationTime).getTime();
             const isRecent = messageAge < 30000;
 
             if (!isRecent) {
-                console.log(`[AIMessageListener] User message too old (${messageAge}ms) - skipping`);
+                console.log(`[AIMessageListener] Message too old (${messageAge}ms) - skipping`);
                 return;
             }
 
@@ -227,8 +249,8 @@ export class AIMessageListener {
                 return;
             }
 
-            // Create a unique identifier for this user message
-            const messageIdentifier = `${topic.id}-${lastUserMessage.creationTime}-${messageSender}`;
+            // Create a unique identifier for this message
+            const messageIdentifier = `${topic.id}-${triggerMessage.creationTime}-${messageSender}`;
 
             // Get or create tracking set for this message
             if (!this.aiResponseTracking.has(messageIdentifier)) {
@@ -236,9 +258,15 @@ export class AIMessageListener {
             }
             const respondedAIs = this.aiResponseTracking.get(messageIdentifier)!;
 
-            // Find AIs that haven't responded yet
+            // Custom tasks of the topic run once per user message, whoever answers it
+            if (respondedAIs.size === 0 && !this.deps.aiPlan.isAIPerson(messageSender)) {
+                this.deps.aiPlan.runCustomTasksForMessage(topic.id, messageText, triggerIndex + 1)
+                    .catch(err => console.error(`[AIMessageListener] Custom tasks failed:`, err));
+            }
+
+            // Find AIs that haven't responded yet - an AI never answers itself
             const pendingAIs = respondingAIPersonIds.filter(
-                aiId => !respondedAIs.has(aiId.toString())
+                aiId => !respondedAIs.has(aiId.toString()) && aiId !== messageSender
             );
 
             if (pendingAIs.length === 0) {
@@ -254,11 +282,30 @@ export class AIMessageListener {
                 entries.slice(0, entries.length - 50).forEach(key => this.aiResponseTracking.delete(key));
             }
 
-            // Process message for each pending AI independently
+            // Mark all pending AIs as handled BEFORE selecting (prevents re-entry) -
+            // the ones the turn policy passes over must not answer on a later update
             for (const aiPersonId of pendingAIs) {
-                // Mark this AI as having responded BEFORE triggering (prevents re-entry)
                 respondedAIs.add(aiPersonId.toString());
+            }
+
+            // Topic's turn policy decides who speaks (round-robin, mentions, bids, moderator, loop guard)
+            const recentSenderIds = messages
+                .slice(Math.max(0, triggerIndex - 50), triggerIndex)
+                .map(msg => msg.data?.sender || msg.author);
+            const speakers = await this.deps.aiPlan.selectRespondingAIs(
+                topic.id,
+                { text: messageText, senderId: messageSender },
+                pendingAIs,
+                recentSenderIds
+            );
+
+            if (speakers.length === 0) {
+                console.log(`[AIMessageListener] Turn policy selected no AI for this message`);
+                return;
+            }
 
+            // Process message for each selected AI independently
+            for (const aiPersonId of speakers) {
                 console.log(`[AIMessageListener] Triggering response from AI: ${aiPersonId.substring(0, 8)}...`);
                 // Delegate to AIAssistantPlan for AI response generation
                 // Don't await - let AIs respond independently/in parallel
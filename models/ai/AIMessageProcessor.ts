@@ -24,8 +24,11 @@ import type { IAIMessageProcessor, IAIPromptBuilder, IAITaskManager } from './in
 import type { LLMModelInfo, MessageQueueEntry } from './types.js';
 import type { LLMPlatform } from '../../services/llm-platform.js';
 import OneObjectCache from '@refinio/one.models/lib/api/utils/caches/OneObjectCache.js';
-import { formatForStandardAPI } from '../../services/context-budget-manager.js';
+import { formatForStandardAPI, getPromptCacheHint } from '../../services/context-budget-manager.js';
 import { storeUTF8Clob } from '@refinio/one.core/lib/storage-blob.js';
+import { serializeTrace, type ToolTrace } from '../../services/tool-trace.js';
+import type { AgentStepEvent } from '../../services/AIToolExecutor.js';
+import type { ModelSwitchEvent } from '../../services/llm-failover.js';
 
 export class AIMessageProcessor implements IAIMessageProcessor {
   // Circular dependencies - injected via setters
@@ -42,6 +45,9 @@ export class AIMessageProcessor implements IAIMessageProcessor {
   // Message processing tracking (topicId:aiPersonId → promise) - prevents duplicate processing per AI
   private processingInProgress: Map<string, Promise<any>>;
 
+  // Stop generating (topicId:aiPersonId → controller of the running response)
+  private responseControllers: Map<string, AbortController>;
+
   // Available LLM models
   private availableModels: LLMModelInfo[];
 
@@ -62,6 +68,7 @@ export class AIMessageProcessor implements IAIMessageProcessor {
     this.pendingMessageQueues = new Map();
     this.welcomeGenerationInProgress = new Map();
     this.processingInProgress = new Map();
+    this.responseControllers = new Map();
     this.availableModels = [];
     this.personCache = new OneObjectCache<Person>(['Person']);
 
@@ -129,12 +136,14 @@ export class AIMessageProcessor implements IAIMessageProcessor {
    * @param message - The message text
    * @param senderId - The sender's Person ID
    * @param aiPersonIdOverride - Optional: specific AI to respond (from settings-based routing)
+   * @param options.modelId - Optional: answer with this model instead of the AI's (regenerate)
    */
   async processMessage(
     topicId: string,
     message: string,
     senderId: SHA256IdHash<Person>,
-    aiPersonIdOverride?: SHA256IdHash<Person>
+    aiPersonIdOverride?: SHA256IdHash<Person>,
+    options: { modelId?: string } = {}
   ): Promise<string | null> {
     const t0 = Date.now()
     console.log(`[AIMessageProcessor] processMessage called for topic ${topicId.substring(0, 16)}... message: "${message.substring(0, 20)}..."`);
@@ -172,6 +181,7 @@ export class AIMessageProcessor implements IAIMessageProcessor {
       // Check if message processing is already in progress for THIS AI in THIS topic
       // This prevents duplicate processing when AI's own stored message triggers channel update
       // Key is topicId:aiPersonId to allow multiple AIs to process the same topic simultaneously
+      // (which of them answer is decided before, by the topic's turn policy - see AITurnCoordinator)
       const processingKey = `${topicId}:${aiPersonId}`;
       if (this.processingInProgress.has(processingKey)) {
         MessageBus.send('debug', `Message processing already in progress for AI ${aiPersonId.toString().substring(0, 8)} in ${topicId}, skipping duplicate`);
@@ -179,7 +189,7 @@ export class AIMessageProcessor implements IAIMessageProcessor {
       }
 
       // Resolve AI Person → Model ID
-      const modelId = this.aiManager.getModelIdForAI(aiPersonId);
+      const modelId = options.modelId ?? this.aiManager.getModelIdForAI(aiPersonId);
       if (!modelId) {
         MessageBus.send('error', 'Could not get model ID from AI Person');
         return null;
@@ -218,9 +228,15 @@ export class AIMessageProcessor implements IAIMessageProcessor {
       const model = this.llmManager?.getModel(modelId);
       const modelName = model?.name || model?.displayName;
 
+      // Updated if LLMManager fails over to another model mid-request
+      let answeringModelId = modelId;
+      let answeringModelName = modelName;
+
       // Mark this AI as having processing in progress for this topic
       // This prevents duplicate processing when AI's stored message triggers channel update
       this.processingInProgress.set(processingKey, Promise.resolve());
+      const responseController = new AbortController();
+      this.responseControllers.set(processingKey, responseController);
 
       // Emit thinking indicator via platform
       if (this.platform) {
@@ -247,6 +263,10 @@ export class AIMessageProcessor implements IAIMessageProcessor {
         {
           topicId,  // Pass topicId for analysis
           priority: topicPriority,  // Pass priority for concurrency management
+          callerId: aiPersonId,  // Identity for tool calls (PolicyEngine, audit trail)
+          aiId: this.aiManager.getAIId(aiPersonId) ?? undefined,  // Selects the AI's fallback chain
+          promptCache: getPromptCacheHint(promptParts),  // part1/part2 boundaries for prompt caching
+          signal: responseController.signal,  // stopGenerating(topicId)
           onProgress: (status: string) => {
             // Send Phase 0 progress updates to UI
             if (this.platform) {
@@ -258,7 +278,7 @@ export class AIMessageProcessor implements IAIMessageProcessor {
 
             // Send streaming updates via platform
             if (this.platform) {
-              this.platform.emitMessageUpdate(topicId, messageId, fullResponse, 'streaming', modelId, modelName);
+              this.platform.emitMessageUpdate(topicId, messageId, fullResponse, 'streaming', answeringModelId, answeringModelName);
             } else {
               MessageBus.send('alert', 'No platform available for streaming');
             }
@@ -275,18 +295,55 @@ export class AIMessageProcessor implements IAIMessageProcessor {
               MessageBus.send('error', 'NO PLATFORM - cannot emit thinking stream');
             }
           },
+          onToolStep: (step: AgentStepEvent) => {
+            // Intermediate tool steps of the agent loop - shown as progress status
+            if (this.platform && step.type === 'tool_start') {
+              this.platform.emitThinkingUpdate(topicId, messageId, `Using ${step.tool}...`);
+            }
+          },
+          onModelSwitch: (event: ModelSwitchEvent) => {
+            // Fallback model takes over - it streams from the start
+            if (event.restartStream) {
+              fullResponse = '';
+              fullThinking = '';
+            }
+            const fallback = this.llmManager?.getModel(event.toModelId);
+            answeringModelId = event.toModelId;
+            answeringModelName = fallback?.name || fallback?.displayName || event.toModelId;
+            if (this.platform) {
+              this.platform.emitThinkingUpdate(topicId, messageId, `${event.fromModelId} unavailable - answering with ${answeringModelName}...`);
+            }
+          },
           onAnalysis: (analysis: { keywords: string[]; description?: string; language?: string; summaryUpdate?: string }) => {
             // Phase 2 analytics callback - receives keywords, description, and summaryUpdate
             MessageBus.send('debug', `Phase 2 analytics received: ${analysis.keywords.length} keywords`);
             // Analysis will be included in onComplete callback
           },
-          onComplete: async (completionResult: { response: string; thinking?: string; analysis?: any }) => {
+          onCancelled: () => {
+            // Stopped by the user - nothing is stored, the UI keeps what was streamed
+            MessageBus.send('debug', `Response cancelled in ${topicId} after ${fullResponse.length} chars`);
+            this.responseControllers.delete(processingKey);
+            this.processingInProgress.delete(processingKey);
+            if (this.platform) {
+              this.platform.emitMessageUpdate(topicId, messageId, fullResponse, 'cancelled', answeringModelId, answeringModelName);
+            }
+          },
+          onComplete: async (completionResult: { response: string; thinking?: string; analysis?: any; toolTrace?: ToolTrace; answeredBy?: string }) => {
+            this.responseControllers.delete(processingKey);
+
             // ✅ CONSOLIDATED PERSISTENCE: Store message with analytics after Phase 2 completes
             MessageBus.send('debug', `onComplete - response: ${completionResult.response?.length || 0} chars, analysis: ${completionResult.analysis ? 'yes' : 'no'}`);
 
             const response = completionResult.response;
             const thinking = completionResult.thinking;
             const analysis = completionResult.analysis;
+            const toolTrace = completionResult.toolTrace;
+
+            // Sent with 'complete' - the UI notes when a fallback model answered instead of the AI's own model
+            const fallbackFrom = completionResult.answeredBy ? modelName || modelId : undefined;
+            const completeContent = analysis?.language || fallbackFrom
+              ? { response, language: analysis?.language, fallbackFrom }
+              : response;
 
             // NOTE: emitMessageUpdate('complete') is called AFTER message is stored (see below)
             // This ensures the UI can fetch the persisted message when it receives the event
@@ -310,10 +367,11 @@ export class AIMessageProcessor implements IAIMessageProcessor {
               if (topicRoom) {
                 // Post the AI's response to the topic's existing channel (owned by user)
                 // AI is the author, but use topic's channel (undefined = current user default)
+                const attachments: Array<{ hash: SHA256Hash; type: 'CLOB'; metadata: { name: string; mimeType: string; size: number } }> = [];
                 if (thinking) {
                   // Store thinking as CLOB attachment
                   const thinkingClob = await storeUTF8Clob(thinking);
-                  await topicRoom.sendMessageWithAttachmentAsHash(response, [{
+                  attachments.push({
                     hash: thinkingClob.hash as unknown as SHA256Hash,
                     type: 'CLOB',
                     metadata: {
@@ -321,8 +379,26 @@ export class AIMessageProcessor implements IAIMessageProcessor {
                       mimeType: 'text/plain',
                       size: new TextEncoder().encode(thinking).length
                     }
-                  }], aiPersonId);
-                  MessageBus.send('debug', `Stored AI response with thinking to ${topicId}`);
+                  });
+                }
+                if (toolTrace && toolTrace.steps.length > 0) {
+                  // Store the tool trace so the steps behind the answer stay inspectable
+                  const traceJson = serializeTrace(toolTrace);
+                  const traceClob = await storeUTF8Clob(traceJson);
+                  attachments.push({
+                    hash: traceClob.hash as unknown as SHA256Hash,
+                    type: 'CLOB',
+                    metadata: {
+                      name: 'tool-trace.json',
+                      mimeType: 'application/json',
+                      size: new TextEncoder().encode(traceJson).length
+                    }
+                  });
+                }
+
+                if (attachments.length > 0) {
+                  await topicRoom.sendMessageWithAttachmentAsHash(response, attachments, aiPersonId);
+                  MessageBus.send('debug', `Stored AI response with ${attachments.length} attachment(s) to ${topicId}`);
                 } else {
                   await topicRoom.sendMessage(response, aiPersonId);
                   MessageBus.send('debug', `Stored AI response to ${topicId}`);
@@ -342,8 +418,7 @@ export class AIMessageProcessor implements IAIMessageProcessor {
 
                 // NOW emit completion - message is persisted, UI can fetch it
                 if (this.platform) {
-                  const content = analysis?.language ? { response, language: analysis.language } : response;
-                  this.platform.emitMessageUpdate(topicId, messageId, content, 'complete', modelId, modelName);
+                  this.platform.emitMessageUpdate(topicId, messageId, completeContent, 'complete', answeringModelId, answeringModelName);
                 }
                 // Clear processing flag - message is stored and complete event sent
                 this.processingInProgress.delete(processingKey);
@@ -351,8 +426,7 @@ export class AIMessageProcessor implements IAIMessageProcessor {
                 MessageBus.send('error', `Could not enter topic room ${topicId}`);
                 // Still emit completion so UI clears processing state
                 if (this.platform) {
-                  const content = analysis?.language ? { response, language: analysis.language } : response;
-                  this.platform.emitMessageUpdate(topicId, messageId, content, 'complete', modelId, modelName);
+                  this.platform.emitMessageUpdate(topicId, messageId, completeContent, 'complete', answeringModelId, answeringModelName);
                 }
                 // Clear processing flag even on error
                 this.processingInProgress.delete(processingKey);
@@ -361,8 +435,7 @@ export class AIMessageProcessor implements IAIMessageProcessor {
               MessageBus.send('error', 'Failed to store AI response:', error);
               // Still emit completion so UI clears processing state
               if (this.platform) {
-                const content = analysis?.language ? { response, language: analysis.language } : response;
-                this.platform.emitMessageUpdate(topicId, messageId, content, 'complete', modelId, modelName);
+                this.platform.emitMessageUpdate(topicId, messageId, completeContent, 'complete', answeringModelId, answeringModelName);
               }
               // Clear processing flag even on error
               this.processingInProgress.delete(processingKey);
@@ -384,6 +457,7 @@ export class AIMessageProcessor implements IAIMessageProcessor {
       // Clear processing flag on error (processingKey may not be defined if error happened early)
       const errorKey = `${topicId}:${aiPersonIdOverride || 'unknown'}`;
       this.processingInProgress.delete(errorKey);
+      this.responseControllers.delete(errorKey);
 
       // Emit error via platform
       if (this.platform) {
@@ -394,6 +468,23 @@ export class AIMessageProcessor implements IAIMessageProcessor {
     }
   }
 
+  /**
+   * Stop generating: abort every running AI response in a topic
+   * Cancels the model call (any provider), a queued request and pending tool calls.
+   * @returns true if a response was running
+   */
+  stopGenerating(topicId: string): boolean {
+    let stopped = false;
+    for (const [key, controller] of this.responseControllers) {
+      if (key.startsWith(`${topicId}:`)) {
+        controller.abort();
+        this.responseControllers.delete(key);
+        stopped = true;
+      }
+    }
+    return stopped;
+  }
+
   /**
    * Check if a message is from an AI
    */
@@ -537,6 +628,7 @@ export class AIMessageProcessor implements IAIMessageProcessor {
       const chatOptions = {
         topicId,  // Pass topicId for concurrency tracking
         priority: topicPriority,  // Pass priority for concurrency management
+        requestClass: 'background' as const,  // Yields to user messages on local models
         onStream: (chunk: string) => {
           fullResponse += chunk;
 
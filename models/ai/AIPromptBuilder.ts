@@ -22,8 +22,16 @@ import {
   buildContextWithinBudget,
   formatForAnthropicWithCaching,
   formatForStandardAPI,
+  getBudgetStats,
+  type ContextMessage,
   type PromptParts
 } from '../../services/context-budget-manager.js';
+import { resolveCapabilities, toLLMCapabilities } from '../../services/capability-resolver.js';
+import { renderPartsAsText, hasImageData } from '../../services/llm-adapters/content-format.js';
+import type { ChatContentPart } from '../../services/llm-adapters/types.js';
+import { resolveAttachmentParts } from './AIAttachmentResolver.js';
+import { messageHashOf } from './AIBranchManager.js';
+import { getTokenizer } from '../../services/tokenizer.js';
 import { calculateAbstractionLevel } from '../../services/abstraction-level-calculator.js';
 import type { SubjectForSummary } from '../../services/subject-summarizer.js';
 
@@ -31,6 +39,9 @@ export class AIPromptBuilder implements IAIPromptBuilder {
   // Circular dependency - injected via setter
   private messageProcessor?: IAIMessageProcessor;
 
+  // Superseded conversation branches - injected via setter
+  private branchManager?: { getSupersededHashes(topicId: string): Promise<Set<string>> };
+
   // Last restart points (topicId → message count)
   private lastRestartPoint: Map<string, number>;
 
@@ -42,6 +53,9 @@ export class AIPromptBuilder implements IAIPromptBuilder {
   private messageCache: Map<string, { messages: any[]; timestamp: number }>;
   private readonly MESSAGE_CACHE_TTL = 5000; // 5 seconds
 
+  // Images are only loaded for the most recent messages - older ones become placeholders
+  private readonly IMAGE_HISTORY_WINDOW = 10;
+
   constructor(
     _leuteModel: LeuteModel,
     _channelManager: ChannelManager,
@@ -64,6 +78,13 @@ export class AIPromptBuilder implements IAIPromptBuilder {
     this.messageProcessor = processor;
   }
 
+  /**
+   * Set branch manager - superseded messages are left out of prompts
+   */
+  setBranchManager(manager: { getSupersededHashes(topicId: string): Promise<Set<string>> }): void {
+    this.branchManager = manager;
+  }
+
   /**
    * Get participants for a topic with name and AI status enrichment
    */
@@ -160,6 +181,7 @@ export class AIPromptBuilder implements IAIPromptBuilder {
 
       const model = await this.getModelById(modelId);
       const contextWindow = model?.contextLength || 8192; // Default to Ollama-scale (most local models)
+      const supportsVision = resolveCapabilities(modelId || 'unknown', toLLMCapabilities(model?.discoveredCapabilities), model?.provider).supportsVision === true;
 
       // Get system prompt (will be Part 1)
       const systemPrompt = await this.buildSystemPrompt(topicId);
@@ -170,7 +192,16 @@ export class AIPromptBuilder implements IAIPromptBuilder {
 
       // Get messages from current topic (will be Part 3)
       const allMessages = await this.getCachedMessages(topicId);
-      const currentSubjectMessages = await this.formatMessagesForContext(allMessages);
+      const currentSubjectMessages = await this.formatMessagesForContext(allMessages, supportsVision);
+
+      // The triggering message is already stored - its images go with Part 4, once
+      let currentMessageParts: ChatContentPart[] | undefined;
+      const lastMessage = currentSubjectMessages[currentSubjectMessages.length - 1];
+      const firstPart = lastMessage?.parts?.[0];
+      if (lastMessage?.role === 'user' && (firstPart?.type === 'text' ? firstPart.text === newMessage : !newMessage.trim())) {
+        currentMessageParts = lastMessage.parts;
+        delete lastMessage.parts;
+      }
 
       // Build context using budget manager with abstraction-based compression
       const promptParts = buildContextWithinBudget({
@@ -180,12 +211,16 @@ export class AIPromptBuilder implements IAIPromptBuilder {
         pastSubjects,
         currentSubjectMessages,
         currentMessage: newMessage,
+        currentMessageParts,
         targetPastSubjectCount: 20,
         targetMessageLimit: 30
       });
 
       // Log budget info
+      const stats = getBudgetStats(promptParts.budget);
       console.log(`[AIPromptBuilder] Context budget:`, {
+        tokenizer: stats.tokenizer,
+        utilization: `${stats.utilizationPercent.toFixed(1)}% (${stats.status})`,
         total: promptParts.totalTokens,
         part1: promptParts.part1.tokens,
         part2: promptParts.part2.tokens,
@@ -291,8 +326,8 @@ export class AIPromptBuilder implements IAIPromptBuilder {
    * Format messages for context (Part 3)
    * Skips the first message if it's from AI (welcome message - shown in UI but not in prompt)
    */
-  private async formatMessagesForContext(messages: any[]): Promise<Array<{ role: 'system' | 'user' | 'assistant'; content: string }>> {
-    const formatted: Array<{ role: 'system' | 'user' | 'assistant'; content: string }> = [];
+  private async formatMessagesForContext(messages: any[], supportsVision: boolean = false): Promise<ContextMessage[]> {
+    const formatted: ContextMessage[] = [];
 
     for (let i = 0; i < messages.length; i++) {
       const msg = messages[i];
@@ -306,7 +341,24 @@ export class AIPromptBuilder implements IAIPromptBuilder {
         continue;
       }
 
-      if (text && text.trim()) {
+      // User attachments: images for vision models, extracted text for documents
+      const attachments = (msg as any).data?.attachments || (msg as any).attachments;
+      const attachmentParts = !isAI && attachments?.length
+        ? await resolveAttachmentParts(attachments, {
+            loadImages: supportsVision && i >= messages.length - this.IMAGE_HISTORY_WINDOW
+          })
+        : [];
+
+      if (attachmentParts.length > 0) {
+        const parts: ChatContentPart[] = text && text.trim()
+          ? [{ type: 'text', text }, ...attachmentParts]
+          : attachmentParts;
+        formatted.push({
+          role: 'user',
+          content: renderPartsAsText(parts),
+          ...(hasImageData(parts) ? { parts } : {})
+        });
+      } else if (text && text.trim()) {
         formatted.push({
           role: isAI ? 'assistant' : 'user',
           content: text
@@ -348,10 +400,11 @@ export class AIPromptBuilder implements IAIPromptBuilder {
     // Reserve 25% for response and system prompts
     const usableContext = Math.floor(contextWindow * 0.75);
 
-    // Estimate token count (rough: 1 token ≈ 4 chars for English)
+    // Count tokens with the model's tokenizer (calibrated against reported usage)
+    const tokenizer = getTokenizer(modelId);
     const estimatedTokens = messages.reduce((total, msg) => {
       const text = (msg as any).data?.text || (msg as any).text || '';
-      return total + Math.ceil(text.length / 4);
+      return total + tokenizer.count(text);
     }, 0);
 
     // Add estimated system prompt tokens
@@ -620,7 +673,13 @@ export class AIPromptBuilder implements IAIPromptBuilder {
     // Cache miss or expired - load fresh
     console.log(`[AIPromptBuilder] Message cache MISS for topic ${topicId} - loading from channel`);
     const topicRoom = await this.topicModel.enterTopicRoom(topicId);
-    const messages = await topicRoom.retrieveAllMessages();
+    let messages = await topicRoom.retrieveAllMessages();
+
+    // Only the active branch of the conversation
+    const superseded = await this.branchManager?.getSupersededHashes(topicId);
+    if (superseded?.size) {
+      messages = messages.filter((msg: any) => !superseded.has(messageHashOf(msg)));
+    }
 
     // Store in cache
     this.messageCache.set(topicId, {
@@ -0,0 +1,499 @@
+/**
+ * AIResearchRunner
+ *
+ * Runs research tasks (AITaskType 'research') as a multi-step pipeline:
+ * 1. planning:  the model splits the question into sub-queries
+ * 2. gathering: per sub-query, evidence from past subjects (TopicAnalysisModel)
+ *               and from an agent loop over the available tools (AIToolExecutor:
+ *               MCP tools, memory search)
+ * 3. reporting: the model writes a structured report citing the evidence [E1],
+ *               which is posted into the topic by the researching AI
+ *
+ * Every step is stored in the topic's TopicResearch object, so a run interrupted
+ * by an app restart resumes with the first unfinished sub-query (resumeAll).
+ * reportPostedAt is stored before the report is sent, so a resumed run never
+ * posts it twice (at the cost of losing it if the app stopped mid-send).
+ * Progress is reported via platform.emitThinkingStatus (LLM_STATUS).
+ */
+
+import type { SHA256IdHash } from '@refinio/one.core/lib/util/type-checks.js';
+import type { Person } from '@refinio/one.core/lib/recipes.js';
+import { createMessageBus } from '@refinio/one.core/lib/message-bus.js';
+import type { ResearchEvidence, ResearchRun, TopicResearch } from '@OneObjectInterfaces';
+import type { GlobalLLMSettingsManagerDeps } from '../settings/GlobalLLMSettingsManager.js';
+import type { AIManager } from './AIManager.js';
+import type { AITopicManager } from './AITopicManager.js';
+import type { LLMPlatform } from '../../services/llm-platform.js';
+import type { AgentStepEvent } from '../../services/AIToolExecutor.js';
+import type { ToolTrace } from '../../services/tool-trace.js';
+
+const MessageBus = createMessageBus('AIResearchRunner');
+
+const SUB_QUERY_LIMIT = { shallow: 3, deep: 6 } as const;
+/** Past subjects cited per sub-query */
+const MAX_SUBJECT_EVIDENCE = 3;
+/** Tool results cited per sub-query */
+const MAX_TOOL_EVIDENCE = 5;
+const MAX_EXCERPT_CHARS = 800;
+/** Finished runs kept per topic */
+const MAX_FINISHED_RUNS = 20;
+
+export type AIResearchRunnerDeps = GlobalLLMSettingsManagerDeps;
+
+export interface ResearchRequest {
+  topicId: string;
+  question: string;
+  /** Researching AI - defaults to the topic's AI */
+  aiPersonId?: SHA256IdHash<Person>;
+  /** Defaults to the AI's model */
+  modelId?: string;
+  depth?: ResearchRun['depth'];
+  /** 'tools' and/or 'subjects' - empty = all */
+  sources?: string[];
+}
+
+const PLAN_SCHEMA = {
+  type: 'object',
+  properties: {
+    subQueries: { type: 'array', items: { type: 'string' }, minItems: 1 }
+  },
+  required: ['subQueries']
+};
+
+const REPORT_SCHEMA = {
+  type: 'object',
+  properties: {
+    title: { type: 'string' },
+    summary: { type: 'string' },
+    sections: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          heading: { type: 'string' },
+          body: { type: 'string' }
+        },
+        required: ['heading', 'body']
+      }
+    },
+    openQuestions: { type: 'array', items: { type: 'string' } }
+  },
+  required: ['title', 'summary', 'sections']
+};
+
+export class AIResearchRunner {
+  // topicId → research runs (null = none stored)
+  private cache = new Map<string, TopicResearch | null>();
+  private writeChain: Promise<unknown> = Promise.resolve();
+  // researchIds executing in this process
+  private running = new Set<string>();
+
+  constructor(
+    private storage: AIResearchRunnerDeps,
+    private topicModel: any, // TopicModel
+    private llmManager: any, // LLMManager interface
+    private topicManager: AITopicManager,
+    private aiManager: AIManager,
+    private getTopicAnalysisModel: () => any,
+    private platform?: LLMPlatform
+  ) {}
+
+  /**
+   * Start a research run in the background
+   * @returns The research ID - the report is posted into the topic when done
+   */
+  async start(request: ResearchRequest): Promise<string> {
+    const aiPersonId = request.aiPersonId ?? this.topicManager.getAIPersonForTopic(request.topicId);
+    if (!aiPersonId) {
+      throw new Error(`No AI in topic ${request.topicId} to run the research`);
+    }
+    const modelId = request.modelId ?? this.aiManager.getModelIdForAI(aiPersonId);
+    if (!modelId) {
+      throw new Error(`No model for AI ${aiPersonId}`);
+    }
+
+    const run: ResearchRun = {
+      researchId: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      question: request.question.trim(),
+      status: 'planning',
+      depth: request.depth ?? 'shallow',
+      sources: request.sources ?? [],
+      aiPersonId: aiPersonId.toString(),
+      modelId,
+      subQueries: [],
+      evidence: [],
+      created: Date.now()
+    };
+    if (!run.question) {
+      throw new Error('Research question is empty');
+    }
+
+    await this.saveRun(request.topicId, run);
+    this.launch(request.topicId, run.researchId);
+    return run.researchId;
+  }
+
+  /**
+   * Resume the unfinished runs of the given topics (after an app restart)
+   * @returns Number of resumed runs
+   */
+  async resumeAll(topicIds: string[]): Promise<number> {
+    let resumed = 0;
+    for (const topicId of topicIds) {
+      const research = await this.getResearch(topicId);
+      for (const run of research?.runs ?? []) {
+        if (!isFinished(run) && !this.running.has(run.researchId)) {
+          MessageBus.send('log', `Resuming research ${run.researchId} in ${topicId} (${run.status})`);
+          this.launch(topicId, run.researchId);
+          resumed++;
+        }
+      }
+    }
+    return resumed;
+  }
+
+  /**
+   * Get the research runs of a topic, newest last
+   */
+  async getRuns(topicId: string): Promise<ResearchRun[]> {
+    return (await this.getResearch(topicId))?.runs ?? [];
+  }
+
+  private launch(topicId: string, researchId: string): void {
+    this.running.add(researchId);
+    this.execute(topicId, researchId)
+      .catch(async (error: any) => {
+        MessageBus.send('error', `Research ${researchId} failed:`, error);
+        await this.updateRun(topicId, researchId, run => ({ ...run, status: 'failed', error: error.message ?? String(error), completed: Date.now() }))
+          .catch(storeError => MessageBus.send('error', `Could not store failed research ${researchId}:`, storeError));
+        this.emitStatus(topicId, `Research failed: ${error.message ?? error}`);
+      })
+      .finally(() => this.running.delete(researchId));
+  }
+
+  private async execute(topicId: string, researchId: string): Promise<void> {
+    let run = await this.requireRun(topicId, researchId);
+
+    if (run.status === 'planning') {
+      this.emitStatus(topicId, 'Research: planning sub-queries...');
+      const subQueries = await this.planSubQueries(run);
+      run = await this.updateRun(topicId, researchId, current => ({
+        ...current,
+        status: 'gathering',
+        subQueries: subQueries.map(query => ({ query, status: 'pending' as const }))
+      }));
+    }
+
+    if (run.status === 'gathering') {
+      for (let index = 0; index < run.subQueries.length; index++) {
+        const subQuery = run.subQueries[index];
+        if (subQuery.status !== 'pending') {
+          continue;
+        }
+
+        this.emitStatus(topicId, `Research (${index + 1}/${run.subQueries.length}): ${subQuery.query}`);
+        try {
+          const { evidence, findings } = await this.gather(topicId, run, index);
+          run = await this.updateRun(topicId, researchId, current => {
+            const refs = evidence.map((item, i) => ({ ...item, ref: `E${current.evidence.length + i + 1}` }));
+            return {
+              ...current,
+              evidence: [...current.evidence, ...refs],
+              subQueries: current.subQueries.map((q, i) => i === index ? { ...q, status: 'done' as const, findings } : q)
+            };
+          });
+        } catch (error: any) {
+          MessageBus.send('alert', `Sub-query "${subQuery.query}" failed: ${error.message}`);
+          run = await this.updateRun(topicId, researchId, current => ({
+            ...current,
+            subQueries: current.subQueries.map((q, i) => i === index ? { ...q, status: 'failed' as const, error: error.message ?? String(error) } : q)
+          }));
+        }
+      }
+
+      if (!run.subQueries.some(q => q.status === 'done')) {
+        throw new Error('No sub-query could be researched');
+      }
+      run = await this.updateRun(topicId, researchId, current => ({ ...current, status: 'reporting' }));
+    }
+
+    if (run.status === 'reporting') {
+      this.emitStatus(topicId, 'Research: writing report...');
+      if (run.reportPostedAt) {
+        MessageBus.send('alert', `Research ${researchId} was interrupted while posting its report - not posting it again`);
+      } else {
+        const report = await this.writeReport(run);
+
+        run = await this.updateRun(topicId, researchId, current => ({ ...current, reportPostedAt: Date.now() }));
+        const topicRoom = await this.topicModel.enterTopicRoom(topicId);
+        await topicRoom.sendMessage(report, run.aiPersonId);
+      }
+
+      await this.updateRun(topicId, researchId, current => ({ ...current, status: 'complete', completed: Date.now() }));
+      this.emitStatus(topicId, `Research complete: ${run.evidence.length} source(s)`);
+      MessageBus.send('log', `Research ${researchId} complete in ${topicId}`);
+    }
+  }
+
+  private async planSubQueries(run: ResearchRun): Promise<string[]> {
+    const limit = SUB_QUERY_LIMIT[run.depth];
+    const result = await this.llmManager.chatStructured(
+      [
+        {
+          role: 'system',
+          content: `You plan research. Split the question into at most ${limit} focused, self-contained sub-queries that together answer it.`
+            + ' Reply with JSON {"subQueries": [<string>, ...]} only.'
+        },
+        { role: 'user', content: run.question }
+      ],
+      run.modelId,
+      PLAN_SCHEMA,
+      { aiId: this.aiIdOf(run), requestClass: 'background', temperature: 0.2, disableTools: true, maxRepairAttempts: 1 }
+    );
+
+    const subQueries = (result.value.subQueries as string[]).map(q => q.trim()).filter(Boolean).slice(0, limit);
+    return subQueries.length > 0 ? subQueries : [run.question];
+  }
+
+  /**
+   * Evidence for one sub-query - past subjects, then the tool loop
+   */
+  private async gather(
+    topicId: string,
+    run: ResearchRun,
+    index: number
+  ): Promise<{ evidence: Omit<ResearchEvidence, 'ref'>[]; findings: string }> {
+    const query = run.subQueries[index].query;
+    const evidence: Omit<ResearchEvidence, 'ref'>[] = [];
+
+    if (usesSource(run, 'subjects')) {
+      for (const subject of await this.searchSubjects(query)) {
+        evidence.push({
+          subQuery: index,
+          source: 'subject',
+          citation: `subject "${subject.name}" (topic ${subject.topicId})`,
+          excerpt: truncate(subject.description)
+        });
+      }
+    }
+
+    const known = evidence.map(item => `- ${item.citation}: ${item.excerpt}`).join('\n');
+    const response = await this.llmManager.chat(
+      [
+        {
+          role: 'system',
+          content: 'You are researching one part of a larger question. Use the available tools (memory search, MCP tools) to find facts.'
+            + ' Answer concisely with the facts you found and say where they came from; say so when you found nothing.'
+        },
+        {
+          role: 'user',
+          content: `Overall question: ${run.question}\nSub-query: ${query}`
+            + (known ? `\n\nAlready known from past conversations:\n${known}` : '')
+        }
+      ],
+      run.modelId,
+      {
+        aiId: this.aiIdOf(run),
+        callerId: run.aiPersonId,  // Identity for tool calls
+        requestClass: 'background',
+        temperature: 0.3,
+        ...(usesSource(run, 'tools') ? {} : { disableTools: true }),
+        onToolStep: (step: AgentStepEvent) => {
+          if (step.type === 'tool_start') {
+            this.emitStatus(topicId, `Research (${index + 1}/${run.subQueries.length}): using ${step.tool}...`);
+          }
+        }
+      }
+    );
+
+    const findings = typeof response === 'string' ? response : (response as any)?.content ?? '';
+    const trace: ToolTrace | undefined = typeof response === 'object' ? (response as any)?._toolTrace : undefined;
+    for (const step of (trace?.steps ?? []).filter(s => s.result.success).slice(0, MAX_TOOL_EVIDENCE)) {
+      evidence.push({
+        subQuery: index,
+        source: 'tool',
+        citation: `${step.tool}(${truncate(JSON.stringify(step.params), 120)})`,
+        excerpt: truncate(typeof step.result.data === 'string' ? step.result.data : JSON.stringify(step.result.data ?? ''))
+      });
+    }
+
+    return { evidence, findings };
+  }
+
+  /**
+   * Past subjects of all topics sharing keywords with the query
+   */
+  private async searchSubjects(query: string): Promise<Array<{ name: string; description: string; topicId: string }>> {
+    const topicAnalysisModel = this.getTopicAnalysisModel();
+    if (!topicAnalysisModel) {
+      return [];
+    }
+
+    const terms = new Set(query.toLowerCase().split(/\W+/).filter(term => term.length > 3));
+    if (terms.size === 0) {
+      return [];
+    }
+
+    const scored: Array<{ name: string; description: string; topicId: string; score: number }> = [];
+    const topicIds: string[] = (await topicAnalysisModel.getAllTopics?.()) ?? [];
+    for (const topicId of topicIds) {
+      let subjects: any[] = [];
+      try {
+        subjects = await topicAnalysisModel.getSubjects(topicId);
+      } catch (error) {
+        MessageBus.send('debug', `Could not read subjects of ${topicId}:`, error);
+        continue;
+      }
+      for (const subject of subjects) {
+        if (subject.archived) continue;
+        const keywords = String(subject.keywordCombination || '').toLowerCase().split('+');
+        const text = `${keywords.join(' ')} ${subject.description || ''}`.toLowerCase();
+        const score = [...terms].filter(term => text.includes(term)).length;
+        if (score > 0) {
+          scored.push({
+            name: subject.keywordCombination || subject.id,
+            description: subject.description || keywords.join(', '),
+            topicId,
+            score
+          });
+        }
+      }
+    }
+
+    return scored.sort((a, b) => b.score - a.score).slice(0, MAX_SUBJECT_EVIDENCE);
+  }
+
+  private async writeReport(run: ResearchRun): Promise<string> {
+    const findings = run.subQueries
+      .map((q, i) => `## ${q.query}\n${q.status === 'done' ? q.findings || '(nothing found)' : `(failed: ${q.error})`}`
+        + run.evidence.filter(e => e.subQuery === i).map(e => `\n[${e.ref}] ${e.citation}: ${e.excerpt}`).join(''))
+      .join('\n\n');
+
+    const result = await this.llmManager.chatStructured(
+      [
+        {
+          role: 'system',
+          content: 'Write a research report answering the question from the findings and evidence below.'
+            + ' Cite evidence inline with its reference, e.g. [E2]. Do not cite anything that is not listed; mark unsupported statements as such.'
+            + ' Reply with JSON {"title": string, "summary": string, "sections": [{"heading": string, "body": string}], "openQuestions": [string]} only.'
+        },
+        { role: 'user', content: `Question: ${run.question}\n\n${findings}` }
+      ],
+      run.modelId,
+      REPORT_SCHEMA,
+      { aiId: this.aiIdOf(run), requestClass: 'background', temperature: 0.3, disableTools: true, maxRepairAttempts: 1 }
+    );
+
+    const report = result.value;
+    const cited = new Set<string>((JSON.stringify(report).match(/E\d+/g) ?? []));
+    const sources = run.evidence.filter(e => cited.has(e.ref));
+
+    return [
+      `# ${report.title}`,
+      report.summary,
+      ...report.sections.map((section: { heading: string; body: string }) => `## ${section.heading}\n${section.body}`),
+      ...(report.openQuestions?.length ? [`## Open questions\n${report.openQuestions.map((q: string) => `- ${q}`).join('\n')}`] : []),
+      ...(sources.length ? [`## Sources\n${sources.map(e => `- [${e.ref}] ${e.citation}`).join('\n')}`] : [])
+    ].join('\n\n');
+  }
+
+  private aiIdOf(run: ResearchRun): string | undefined {
+    return this.aiManager.getAIId(run.aiPersonId as SHA256IdHash<Person>) ?? undefined;
+  }
+
+  private emitStatus(topicId: string, status: string): void {
+    MessageBus.send('debug', `${topicId}: ${status}`);
+    this.platform?.emitThinkingStatus?.(topicId, status);
+  }
+
+  /**
+   * Drop a topic's cached runs - resumeAll() then also sees runs started on other devices
+   */
+  invalidate(topicId: string): void {
+    this.cache.delete(topicId);
+  }
+
+  private async getResearch(topicId: string): Promise<TopicResearch | null> {
+    if (this.cache.has(topicId)) {
+      return this.cache.get(topicId) ?? null;
+    }
+
+    const idHash = await this.storage.calculateIdHashOfObj({
+      $type$: 'TopicResearch' as const,
+      topicId
+    });
+
+    try {
+      const result = await this.storage.getObjectByIdHash(idHash);
+      const research = result.obj as TopicResearch;
+      this.cache.set(topicId, research);
+      return research;
+    } catch (error: any) {
+      if (error.message?.includes('not found') || error.code === 'NOT_FOUND') {
+        this.cache.set(topicId, null);
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async requireRun(topicId: string, researchId: string): Promise<ResearchRun> {
+    const run = (await this.getRuns(topicId)).find(r => r.researchId === researchId);
+    if (!run) {
+      throw new Error(`Research ${researchId} not found in topic ${topicId}`);
+    }
+    return run;
+  }
+
+  private async saveRun(topicId: string, run: ResearchRun): Promise<void> {
+    await this.write(topicId, runs => [...runs, run]);
+  }
+
+  private async updateRun(topicId: string, researchId: string, update: (run: ResearchRun) => ResearchRun): Promise<ResearchRun> {
+    let updated: ResearchRun | undefined;
+    await this.write(topicId, runs => runs.map(run => {
+      if (run.researchId !== researchId) return run;
+      updated = update(run);
+      return updated;
+    }));
+    if (!updated) {
+      throw new Error(`Research ${researchId} not found in topic ${topicId}`);
+    }
+    return updated;
+  }
+
+  /**
+   * Serialized read-modify-write of a topic's runs - old finished runs are dropped
+   */
+  private async write(topicId: string, change: (runs: ResearchRun[]) => ResearchRun[]): Promise<void> {
+    const write = this.writeChain.then(async () => {
+      const current = await this.getResearch(topicId);
+      const runs = change(current?.runs ?? []);
+      const finished = runs.filter(isFinished);
+      const dropped = new Set(finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_RUNS)));
+
+      const research: TopicResearch = {
+        $type$: 'TopicResearch',
+        topicId,
+        runs: runs.filter(run => !dropped.has(run)),
+        modified: Date.now()
+      };
+      await this.storage.storeVersionedObject(research);
+      this.cache.set(topicId, research);
+    });
+    this.writeChain = write.catch(() => undefined);
+    await write;
+  }
+}
+
+function isFinished(run: ResearchRun): boolean {
+  return run.status === 'complete' || run.status === 'failed';
+}
+
+function usesSource(run: ResearchRun, source: 'tools' | 'subjects'): boolean {
+  return run.sources.length === 0 || run.sources.includes(source);
+}
+
+function truncate(text: string, max = MAX_EXCERPT_CHARS): string {
+  return text.length > max ? `${text.slice(0, max)}…` : text;
+}
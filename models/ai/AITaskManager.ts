@@ -18,6 +18,8 @@ import type { SHA256Hash } from '@refinio/one.core/lib/util/type-checks.js';
 import type { HashGroup, Person } from '@refinio/one.core/lib/recipes.js';
 import type { IAITaskManager } from './interfaces.js';
 import type { AITaskType, AITaskConfig } from './types.js';
+import type { AIResearchRunner } from './AIResearchRunner.js';
+import type { AICustomTaskManager } from './AICustomTaskManager.js';
 
 export class AITaskManager implements IAITaskManager {
   // Task associations (topicId → task configs)
@@ -26,6 +28,12 @@ export class AITaskManager implements IAITaskManager {
   // Subject channel participants hash (for IoM storage)
   private subjectChannelParticipants: SHA256Hash<HashGroup<Person>> | null;
 
+  // Runs research tasks (optional - set by AIAssistantPlan)
+  private researchRunner?: AIResearchRunner;
+
+  // Stores and runs custom task definitions (optional - set by AIAssistantPlan)
+  private customTaskManager?: AICustomTaskManager;
+
   constructor(
     private channelManager: ChannelManager,
     private leuteModel: LeuteModel,
@@ -35,6 +43,27 @@ export class AITaskManager implements IAITaskManager {
     this.subjectChannelParticipants = null;
   }
 
+  /**
+   * Set the research runner (constructed by AIAssistantPlan)
+   */
+  setResearchRunner(researchRunner: AIResearchRunner): void {
+    this.researchRunner = researchRunner;
+  }
+
+  /**
+   * Set the custom task manager (constructed by AIAssistantPlan)
+   */
+  setCustomTaskManager(customTaskManager: AICustomTaskManager): void {
+    this.customTaskManager = customTaskManager;
+  }
+
+  /**
+   * Get the TopicAnalysisModel - it may be injected after construction
+   */
+  getTopicAnalysisModel(): any {
+    return this.topicAnalysisModel;
+  }
+
   /**
    * Initialize the subject channel for IoM storage
    * Creates a channel for storing subjects and keywords
@@ -220,21 +249,33 @@ export class AITaskManager implements IAITaskManager {
 
   /**
    * Execute research task
+   * Starts a background run that posts its report into the topic when done
    */
   private async executeResearch(
-    _topicId: string,
-    _message: string,
-    _parameters?: Record<string, any>
+    topicId: string,
+    message: string,
+    parameters?: Record<string, any>
   ): Promise<any> {
-    console.log(`[AITaskManager] Executing research for topic: ${_topicId}`);
+    console.log(`[AITaskManager] Executing research for topic: ${topicId}`);
+
+    if (!this.researchRunner) {
+      console.warn('[AITaskManager] Research runner not available');
+      return { status: 'unavailable' };
+    }
 
-    // Research task implementation would go here
-    // This is a placeholder for future research capabilities
-    return { status: 'not_implemented' };
+    const researchId = await this.researchRunner.start({
+      topicId,
+      question: message,
+      depth: parameters?.depth,
+      sources: parameters?.sources,
+      modelId: parameters?.modelId
+    });
+    return { status: 'running', researchId };
   }
 
   /**
    * Execute custom task
+   * Runs the stored CustomTaskDefinition named by parameters.taskId
    */
   private async executeCustomTask(
     topicId: string,
@@ -243,12 +284,16 @@ export class AITaskManager implements IAITaskManager {
   ): Promise<any> {
     console.log(`[AITaskManager] Executing custom task for topic: ${topicId}`);
 
-    // Custom task implementation would be provided via parameters
-    if (parameters?.handler && typeof parameters.handler === 'function') {
-      return await parameters.handler(topicId, message, parameters);
+    if (!this.customTaskManager) {
+      console.warn('[AITaskManager] Custom task manager not available');
+      return { status: 'unavailable' };
+    }
+
+    if (!parameters?.taskId) {
+      return { status: 'no_definition' };
     }
 
-    return { status: 'no_handler' };
+    return await this.customTaskManager.runTask(topicId, parameters.taskId, message);
   }
 
   /**
@@ -281,7 +326,9 @@ export class AITaskManager implements IAITaskManager {
         };
 
       case 'custom':
-        return {};
+        return {
+          taskId: undefined, // CustomTaskDefinition to run
+        };
 
       default:
         return {};
@@ -0,0 +1,272 @@
+/**
+ * AITurnCoordinator
+ *
+ * Decides which AIs of a group topic answer a message, following the topic's
+ * TopicTurnPolicy (see TurnPolicyManager):
+ * - all:           every candidate
+ * - round-robin:   the candidate after the last AI that spoke
+ * - mention-only:  only candidates addressed with @name
+ * - relevance-bid: every candidate's model scores its fit (0-10), the highest bid answers
+ * - moderator:     the moderator AI's model names the speakers
+ *
+ * Outside mode 'all' an @mention always reaches the mentioned AIs. The loop
+ * guard applies to messages written by AIs: they only trigger other AIs with
+ * allowAIReplies, and never once maxConsecutiveAITurns AI messages followed
+ * the last human message.
+ */
+
+import { createMessageBus } from '@refinio/one.core/lib/message-bus.js';
+import type { TurnPolicySettings } from '../settings/TurnPolicyManager.js';
+
+const MessageBus = createMessageBus('AITurnCoordinator');
+
+/** Bids below this do not answer AI messages */
+const MIN_BID_FOR_AI_MESSAGE = 5;
+/** Message text included in bid and moderator prompts */
+const MAX_PROMPT_MESSAGE_CHARS = 2000;
+
+export interface TurnCandidate {
+  personId: string;
+  /** AI ID - selects the AI's key, budget and fallback chain */
+  aiId?: string;
+  displayName: string;
+  modelId: string;
+  /** Personality traits and prompt addition - helps bidding and the moderator */
+  description?: string;
+}
+
+export interface TurnRequest {
+  topicId: string;
+  policy: TurnPolicySettings;
+  message: {
+    text: string;
+    senderId: string;
+    senderName?: string;
+    fromAI: boolean;
+  };
+  /** AIs that may answer, in join order (the message's sender excluded) */
+  candidates: TurnCandidate[];
+  /** Senders of the topic's messages before this one, oldest first */
+  recentSenderIds: string[];
+  /** AI messages since the last human message, this one included */
+  consecutiveAITurns: number;
+  /** Moderator AI (mode 'moderator') - may be a candidate itself */
+  moderator?: TurnCandidate;
+}
+
+export interface TurnDecision {
+  /** Person IDs of the AIs that answer - may be empty */
+  speakers: string[];
+  reason: string;
+}
+
+const BID_SCHEMA = {
+  type: 'object',
+  properties: {
+    score: { type: 'number', minimum: 0, maximum: 10 }
+  },
+  required: ['score']
+};
+
+const MODERATOR_SCHEMA = {
+  type: 'object',
+  properties: {
+    speakers: { type: 'array', items: { type: 'string' } },
+    reason: { type: 'string' }
+  },
+  required: ['speakers']
+};
+
+export class AITurnCoordinator {
+  constructor(private llmManager: any) {}
+
+  async selectSpeakers(request: TurnRequest): Promise<TurnDecision> {
+    const { policy, message, candidates } = request;
+
+    if (candidates.length === 0) {
+      return { speakers: [], reason: 'no candidates' };
+    }
+
+    // Loop guard
+    if (message.fromAI) {
+      if (!policy.allowAIReplies) {
+        return { speakers: [], reason: 'AI replies disabled' };
+      }
+      if (request.consecutiveAITurns >= policy.maxConsecutiveAITurns) {
+        MessageBus.send('log', `Loop guard in ${request.topicId}: ${request.consecutiveAITurns} AI messages in a row`);
+        return { speakers: [], reason: `loop guard (${request.consecutiveAITurns} AI turns)` };
+      }
+    }
+
+    if (policy.mode === 'all') {
+      return { speakers: candidates.map(c => c.personId), reason: 'all' };
+    }
+
+    const mentioned = findMentioned(message.text, candidates);
+    if (mentioned.length > 0) {
+      return { speakers: mentioned.map(c => c.personId), reason: 'mentioned' };
+    }
+
+    switch (policy.mode) {
+      case 'mention-only':
+        return { speakers: [], reason: 'nobody mentioned' };
+
+      case 'round-robin':
+        return this.roundRobin(request);
+
+      case 'relevance-bid':
+        return this.relevanceBid(request);
+
+      case 'moderator':
+        return this.moderate(request);
+
+      default:
+        throw new Error(`Unknown turn policy mode: ${(policy as any).mode}`);
+    }
+  }
+
+  /**
+   * The candidate after the last AI that spoke (join order, wrapping around)
+   */
+  private roundRobin(request: TurnRequest): TurnDecision {
+    const { candidates, recentSenderIds } = request;
+
+    for (let i = recentSenderIds.length - 1; i >= 0; i--) {
+      const index = candidates.findIndex(c => c.personId === recentSenderIds[i]);
+      if (index !== -1) {
+        const next = candidates[(index + 1) % candidates.length];
+        return { speakers: [next.personId], reason: `round-robin after ${candidates[index].displayName}` };
+      }
+    }
+    return { speakers: [candidates[0].personId], reason: 'round-robin start' };
+  }
+
+  /**
+   * Every candidate's own model rates how well it can answer
+   * Human messages always get an answer (the highest bid); AI messages only
+   * from a candidate bidding MIN_BID_FOR_AI_MESSAGE or more.
+   */
+  private async relevanceBid(request: TurnRequest): Promise<TurnDecision> {
+    const { message, candidates } = request;
+
+    const bids = await Promise.all(candidates.map(async candidate => {
+      try {
+        const result = await this.llmManager.chatStructured(
+          [
+            {
+              role: 'system',
+              content: `You are ${candidate.displayName}, one of several AI participants in a group chat.`
+                + (candidate.description ? ` ${candidate.description}` : '')
+                + ' Rate from 0 to 10 how well you are suited to answer the next message, compared to a generic assistant.'
+                + ' Reply with JSON {"score": <number>} only.'
+            },
+            { role: 'user', content: truncate(message.text) }
+          ],
+          candidate.modelId,
+          BID_SCHEMA,
+          {
+            topicId: request.topicId,
+            aiId: candidate.aiId,
+            requestClass: 'background',
+            temperature: 0,
+            maxTokens: 50,
+            disableTools: true,
+            maxRepairAttempts: 1
+          }
+        );
+        return { candidate, score: Number(result.value.score) };
+      } catch (error: any) {
+        MessageBus.send('debug', `Bid of ${candidate.displayName} failed: ${error.message}`);
+        return null;
+      }
+    }));
+
+    const valid = bids.filter((bid): bid is { candidate: TurnCandidate; score: number } => !!bid && Number.isFinite(bid.score));
+    if (valid.length === 0) {
+      return fallback(this.roundRobin(request), 'bidding failed');
+    }
+
+    valid.sort((a, b) => b.score - a.score);
+    const best = valid[0];
+    if (message.fromAI && best.score < MIN_BID_FOR_AI_MESSAGE) {
+      return { speakers: [], reason: `no bid >= ${MIN_BID_FOR_AI_MESSAGE} (best ${best.score})` };
+    }
+    return { speakers: [best.candidate.personId], reason: `highest bid ${best.score} (${best.candidate.displayName})` };
+  }
+
+  /**
+   * The moderator's model names who speaks - possibly nobody
+   */
+  private async moderate(request: TurnRequest): Promise<TurnDecision> {
+    const { moderator, message, candidates } = request;
+    if (!moderator) {
+      return fallback(this.roundRobin(request), 'moderator unavailable');
+    }
+
+    const participants = candidates
+      .map(c => `- ${c.displayName}${c.description ? `: ${c.description}` : ''}`)
+      .join('\n');
+
+    try {
+      const result = await this.llmManager.chatStructured(
+        [
+          {
+            role: 'system',
+            content: `You are ${moderator.displayName}, the moderator of a group chat with these AI participants:\n${participants}\n\n`
+              + 'Decide who should answer the next message. Pick as few participants as needed; pick nobody if no answer is needed.'
+              + ' Reply with JSON {"speakers": [<names>], "reason": "<short reason>"} only.'
+          },
+          {
+            role: 'user',
+            content: `${message.senderName ?? (message.fromAI ? 'An AI participant' : 'A user')} wrote:\n${truncate(message.text)}`
+          }
+        ],
+        moderator.modelId,
+        MODERATOR_SCHEMA,
+        {
+          topicId: request.topicId,
+          aiId: moderator.aiId,
+          requestClass: 'background',
+          temperature: 0,
+          maxTokens: 200,
+          disableTools: true,
+          maxRepairAttempts: 1
+        }
+      );
+
+      const names = (result.value.speakers as string[]).map(normalizeName);
+      const speakers = candidates.filter(c => names.includes(normalizeName(c.displayName)));
+      return {
+        speakers: speakers.map(c => c.personId),
+        reason: `moderator: ${result.value.reason || (speakers.length ? speakers.map(c => c.displayName).join(', ') : 'nobody')}`
+      };
+    } catch (error: any) {
+      MessageBus.send('alert', `Moderator ${moderator.displayName} failed: ${error.message}`);
+      return fallback(this.roundRobin(request), 'moderator failed');
+    }
+  }
+}
+
+/**
+ * Candidates addressed with @name - spaces in names may be left out
+ */
+function findMentioned(text: string, candidates: TurnCandidate[]): TurnCandidate[] {
+  const lower = text.toLowerCase();
+  const compact = lower.replace(/\s+/g, '');
+  return candidates.filter(candidate => {
+    const name = candidate.displayName.toLowerCase();
+    return name && (lower.includes(`@${name}`) || compact.includes(`@${name.replace(/\s+/g, '')}`));
+  });
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/^@/, '').replace(/\s+/g, '');
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_PROMPT_MESSAGE_CHARS ? `${text.slice(0, MAX_PROMPT_MESSAGE_CHARS)}…` : text;
+}
+
+function fallback(decision: TurnDecision, why: string): TurnDecision {
+  return { speakers: decision.speakers, reason: `${why} - ${decision.reason}` };
+}
@@ -51,3 +51,18 @@ export type {
   TopicAISettings,
   TopicAIParticipants,
 } from './AISettingsResolver.js';
+
+// Attachment resolution (multimodal prompts)
+export { resolveAttachmentParts } from './AIAttachmentResolver.js';
+
+// Multi-AI turn-taking
+export { AITurnCoordinator } from './AITurnCoordinator.js';
+export type { TurnCandidate, TurnRequest, TurnDecision } from './AITurnCoordinator.js';
+
+// Conversation branching (regenerate, edit-and-resend, fork)
+export { AIBranchManager, messageHashOf } from './AIBranchManager.js';
+export type { AIBranchManagerDeps, RegenerateOptions, ForkOptions, ForkResult } from './AIBranchManager.js';
+export { AIResearchRunner } from './AIResearchRunner.js';
+export type { AIResearchRunnerDeps, ResearchRequest } from './AIResearchRunner.js';
+export { AICustomTaskManager } from './AICustomTaskManager.js';
+export type { AICustomTaskManagerDeps, CustomTaskInput, CustomTaskResult } from './AICustomTaskManager.js';
@@ -76,6 +76,9 @@ export interface IAIMessageProcessor {
     senderId: SHA256IdHash<Person>
   ): Promise<string | null>;
 
+  /** Abort the running AI responses of a topic (stop generating) */
+  stopGenerating(topicId: string): boolean;
+
   /** Check if a message is from an AI */
   isAIMessage(message: any): Promise<boolean>;
 
@@ -48,6 +48,14 @@ export interface LLMConcurrencyConfig {
   baseUrl?: string;
 }
 
+/**
+ * LLM request class for scheduling on limited concurrency groups
+ * - interactive: user-facing responses (chat replies, tool follow-ups)
+ * - analysis: work the user is waiting on indirectly (Phase 2 analytics)
+ * - background: keyword extraction, summaries, welcome messages
+ */
+export type LLMRequestClass = 'interactive' | 'analysis' | 'background';
+
 /**
  * AI task types for Information over Messages (IoM)
  */
@@ -8,6 +8,7 @@
 
 import { storeVersionedObject, getObjectByIdHash } from '@refinio/one.core/lib/storage-versioned-objects.js'
 import { calculateIdHashOfObj } from '@refinio/one.core/lib/util/object.js'
+import { OEvent } from '@refinio/one.models/lib/misc/OEvent.js'
 import type { SHA256IdHash } from '@refinio/one.core/lib/util/type-checks.js'
 import type { AISettings } from '@OneObjectInterfaces'
 
@@ -69,6 +70,12 @@ function isAISettings(obj: unknown): obj is AISettings {
 export class AISettingsManager {
   nodeOneCore: NodeOneCore;
 
+  /**
+   * Fired when updateSettings() changes embeddingModel
+   * Embedding consumers switch models and re-embed their vectors.
+   */
+  onEmbeddingModelChanged = new OEvent<(embeddingModel: string, previousModel: string | undefined) => void>();
+
   constructor(nodeOneCore: NodeOneCore) {
     this.nodeOneCore = nodeOneCore
   }
@@ -198,6 +205,9 @@ export class AISettingsManager {
       const result = await storeVersionedObject(updatedSettings)
 
       console.log('[AISettingsManager] Updated settings')
+      if (updates.embeddingModel && updates.embeddingModel !== currentSettings.embeddingModel) {
+        this.onEmbeddingModelChanged.emit(updates.embeddingModel, currentSettings.embeddingModel)
+      }
       return result.obj
     } catch (error: unknown) {
       console.error('[AISettingsManager] Error updating settings:', error)
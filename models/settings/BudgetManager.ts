@@ -0,0 +1,107 @@
+/**
+ * BudgetManager (Platform-Agnostic)
+ *
+ * Manages LLM spending limits per AI and per provider (LLMBudget objects).
+ * Direct retrieval via getObjectByIdHash() on {scope, scopeId} - no queries.
+ *
+ * A request is subject to its AI's budget and its provider's budget; the
+ * spend itself comes from the UsageLedger.
+ */
+
+import type { LLMBudget } from '@OneObjectInterfaces';
+import type { GlobalLLMSettingsManagerDeps } from './GlobalLLMSettingsManager.js';
+
+export type BudgetScope = LLMBudget['scope'];
+
+export type BudgetManagerDeps = GlobalLLMSettingsManagerDeps;
+
+export type BudgetSettings = Omit<LLMBudget, '$type$' | 'scope' | 'scopeId' | 'modified'>;
+
+export class BudgetManager {
+    // scope:scopeId → budget (null = no budget stored)
+    private cache = new Map<string, LLMBudget | null>();
+
+    constructor(private deps: BudgetManagerDeps) {}
+
+    /**
+     * Get the budget of an AI or provider (null if none configured)
+     */
+    async getBudget(scope: BudgetScope, scopeId: string): Promise<LLMBudget | null> {
+        const key = `${scope}:${scopeId}`;
+        if (this.cache.has(key)) {
+            return this.cache.get(key) ?? null;
+        }
+
+        const idHash = await this.deps.calculateIdHashOfObj({
+            $type$: 'LLMBudget' as const,
+            scope,
+            scopeId
+        });
+
+        try {
+            const result = await this.deps.getObjectByIdHash(idHash);
+            const budget = result.obj as LLMBudget;
+            this.cache.set(key, budget);
+            return budget;
+        } catch (error: any) {
+            if (error.message?.includes('not found') || error.code === 'NOT_FOUND') {
+                this.cache.set(key, null);
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Store a budget - without soft and hard limit it is disabled
+     */
+    async setBudget(scope: BudgetScope, scopeId: string, settings: BudgetSettings): Promise<LLMBudget> {
+        const budget: LLMBudget = {
+            $type$: 'LLMBudget',
+            scope,
+            scopeId,
+            period: settings.period,
+            hardLimitAction: settings.hardLimitAction,
+            ...(settings.softLimitUsd !== undefined ? { softLimitUsd: settings.softLimitUsd } : {}),
+            ...(settings.hardLimitUsd !== undefined ? { hardLimitUsd: settings.hardLimitUsd } : {}),
+            ...(settings.downgradeModelId ? { downgradeModelId: settings.downgradeModelId } : {}),
+            modified: Date.now()
+        };
+
+        const result = await this.deps.storeVersionedObject(budget);
+        this.cache.set(`${scope}:${scopeId}`, budget);
+
+        return result.obj as LLMBudget;
+    }
+
+    /**
+     * Drop one scope's cached budget so a limit changed on another device is
+     * enforced from the next request on
+     */
+    invalidate(scope: BudgetScope, scopeId: string): void {
+        this.cache.delete(`${scope}:${scopeId}`);
+    }
+
+    /**
+     * Budgets that apply to a request: the AI's, then the provider's
+     */
+    async resolve(context: { aiId?: string; provider?: string }): Promise<LLMBudget[]> {
+        const budgets: LLMBudget[] = [];
+        if (context.aiId) {
+            const budget = await this.getBudget('ai', context.aiId);
+            if (budget) budgets.push(budget);
+        }
+        if (context.provider) {
+            const budget = await this.getBudget('provider', context.provider);
+            if (budget) budgets.push(budget);
+        }
+        return budgets.filter(budget => budget.softLimitUsd !== undefined || budget.hardLimitUsd !== undefined);
+    }
+
+    /**
+     * Clear memory cache (force reload on next access)
+     */
+    clearCache(): void {
+        this.cache.clear();
+    }
+}
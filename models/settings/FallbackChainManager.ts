@@ -0,0 +1,99 @@
+/**
+ * FallbackChainManager (Platform-Agnostic)
+ *
+ * Manages per-AI and per-topic LLM fallback chains (LLMFallbackChain objects).
+ * Direct retrieval via getObjectByIdHash() on {scope, scopeId} - no queries.
+ *
+ * Resolution: topic chain > AI chain > none.
+ */
+
+import type { LLMFallbackChain } from '@OneObjectInterfaces';
+import type { GlobalLLMSettingsManagerDeps } from './GlobalLLMSettingsManager.js';
+
+export type FallbackChainScope = LLMFallbackChain['scope'];
+
+export type FallbackChainManagerDeps = GlobalLLMSettingsManagerDeps;
+
+export class FallbackChainManager {
+    // scope:scopeId → modelIds (null = no chain stored)
+    private cache = new Map<string, string[] | null>();
+
+    constructor(private deps: FallbackChainManagerDeps) {}
+
+    /**
+     * Get the fallback chain for an AI or topic (empty if none configured)
+     */
+    async getChain(scope: FallbackChainScope, scopeId: string): Promise<string[]> {
+        const key = `${scope}:${scopeId}`;
+        if (this.cache.has(key)) {
+            return this.cache.get(key) ?? [];
+        }
+
+        const idHash = await this.deps.calculateIdHashOfObj({
+            $type$: 'LLMFallbackChain' as const,
+            scope,
+            scopeId
+        });
+
+        try {
+            const result = await this.deps.getObjectByIdHash(idHash);
+            const modelIds = (result.obj as LLMFallbackChain).modelIds ?? [];
+            this.cache.set(key, modelIds);
+            return modelIds;
+        } catch (error: any) {
+            if (error.message?.includes('not found') || error.code === 'NOT_FOUND') {
+                this.cache.set(key, null);
+                return [];
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Store a fallback chain - an empty list disables failover for the scope
+     */
+    async setChain(scope: FallbackChainScope, scopeId: string, modelIds: string[]): Promise<LLMFallbackChain> {
+        const chain: LLMFallbackChain = {
+            $type$: 'LLMFallbackChain',
+            scope,
+            scopeId,
+            modelIds: [...new Set(modelIds.filter(Boolean))],
+            modified: Date.now()
+        };
+
+        const result = await this.deps.storeVersionedObject(chain);
+        this.cache.set(`${scope}:${scopeId}`, chain.modelIds);
+
+        return result.obj as LLMFallbackChain;
+    }
+
+    /**
+     * Drop one scope's cached chain, e.g. after it was edited on another device
+     */
+    invalidate(scope: FallbackChainScope, scopeId: string): void {
+        this.cache.delete(`${scope}:${scopeId}`);
+    }
+
+    /**
+     * Resolve the chain for a request: topic chain first, then the AI's chain
+     */
+    async resolve(context: { topicId?: string; aiId?: string }): Promise<string[]> {
+        if (context.topicId) {
+            const topicChain = await this.getChain('topic', context.topicId);
+            if (topicChain.length > 0) {
+                return topicChain;
+            }
+        }
+        if (context.aiId) {
+            return await this.getChain('ai', context.aiId);
+        }
+        return [];
+    }
+
+    /**
+     * Clear memory cache (force reload on next access)
+     */
+    clearCache(): void {
+        this.cache.clear();
+    }
+}
@@ -16,7 +16,7 @@
 
 import type { SHA256IdHash } from '@refinio/one.core/lib/util/type-checks.js';
 import type { Person } from '@refinio/one.core/lib/recipes.js';
-import type { GlobalLLMSettings, OllamaServerConfig } from '@OneObjectInterfaces';
+import type { GlobalLLMSettings, OllamaKeepAliveConfig, OllamaServerConfig } from '@OneObjectInterfaces';
 
 export const DEFAULT_LLM_SETTINGS = {
     temperature: 0.5,
@@ -251,4 +251,42 @@ export class GlobalLLMSettingsManager {
         const result = await this.updateOllamaServer(id, { enabled });
         return result !== null;
     }
+
+    // ========== Ollama Keep-Alive ==========
+
+    /**
+     * Get all per-model keep-alive settings
+     */
+    async getOllamaKeepAliveSettings(): Promise<OllamaKeepAliveConfig[]> {
+        const settings = await this.getSettings();
+        return settings.ollamaKeepAlive || [];
+    }
+
+    /**
+     * Get the keep-alive of a model on a server (undefined = not configured)
+     */
+    async getOllamaKeepAlive(baseUrl: string, model: string): Promise<string | undefined> {
+        const url = trimTrailingSlash(baseUrl);
+        const entries = await this.getOllamaKeepAliveSettings();
+        return entries.find(e => e.baseUrl === url && e.model === model)?.keepAlive;
+    }
+
+    /**
+     * Set the keep-alive of a model on a server (null removes the setting)
+     */
+    async setOllamaKeepAlive(baseUrl: string, model: string, keepAlive: string | null): Promise<void> {
+        const url = trimTrailingSlash(baseUrl);
+        const entries = (await this.getOllamaKeepAliveSettings())
+            .filter(e => !(e.baseUrl === url && e.model === model));
+
+        if (keepAlive !== null) {
+            entries.push({ baseUrl: url, model, keepAlive });
+        }
+
+        await this.updateSettings({ ollamaKeepAlive: entries });
+    }
+}
+
+function trimTrailingSlash(url: string): string {
+    return url.replace(/\/+$/, '');
 }
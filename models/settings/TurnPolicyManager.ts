@@ -0,0 +1,111 @@
+/**
+ * TurnPolicyManager (Platform-Agnostic)
+ *
+ * Manages the multi-AI turn-taking policy per topic (TopicTurnPolicy objects).
+ * Direct retrieval via getObjectByIdHash() on {topicId} - no queries.
+ *
+ * Topics without a stored policy use DEFAULT_TURN_POLICY: every AI answers
+ * human messages, AIs do not answer each other.
+ */
+
+import type { TopicTurnPolicy } from '@OneObjectInterfaces';
+import type { GlobalLLMSettingsManagerDeps } from './GlobalLLMSettingsManager.js';
+
+export type TurnPolicyMode = TopicTurnPolicy['mode'];
+
+export type TurnPolicyManagerDeps = GlobalLLMSettingsManagerDeps;
+
+export type TurnPolicySettings = Omit<TopicTurnPolicy, '$type$' | 'topicId' | 'modified'>;
+
+export const DEFAULT_TURN_POLICY: TurnPolicySettings = {
+    mode: 'all',
+    allowAIReplies: false,
+    maxConsecutiveAITurns: 3
+};
+
+export class TurnPolicyManager {
+    // topicId → policy (null = none stored)
+    private cache = new Map<string, TopicTurnPolicy | null>();
+
+    constructor(private deps: TurnPolicyManagerDeps) {}
+
+    /**
+     * Get the stored policy of a topic (null if none configured)
+     */
+    async getPolicy(topicId: string): Promise<TopicTurnPolicy | null> {
+        if (this.cache.has(topicId)) {
+            return this.cache.get(topicId) ?? null;
+        }
+
+        const idHash = await this.deps.calculateIdHashOfObj({
+            $type$: 'TopicTurnPolicy' as const,
+            topicId
+        });
+
+        try {
+            const result = await this.deps.getObjectByIdHash(idHash);
+            const policy = result.obj as TopicTurnPolicy;
+            this.cache.set(topicId, policy);
+            return policy;
+        } catch (error: any) {
+            if (error.message?.includes('not found') || error.code === 'NOT_FOUND') {
+                this.cache.set(topicId, null);
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Drop a topic's cached policy - the next message is coordinated by the stored one
+     */
+    invalidate(topicId: string): void {
+        this.cache.delete(topicId);
+    }
+
+    /**
+     * Get the policy that applies to a topic - the stored one or the default
+     */
+    async getEffectivePolicy(topicId: string): Promise<TurnPolicySettings> {
+        const policy = await this.getPolicy(topicId);
+        if (!policy) {
+            return { ...DEFAULT_TURN_POLICY };
+        }
+        return {
+            mode: policy.mode,
+            allowAIReplies: policy.allowAIReplies,
+            maxConsecutiveAITurns: policy.maxConsecutiveAITurns,
+            ...(policy.moderatorPersonId ? { moderatorPersonId: policy.moderatorPersonId } : {})
+        };
+    }
+
+    /**
+     * Store the policy of a topic
+     */
+    async setPolicy(topicId: string, settings: Partial<TurnPolicySettings>): Promise<TopicTurnPolicy> {
+        const current = await this.getEffectivePolicy(topicId);
+        const merged = { ...current, ...settings };
+
+        if (merged.mode === 'moderator' && !merged.moderatorPersonId) {
+            throw new Error('Turn policy "moderator" requires moderatorPersonId');
+        }
+        if (!Number.isInteger(merged.maxConsecutiveAITurns) || merged.maxConsecutiveAITurns < 0) {
+            throw new Error(`Invalid maxConsecutiveAITurns: ${merged.maxConsecutiveAITurns}`);
+        }
+
+        const policy: TopicTurnPolicy = {
+            $type$: 'TopicTurnPolicy',
+            topicId,
+            mode: merged.mode,
+            allowAIReplies: merged.allowAIReplies,
+            maxConsecutiveAITurns: merged.maxConsecutiveAITurns,
+            ...(merged.moderatorPersonId ? { moderatorPersonId: merged.moderatorPersonId } : {}),
+            modified: Date.now()
+        };
+
+        const result = await this.deps.storeVersionedObject(policy);
+        this.cache.set(topicId, policy);
+
+        return result.obj as TopicTurnPolicy;
+    }
+}
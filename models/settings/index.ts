@@ -12,3 +12,15 @@ export type { GlobalLLMSettingsManagerDeps } from './GlobalLLMSettingsManager.js
 
 // Word Cloud Settings Manager - Word cloud visualization settings
 export { WordCloudSettingsManager, wordCloudSettingsManager, createWordCloudSettings, DEFAULT_WORD_CLOUD_SETTINGS } from './WordCloudSettingsManager.js';
+
+// Fallback Chain Manager - Per-AI / per-topic LLM failover order
+export { FallbackChainManager } from './FallbackChainManager.js';
+export type { FallbackChainScope, FallbackChainManagerDeps } from './FallbackChainManager.js';
+
+// Budget Manager - Per-AI / per-provider LLM spending limits
+export { BudgetManager } from './BudgetManager.js';
+export type { BudgetScope, BudgetSettings, BudgetManagerDeps } from './BudgetManager.js';
+
+// Turn Policy Manager - Per-topic multi-AI turn-taking
+export { TurnPolicyManager, DEFAULT_TURN_POLICY } from './TurnPolicyManager.js';
+export type { TurnPolicyMode, TurnPolicySettings, TurnPolicyManagerDeps } from './TurnPolicyManager.js';
@@ -16,7 +16,7 @@ import { getObject, storeUnversionedObject } from '@refinio/one.core/lib/storage
 import { StoryFactory } from '@refinio/api/plan-system';
 import { getAllEntries } from '@refinio/one.core/lib/reverse-map-query.js';
 import { createAccess } from '@refinio/one.core/lib/access.js';
-import { createDefaultKeys, hasDefaultKeys } from '@refinio/one.core/lib/keychain/keychain.js';
+import { createCryptoApiFromDefaultKeys, createDefaultKeys, hasDefaultKeys } from '@refinio/one.core/lib/keychain/keychain.js';
 
 // LAMA core plans (platform-agnostic business logic - AI-related)
 import { AIPlan } from '@lama/core/plans/AIPlan.js';
@@ -39,11 +39,18 @@ import { LLMObjectManager } from '@lama/core/models/LLMObjectManager.js';
 import { AIObjectManager } from '@lama/core/models/AIObjectManager.js';
 import { AISettingsManager } from '@lama/core/models/settings/AISettingsManager.js';
 import { GlobalLLMSettingsManager } from '@lama/core/models/settings/GlobalLLMSettingsManager.js';
+import { FallbackChainManager } from '@lama/core/models/settings/FallbackChainManager.js';
+import { BudgetManager } from '@lama/core/models/settings/BudgetManager.js';
+import { UsageLedger } from '@lama/core/services/usage-ledger.js';
+import { ApiKeyVault } from '@lama/core/services/api-key-vault.js';
+import { ResponseCache } from '@lama/core/services/response-cache.js';
 
 // Proposal services
 import { ProposalEngine } from '@lama/core/services/proposal-engine.js';
 import { ProposalRanker } from '@lama/core/services/proposal-ranker.js';
 import { ProposalCache } from '@lama/core/services/proposal-cache.js';
+import { createEmbeddingProvider } from '@lama/core/services/embedding-provider.js';
+import { reembedSubjects } from '@lama/core/one-ai/models/Subject.js';
 
 // LAMA core services
 import { LLMManager } from '@lama/core/services/llm-manager.js';
@@ -155,6 +162,9 @@ export class AIModule implements Module {
   // Tool executor for unified AI tool access
   public toolExecutor: AIToolExecutor | null = null;
 
+  // Disconnects the embedding model listener on shutdown
+  private disconnectEmbeddingModelListener: (() => void) | null = null;
+
   /**
    * Constructor - inject platform-specific dependencies
    * @param llmPlatform - Platform-specific LLM event emitter (Electron, Browser, etc.)
@@ -204,6 +214,28 @@ export class AIModule implements Module {
     // Wire GlobalLLMSettingsManager to LLMManager for multi-server discovery
     this.llmManager.setGlobalSettingsManager(this.globalLLMSettingsManager);
 
+    // Per-AI / per-topic fallback chains for automatic failover in chat()
+    this.llmManager.setFallbackChainManager(new FallbackChainManager({
+      storeVersionedObject,
+      getObjectByIdHash,
+      calculateIdHashOfObj
+    }));
+
+    // Token usage/cost ledger (LLMUsageDay + LLMUsageBucket objects per day) and per-AI / per-provider budgets
+    const storageDeps = { storeVersionedObject, getObjectByIdHash, calculateIdHashOfObj };
+    this.llmManager.setUsageLedger(new UsageLedger(storageDeps));
+    this.llmManager.setBudgetManager(new BudgetManager(storageDeps));
+
+    // Opt-in response cache for repeated background requests (one LLMResponseCache per topic)
+    this.llmManager.setResponseCache(new ResponseCache(storageDeps, (texts, model) => this.llmManager.embedForCache(texts, model)));
+
+    // API keys encrypted to the owner's own encryption key
+    const ownerCrypto = await createCryptoApiFromDefaultKeys(ownerId);
+    this.llmManager.setKeyVault(new ApiKeyVault(storageDeps, {
+      encrypt: data => ownerCrypto.encryptAndEmbedNonce(data, ownerCrypto.publicEncryptionKey),
+      decrypt: data => ownerCrypto.decryptWithEmbeddedNonce(data, ownerCrypto.publicEncryptionKey)
+    }, ownerId));
+
     // Discover Ollama models from configured servers
     // This is critical for fresh installs where no models are stored yet
     try {
@@ -447,6 +479,10 @@ export class AIModule implements Module {
       proposalRanker,
       proposalCache
     );
+    // Replay stored dismissals/views/shares into the learned ranking (non-blocking)
+    this.proposalsPlan.init();
+    // Enable the embedding half of hybrid retrieval (non-blocking - BM25 works without it)
+    this.configureProposalEmbeddings(proposalEngine);
     console.log('[AIModule] ProposalsPlan initialized');
 
     // Initialize AIPlan with all dependencies
@@ -461,6 +497,32 @@ export class AIModule implements Module {
     console.log('[AIModule] AIPlan initialized');
   }
 
+  /**
+   * Give the proposal engine an embedding provider for the configured embedding model
+   * When AISettings.embeddingModel changes, subject vectors are re-embedded with the new model.
+   */
+  private async configureProposalEmbeddings(proposalEngine: ProposalEngine): Promise<void> {
+    try {
+      const settings = await this.aiSettingsManager.getSettings();
+      const embeddingProvider = createEmbeddingProvider(this.llmManager, settings.embeddingModel);
+      proposalEngine.setEmbeddingProvider(embeddingProvider);
+      console.log('[AIModule] Proposal embeddings enabled with', embeddingProvider.getModelId());
+
+      this.disconnectEmbeddingModelListener = this.aiSettingsManager.onEmbeddingModelChanged.listen((embeddingModel: string) => {
+        embeddingProvider.setModel(embeddingModel);
+        proposalEngine.reindexEmbeddings().catch((error: Error) => {
+          console.warn('[AIModule] Re-embedding subjects failed, retrying on next query:', error.message);
+        });
+        // MeaningDimension keeps its own index of subject vectors
+        reembedSubjects(embeddingModel, this.deps.topicAnalysisModel).catch((error: Error) => {
+          console.warn('[AIModule] Re-embedding MeaningDimension subjects failed:', error.message);
+        });
+      });
+    } catch (error) {
+      console.warn('[AIModule] Proposal embeddings unavailable, using BM25 only:', error);
+    }
+  }
+
   /**
    * Start the AI message listener after login
    * Called after all initialization is complete
@@ -473,7 +535,12 @@ export class AIModule implements Module {
       channelManager: channelManager!,
       topicModel: topicModel!,
       aiPlan: this.aiAssistantPlan,
-      ownerId: ownerId as any
+      ownerId: ownerId as any,
+      // Cached responses built on the topic's old messages are stale now
+      onTopicChanged: topicId => {
+        this.llmManager.invalidateResponseCache(topicId).catch(error =>
+          console.error('[AIModule] Response cache invalidation failed:', error));
+      }
     });
     await this.aiMessageListener.start();
     console.log('[AIModule] AIMessageListener started');
@@ -484,6 +551,16 @@ export class AIModule implements Module {
     console.log('[AIModule] Scanning existing conversations for AI topics...');
     const registeredCount = await this.aiAssistantPlan.scanExistingConversations();
     console.log(`[AIModule] Registered ${registeredCount} AI topics from existing conversations`);
+
+    // Research runs interrupted by the last shutdown continue in the background
+    try {
+      const resumedCount = await this.aiAssistantPlan.resumeResearch();
+      if (resumedCount > 0) {
+        console.log(`[AIModule] Resumed ${resumedCount} research runs`);
+      }
+    } catch (error) {
+      console.error('[AIModule] Failed to resume research runs:', error);
+    }
   }
 
   /**
@@ -562,6 +639,9 @@ export class AIModule implements Module {
   async shutdown(): Promise<void> {
     console.log('[AIModule] Shutting down...');
 
+    this.disconnectEmbeddingModelListener?.();
+    this.disconnectEmbeddingModelListener = null;
+
     // Stop the message listener
     try {
       await this.aiMessageListener?.stop?.();
@@ -569,6 +649,19 @@ export class AIModule implements Module {
       console.error('[AIModule] Shutdown error (AIMessageListener):', error);
     }
 
+    // Write usage entries still waiting for the batched flush
+    try {
+      await this.llmManager?.getUsageLedger().flush();
+    } catch (error) {
+      console.error('[AIModule] Shutdown error (UsageLedger):', error);
+    }
+
+    try {
+      await this.llmManager?.getResponseCache().flush();
+    } catch (error) {
+      console.error('[AIModule] Shutdown error (ResponseCache):', error);
+    }
+
     console.log('[AIModule] Shutdown complete');
   }
 
@@ -18,14 +18,62 @@ import type { SHA256IdHash } from '@refinio/one.core/lib/util/type-checks.js';
 import type { Keyword } from '../types/Keyword.js';
 import type { MeaningDimension } from '@cube/meaning.core';
 
+/**
+ * Embedding provider of the MeaningDimension that can switch models
+ */
+export interface SwitchableEmbeddingProvider {
+  getModelId(): string;
+  setModel(modelId: string): void;
+}
+
 let meaningDimension: MeaningDimension | null = null;
+let meaningEmbeddingProvider: SwitchableEmbeddingProvider | null = null;
 
 /**
  * Set the MeaningDimension instance for subject embedding
  * Called during initialization
  */
-export function setMeaningDimension(dimension: MeaningDimension): void {
+export function setMeaningDimension(dimension: MeaningDimension, embeddingProvider?: SwitchableEmbeddingProvider): void {
   meaningDimension = dimension;
+  meaningEmbeddingProvider = embeddingProvider ?? null;
+}
+
+/**
+ * Switch the MeaningDimension to another embedding model and re-embed all subject descriptions
+ * Vectors of different models are not comparable, so every indexed subject is replaced.
+ *
+ * @param embeddingModel - New embedding model ID (AISettings.embeddingModel)
+ * @param topicAnalysisModel - Source of the subjects (getAllTopics/getSubjects)
+ * @returns Number of subjects re-embedded (0 without MeaningDimension)
+ */
+export async function reembedSubjects(embeddingModel: string, topicAnalysisModel: any): Promise<number> {
+  if (!meaningDimension || !meaningEmbeddingProvider) {
+    return 0;
+  }
+  meaningEmbeddingProvider.setModel(embeddingModel);
+
+  const topicIds: string[] = [...((await topicAnalysisModel.getAllTopics()) || [])];
+  if (!topicIds.includes('lama')) {
+    topicIds.push('lama');
+  }
+
+  const seen = new Set<string>();
+  for (const topicId of topicIds) {
+    for (const subject of (await topicAnalysisModel.getSubjects(topicId)) || []) {
+      if (!subject.description) continue;
+
+      const idHash = await calculateIdHashOfObj({ $type$: 'Subject', id: subject.id } as any);
+      if (seen.has(idHash)) continue;
+      seen.add(idHash);
+
+      // Stop when the model changed again - the newer switch re-embeds everything
+      if (meaningEmbeddingProvider.getModelId() !== embeddingModel) {
+        return seen.size - 1;
+      }
+      await meaningDimension.indexText(idHash as any, subject.description);
+    }
+  }
+  return seen.size;
 }
 
 /**
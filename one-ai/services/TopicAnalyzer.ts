@@ -131,11 +131,7 @@ class TopicAnalyzer {
         const defaultModel = models.find((m: any) => m.provider === 'ollama') || models[0];
         response = await this.llmManager.analyzeWithCache(topicId, prompt, defaultModel.modelId);
       } else {
-        response = await this.llmManager.chat({
-          messages: [{ role: 'user', content: prompt }],
-          temperature: 0.3,
-          maxTokens: 200
-        });
+        response = await this.chatForAnalysis(prompt, { temperature: 0.3, maxTokens: 200 });
       }
 
       // Extract content string from LLM response (may have _hasContext/_hasThinking wrapper)
@@ -306,11 +302,7 @@ Summary:`;
         const defaultModel = models.find((m: any) => m.provider === 'ollama') || models[0];
         response = await this.llmManager.analyzeWithCache(topicId, prompt, defaultModel.modelId);
       } else {
-        response = await this.llmManager.chat({
-          messages: [{ role: 'user', content: prompt }],
-          temperature: 0.5,
-          maxTokens: 300
-        });
+        response = await this.chatForAnalysis(prompt, { temperature: 0.5, maxTokens: 300, topicId });
       }
 
       // Extract content string from LLM response (may have _hasContext/_hasThinking wrapper)
@@ -340,6 +332,21 @@ Summary:`;
     }
   }
 
+  /**
+   * Analysis request on the default model - an unchanged prompt is answered
+   * from LLMManager's response cache (invalidated when the topic changes)
+   */
+  async chatForAnalysis(prompt: string, options: { temperature: number; maxTokens: number; topicId?: string }): Promise<any> {
+    const models = await this.llmManager.getAllModels();
+    const defaultModel = models.find((m: any) => m.provider === 'ollama') || models[0];
+    return await this.llmManager.chat([{ role: 'user', content: prompt }], defaultModel?.modelId, {
+      temperature: options.temperature,
+      maxTokens: options.maxTokens,
+      requestClass: 'background',
+      cache: options.topicId ? { topicId: options.topicId } : true
+    });
+  }
+
   /**
    * Update existing summary
    */
@@ -362,11 +369,7 @@ Keep it 100-200 words.
 Updated summary:`;
 
     try {
-      const response: any = await this.llmManager.chat({
-        messages: [{ role: 'user', content: prompt }],
-        temperature: 0.5,
-        maxTokens: 300
-      });
+      const response: any = await this.chatForAnalysis(prompt, { temperature: 0.5, maxTokens: 300 });
 
       // Extract content string from LLM response (may have _hasContext/_hasThinking wrapper)
       const responseContent = typeof response === 'object' && response?.content
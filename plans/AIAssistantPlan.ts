@@ -33,6 +33,19 @@ import type { LLMPlatform } from '../services/llm-platform.js';
 import type { LLMModelInfo } from '../models/ai/types.js';
 import { LLMAnalysisService } from '../services/analysis-service.js';
 import type { AnalysisContent, AnalysisContext } from '../services/analysis-service.js';
+import type { AgentStepEvent } from '../services/AIToolExecutor.js';
+import type { ToolTrace } from '../services/tool-trace.js';
+import { isCancellationError, type ModelSwitchEvent } from '../services/llm-failover.js';
+import type { PromptCacheHint } from '../services/llm-adapters/types.js';
+import type { CustomTaskDefinition, ResearchRun, TopicBranch } from '@OneObjectInterfaces';
+import { linkAbortSignals } from '../services/cancellation.js';
+import { AITurnCoordinator, type TurnCandidate } from '../models/ai/AITurnCoordinator.js';
+import { AIBranchManager, type ForkOptions, type ForkResult, type RegenerateOptions } from '../models/ai/AIBranchManager.js';
+import { AIResearchRunner, type ResearchRequest } from '../models/ai/AIResearchRunner.js';
+import { AICustomTaskManager, type CustomTaskInput, type CustomTaskResult } from '../models/ai/AICustomTaskManager.js';
+import { TurnPolicyManager, type TurnPolicySettings } from '../models/settings/TurnPolicyManager.js';
+import { calculateIdHashOfObj } from '@refinio/one.core/lib/util/object.js';
+import { objectEvents } from '@refinio/one.models/lib/misc/ObjectEventDispatcher.js';
 
 
 /**
@@ -88,6 +101,17 @@ export interface AIAssistantPlanDependencies {
   storageDeps: AIManagerDeps;
 }
 
+/**
+ * Running chat request returned by AIAssistantPlan.chat()
+ */
+export interface ChatHandle {
+  /** Resolves with the LLM response, rejects with an AbortError after cancel() */
+  response: Promise<any>;
+  /** Stop generating - aborts the model call, a queued slot and pending tool executions */
+  cancel: () => void;
+  readonly signal: AbortSignal;
+}
+
 /**
  * AIAssistantPlan public interface
  */
@@ -99,6 +123,11 @@ export class AIAssistantPlan {
   private promptBuilder: AIPromptBuilder;
   private messageProcessor: AIMessageProcessor;
   private analysisService: LLMAnalysisService;
+  private turnPolicyManager: TurnPolicyManager;
+  private turnCoordinator: AITurnCoordinator;
+  private branchManager: AIBranchManager;
+  private researchRunner: AIResearchRunner;
+  private customTaskManager: AICustomTaskManager;
 
   // Dependencies
   private deps: AIAssistantPlanDependencies;
@@ -106,6 +135,9 @@ export class AIAssistantPlan {
   // Initialization state
   private initialized = false;
 
+  // Disconnect functions of the object event listeners (see watchTopicObjects)
+  private objectListeners: Array<() => void> = [];
+
   // Default AI Person ID (set when AI creation completes)
   // This is stored separately from model because AI identity is independent of model per design
   private _defaultAIPersonId: SHA256IdHash<Person> | null = null;
@@ -157,6 +189,60 @@ export class AIAssistantPlan {
     // Initialize analysis service (abstract, reusable for chat/memory/files)
     this.analysisService = new LLMAnalysisService(deps.llmManager, deps.mcpManager);
 
+    // Multi-AI turn-taking per topic
+    this.turnPolicyManager = new TurnPolicyManager({
+      storeVersionedObject: deps.storageDeps.storeVersionedObject,
+      getObjectByIdHash: deps.storageDeps.getObjectByIdHash,
+      calculateIdHashOfObj
+    });
+    this.turnCoordinator = new AITurnCoordinator(deps.llmManager);
+
+    // Regenerate, edit-and-resend and forked topics
+    this.branchManager = new AIBranchManager(
+      {
+        storeVersionedObject: deps.storageDeps.storeVersionedObject,
+        getObjectByIdHash: deps.storageDeps.getObjectByIdHash,
+        calculateIdHashOfObj
+      },
+      deps.topicModel,
+      deps.leuteModel,
+      this.topicManager,
+      this.messageProcessor,
+      this.promptBuilder,
+      deps.llmManager,
+      deps.topicAnalysisModel,
+      deps.topicGroupManager
+    );
+
+    // Research tasks - TopicAnalysisModel is read through the task manager (injected late by AIModule)
+    this.researchRunner = new AIResearchRunner(
+      {
+        storeVersionedObject: deps.storageDeps.storeVersionedObject,
+        getObjectByIdHash: deps.storageDeps.getObjectByIdHash,
+        calculateIdHashOfObj
+      },
+      deps.topicModel,
+      deps.llmManager,
+      this.topicManager,
+      this.aiManager,
+      () => this.taskManager.getTopicAnalysisModel(),
+      deps.platform
+    );
+
+    // User-defined per-topic automations (CustomTaskDefinition)
+    this.customTaskManager = new AICustomTaskManager(
+      {
+        storeVersionedObject: deps.storageDeps.storeVersionedObject,
+        getObjectByIdHash: deps.storageDeps.getObjectByIdHash,
+        calculateIdHashOfObj
+      },
+      deps.topicModel,
+      deps.llmManager,
+      this.topicManager,
+      this.aiManager,
+      () => this.taskManager.getTopicAnalysisModel()
+    );
+
     // CRITICAL: Inject self into messageProcessor so it calls through us, not llmManager directly
     this.messageProcessor.setAIAssistant(this);
 
@@ -232,6 +318,10 @@ export class AIAssistantPlan {
       this.promptBuilder.setMessageProcessor(this.messageProcessor);
       this.messageProcessor.setPromptBuilder(this.promptBuilder);
       this.messageProcessor.setTaskManager(this.taskManager);
+      this.promptBuilder.setBranchManager(this.branchManager);
+      this.taskManager.setResearchRunner(this.researchRunner);
+      this.taskManager.setCustomTaskManager(this.customTaskManager);
+      this.watchTopicObjects();
 
       // Initialize task manager (subject channel)
       if (this.deps.topicAnalysisModel) {
@@ -424,6 +514,248 @@ export class AIAssistantPlan {
     return await this.messageProcessor.processMessage(topicId, message, senderId, aiPersonId);
   }
 
+  /**
+   * Stop generating in a topic - works for every provider
+   * Aborts the running responses (model call, queued slot, pending tool calls)
+   * and any other LLM request for the topic.
+   * @returns true if something was running
+   */
+  stopGenerating(topicId: string): boolean {
+    const stoppedResponse = this.messageProcessor.stopGenerating(topicId);
+    const stoppedRequests = this.deps.llmManager?.stopStreaming?.(topicId) ?? false;
+    return stoppedResponse || stoppedRequests;
+  }
+
+  /**
+   * Regenerate the AI reply to the last user message, optionally with another model
+   * The previous reply is kept as a sibling branch.
+   * @returns The branch holding the previous reply (null if there was none)
+   */
+  async regenerateResponse(topicId: string, options: RegenerateOptions = {}): Promise<TopicBranch | null> {
+    if (!this.initialized) {
+      throw new Error('[AIAssistantPlan] Plan not initialized - call init() first');
+    }
+    return await this.branchManager.regenerate(topicId, options);
+  }
+
+  /**
+   * Edit a user message and re-run the conversation from there
+   * The original message and everything after it is kept as a sibling branch.
+   */
+  async editAndResend(topicId: string, messageHash: string, newText: string): Promise<TopicBranch> {
+    if (!this.initialized) {
+      throw new Error('[AIAssistantPlan] Plan not initialized - call init() first');
+    }
+    return await this.branchManager.editAndResend(topicId, messageHash, newText);
+  }
+
+  /**
+   * Fork a topic at a message into a new topic with the history up to that
+   * message, the same AIs and the subjects discussed until then
+   */
+  async forkTopic(topicId: string, messageHash: string, options: ForkOptions = {}): Promise<ForkResult> {
+    if (!this.initialized) {
+      throw new Error('[AIAssistantPlan] Plan not initialized - call init() first');
+    }
+    return await this.branchManager.forkTopic(topicId, messageHash, options);
+  }
+
+  /**
+   * Get the conversation branches of a topic
+   * Messages in supersededHashes are not part of the active conversation; branches
+   * with the same anchorHash are siblings of the active continuation after it.
+   */
+  async getTopicBranches(topicId: string): Promise<{
+    branches: TopicBranch[];
+    supersededHashes: string[];
+    forkedFrom?: { topicId: string; messageHash?: string };
+  }> {
+    const branches = await this.branchManager.getBranches(topicId);
+    return {
+      branches: branches?.branches ?? [],
+      supersededHashes: [...await this.branchManager.getSupersededHashes(topicId)],
+      ...(branches?.forkedFromTopicId
+        ? { forkedFrom: { topicId: branches.forkedFromTopicId, messageHash: branches.forkedAtHash } }
+        : {})
+    };
+  }
+
+  /**
+   * Number of messages copied into a forked topic from its source - not answered again
+   */
+  async getForkPrefixLength(topicId: string): Promise<number> {
+    return await this.branchManager.getForkPrefixLength(topicId);
+  }
+
+  /**
+   * Research a question in the background: sub-queries through tools and past
+   * subjects, then a report with citations posted into the topic
+   * @returns The research ID
+   */
+  async startResearch(
+    topicId: string,
+    question: string,
+    options: Omit<ResearchRequest, 'topicId' | 'question'> = {}
+  ): Promise<string> {
+    if (!this.initialized) {
+      throw new Error('[AIAssistantPlan] Plan not initialized - call init() first');
+    }
+    return await this.researchRunner.start({ ...options, topicId, question });
+  }
+
+  /**
+   * Get the research runs of a topic with their progress and evidence
+   */
+  async getResearchRuns(topicId: string): Promise<ResearchRun[]> {
+    return await this.researchRunner.getRuns(topicId);
+  }
+
+  /**
+   * Resume research runs interrupted by an app restart - call after scanExistingConversations()
+   * @returns Number of resumed runs
+   */
+  async resumeResearch(): Promise<number> {
+    return await this.researchRunner.resumeAll(this.topicManager.getAllAITopicIds());
+  }
+
+  /**
+   * Get the custom task definitions of a topic
+   */
+  async getCustomTasks(topicId: string): Promise<CustomTaskDefinition[]> {
+    return await this.customTaskManager.getTasks(topicId);
+  }
+
+  /**
+   * Define a custom task for a topic - e.g. "extract action items" after every message
+   */
+  async defineCustomTask(topicId: string, input: CustomTaskInput): Promise<CustomTaskDefinition> {
+    return await this.customTaskManager.defineTask(topicId, input);
+  }
+
+  /**
+   * Update a custom task - unset fields keep their current value
+   */
+  async updateCustomTask(topicId: string, taskId: string, changes: Partial<CustomTaskInput>): Promise<CustomTaskDefinition> {
+    return await this.customTaskManager.updateTask(topicId, taskId, changes);
+  }
+
+  /**
+   * Remove a custom task from a topic
+   */
+  async deleteCustomTask(topicId: string, taskId: string): Promise<void> {
+    await this.customTaskManager.deleteTask(topicId, taskId);
+  }
+
+  /**
+   * Run a custom task now (manual trigger)
+   * @param message - Fills {{message}} (defaults to the topic's last message)
+   */
+  async runCustomTask(topicId: string, taskId: string, message?: string): Promise<CustomTaskResult> {
+    if (!this.initialized) {
+      throw new Error('[AIAssistantPlan] Plan not initialized - call init() first');
+    }
+    return await this.customTaskManager.runTask(topicId, taskId, message);
+  }
+
+  /**
+   * Run the custom tasks triggered by a new user message
+   * @param messageNumber - Position of the message in the topic (1-based)
+   */
+  async runCustomTasksForMessage(topicId: string, message: string, messageNumber: number): Promise<CustomTaskResult[]> {
+    if (!this.initialized) {
+      throw new Error('[AIAssistantPlan] Plan not initialized - call init() first');
+    }
+    return await this.customTaskManager.runTriggeredTasks(topicId, message, messageNumber);
+  }
+
+  /**
+   * Get how the AIs of a topic take turns (the default policy when none is stored)
+   */
+  async getTurnPolicy(topicId: string): Promise<TurnPolicySettings> {
+    return await this.turnPolicyManager.getEffectivePolicy(topicId);
+  }
+
+  /**
+   * Set how the AIs of a topic take turns - unset fields keep their current value
+   */
+  async setTurnPolicy(topicId: string, policy: Partial<TurnPolicySettings>): Promise<TurnPolicySettings> {
+    if (policy.moderatorPersonId && !this.isAIPerson(policy.moderatorPersonId as SHA256IdHash<Person>)) {
+      throw new Error(`Moderator ${policy.moderatorPersonId} is not an AI`);
+    }
+    await this.turnPolicyManager.setPolicy(topicId, policy);
+    MessageBus.send('log', `Turn policy of ${topicId} set to ${policy.mode ?? 'unchanged mode'}`);
+    return await this.turnPolicyManager.getEffectivePolicy(topicId);
+  }
+
+  /**
+   * Select the AIs that answer a message, following the topic's turn policy
+   * @param topicId - The topic ID
+   * @param message - The message to answer and its sender (human or AI)
+   * @param candidateIds - AIs that may answer, in join order
+   * @param recentSenderIds - Senders of the topic's earlier messages, oldest first
+   */
+  async selectRespondingAIs(
+    topicId: string,
+    message: { text: string; senderId: SHA256IdHash<Person> },
+    candidateIds: SHA256IdHash<Person>[],
+    recentSenderIds: SHA256IdHash<Person>[]
+  ): Promise<SHA256IdHash<Person>[]> {
+    const policy = await this.getTurnPolicy(topicId);
+    const fromAI = this.isAIPerson(message.senderId);
+
+    // AI messages since the last human one
+    let consecutiveAITurns = 0;
+    if (fromAI) {
+      consecutiveAITurns = 1;
+      for (let i = recentSenderIds.length - 1; i >= 0 && this.isAIPerson(recentSenderIds[i]); i--) {
+        consecutiveAITurns++;
+      }
+    }
+
+    const candidates = candidateIds
+      .filter(personId => personId !== message.senderId)
+      .map(personId => this.toTurnCandidate(personId))
+      .filter((candidate): candidate is TurnCandidate => candidate !== null);
+
+    const decision = await this.turnCoordinator.selectSpeakers({
+      topicId,
+      policy,
+      message: {
+        text: message.text,
+        senderId: message.senderId,
+        ...(fromAI ? { senderName: this.aiManager.getAI(message.senderId)?.displayName } : {}),
+        fromAI
+      },
+      candidates,
+      recentSenderIds,
+      consecutiveAITurns,
+      ...(policy.mode === 'moderator' && policy.moderatorPersonId
+        ? { moderator: this.toTurnCandidate(policy.moderatorPersonId as SHA256IdHash<Person>) ?? undefined }
+        : {})
+    });
+
+    MessageBus.send('debug', `Turn in ${topicId} (${policy.mode}): ${decision.speakers.length}/${candidates.length} AIs - ${decision.reason}`);
+    return decision.speakers as SHA256IdHash<Person>[];
+  }
+
+  private toTurnCandidate(personId: SHA256IdHash<Person>): TurnCandidate | null {
+    const ai = this.aiManager.getAI(personId);
+    if (!ai) {
+      return null;
+    }
+    const description = [
+      ai.personality?.traits?.length ? `Traits: ${ai.personality.traits.join(', ')}.` : '',
+      ai.personality?.systemPromptAddition ?? ''
+    ].filter(Boolean).join(' ');
+    return {
+      personId: personId.toString(),
+      aiId: ai.aiId,
+      displayName: ai.displayName,
+      modelId: ai.modelId,
+      ...(description ? { description } : {})
+    };
+  }
+
   /**
    * Check if a topic is an AI topic
    */
@@ -883,33 +1215,49 @@ export class AIAssistantPlan {
    *
    * @param history - Conversation history
    * @param modelId - LLM model ID
-   * @param options - Streaming and tool options
+   * @param options - Streaming and tool options (signal: external cancellation)
    * @param topicId - Optional topic ID for MCP configuration check
-   * @returns LLM response
+   * @returns Handle with the response promise and cancel()
    */
-  async chat(
+  chat(
     history: Array<{ role: 'system' | 'user' | 'assistant'; content: string }>,
     modelId: string,
     options?: {
       onStream?: (chunk: string) => void;
       disableTools?: boolean;
+      signal?: AbortSignal;
     },
     topicId?: string
-  ): Promise<any> {
-    if (!this.initialized) {
-      throw new Error('[AIAssistantPlan] Plan not initialized - call init() first');
-    }
+  ): ChatHandle {
+    const { controller, dispose } = linkAbortSignals(options?.signal);
 
-    if (!this.deps.llmManager) {
-      throw new Error('[AIAssistantPlan] LLM Manager not available');
-    }
+    const run = async () => {
+      if (!this.initialized) {
+        throw new Error('[AIAssistantPlan] Plan not initialized - call init() first');
+      }
 
-    // Read maxTokens from user settings
-    const maxTokens = await this.getResponseLength();
+      if (!this.deps.llmManager) {
+        throw new Error('[AIAssistantPlan] LLM Manager not available');
+      }
+
+      // Read maxTokens from user settings
+      const maxTokens = await this.getResponseLength();
+
+      // All LLM calls go through here - we can add middleware, logging, etc.
+      const optionsWithSettings = { ...options, maxTokens, topicId, signal: controller.signal };
+      return await this.deps.llmManager.chat(history, modelId, optionsWithSettings);
+    };
 
-    // All LLM calls go through here - we can add middleware, logging, etc.
-    const optionsWithSettings = { ...options, maxTokens, topicId };
-    return await this.deps.llmManager.chat(history, modelId, optionsWithSettings);
+    return {
+      response: run().finally(dispose),
+      cancel: () => {
+        if (!controller.signal.aborted) {
+          MessageBus.send('debug', `Chat cancelled${topicId ? ` for topic ${topicId}` : ''}`);
+          controller.abort();
+        }
+      },
+      signal: controller.signal
+    };
   }
 
   /**
@@ -930,11 +1278,25 @@ export class AIAssistantPlan {
     options?: {
       topicId?: string;
       priority?: number;
+      /** AI Person making tool calls (identity for PolicyEngine / audit trail) */
+      callerId?: SHA256IdHash<Person>;
+      /** AI whose fallback chain applies (topic chains take precedence) */
+      aiId?: string;
+      /** Stable system prompt segments (getPromptCacheHint) - cached by providers that support it */
+      promptCache?: PromptCacheHint;
+      /** Cancels Phase 1 (model call + tool loop) and skips Phase 2 */
+      signal?: AbortSignal;
       onStream?: (chunk: string) => void;
       onThinkingStream?: (chunk: string) => void;
       onProgress?: (status: string) => void;
+      onToolStep?: (step: AgentStepEvent) => void;
+      /** A fallback model took over - streamed chunks before a restart are void */
+      onModelSwitch?: (event: ModelSwitchEvent) => void;
       onAnalysis?: (analysis: { keywords: string[]; description?: string; language?: string; summaryUpdate?: string }) => void;
-      onComplete?: (result: { response: string; thinking?: string; analysis?: any }) => void;
+      /** Phase 1 was cancelled via signal - onComplete is not called */
+      onCancelled?: () => void;
+      /** answeredBy is set when a fallback model produced the response */
+      onComplete?: (result: { response: string; thinking?: string; analysis?: any; toolTrace?: ToolTrace; answeredBy?: string }) => void;
     }
   ): Promise<any> {
     if (!this.initialized) {
@@ -970,11 +1332,25 @@ export class AIAssistantPlan {
     // ✅ PHASE 1: Start streaming IMMEDIATELY with inline tool support
     options?.onProgress?.('Generating response...');
 
+    // Model that actually answers (changes if LLMManager fails over)
+    let answeredBy = modelId;
+
     const responsePromise = this.deps.llmManager.chat(history, modelId, {
       topicId, // CRITICAL: Enables context caching
       maxTokens,
       onStream: options?.onStream, // UI gets chunks in real-time
       onThinkingStream: options?.onThinkingStream, // Thinking stream
+      onToolStep: options?.onToolStep, // Intermediate tool steps
+      onModelSwitch: (event: ModelSwitchEvent) => {
+        answeredBy = event.toModelId;
+        options?.onModelSwitch?.(event);
+      },
+      callerId: options?.callerId,
+      aiId: options?.aiId,
+      promptCache: options?.promptCache, // Cached system prompt + past subjects (Anthropic)
+      priority: options?.priority, // Topic priority for the concurrency queue
+      requestClass: 'interactive',
+      signal: options?.signal,
       temperature: 0.7 // Normal temp for user-facing response
       // Tools enabled - LLM can call them inline if needed
     });
@@ -988,6 +1364,7 @@ export class AIAssistantPlan {
       // Handle multiple response formats: {content, ...}, {response, ...}, or plain string
       let actualResponse = '';
       let thinking: string | undefined;
+      let toolTrace: ToolTrace | undefined;
       if (typeof response === 'object' && response !== null) {
         if ('content' in response) {
           actualResponse = (response as any).content;
@@ -997,6 +1374,7 @@ export class AIAssistantPlan {
           actualResponse = String(response);
         }
         thinking = (response as any).thinking;
+        toolTrace = (response as any)._toolTrace;
       } else {
         actualResponse = String(response);
       }
@@ -1004,10 +1382,12 @@ export class AIAssistantPlan {
       let analysis: any = undefined;
 
       // ✅ PHASE 2: Run analytics with cached context (if topicId provided)
-      if (topicId && options?.onAnalysis) {
+      // Skipped when the user stopped generating
+      if (topicId && options?.onAnalysis && !options?.signal?.aborted) {
         try {
-          // Import Phase 2 analytics prompt (JSON structured output)
+          // Import Phase 2 analytics prompt and the schema its reply is validated against
           const { PHASE2_ANALYTICS_PROMPT } = await import('../constants/system-prompts.js');
+          const { PHASE2_ANALYTICS_SCHEMA } = await import('../schemas/phase2-analytics.schema.js');
 
           // Build analytics conversation with structured prompt
           const analyticsHistory = [
@@ -1017,28 +1397,28 @@ export class AIAssistantPlan {
 
           // Use cached context for analytics (3-12x faster!)
           // CRITICAL: No streaming callbacks - this is background processing
-          const analyticsResponse = await this.deps.llmManager.chat(
+          // Runs on the model that answered Phase 1 - the requested one may be down
+          // Invalid JSON (prose around it, multi-word keywords, ...) gets one repair re-prompt
+          const structured = await this.deps.llmManager.chatStructured(
             analyticsHistory,
-            modelId,
+            answeredBy,
+            PHASE2_ANALYTICS_SCHEMA,
             {
               topicId, // Reuses cached context from Phase 1
+              aiId: options?.aiId,
               maxTokens,
+              priority: options?.priority,
+              requestClass: 'analysis', // Yields to interactive requests on local models
               temperature: 0.3, // Lower temp for deterministic extraction
               disableTools: true, // No tool calls needed for analytics
+              maxRepairAttempts: 1,
               onStream: undefined, // No streaming - background only
               onThinkingStream: undefined // No thinking display - background only
             }
           );
 
-          const jsonResponse = typeof analyticsResponse === 'string'
-            ? analyticsResponse
-            : (typeof analyticsResponse === 'object' && 'content' in analyticsResponse)
-              ? (analyticsResponse as any).content
-              : JSON.stringify(analyticsResponse);
-
-          console.log('[Phase 2] Raw LLM response:', jsonResponse.substring(0, 200));
-          const parsedAnalysis = JSON.parse(jsonResponse);
-          console.log('[Phase 2] Parsed analysis:', {
+          const parsedAnalysis = structured.value;
+          console.log(`[Phase 2] Analysis (${structured.outcome}, ${structured.calls} call(s)):`, {
             keywordsCount: parsedAnalysis.keywords?.length,
             description: parsedAnalysis.description,
             language: parsedAnalysis.language
@@ -1071,7 +1451,9 @@ export class AIAssistantPlan {
         options.onComplete({
           response: actualResponse,
           thinking,
-          analysis
+          analysis,
+          toolTrace,
+          answeredBy: answeredBy !== modelId ? answeredBy : undefined
         });
       }
 
@@ -1094,6 +1476,11 @@ export class AIAssistantPlan {
         });
       }
     }).catch(error => {
+      if (isCancellationError(error, options?.signal)) {
+        MessageBus.send('debug', `Phase 1 cancelled${topicId ? ` for topic ${topicId}` : ''}`);
+        options?.onCancelled?.();
+        return;
+      }
       MessageBus.send('error', 'Phase 1 failed:', error);
       // Phase 1 failed - can't run Phase 2
     });
@@ -1128,9 +1515,59 @@ export class AIAssistantPlan {
    */
   async shutdown(): Promise<void> {
     MessageBus.send('log', 'Shutting down...');
+    this.objectListeners.forEach(disconnect => disconnect());
+    this.objectListeners = [];
     this.initialized = false;
   }
 
+  /**
+   * Keep the settings and topic managers' caches current
+   *
+   * The managers read their objects once per topic (or AI/provider) and keep
+   * them in memory. Each new version - stored here or synced from another
+   * device - drops the affected entry via the manager's invalidate(), so the
+   * next read loads that version.
+   */
+  private watchTopicObjects(): void {
+    this.objectListeners.push(
+      objectEvents.onNewVersion(
+        result => this.turnPolicyManager.invalidate(result.obj.topicId),
+        'AIAssistantPlan: refresh turn policy',
+        'TopicTurnPolicy'
+      ),
+      objectEvents.onNewVersion(
+        result => this.branchManager.invalidate(result.obj.topicId),
+        'AIAssistantPlan: refresh topic branches',
+        'TopicBranches'
+      ),
+      objectEvents.onNewVersion(
+        result => this.researchRunner.invalidate(result.obj.topicId),
+        'AIAssistantPlan: refresh research runs',
+        'TopicResearch'
+      ),
+      objectEvents.onNewVersion(
+        result => this.customTaskManager.invalidate(result.obj.topicId),
+        'AIAssistantPlan: refresh custom task list',
+        'CustomTaskList'
+      ),
+      objectEvents.onNewVersion(
+        result => this.customTaskManager.invalidate(result.obj.topicId),
+        'AIAssistantPlan: refresh custom task',
+        'CustomTaskDefinition'
+      ),
+      objectEvents.onNewVersion(
+        result => this.deps.llmManager?.getFallbackChainManager?.()?.invalidate(result.obj.scope, result.obj.scopeId),
+        'AIAssistantPlan: refresh fallback chain',
+        'LLMFallbackChain'
+      ),
+      objectEvents.onNewVersion(
+        result => this.deps.llmManager?.getBudgetManager?.()?.invalidate(result.obj.scope, result.obj.scopeId),
+        'AIAssistantPlan: refresh budget',
+        'LLMBudget'
+      )
+    );
+  }
+
   /**
    * Get all AI topic IDs
    */
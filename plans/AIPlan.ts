@@ -512,13 +512,9 @@ export class AIPlan {
         await (this.llmManager as any).init();
       }
 
+      // Stored encrypted in the key vault - never in plaintext state
       await (this.llmManager as any).setApiKey(request.provider, request.apiKey);
 
-      // Store securely (implement proper encryption)
-      if (this.stateManager) {
-        this.stateManager.setState(`ai.apiKeys.${request.provider}`, request.apiKey);
-      }
-
       return {
         success: true,
         data: { provider: request.provider }
@@ -6,6 +6,7 @@
  * Pattern based on refinio.api handler architecture.
  */
 
+import { OEvent } from '@refinio/one.models/lib/misc/OEvent.js';
 import { storeVersionedObject } from '@refinio/one.core/lib/storage-versioned-objects.js';
 import { storeUnversionedObject } from '@refinio/one.core/lib/storage-unversioned-objects.js';
 import { ensureIdHash } from '@refinio/one.core/lib/util/type-checks.js';
@@ -15,9 +16,28 @@ import type { HashGroup, Person } from '@refinio/one.core/lib/recipes.js';
 import { generateSystemPromptForModel } from '../constants/system-prompts.js';
 import type { LLMRegistry } from '../services/llm-registry.js';
 import type { GlobalLLMSettingsManager } from '../models/settings/GlobalLLMSettingsManager.js';
+import type { ConcurrencyGroupMetrics } from '../services/llm-concurrency-manager.js';
+import type { OllamaServerState } from '../services/ollama-scheduler.js';
+import type { ApiKeyInfo, ApiKeyScope, ApiKeyVault } from '../services/api-key-vault.js';
+import type { ResponseCacheConfig, ResponseCacheStats } from '../services/response-cache.js';
+import type { LLMCapabilities } from '../models/ai/types.js';
+import type { LLMBudget, LLMDiscoveredCapabilities } from '../@OneObjectInterfaces.js';
 
 const MessageBus = createMessageBus('LLMConfigPlan');
 import { getModelProvider, modelRequiresApiKey } from '../constants/model-registry.js';
+import { OPENAI_COMPATIBLE_PROVIDERS, resolveOpenAICompatibleBaseUrl } from '../services/llm-adapters/openai-compatible-adapter.js';
+import { listOpenAIModels } from '../services/openai-http.js';
+import { capabilitiesFromOpenAIModel, capabilitiesFromOllamaShow, showOllamaModel, type OllamaShowResponse } from '../services/capability-discovery.js';
+import {
+  pullOllamaModel,
+  deleteOllamaModel,
+  copyOllamaModel,
+  listRunningOllamaModels,
+  loadOllamaModel,
+  isValidOllamaKeepAlive,
+  type OllamaRunningModel
+} from '../services/ollama.js';
+import { resolveLLMCapabilities } from '../services/capability-resolver.js';
 
 // Re-export types for convenience
 export interface TestConnectionRequest {
@@ -43,6 +63,7 @@ export interface SetOllamaConfigRequest {
   setAsActive: boolean;
   apiKey?: string; // For cloud providers (Claude, OpenAI, etc.)
   inferenceType?: 'ondevice' | 'server' | 'cloud'; // Where inference runs: ondevice (ONNX), server (Ollama), cloud (API)
+  provider?: string; // OpenAI-compatible servers: 'vllm' | 'llamacpp' | 'localai' | 'lmstudio' | 'openai-compatible'
 }
 
 export interface SetOllamaConfigResponse {
@@ -97,6 +118,21 @@ export interface DeleteOllamaConfigResponse {
   errorCode?: string;
 }
 
+/**
+ * Progress of an Ollama model pull (LLMConfigPlan.onOllamaPullProgress)
+ */
+export interface OllamaPullEvent {
+  serverId?: string;
+  baseUrl: string;
+  model: string;
+  status: string; // Ollama status ('pulling manifest', 'pulling <digest>', 'success') or 'error' / 'cancelled'
+  digest?: string;
+  total?: number;
+  completed?: number;
+  percent?: number; // Of the layer currently downloading
+  error?: string;
+}
+
 /**
  * LLMConfigPlan - Pure business logic for LLM configuration operations
  *
@@ -113,6 +149,11 @@ export class LLMConfigPlan {
   private fetchOllamaModels: (server: string, authToken?: string) => Promise<any[]>;
   private llmRegistry?: LLMRegistry;
   private globalSettingsManager?: GlobalLLMSettingsManager;
+  // Running pulls: `${baseUrl}|${model}` → controller
+  private activePulls = new Map<string, AbortController>();
+
+  /** Progress of running model pulls (pullOllamaModel) */
+  public onOllamaPullProgress = new OEvent<(event: OllamaPullEvent) => void>();
 
   constructor(
     nodeOneCore: any,
@@ -297,12 +338,10 @@ export class LLMConfigPlan {
         }
       }
 
-      // Store API key in settings if provided (ONE.core handles encryption via master key)
+      // Store API key as the provider's default vault key (settings without a vault)
       if (request.apiKey) {
         try {
-          const settingsKey = `llm.${request.modelName}.apiKey`;
-          await this.settings.setValue(settingsKey, request.apiKey);
-          MessageBus.send('debug', `[LLMConfigPlan] Stored API key in settings (encrypted by ONE.core): ${settingsKey}`);
+          await this.storeProviderKey(getModelProvider(request.modelName), `llm.${request.modelName}.apiKey`, request.apiKey);
 
           // Initialize LLMManager now that we have an API key
           // This will discover models from the provider (Claude, OpenAI, etc.)
@@ -319,8 +358,9 @@ export class LLMConfigPlan {
         }
       }
 
-      // Get provider from model registry
-      const provider = getModelProvider(request.modelName);
+      // Get provider from model registry (self-hosted servers name it explicitly)
+      const provider = request.provider || getModelProvider(request.modelName);
+      const isOpenAICompatible = provider in OPENAI_COMPATIBLE_PROVIDERS;
 
       // Create LLM identity (Person) for this model if aiAssistantModel is available
       if (this.nodeOneCore.aiAssistantModel) {
@@ -354,17 +394,20 @@ export class LLMConfigPlan {
           inferenceType = 'cloud';
         } else if (provider === 'local' || provider === 'transformers') {
           inferenceType = 'ondevice';
-        } else if (provider === 'ollama' || provider === 'lmstudio') {
+        } else if (provider === 'ollama' || isOpenAICompatible) {
           inferenceType = 'server';
         }
 
         const now = Date.now();
         const nowStr = new Date().toISOString();
+        const defaultServer = inferenceType === 'ondevice'
+          ? 'local'
+          : OPENAI_COMPATIBLE_PROVIDERS[provider] ?? 'http://localhost:11434';
 
         const llmObject: any = {
           $type$: 'LLM',
           name: request.modelName,
-          server: request.server || (inferenceType === 'ondevice' ? 'local' : 'http://localhost:11434'),
+          server: request.server || defaultServer,
           filename: request.modelName,
           modelId: request.modelName,
           modelType: request.modelType,
@@ -381,6 +424,14 @@ export class LLMConfigPlan {
           maxTokens: 4096
         };
 
+        // OpenAI-compatible servers are addressed via baseUrl (see OpenAICompatibleAdapter)
+        if (isOpenAICompatible) {
+          llmObject.baseUrl = resolveOpenAICompatibleBaseUrl(request.server, provider);
+        }
+        if (request.authType) {
+          llmObject.authType = request.authType;
+        }
+
         // Determine source for registry
         let source: 'ollama' | 'lmstudio' | 'anthropic' | 'openai' | 'local' | 'manual' = 'manual';
         if (provider === 'ollama') source = 'ollama';
@@ -1006,11 +1057,9 @@ export class LLMConfigPlan {
         };
       }
 
-      // Store API key in SettingsModel (encrypted by ONE.core)
-      const settingsKey = `llm.${llmObject.modelName}.apiKey`;
+      // Rotate the provider's default vault key (settings without a vault)
       try {
-        await this.settings.setValue(settingsKey, request.apiKey);
-        MessageBus.send('debug', `[LLMConfigPlan] Updated API key in settings: ${settingsKey}`);
+        await this.storeProviderKey(llmObject.provider || getModelProvider(llmObject.modelName), `llm.${llmObject.modelName}.apiKey`, request.apiKey);
       } catch (error: any) {
         return {
           success: false,
@@ -1324,4 +1373,917 @@ export class LLMConfigPlan {
       return { success: false, count: 0, errors: [{ serverId: 'global', error: error.message }] };
     }
   }
+
+  // ========== Ollama Model Lifecycle ==========
+  // serverId selects a configured server - without it the active Ollama config is used
+
+  /**
+   * Download a model to an Ollama server
+   * Progress is emitted via onOllamaPullProgress; resolves when the pull is done.
+   * The server's models are re-discovered afterwards.
+   */
+  async pullOllamaModel(params: { serverId?: string; model: string; insecure?: boolean }): Promise<{
+    success: boolean;
+    error?: string;
+  }> {
+    let server: { baseUrl: string; headers?: Record<string, string>; serverId?: string };
+    try {
+      server = await this.resolveOllamaServer(params.serverId);
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+
+    const key = `${server.baseUrl}|${params.model}`;
+    if (this.activePulls.has(key)) {
+      return { success: false, error: `${params.model} is already being pulled` };
+    }
+
+    const controller = new AbortController();
+    this.activePulls.set(key, controller);
+    const emit = (event: Omit<OllamaPullEvent, 'serverId' | 'baseUrl' | 'model'>) =>
+      this.onOllamaPullProgress.emit({ serverId: server.serverId, baseUrl: server.baseUrl, model: params.model, ...event });
+
+    try {
+      MessageBus.send('log', `[LLMConfigPlan] Pulling ${params.model} on ${server.baseUrl}`);
+      await pullOllamaModel(server.baseUrl, params.model, {
+        headers: server.headers,
+        signal: controller.signal,
+        insecure: params.insecure,
+        onProgress: progress => emit({
+          ...progress,
+          ...(progress.total ? { percent: Math.round(((progress.completed ?? 0) / progress.total) * 100) } : {})
+        })
+      });
+
+      await this.llmManager.discoverOllamaModels?.(server.baseUrl, server.serverId);
+      return { success: true };
+    } catch (error: any) {
+      const cancelled = controller.signal.aborted;
+      emit({ status: cancelled ? 'cancelled' : 'error', error: cancelled ? undefined : error.message });
+      if (!cancelled) {
+        MessageBus.send('error', `[LLMConfigPlan] Pull of ${params.model} failed:`, error);
+      }
+      return { success: false, error: cancelled ? 'Pull cancelled' : error.message };
+    } finally {
+      this.activePulls.delete(key);
+    }
+  }
+
+  /**
+   * Stop a running pull - Ollama keeps the downloaded layers, a later pull resumes
+   */
+  async cancelOllamaPull(params: { serverId?: string; model: string }): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { baseUrl } = await this.resolveOllamaServer(params.serverId);
+      const controller = this.activePulls.get(`${baseUrl}|${params.model}`);
+      if (!controller) {
+        return { success: false, error: `No pull of ${params.model} running` };
+      }
+      controller.abort();
+      return { success: true };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Remove a model from an Ollama server (and from the registry)
+   */
+  async deleteOllamaModel(params: { serverId?: string; model: string }): Promise<{ success: boolean; error?: string }> {
+    try {
+      const server = await this.resolveOllamaServer(params.serverId);
+      await deleteOllamaModel(server.baseUrl, params.model, server.headers);
+      this.llmRegistry?.remove(`${params.model}@${new URL(server.baseUrl).host}`);
+      await this.globalSettingsManager?.setOllamaKeepAlive(server.baseUrl, params.model, null);
+
+      MessageBus.send('log', `[LLMConfigPlan] Deleted ${params.model} from ${server.baseUrl}`);
+      return { success: true };
+    } catch (error: any) {
+      MessageBus.send('error', '[LLMConfigPlan] Delete Ollama model error:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Copy a model under a new name on the same server (e.g. to customize its Modelfile)
+   */
+  async copyOllamaModel(params: { serverId?: string; source: string; destination: string }): Promise<{
+    success: boolean;
+    error?: string;
+  }> {
+    try {
+      const server = await this.resolveOllamaServer(params.serverId);
+      await copyOllamaModel(server.baseUrl, params.source, params.destination, server.headers);
+      await this.llmManager.discoverOllamaModels?.(server.baseUrl, server.serverId);
+      return { success: true };
+    } catch (error: any) {
+      MessageBus.send('error', '[LLMConfigPlan] Copy Ollama model error:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Model details (/api/show): Modelfile, parameters, template, model info - with the derived capabilities
+   */
+  async showOllamaModel(params: { serverId?: string; model: string }): Promise<{
+    success: boolean;
+    details?: OllamaShowResponse & { modelfile?: string; license?: string };
+    capabilities?: LLMDiscoveredCapabilities;
+    error?: string;
+  }> {
+    try {
+      const server = await this.resolveOllamaServer(params.serverId);
+      const details = await showOllamaModel(server.baseUrl, params.model, { headers: server.headers });
+      return { success: true, details, capabilities: capabilitiesFromOllamaShow(details) };
+    } catch (error: any) {
+      MessageBus.send('error', '[LLMConfigPlan] Show Ollama model error:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Models loaded in memory on a server (/api/ps), with the configured keep-alive
+   */
+  async getRunningOllamaModels(params: { serverId?: string } = {}): Promise<{
+    success: boolean;
+    models: Array<OllamaRunningModel & { keepAlive?: string }>;
+    error?: string;
+  }> {
+    try {
+      const server = await this.resolveOllamaServer(params.serverId);
+      const running = await listRunningOllamaModels(server.baseUrl, server.headers);
+      const models = await Promise.all(running.map(async model => ({
+        ...model,
+        keepAlive: await this.globalSettingsManager?.getOllamaKeepAlive(server.baseUrl, model.name)
+      })));
+      return { success: true, models };
+    } catch (error: any) {
+      MessageBus.send('error', '[LLMConfigPlan] Get running Ollama models error:', error);
+      return { success: false, models: [], error: error.message };
+    }
+  }
+
+  /**
+   * Routing state of the Ollama servers: availability, loaded models and peak memory use
+   * Models hosted on several servers are routed to the one with the shortest expected wait.
+   */
+  async getOllamaServerStates(): Promise<{
+    success: boolean;
+    servers: OllamaServerState[];
+  }> {
+    return { success: true, servers: this.llmManager.getOllamaServerStates?.() ?? [] };
+  }
+
+  /**
+   * Load a model into memory now, so the first request does not wait for it
+   * keepAlive defaults to the model's configured keep-alive, otherwise '-1' (like chat requests).
+   */
+  async preloadOllamaModel(params: { serverId?: string; model: string; keepAlive?: string }): Promise<{
+    success: boolean;
+    error?: string;
+  }> {
+    try {
+      if (params.keepAlive !== undefined && !isValidOllamaKeepAlive(params.keepAlive)) {
+        return { success: false, error: `Invalid keep-alive: ${params.keepAlive}` };
+      }
+      const server = await this.resolveOllamaServer(params.serverId);
+      const keepAlive = params.keepAlive
+        ?? await this.globalSettingsManager?.getOllamaKeepAlive(server.baseUrl, params.model)
+        ?? '-1';
+      await loadOllamaModel(server.baseUrl, params.model, keepAlive, server.headers);
+      MessageBus.send('debug', `[LLMConfigPlan] Preloaded ${params.model} on ${server.baseUrl} (keep-alive ${keepAlive})`);
+      return { success: true };
+    } catch (error: any) {
+      MessageBus.send('error', '[LLMConfigPlan] Preload Ollama model error:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Free a model's memory now - the next request loads it again
+   */
+  async unloadOllamaModel(params: { serverId?: string; model: string }): Promise<{ success: boolean; error?: string }> {
+    try {
+      const server = await this.resolveOllamaServer(params.serverId);
+      await loadOllamaModel(server.baseUrl, params.model, '0', server.headers);
+      return { success: true };
+    } catch (error: any) {
+      MessageBus.send('error', '[LLMConfigPlan] Unload Ollama model error:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Set how long a model stays loaded after each request - '-1' pins it, '0' unloads
+   * right away, '10m'/'24h' are durations; null restores the default (pinned).
+   * Applied to a loaded model immediately; preload: true also loads it now.
+   */
+  async setOllamaKeepAlive(params: {
+    serverId?: string;
+    model: string;
+    keepAlive: string | null;
+    preload?: boolean;
+  }): Promise<{
+    success: boolean;
+    error?: string;
+  }> {
+    try {
+      if (!this.globalSettingsManager) {
+        return { success: false, error: 'GlobalSettingsManager not initialized' };
+      }
+      if (params.keepAlive !== null && !isValidOllamaKeepAlive(params.keepAlive)) {
+        return { success: false, error: `Invalid keep-alive: ${params.keepAlive}` };
+      }
+
+      const server = await this.resolveOllamaServer(params.serverId);
+      await this.globalSettingsManager.setOllamaKeepAlive(server.baseUrl, params.model, params.keepAlive);
+
+      const running = await listRunningOllamaModels(server.baseUrl, server.headers);
+      if (params.preload || running.some(model => model.name === params.model)) {
+        await loadOllamaModel(server.baseUrl, params.model, params.keepAlive ?? '-1', server.headers);
+      }
+
+      MessageBus.send('debug', `[LLMConfigPlan] Keep-alive of ${params.model} on ${server.baseUrl}: ${params.keepAlive ?? 'default'}`);
+      return { success: true };
+    } catch (error: any) {
+      MessageBus.send('error', '[LLMConfigPlan] Set Ollama keep-alive error:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Pin the default model in memory of its Ollama server and load it now
+   */
+  async pinDefaultOllamaModel(): Promise<{
+    success: boolean;
+    model?: string;
+    baseUrl?: string;
+    error?: string;
+  }> {
+    try {
+      const defaultModelId = await this.globalSettingsManager?.getDefaultModelId();
+      if (!defaultModelId) {
+        return { success: false, error: 'No default model configured' };
+      }
+      const llm = await this.llmManager.getModel(defaultModelId);
+      if (!llm || llm.provider !== 'ollama') {
+        return { success: false, error: `Default model ${defaultModelId} is not an Ollama model` };
+      }
+
+      const baseUrl = llm.server || this.llmManager.getOllamaBaseUrl();
+      const server = await this.findOllamaServerByUrl(baseUrl);
+      if (!server && baseUrl.replace(/\/+$/, '') !== this.llmManager.getOllamaBaseUrl().replace(/\/+$/, '')) {
+        return { success: false, error: `Ollama server ${baseUrl} is not configured` };
+      }
+      const result = await this.setOllamaKeepAlive({ serverId: server?.id, model: llm.name, keepAlive: '-1', preload: true });
+      return result.success ? { success: true, model: llm.name, baseUrl } : result;
+    } catch (error: any) {
+      MessageBus.send('error', '[LLMConfigPlan] Pin default Ollama model error:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Base URL and auth headers of a configured server, or of the active Ollama config
+   */
+  private async resolveOllamaServer(serverId?: string): Promise<{
+    baseUrl: string;
+    headers?: Record<string, string>;
+    serverId?: string;
+  }> {
+    if (!serverId) {
+      return {
+        baseUrl: this.llmManager.getOllamaBaseUrl().replace(/\/+$/, ''),
+        headers: await this.llmManager.getOllamaAuthHeaders?.()
+      };
+    }
+
+    const servers = await this.globalSettingsManager?.getOllamaServers() ?? [];
+    const server = servers.find(s => s.id === serverId);
+    if (!server) {
+      throw new Error(`Ollama server ${serverId} not found`);
+    }
+
+    let headers: Record<string, string> | undefined;
+    if (server.authType === 'bearer') {
+      const token = await this.settings.getValue(`ollama.${server.id}.bearerToken`);
+      headers = token ? { 'Authorization': `Bearer ${token}` } : undefined;
+    }
+    return { baseUrl: server.baseUrl.replace(/\/+$/, ''), headers, serverId: server.id };
+  }
+
+  private async findOllamaServerByUrl(baseUrl: string): Promise<{ id: string } | undefined> {
+    const url = baseUrl.replace(/\/+$/, '');
+    const servers = await this.globalSettingsManager?.getOllamaServers() ?? [];
+    return servers.find(s => s.baseUrl.replace(/\/+$/, '') === url);
+  }
+
+  // ========== OpenAI-Compatible Servers ==========
+
+  /**
+   * List models served by an OpenAI-compatible server (vLLM, llama.cpp server,
+   * LocalAI, LM Studio) via GET /v1/models
+   */
+  async discoverOpenAICompatibleModels(params: {
+    server?: string;
+    provider?: string;
+    authToken?: string;
+  }): Promise<GetAvailableModelsResponse> {
+    const baseUrl = resolveOpenAICompatibleBaseUrl(params.server, params.provider);
+    try {
+      const models = await listOpenAIModels({ baseUrl, apiKey: params.authToken });
+      MessageBus.send('debug', `[LLMConfigPlan] Found ${models.length} models at ${baseUrl}`);
+      return {
+        success: true,
+        models: models.map(m => ({
+          name: m.id,
+          model: m.id,
+          ownedBy: m.owned_by,
+          capabilities: capabilitiesFromOpenAIModel(m) ?? undefined
+        })),
+        source: 'specified_url',
+      };
+    } catch (error: any) {
+      MessageBus.send('error', '[LLMConfigPlan] Discover OpenAI-compatible models error:', error);
+      return {
+        success: false,
+        error: error.message,
+        errorCode: error.message?.includes('(401)') || error.message?.includes('(403)') ? 'AUTH_FAILED' : 'NETWORK_ERROR',
+      };
+    }
+  }
+
+  // ========== Capabilities ==========
+
+  /**
+   * Ask the model's backend what it supports (Ollama /api/show, provider model
+   * listing, GGUF header) and store the result on the LLM object
+   */
+  async discoverModelCapabilities(params: { modelId: string }): Promise<{
+    success: boolean;
+    discovered: LLMDiscoveredCapabilities | null;
+    error?: string;
+  }> {
+    try {
+      if (!this.llmManager.discoverCapabilities) {
+        return { success: false, discovered: null, error: 'Capability discovery not available' };
+      }
+      const discovered = await this.llmManager.discoverCapabilities(params.modelId);
+      return { success: true, discovered };
+    } catch (error: any) {
+      MessageBus.send('error', '[LLMConfigPlan] Discover model capabilities error:', error);
+      return { success: false, discovered: null, error: error.message };
+    }
+  }
+
+  /**
+   * Effective capabilities of a model - discovered values, the static table where nothing was discovered
+   */
+  async getModelCapabilities(params: { modelId: string }): Promise<{
+    success: boolean;
+    capabilities?: LLMCapabilities;
+    discovered?: LLMDiscoveredCapabilities;
+    error?: string;
+  }> {
+    const llm = await this.llmManager.getModel(params.modelId);
+    if (!llm) {
+      return { success: false, error: `Model ${params.modelId} not found` };
+    }
+    const capabilities = resolveLLMCapabilities({ ...llm, modelId: params.modelId });
+    return { success: true, capabilities, discovered: llm.discoveredCapabilities };
+  }
+
+  // ========== Failover ==========
+
+  /**
+   * Get the fallback chain of an AI (scopeId = aiId) or topic (scopeId = topicId)
+   */
+  async getFallbackChain(params: { scope: 'ai' | 'topic'; scopeId: string }): Promise<{
+    success: boolean;
+    modelIds: string[];
+    error?: string;
+  }> {
+    try {
+      const manager = this.llmManager.getFallbackChainManager?.();
+      if (!manager) {
+        return { success: false, modelIds: [], error: 'FallbackChainManager not initialized' };
+      }
+      const modelIds = await manager.getChain(params.scope, params.scopeId);
+      return { success: true, modelIds };
+    } catch (error: any) {
+      MessageBus.send('error', '[LLMConfigPlan] Get fallback chain error:', error);
+      return { success: false, modelIds: [], error: error.message };
+    }
+  }
+
+  /**
+   * Set the fallback chain of an AI or topic - models are tried in order when
+   * the requested model fails. An empty list disables failover for the scope.
+   */
+  async setFallbackChain(params: { scope: 'ai' | 'topic'; scopeId: string; modelIds: string[] }): Promise<{
+    success: boolean;
+    modelIds: string[];
+    error?: string;
+  }> {
+    try {
+      const manager = this.llmManager.getFallbackChainManager?.();
+      if (!manager) {
+        return { success: false, modelIds: [], error: 'FallbackChainManager not initialized' };
+      }
+      if (params.scope !== 'ai' && params.scope !== 'topic') {
+        return { success: false, modelIds: [], error: `Invalid scope: ${params.scope}` };
+      }
+      const chain = await manager.setChain(params.scope, params.scopeId, params.modelIds || []);
+      MessageBus.send('debug', `[LLMConfigPlan] Fallback chain for ${params.scope}:${params.scopeId}: ${chain.modelIds.join(' → ') || '(none)'}`);
+      return { success: true, modelIds: chain.modelIds };
+    } catch (error: any) {
+      MessageBus.send('error', '[LLMConfigPlan] Set fallback chain error:', error);
+      return { success: false, modelIds: [], error: error.message };
+    }
+  }
+
+  /**
+   * Circuit breaker state of models that recently failed
+   */
+  async getModelCircuits(): Promise<{
+    success: boolean;
+    circuits: Array<{ modelId: string; state: string; consecutiveFailures: number; retryAt?: number; lastError?: string }>;
+  }> {
+    return { success: true, circuits: this.llmManager.getCircuitStates?.() ?? [] };
+  }
+
+  /**
+   * Close a model's circuit (or all) so it is tried again immediately
+   */
+  async resetModelCircuit(params: { modelId?: string } = {}): Promise<{ success: boolean }> {
+    this.llmManager.resetCircuit?.(params.modelId);
+    return { success: true };
+  }
+
+  // ========== Scheduling ==========
+
+  /**
+   * Queue depth and wait times per concurrency group (e.g. the local Ollama slot)
+   * split by request class (interactive, analysis, background) and topic
+   */
+  async getConcurrencyMetrics(): Promise<{
+    success: boolean;
+    groups: ConcurrencyGroupMetrics[];
+  }> {
+    return { success: true, groups: this.llmManager.getConcurrencyMetrics?.() ?? [] };
+  }
+
+  /**
+   * Rate limits per provider and API key - learned from response headers or
+   * configured - with queue depth, Retry-After pauses and 429/529 counts
+   */
+  async getRateLimits(): Promise<{
+    success: boolean;
+    limits: Array<{
+      scope: string;
+      keyId: string;
+      requestsPerMinute?: number;
+      tokensPerMinute?: number;
+      requestsAvailable?: number;
+      tokensAvailable?: number;
+      blockedUntil?: number;
+      queued: { interactive: number; analysis: number; background: number };
+      throttled: number;
+      rateLimited: number;
+    }>;
+  }> {
+    return { success: true, limits: this.llmManager.getRateLimitStates?.() ?? [] };
+  }
+
+  /**
+   * Cap the rate limits of a provider ('anthropic', 'openai') or OpenAI-compatible
+   * server URL, e.g. for a lower tier than the headers report. Without limits the cap is removed.
+   */
+  async setRateLimit(params: { scope: string; requestsPerMinute?: number; tokensPerMinute?: number }): Promise<{
+    success: boolean;
+    error?: string;
+  }> {
+    if (!params.scope) {
+      return { success: false, error: 'scope is required' };
+    }
+    for (const limit of [params.requestsPerMinute, params.tokensPerMinute]) {
+      if (limit !== undefined && !(limit > 0)) {
+        return { success: false, error: `Invalid limit: ${limit}` };
+      }
+    }
+    this.llmManager.setRateLimit?.(params.scope, {
+      requestsPerMinute: params.requestsPerMinute,
+      tokensPerMinute: params.tokensPerMinute
+    });
+    return { success: true };
+  }
+
+  // ========== Prompt Caching ==========
+
+  /**
+   * Prompt cache hit rates and token savings per topic (all topics without topicId)
+   * Only providers that report cache usage (Anthropic) contribute.
+   */
+  async getPromptCacheStats(params: { topicId?: string } = {}): Promise<{
+    success: boolean;
+    stats: Array<{
+      topicId: string;
+      requests: number;
+      hitRate: number;
+      tokenHitRate: number;
+      cacheReadTokens: number;
+      cacheCreationTokens: number;
+      savedTokens: number;
+      savingsRate: number;
+      invalidations: number;
+      lastRequestAt?: number;
+    }>;
+  }> {
+    return { success: true, stats: this.llmManager.getPromptCacheStats?.(params.topicId) ?? [] };
+  }
+
+  /**
+   * Clear prompt cache statistics of a topic (or all)
+   */
+  async resetPromptCacheStats(params: { topicId?: string } = {}): Promise<{ success: boolean }> {
+    this.llmManager.resetPromptCacheStats?.(params.topicId);
+    return { success: true };
+  }
+
+  // ========== Response Cache ==========
+
+  /**
+   * Response cache settings and hit counts
+   * Requests opt in with the chat option `cache`; background analysis does.
+   */
+  async getResponseCacheStatus(): Promise<{
+    success: boolean;
+    config?: ResponseCacheConfig;
+    stats?: ResponseCacheStats;
+    error?: string;
+  }> {
+    const cache = this.llmManager.getResponseCache?.();
+    if (!cache) {
+      return { success: false, error: 'Response cache not available' };
+    }
+    return { success: true, config: cache.getConfig(), stats: cache.getStats() };
+  }
+
+  /**
+   * Change TTL, size limits or the embedding model of the near-duplicate tier
+   * (embeddingModel null turns the tier off)
+   */
+  async configureResponseCache(params: {
+    defaultTtlMs?: number;
+    maxEntriesPerScope?: number;
+    maxEntries?: number;
+    maxResponseChars?: number;
+    embeddingModel?: string | null;
+    similarityThreshold?: number;
+  }): Promise<{ success: boolean; config?: ResponseCacheConfig; error?: string }> {
+    const cache = this.llmManager.getResponseCache?.();
+    if (!cache) {
+      return { success: false, error: 'Response cache not available' };
+    }
+    for (const field of ['defaultTtlMs', 'maxEntriesPerScope', 'maxEntries', 'maxResponseChars'] as const) {
+      if (params[field] !== undefined && !(params[field]! > 0)) {
+        return { success: false, error: `${field} must be positive` };
+      }
+    }
+    if (params.similarityThreshold !== undefined && !(params.similarityThreshold > 0 && params.similarityThreshold <= 1)) {
+      return { success: false, error: 'similarityThreshold must be in (0, 1]' };
+    }
+
+    const { embeddingModel, ...limits } = params;
+    cache.configure(Object.fromEntries(Object.entries(limits).filter(([, value]) => value !== undefined)));
+    if (embeddingModel !== undefined) {
+      cache.configure({ embeddingModel: embeddingModel || undefined });
+    }
+    return { success: true, config: cache.getConfig() };
+  }
+
+  /**
+   * Drop cached responses of a topic, or all loaded ones without topicId
+   */
+  async clearResponseCache(params: { topicId?: string } = {}): Promise<{ success: boolean; removed?: number; error?: string }> {
+    const cache = this.llmManager.getResponseCache?.();
+    if (!cache) {
+      return { success: false, error: 'Response cache not available' };
+    }
+    if (params.topicId) {
+      return { success: true, removed: await cache.clearTopic(params.topicId) };
+    }
+    const { entries } = cache.getStats();
+    cache.clear();
+    return { success: true, removed: entries };
+  }
+
+  // ========== Structured Output ==========
+
+  /**
+   * Measured structured output reliability per model (all measured models without modelId)
+   * structuredOutputTested stays undefined until enough requests were seen.
+   */
+  async getStructuredOutputStats(params: { modelId?: string } = {}): Promise<{
+    success: boolean;
+    stats: Array<{
+      modelId: string;
+      requests: number;
+      valid: number;
+      extracted: number;
+      repaired: number;
+      failed: number;
+      reliability: number;
+      structuredOutputTested?: boolean;
+      lastRequestAt?: number;
+    }>;
+  }> {
+    return { success: true, stats: this.llmManager.getStructuredOutputStats?.(params.modelId) ?? [] };
+  }
+
+  /**
+   * Forget a model's measurements (or all) - e.g. after switching to a better quantization
+   */
+  async resetStructuredOutputStats(params: { modelId?: string } = {}): Promise<{ success: boolean }> {
+    this.llmManager.resetStructuredOutputStats?.(params.modelId);
+    return { success: true };
+  }
+
+  // ========== Usage & Budgets ==========
+
+  /**
+   * Token usage and cost grouped by day, model, provider, AI or topic
+   * Default range: the last 30 days.
+   */
+  async getUsageReport(params: {
+    groupBy: 'day' | 'model' | 'provider' | 'ai' | 'topic';
+    from?: number;
+    to?: number;
+    modelId?: string;
+    provider?: string;
+    aiId?: string;
+    topicId?: string;
+  }): Promise<{
+    success: boolean;
+    usage: Array<{
+      key: string;
+      requests: number;
+      promptTokens: number;
+      completionTokens: number;
+      cacheCreationTokens: number;
+      cacheReadTokens: number;
+      costUsd: number;
+      unpricedRequests: number;
+    }>;
+    totalCostUsd: number;
+    error?: string;
+  }> {
+    try {
+      const { groupBy, ...query } = params;
+      const usage = await this.llmManager.getUsage?.(groupBy || 'day', query) ?? [];
+      const totalCostUsd = usage.reduce((sum: number, group: { costUsd: number }) => sum + group.costUsd, 0);
+      return { success: true, usage, totalCostUsd };
+    } catch (error: any) {
+      MessageBus.send('error', '[LLMConfigPlan] Get usage report error:', error);
+      return { success: false, usage: [], totalCostUsd: 0, error: error.message };
+    }
+  }
+
+  /**
+   * Get the budget of an AI (scopeId = aiId) or provider (scopeId = 'anthropic', 'openai', ...)
+   * with its spend in the current period
+   */
+  async getBudget(params: { scope: 'ai' | 'provider'; scopeId: string }): Promise<{
+    success: boolean;
+    budget: LLMBudget | null;
+    spentUsd?: number;
+    level?: 'ok' | 'soft' | 'hard';
+    error?: string;
+  }> {
+    try {
+      const manager = this.llmManager.getBudgetManager?.();
+      if (!manager) {
+        return { success: false, budget: null, error: 'BudgetManager not initialized' };
+      }
+      const budget = await manager.getBudget(params.scope, params.scopeId);
+      if (!budget) {
+        return { success: true, budget: null };
+      }
+      const status = await this.llmManager.getUsageLedger().getBudgetStatus(budget);
+      return { success: true, budget, spentUsd: status.spentUsd, level: status.level };
+    } catch (error: any) {
+      MessageBus.send('error', '[LLMConfigPlan] Get budget error:', error);
+      return { success: false, budget: null, error: error.message };
+    }
+  }
+
+  /**
+   * Set the budget of an AI or provider
+   * softLimitUsd warns once per period; at hardLimitUsd cloud requests are
+   * warned about, downgraded to a local model, or blocked (hardLimitAction).
+   * Without limits the budget is disabled.
+   */
+  async setBudget(params: {
+    scope: 'ai' | 'provider';
+    scopeId: string;
+    period: 'day' | 'month';
+    softLimitUsd?: number;
+    hardLimitUsd?: number;
+    hardLimitAction?: 'warn' | 'downgrade' | 'block';
+    downgradeModelId?: string;
+  }): Promise<{
+    success: boolean;
+    budget?: LLMBudget;
+    error?: string;
+  }> {
+    try {
+      const manager = this.llmManager.getBudgetManager?.();
+      if (!manager) {
+        return { success: false, error: 'BudgetManager not initialized' };
+      }
+      if (params.scope !== 'ai' && params.scope !== 'provider') {
+        return { success: false, error: `Invalid scope: ${params.scope}` };
+      }
+      if (params.period !== 'day' && params.period !== 'month') {
+        return { success: false, error: `Invalid period: ${params.period}` };
+      }
+      if (params.softLimitUsd !== undefined && params.hardLimitUsd !== undefined && params.softLimitUsd > params.hardLimitUsd) {
+        return { success: false, error: 'softLimitUsd must not exceed hardLimitUsd' };
+      }
+
+      const budget = await manager.setBudget(params.scope, params.scopeId, {
+        period: params.period,
+        softLimitUsd: params.softLimitUsd,
+        hardLimitUsd: params.hardLimitUsd,
+        hardLimitAction: params.hardLimitAction ?? 'warn',
+        downgradeModelId: params.downgradeModelId || undefined
+      });
+      MessageBus.send('debug', `[LLMConfigPlan] Budget for ${params.scope}:${params.scopeId}: soft $${budget.softLimitUsd ?? '-'}, hard $${budget.hardLimitUsd ?? '-'} per ${budget.period} (${budget.hardLimitAction})`);
+      return { success: true, budget };
+    } catch (error: any) {
+      MessageBus.send('error', '[LLMConfigPlan] Set budget error:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  // ========== API Key Vault ==========
+  // Responses describe keys (label, scope, hint, assignments) - key values never leave the vault.
+
+  /**
+   * Keys of all providers or one provider
+   */
+  async listApiKeys(params: { provider?: string } = {}): Promise<{
+    success: boolean;
+    keys: ApiKeyInfo[];
+    error?: string;
+  }> {
+    try {
+      const vault = this.getKeyVault();
+      return { success: true, keys: await vault.listKeys(params.provider) };
+    } catch (error: any) {
+      MessageBus.send('error', '[LLMConfigPlan] List API keys error:', error);
+      return { success: false, keys: [], error: error.message };
+    }
+  }
+
+  /**
+   * Add a named key for a provider
+   * The provider's first key becomes its default unless setAsDefault is false.
+   */
+  async addApiKey(params: {
+    provider: string;
+    label: string;
+    apiKey: string;
+    scope?: ApiKeyScope;
+    setAsDefault?: boolean;
+  }): Promise<{
+    success: boolean;
+    key?: ApiKeyInfo;
+    error?: string;
+  }> {
+    try {
+      if (params.scope && params.scope !== 'personal' && params.scope !== 'team') {
+        return { success: false, error: `Invalid scope: ${params.scope}` };
+      }
+      const key = await this.getKeyVault().addKey(params);
+      await this.rediscoverCloudModels(params.provider);
+      return { success: true, key };
+    } catch (error: any) {
+      MessageBus.send('error', '[LLMConfigPlan] Add API key error:', error.message);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Replace a key's value - assignments and default flag stay
+   */
+  async rotateApiKey(params: { keyId: string; apiKey: string }): Promise<{
+    success: boolean;
+    key?: ApiKeyInfo;
+    error?: string;
+  }> {
+    try {
+      const key = await this.getKeyVault().rotateKey(params.keyId, params.apiKey);
+      await this.rediscoverCloudModels(key.provider);
+      return { success: true, key };
+    } catch (error: any) {
+      MessageBus.send('error', '[LLMConfigPlan] Rotate API key error:', error.message);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Revoke a key - AIs assigned to it fall back to the provider's default key
+   */
+  async revokeApiKey(params: { keyId: string }): Promise<{ success: boolean; error?: string }> {
+    try {
+      await this.getKeyVault().revokeKey(params.keyId);
+      return { success: true };
+    } catch (error: any) {
+      MessageBus.send('error', '[LLMConfigPlan] Revoke API key error:', error.message);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Make a key its provider's default (used by AIs without an assigned key)
+   */
+  async setDefaultApiKey(params: { keyId: string }): Promise<{ success: boolean; error?: string }> {
+    try {
+      await this.getKeyVault().setDefaultKey(params.keyId);
+      return { success: true };
+    } catch (error: any) {
+      MessageBus.send('error', '[LLMConfigPlan] Set default API key error:', error.message);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Use a specific key for an AI's requests to a provider (keyId null: the provider's default)
+   */
+  async assignApiKey(params: { aiId: string; provider: string; keyId: string | null }): Promise<{
+    success: boolean;
+    error?: string;
+  }> {
+    try {
+      await this.getKeyVault().assignKey(params.aiId, params.provider, params.keyId);
+      return { success: true };
+    } catch (error: any) {
+      MessageBus.send('error', '[LLMConfigPlan] Assign API key error:', error.message);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Key assignments of all AIs or one AI
+   */
+  async getApiKeyAssignments(params: { aiId?: string } = {}): Promise<{
+    success: boolean;
+    assignments: Array<{ aiId: string; provider: string; keyId: string }>;
+    error?: string;
+  }> {
+    try {
+      return { success: true, assignments: await this.getKeyVault().getAssignments(params.aiId) };
+    } catch (error: any) {
+      MessageBus.send('error', '[LLMConfigPlan] Get API key assignments error:', error);
+      return { success: false, assignments: [], error: error.message };
+    }
+  }
+
+  /**
+   * Legacy single-key setters: the vault's default key for the provider,
+   * the settings key if there is no vault
+   */
+  private async storeProviderKey(provider: string, settingsKey: string, apiKey: string): Promise<void> {
+    const vault = this.llmManager.getKeyVault?.();
+    if (vault) {
+      await vault.setProviderKey(provider, apiKey);
+      MessageBus.send('debug', `[LLMConfigPlan] Stored ${provider} API key in the key vault`);
+    } else {
+      await this.settings.setValue(settingsKey, apiKey);
+      MessageBus.send('debug', `[LLMConfigPlan] Stored API key in settings (encrypted by ONE.core): ${settingsKey}`);
+    }
+  }
+
+  private getKeyVault(): ApiKeyVault {
+    const vault = this.llmManager.getKeyVault?.();
+    if (!vault) {
+      throw new Error('API key vault not initialized');
+    }
+    return vault;
+  }
+
+  /**
+   * A new Anthropic key makes its models available
+   */
+  private async rediscoverCloudModels(provider: string): Promise<void> {
+    if (provider !== 'anthropic') {
+      return;
+    }
+    try {
+      await this.llmManager.discoverClaudeModels?.();
+    } catch (error: any) {
+      MessageBus.send('alert', '[LLMConfigPlan] Claude model discovery after key change failed:', error.message);
+    }
+  }
 }
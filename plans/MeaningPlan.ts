@@ -115,6 +115,8 @@ export interface GetStatusResponse {
         dimensions: number;
         indexSize: number;
         hasProvider: boolean;
+        /** Embedding model ID of an AdapterEmbeddingProvider (e.g. 'nomic-embed-text') */
+        embeddingModel?: string;
     };
     error?: string;
 }
@@ -384,7 +386,8 @@ export class MeaningPlan {
                     model: this.meaningDimension.getModel(),
                     dimensions: this.meaningDimension.getDimensions(),
                     indexSize: this.meaningDimension.getIndexSize(),
-                    hasProvider: this.embeddingProvider !== null
+                    hasProvider: this.embeddingProvider !== null,
+                    embeddingModel: this.embeddingProvider?.getModelId?.()
                 }
             };
         } catch (error) {
@@ -4,6 +4,9 @@
  * Manages user interactions with proposals using ONE.core's Plan/Response architecture.
  * - ProposalInteractionPlan: User's intent (view/dismiss/share)
  * - ProposalInteractionResponse: Result of executing the plan
+ * - ProposalInteractionLog: Per-user history of all interactions (replayed on startup),
+ *   stored in fixed-size ProposalInteractionLogBucket objects so an append
+ *   rewrites one bucket, not the whole history
  */
 
 import {
@@ -12,7 +15,24 @@ import {
 } from '@refinio/one.core/lib/storage-versioned-objects.js';
 import { calculateIdHashOfObj } from '@refinio/one.core/lib/util/object.js';
 import type { SHA256IdHash } from '@refinio/one.core/lib/util/type-checks.js';
-import type { ProposalInteractionPlan, ProposalInteractionResponse } from '@OneObjectInterfaces';
+import type {
+  ProposalInteractionPlan,
+  ProposalInteractionResponse,
+  ProposalInteractionLog,
+  ProposalInteractionLogBucket,
+} from '@OneObjectInterfaces';
+
+export type ProposalInteractionLogEntry = ProposalInteractionLogBucket['entries'][number];
+
+/** Entries per bucket */
+const LOG_BUCKET_SIZE = 50;
+/** Only the newest entries are replayed */
+const MAX_LOG_ENTRIES = 1000;
+
+/** Bucket currently appended to, per user (loaded on first append) */
+const openBuckets = new Map<string, ProposalInteractionLogBucket>();
+/** Serialized appends per user */
+const logWriteChains = new Map<string, Promise<void>>();
 
 /**
  * Create and store a ProposalInteractionPlan
@@ -184,3 +204,85 @@ export async function getProposalInteractions(
 
   return interactions;
 }
+
+/**
+ * Load a user's interaction log
+ *
+ * @param userEmail - User email
+ * @returns The newest logged interactions (up to MAX_LOG_ENTRIES), oldest first
+ */
+export async function loadInteractionLog(userEmail: string): Promise<ProposalInteractionLogEntry[]> {
+  const head = await getLogObject<ProposalInteractionLog>({ $type$: 'ProposalInteractionLog', userEmail });
+  if (!head) return [];
+
+  const firstBucket = Math.max(0, head.lastBucket - Math.ceil(MAX_LOG_ENTRIES / LOG_BUCKET_SIZE));
+  const entries: ProposalInteractionLogEntry[] = [];
+  for (let bucket = firstBucket; bucket <= head.lastBucket; bucket++) {
+    const stored = await getLogBucket(userEmail, bucket);
+    entries.push(...stored.entries);
+  }
+  return entries.slice(-MAX_LOG_ENTRIES);
+}
+
+/**
+ * Append an interaction to the user's log
+ *
+ * Appends are serialized per user; each rewrites only the open bucket.
+ *
+ * @param userEmail - User email
+ * @param entry - Interaction to record
+ */
+export function appendToInteractionLog(userEmail: string, entry: ProposalInteractionLogEntry): Promise<void> {
+  const previous = logWriteChains.get(userEmail) ?? Promise.resolve();
+  const write = previous.then(() => writeLogEntry(userEmail, entry));
+  logWriteChains.set(userEmail, write.catch(() => undefined));
+  return write;
+}
+
+async function writeLogEntry(userEmail: string, entry: ProposalInteractionLogEntry): Promise<void> {
+  let bucket = openBuckets.get(userEmail);
+  if (!bucket) {
+    const head = await getLogObject<ProposalInteractionLog>({ $type$: 'ProposalInteractionLog', userEmail });
+    bucket = await getLogBucket(userEmail, head?.lastBucket ?? 0);
+  }
+
+  const startsBucket = bucket.entries.length >= LOG_BUCKET_SIZE;
+  const next: ProposalInteractionLogBucket = {
+    $type$: 'ProposalInteractionLogBucket',
+    userEmail,
+    bucket: startsBucket ? bucket.bucket + 1 : bucket.bucket,
+    entries: startsBucket ? [entry] : [...bucket.entries, entry],
+    updatedAt: Date.now(),
+  };
+  await storeVersionedObject(next);
+  openBuckets.set(userEmail, next);
+
+  // The head only changes when a bucket is started
+  if (next.entries.length === 1) {
+    await storeVersionedObject({
+      $type$: 'ProposalInteractionLog',
+      userEmail,
+      lastBucket: next.bucket,
+      updatedAt: next.updatedAt,
+    } as ProposalInteractionLog);
+  }
+}
+
+async function getLogBucket(userEmail: string, bucket: number): Promise<ProposalInteractionLogBucket> {
+  const stored = await getLogObject<ProposalInteractionLogBucket>({
+    $type$: 'ProposalInteractionLogBucket',
+    userEmail,
+    bucket,
+  });
+  return stored ?? { $type$: 'ProposalInteractionLogBucket', userEmail, bucket, entries: [], updatedAt: 0 };
+}
+
+async function getLogObject<T>(idObj: Record<string, unknown>): Promise<T | null> {
+  try {
+    const result = await getObjectByIdHash(await calculateIdHashOfObj(idObj as any));
+    return result && result.obj ? result.obj as unknown as T : null;
+  } catch (error) {
+    // Not stored yet
+    return null;
+  }
+}
@@ -2,7 +2,8 @@
  * Proposals Plan (Pure Business Logic)
  *
  * Transport-agnostic plan for context-aware knowledge sharing (Feature 019).
- * Generates proposals based on subject/keyword matching using Jaccard similarity.
+ * Generates proposals by hybrid retrieval over past subjects (BM25 + embeddings,
+ * fused with reciprocal rank fusion).
  * Can be used from both Electron IPC and Web Worker contexts.
  *
  * Implements Phase 2 (Handler Layer) for spec 019-above-the-chat
@@ -22,8 +23,12 @@ import {
   createProposalInteractionPlan,
   createProposalInteractionResponse,
   isProposalDismissed,
+  loadInteractionLog,
+  appendToInteractionLog,
+  type ProposalInteractionLogEntry,
 } from './ProposalInteractions.js';
-import { SemanticProposalEngine } from '../services/semantic-proposal-engine.js';
+import type { ProposalEngine, ProposalScoreBreakdown } from '../services/proposal-engine.js';
+import { createLearnedWeights, type LearnedProposalWeights } from '../services/proposal-ranker.js';
 
 // Re-export types for consumers
 export interface Proposal {
@@ -36,6 +41,7 @@ export interface Proposal {
   pastSubjectName: string;
   pastSubjectDescription?: string;  // Human-readable description
   createdAt: number;
+  scoreBreakdown?: ProposalScoreBreakdown;  // Why it was suggested (lexical/vector ranks, recency, feedback)
 }
 
 export interface ProposalConfig {
@@ -43,9 +49,12 @@ export interface ProposalConfig {
   matchWeight: number;
   recencyWeight: number;
   recencyWindow: number;
-  minJaccard: number;
-  minSimilarity?: number;  // Embedding similarity threshold (default: 0.5)
+  minJaccard: number;  // Keyword overlap needed by candidates only the lexical (BM25) list found
+  minSimilarity?: number;  // Embedding similarity needed to enter the vector list (default: 0.5)
   maxProposals: number;
+  minRelevance?: number;  // Ranking score a proposal needs to be shown (default: 0 = show all)
+  feedbackWeight?: number;  // Influence of learned weights on ranking (default: 0.5)
+  learnedWeights?: LearnedProposalWeights;  // Read-only: learned from dismiss/view/share
   updatedAt: number;
 }
 
@@ -91,6 +100,17 @@ export interface DismissResponse {
   remainingCount: number;
 }
 
+export interface ViewRequest {
+  proposalId: string;
+  topicId: string;
+  pastSubjectIdHash: SHA256IdHash<Subject>;
+  viewDuration?: number;  // How long the details were open (ms)
+}
+
+export interface ViewResponse {
+  success: boolean;
+}
+
 export interface ShareRequest {
   proposalId: string;
   topicId: string;
@@ -153,6 +173,7 @@ const DEFAULT_CONFIG: ProposalConfig = {
   minJaccard: 0.1, // 10% match - lowered from 0.2 to catch more proposals with short input
   minSimilarity: 0.5, // Embedding similarity threshold (0.5 = moderate similarity)
   maxProposals: 10,
+  feedbackWeight: 0.5, // Learned weights scale scores by up to ±50%
   updatedAt: Date.now(),
 };
 
@@ -162,26 +183,27 @@ const DEFAULT_CONFIG: ProposalConfig = {
  * Dependencies are injected via constructor to support both platforms:
  * - nodeOneCore: Platform-specific ONE.core instance
  * - topicAnalysisModel: Topic analysis model instance
- * - proposalEngine: Proposal generation engine
+ * - proposalEngine: Hybrid retrieval engine (BM25 + embeddings)
  * - proposalRanker: Proposal ranking service
  * - proposalCache: LRU cache for proposals
  */
 export class ProposalsPlan {
   private nodeOneCore: any;
   private topicAnalysisModel: any;
-  private proposalEngine: any;
+  private proposalEngine: ProposalEngine;
   private proposalRanker: any;
   private proposalCache: any;
-  private dismissedProposals: Set<string>;
-  private semanticEngine?: SemanticProposalEngine;
+  private dismissedProposals: Set<string>;  // Past subject IdHashes dismissed by the user
+  private sharedProposals: Set<string>;     // topicId:pastSubject already shared into a topic
+  private learnedWeights: LearnedProposalWeights = createLearnedWeights();
+  private replayPromise: Promise<void> | null = null;
 
   constructor(
     nodeOneCore: any,
     topicAnalysisModel: any,
-    proposalEngine: any,
+    proposalEngine: ProposalEngine,
     proposalRanker: any,
-    proposalCache: any,
-    semanticEngine?: SemanticProposalEngine
+    proposalCache: any
   ) {
     this.nodeOneCore = nodeOneCore;
     this.topicAnalysisModel = topicAnalysisModel;
@@ -189,7 +211,80 @@ export class ProposalsPlan {
     this.proposalRanker = proposalRanker;
     this.proposalCache = proposalCache;
     this.dismissedProposals = new Set();
-    this.semanticEngine = semanticEngine;
+    this.sharedProposals = new Set();
+  }
+
+  /**
+   * Replay the user's stored interactions (dismiss/view/share)
+   *
+   * Restores dismissed and shared proposals and rebuilds the learned ranking
+   * weights. Safe to call repeatedly - replay runs once.
+   */
+  async init(): Promise<void> {
+    if (!this.replayPromise) {
+      this.replayPromise = this.replayInteractions().catch(error => {
+        MessageBus.send('error', '[ProposalsPlan] Failed to replay interactions:', error);
+        this.replayPromise = null;
+      });
+    }
+    return this.replayPromise;
+  }
+
+  private async replayInteractions(): Promise<void> {
+    const userEmail = this.getUserEmail();
+    const entries = await loadInteractionLog(userEmail);
+
+    for (const entry of entries) {
+      if (entry.action === 'dismiss') {
+        this.dismissedProposals.add(entry.proposalIdHash);
+      } else if (entry.action === 'share') {
+        this.sharedProposals.add(`${entry.topicId}:${entry.proposalIdHash}`);
+      }
+    }
+
+    this.learnedWeights = this.proposalRanker.replayInteractions(entries.map(entry => ({
+      action: entry.action,
+      pastSubject: entry.proposalIdHash,
+      keywords: entry.keywords,
+      createdAt: entry.createdAt,
+    })));
+
+    MessageBus.send('debug', `[ProposalsPlan] Replayed ${entries.length} interactions (${this.dismissedProposals.size} dismissed)`);
+  }
+
+  /**
+   * Record an interaction: update learned weights and append to the persistent log
+   */
+  private async recordInteraction(
+    action: 'view' | 'dismiss' | 'share',
+    topicId: string,
+    pastSubjectIdHash: string
+  ): Promise<void> {
+    const keywords = await this.getSubjectKeywordTerms(pastSubjectIdHash as SHA256IdHash<Subject>);
+    const entry: ProposalInteractionLogEntry = {
+      proposalIdHash: pastSubjectIdHash,
+      action,
+      topicId,
+      keywords,
+      createdAt: Date.now(),
+    };
+
+    this.learnedWeights = this.proposalRanker.applyInteraction(this.learnedWeights, {
+      action,
+      pastSubject: pastSubjectIdHash,
+      keywords,
+      createdAt: entry.createdAt,
+    });
+    await appendToInteractionLog(this.getUserEmail(), entry);
+  }
+
+  private isHidden(topicId: string, pastSubject: string): boolean {
+    return this.dismissedProposals.has(String(pastSubject)) ||
+      this.sharedProposals.has(`${topicId}:${pastSubject}`);
+  }
+
+  private getUserEmail(): string {
+    return this.nodeOneCore.email || 'user@example.com';
   }
 
   /**
@@ -203,6 +298,8 @@ export class ProposalsPlan {
         throw new Error('TOPIC_NOT_FOUND: topicId is required');
       }
 
+      await this.init();
+
       // Get current subjects if not provided
       let subjectIdHashes = request.currentSubjects;
       if (!subjectIdHashes || subjectIdHashes.length === 0) {
@@ -251,7 +348,7 @@ export class ProposalsPlan {
         if (cached) {
           // Filter against dismissed proposals
           const filtered = cached.filter(
-            (p: Proposal) => !this.dismissedProposals.has(`${request.topicId}:${p.pastSubject}`)
+            (p: Proposal) => !this.isHidden(request.topicId, p.pastSubject)
           );
           return {
             proposals: filtered,
@@ -265,28 +362,17 @@ export class ProposalsPlan {
       // Get current user config
       const config = await this.getCurrentConfig();
       MessageBus.send('debug', '[ProposalsPlan] Using config:', {
-        minJaccard: config.minJaccard,
+        minSimilarity: config.minSimilarity,
         matchWeight: config.matchWeight,
         maxProposals: config.maxProposals
       });
 
-      // Generate proposals using semantic engine if available, otherwise use Jaccard engine
-      let proposals: any[];
-      if (this.semanticEngine) {
-        MessageBus.send('debug', '[ProposalsPlan] Using SemanticProposalEngine');
-        proposals = await this.semanticEngine.getProposalsForTopic(
-          request.topicId,
-          subjectIdHashes,
-          { ...config, jaccardBoost: 0.1, minSimilarity: config.minSimilarity ?? 0.5 }
-        );
-      } else {
-        MessageBus.send('debug', '[ProposalsPlan] Using Jaccard-only ProposalEngine');
-        proposals = await this.proposalEngine.getProposalsForTopic(
-          request.topicId,
-          subjectIdHashes,
-          config
-        );
-      }
+      // Hybrid retrieval: BM25 and embedding similarity fused by rank
+      const proposals = await this.proposalEngine.getProposalsForTopic(
+        request.topicId,
+        subjectIdHashes,
+        config
+      );
       MessageBus.send('debug', '[ProposalsPlan] ProposalEngine returned', proposals.length, 'proposals');
 
       // Rank proposals
@@ -294,21 +380,21 @@ export class ProposalsPlan {
       const rankedProposals = this.proposalRanker.rankProposals(proposals, config);
       MessageBus.send('debug', '[ProposalsPlan] Ranked proposals:', rankedProposals.length);
 
-      // Filter against dismissed proposals (both in-memory and stored in ONE.core)
-      const userEmail = this.nodeOneCore.email || 'user@example.com';
+      // Filter against dismissed proposals (replayed log, plus stored plans predating the log)
+      const userEmail = this.getUserEmail();
       const filtered: Proposal[] = [];
 
       for (const proposal of rankedProposals) {
-        // Check in-memory set first (fast)
-        if (this.dismissedProposals.has(`${request.topicId}:${proposal.pastSubject}`)) {
+        // Check in-memory sets first (fast)
+        if (this.isHidden(request.topicId, proposal.pastSubject)) {
           continue;
         }
 
-        // Check stored dismissals/shares in ONE.core (persistent across sessions)
+        // Check stored dismissals in ONE.core (persistent across sessions)
         const isDismissed = await isProposalDismissed(userEmail, proposal.pastSubject as any);
         if (isDismissed) {
           // Add to in-memory set for faster future checks
-          this.dismissedProposals.add(`${request.topicId}:${proposal.pastSubject}`);
+          this.dismissedProposals.add(String(proposal.pastSubject));
           continue;
         }
 
@@ -385,13 +471,25 @@ export class ProposalsPlan {
         }
       }
 
+      if ('minRelevance' in config && config.minRelevance !== undefined) {
+        if (typeof config.minRelevance !== 'number' || config.minRelevance < 0 || config.minRelevance > 1) {
+          throw new Error('INVALID_CONFIG: minRelevance must be a number between 0.0 and 1.0');
+        }
+      }
+
+      if ('feedbackWeight' in config && config.feedbackWeight !== undefined) {
+        if (typeof config.feedbackWeight !== 'number' || config.feedbackWeight < 0 || config.feedbackWeight > 1) {
+          throw new Error('INVALID_CONFIG: feedbackWeight must be a number between 0.0 and 1.0');
+        }
+      }
+
       // Get current config or use defaults
       const currentConfig = await this.getCurrentConfig();
 
-      // Merge with new config
+      // Merge with new config (learned weights are derived from interactions, never stored here)
+      const { learnedWeights: _learned, ...storableConfig } = { ...currentConfig, ...request.config };
       const updatedConfig: ProposalConfig = {
-        ...currentConfig,
-        ...request.config,
+        ...storableConfig,
         updatedAt: Date.now(),
       };
 
@@ -412,7 +510,7 @@ export class ProposalsPlan {
 
       return {
         success: true,
-        config: updatedConfig,
+        config: { ...updatedConfig, learnedWeights: this.learnedWeights },
         versionHash: String(result.hash),
       };
     } catch (error: any) {
@@ -429,6 +527,7 @@ export class ProposalsPlan {
    */
   async getConfig(_request: GetConfigRequest): Promise<GetConfigResponse> {
     try {
+      await this.init();
       const config = await this.getCurrentConfig();
       const isDefault = config.updatedAt === DEFAULT_CONFIG.updatedAt;
 
@@ -454,8 +553,10 @@ export class ProposalsPlan {
         throw new Error('PROPOSAL_NOT_FOUND: Missing required parameters');
       }
 
+      await this.init();
+
       // Get current user email
-      const userEmail = this.nodeOneCore.email || 'user@example.com';
+      const userEmail = this.getUserEmail();
 
       // Create ProposalInteractionPlan (stores permanently in ONE.core)
       const { planIdHash } = await createProposalInteractionPlan(
@@ -471,8 +572,11 @@ export class ProposalsPlan {
       MessageBus.send('debug', '[ProposalsPlan] ✅ Dismissed proposal:', request.pastSubjectIdHash);
 
       // Also add to in-memory set for immediate filtering (performance optimization)
-      const dismissKey = `${request.topicId}:${request.pastSubjectIdHash}`;
-      this.dismissedProposals.add(dismissKey);
+      this.dismissedProposals.add(String(request.pastSubjectIdHash));
+
+      // Learn from the dismissal - down-weights this subject and its keywords everywhere
+      await this.recordInteraction('dismiss', request.topicId, request.pastSubjectIdHash);
+      this.proposalCache.clear();
 
       // Query remaining non-dismissed proposals
       // For now, return 0 (will be updated when getForTopic is called again)
@@ -488,6 +592,38 @@ export class ProposalsPlan {
     }
   }
 
+  /**
+   * Record that the user opened a proposal's details (Plan/Response pattern)
+   *
+   * Views are a weak positive signal for the learned ranking.
+   */
+  async view(request: ViewRequest): Promise<ViewResponse> {
+    try {
+      if (!request.topicId || !request.pastSubjectIdHash) {
+        throw new Error('PROPOSAL_NOT_FOUND: Missing required parameters');
+      }
+
+      await this.init();
+
+      const { planIdHash } = await createProposalInteractionPlan(
+        this.getUserEmail(),
+        request.pastSubjectIdHash as any,
+        'view',
+        request.topicId
+      );
+      await createProposalInteractionResponse(planIdHash, true, {
+        viewDuration: request.viewDuration,
+      });
+
+      await this.recordInteraction('view', request.topicId, request.pastSubjectIdHash);
+
+      return { success: true };
+    } catch (error: any) {
+      MessageBus.send('error', '[ProposalsPlan] Error in view:', error);
+      throw error;
+    }
+  }
+
   /**
    * Share a proposal into the current conversation (Plan/Response pattern)
    *
@@ -506,22 +642,7 @@ export class ProposalsPlan {
       // Get subject name, description, and keywords
       const subjectName = pastSubject.topics?.[0] || 'Unknown Subject';
       const description = pastSubject.description; // Human-readable description if available
-      const keywords: string[] = [];
-
-      // Retrieve keyword terms from ONE.core
-      for (const keywordIdHash of pastSubject.keywords || []) {
-        try {
-          const keywordResult = await getObjectByIdHash(keywordIdHash);
-          if (keywordResult && keywordResult.obj) {
-            const keyword = keywordResult.obj as any;
-            if (keyword.term) {
-              keywords.push(keyword.term);
-            }
-          }
-        } catch (error) {
-          MessageBus.send('error', `[ProposalsPlan] Error fetching keyword ${keywordIdHash}: ${error}`);
-        }
-      }
+      const keywords = await this.getSubjectKeywordTerms(request.pastSubjectIdHash, pastSubject);
 
       // Optionally retrieve sample messages
       const messages: any[] = [];
@@ -530,8 +651,10 @@ export class ProposalsPlan {
         // For now, return empty array
       }
 
+      await this.init();
+
       // Get current user email
-      const userEmail = this.nodeOneCore.email || 'user@example.com';
+      const userEmail = this.getUserEmail();
 
       // Create ProposalInteractionPlan (stores permanently in ONE.core)
       const { planIdHash } = await createProposalInteractionPlan(
@@ -548,9 +671,12 @@ export class ProposalsPlan {
 
       MessageBus.send('debug', '[ProposalsPlan] ✅ Shared proposal:', request.pastSubjectIdHash, 'to topic:', request.topicId);
 
-      // Also add to in-memory set for immediate filtering (shared proposals are also dismissed)
-      const dismissKey = `${request.topicId}:${request.pastSubjectIdHash}`;
-      this.dismissedProposals.add(dismissKey);
+      // Also add to in-memory set for immediate filtering (shared proposals are hidden in this topic)
+      this.sharedProposals.add(`${request.topicId}:${request.pastSubjectIdHash}`);
+
+      // Learn from the share - boosts this subject and its keywords
+      await this.recordInteraction('share', request.topicId, request.pastSubjectIdHash);
+      this.proposalCache.clear();
 
       return {
         success: true,
@@ -774,6 +900,40 @@ export class ProposalsPlan {
     }
   }
 
+  /**
+   * Helper: Resolve the keyword terms of a subject
+   */
+  private async getSubjectKeywordTerms(pastSubjectIdHash: SHA256IdHash<Subject>, subject?: Subject): Promise<string[]> {
+    let pastSubject = subject;
+    if (!pastSubject) {
+      try {
+        const result = await getObjectByIdHash(pastSubjectIdHash);
+        pastSubject = result?.obj as Subject | undefined;
+      } catch (error) {
+        MessageBus.send('debug', `[ProposalsPlan] Subject ${pastSubjectIdHash} not found for keyword lookup`);
+      }
+    }
+
+    const keywords: string[] = [];
+
+    // Retrieve keyword terms from ONE.core
+    for (const keywordIdHash of pastSubject?.keywords || []) {
+      try {
+        const keywordResult = await getObjectByIdHash(keywordIdHash);
+        if (keywordResult && keywordResult.obj) {
+          const keyword = keywordResult.obj as any;
+          if (keyword.term) {
+            keywords.push(keyword.term);
+          }
+        }
+      } catch (error) {
+        MessageBus.send('error', `[ProposalsPlan] Error fetching keyword ${keywordIdHash}: ${error}`);
+      }
+    }
+
+    return keywords;
+  }
+
   /**
    * Helper: Get current user config or return defaults
    *
@@ -800,7 +960,10 @@ export class ProposalsPlan {
       const result = await getObjectByIdHash(configIdHash);
       if (result && result.obj) {
         MessageBus.send('debug', '[ProposalsPlan] Found stored config:', result.obj);
-        return result.obj as any as ProposalConfig;
+        return {
+          ...(result.obj as any as ProposalConfig),
+          learnedWeights: this.learnedWeights,
+        };
       }
 
       MessageBus.send('debug', '[ProposalsPlan] No stored config found, using defaults');
@@ -808,6 +971,7 @@ export class ProposalsPlan {
       return {
         ...DEFAULT_CONFIG,
         userEmail,
+        learnedWeights: this.learnedWeights,
       };
     } catch (error) {
       MessageBus.send('error', '[ProposalsPlan] Error retrieving config, using defaults:', error);
@@ -815,6 +979,7 @@ export class ProposalsPlan {
       return {
         ...DEFAULT_CONFIG,
         userEmail: this.nodeOneCore.email || 'user@example.com',
+        learnedWeights: this.learnedWeights,
       };
     }
   }
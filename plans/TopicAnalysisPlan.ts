@@ -360,7 +360,7 @@ Return format: ["keyword1", "keyword2", ...]`;
       const keywordResponse: any = await this.llmManager.chat([{
         role: 'user',
         content: keywordPrompt
-      }], modelId);
+      }], modelId, { requestClass: 'background', cache: !request.forceReanalysis && { topicId: request.topicId } });
 
       // Identify subjects using LLM (subjects contain keywords)
       MessageBus.send('debug', `Identifying subjects with LLM...`);
@@ -378,7 +378,7 @@ ${String(conversationText).substring(0, 3000)}`;
       const subjectResponse: any = await this.llmManager.chat([{
         role: 'user',
         content: subjectPrompt
-      }], modelId);
+      }], modelId, { requestClass: 'background', cache: !request.forceReanalysis && { topicId: request.topicId } });
 
       let subjects: Array<{ keywords: string[]; description: string }> = [];
       try {
@@ -453,7 +453,7 @@ ${String(conversationText).substring(0, 3000)}`;
       const summaryResponse: any = await this.llmManager.chat([{
         role: 'user',
         content: summaryPrompt
-      }], modelId);
+      }], modelId, { requestClass: 'background', cache: !request.forceReanalysis && { topicId: request.topicId } });
 
       // Create summary for each subject (new per-subject model)
       // Use the first subject as the primary summary target, or skip if no subjects
@@ -752,7 +752,7 @@ ${String(conversationText).substring(0, 3000)}`;
           const summaryResponse: any = await this.llmManager.chat([{
             role: 'user',
             content: summaryPrompt
-          }], modelId);
+          }], modelId, { requestClass: 'background', cache: { topicId: request.topicId } });
 
           // Extract content string from LLM response (may have _hasContext/_hasThinking wrapper)
           summaryContent = typeof summaryResponse === 'object' && summaryResponse?.content
@@ -878,7 +878,7 @@ Return format: ["keyword1", "keyword2", ...]`;
       const response: any = await this.llmManager.chat([{
         role: 'user',
         content: keywordPrompt
-      }], modelId);
+      }], modelId, { requestClass: 'background', cache: true });
 
       let extractedKeywords: string[] = [];
       try {
@@ -981,7 +981,7 @@ Example: ["pizza", "delivery", "restaurant", "italian"]`;
       const response: any = await this.llmManager.chat([{
         role: 'user',
         content: prompt
-      }], modelId);
+      }], modelId, { requestClass: 'background', cache: true });
 
       let keywords: string[] = [];
       try {
@@ -1098,7 +1098,7 @@ Example: ["blockchain", "ethereum", "smartcontract", "defi", "wallet"]`;
       const response: any = await this.llmManager.chat([{
         role: 'user',
         content: prompt
-      }], modelId);
+      }], modelId, { requestClass: 'background', cache: { topicId: request.topicId } });
 
       let keywords: string[] = [];
       try {
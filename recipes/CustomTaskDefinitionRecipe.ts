@@ -0,0 +1,112 @@
+/**
+ * CustomTaskDefinition Recipes for ONE.core
+ *
+ * A custom AI task is a user-defined automation of one topic ("extract action
+ * items", "translate to German"): a prompt template, when it runs (trigger),
+ * what it produces (optional JSON schema) and what happens with the result
+ * (output action). Being plain data, definitions survive restarts and sync
+ * like the other AI settings.
+ *
+ * CustomTaskList enumerates the definitions of a topic (one per topic).
+ */
+
+export const CustomTaskDefinitionRecipe = {
+    $type$: 'Recipe' as const,
+    name: 'CustomTaskDefinition',
+    rule: [
+        {
+            itemprop: '$type$',
+            itemtype: { type: 'string', regexp: /^CustomTaskDefinition$/ }
+        },
+        {
+            itemprop: 'topicId',
+            itemtype: { type: 'string' },
+            isId: true
+        },
+        {
+            itemprop: 'taskId',
+            itemtype: { type: 'string' },
+            isId: true
+        },
+        {
+            itemprop: 'name',
+            itemtype: { type: 'string' }
+        },
+        {
+            itemprop: 'enabled',
+            itemtype: { type: 'boolean' }
+        },
+        {
+            itemprop: 'promptTemplate',
+            itemtype: { type: 'string' }  // Placeholders: {{message}}, {{history}}
+        },
+        {
+            itemprop: 'trigger',
+            itemtype: {
+                type: 'object',
+                rules: [
+                    { itemprop: 'type', itemtype: { type: 'string', regexp: /^(every-message|keyword|every-n-messages|manual)$/ } },
+                    { itemprop: 'keywords', itemtype: { type: 'array', item: { type: 'string' } }, optional: true },  // keyword
+                    { itemprop: 'everyN', itemtype: { type: 'integer' }, optional: true }  // every-n-messages
+                ]
+            }
+        },
+        {
+            itemprop: 'outputSchema',
+            itemtype: { type: 'string' },
+            optional: true  // JSON schema (serialized) - undefined = plain text
+        },
+        {
+            itemprop: 'outputAction',
+            itemtype: { type: 'string', regexp: /^(post-message|attach-to-subject|update-summary)$/ }
+        },
+        {
+            itemprop: 'aiPersonId',
+            itemtype: { type: 'string' },
+            optional: true  // Undefined = the topic's AI
+        },
+        {
+            itemprop: 'modelId',
+            itemtype: { type: 'string' },
+            optional: true  // Undefined = the AI's model
+        },
+        {
+            itemprop: 'created',
+            itemtype: { type: 'number' }
+        },
+        {
+            itemprop: 'modified',
+            itemtype: { type: 'number' }
+        }
+    ]
+};
+
+export const CustomTaskListRecipe = {
+    $type$: 'Recipe' as const,
+    name: 'CustomTaskList',
+    rule: [
+        {
+            itemprop: '$type$',
+            itemtype: { type: 'string', regexp: /^CustomTaskList$/ }
+        },
+        {
+            itemprop: 'topicId',
+            itemtype: { type: 'string' },
+            isId: true
+        },
+        {
+            itemprop: 'taskIds',
+            itemtype: {
+                type: 'set',
+                item: {
+                    type: 'referenceToId',
+                    allowedTypes: new Set(['CustomTaskDefinition'])
+                }
+            }
+        },
+        {
+            itemprop: 'modified',
+            itemtype: { type: 'number' }
+        }
+    ]
+};
@@ -74,6 +74,22 @@ export const GlobalLLMSettingsRecipe = {
                 }
             },
             optional: true
+        },
+        // Per-model Ollama keep-alive ('-1' pins the model in memory)
+        {
+            itemprop: 'ollamaKeepAlive',
+            itemtype: {
+                type: 'array',
+                item: {
+                    type: 'object',
+                    rules: [
+                        { itemprop: 'baseUrl', itemtype: { type: 'string' } },
+                        { itemprop: 'model', itemtype: { type: 'string' } },
+                        { itemprop: 'keepAlive', itemtype: { type: 'string' } }
+                    ]
+                }
+            },
+            optional: true
         }
     ]
 };
@@ -0,0 +1,57 @@
+/**
+ * LLMBudget Recipe for ONE.core
+ *
+ * Spending limit per AI (scopeId = aiId) or per provider (scopeId = 'anthropic',
+ * 'openai', ...) over a day or calendar month (UTC).
+ * - softLimitUsd: warn once per period
+ * - hardLimitUsd: apply hardLimitAction - warn, downgrade to a local model, or block
+ * A budget without limits is disabled.
+ */
+
+export const LLMBudgetRecipe = {
+    $type$: 'Recipe' as const,
+    name: 'LLMBudget',
+    rule: [
+        {
+            itemprop: '$type$',
+            itemtype: { type: 'string', regexp: /^LLMBudget$/ }
+        },
+        {
+            itemprop: 'scope',
+            itemtype: { type: 'string', regexp: /^(ai|provider)$/ },
+            isId: true
+        },
+        {
+            itemprop: 'scopeId',
+            itemtype: { type: 'string' },
+            isId: true  // aiId or provider name
+        },
+        {
+            itemprop: 'period',
+            itemtype: { type: 'string', regexp: /^(day|month)$/ }
+        },
+        {
+            itemprop: 'softLimitUsd',
+            itemtype: { type: 'number' },
+            optional: true
+        },
+        {
+            itemprop: 'hardLimitUsd',
+            itemtype: { type: 'number' },
+            optional: true
+        },
+        {
+            itemprop: 'hardLimitAction',
+            itemtype: { type: 'string', regexp: /^(warn|downgrade|block)$/ }
+        },
+        {
+            itemprop: 'downgradeModelId',
+            itemtype: { type: 'string' },
+            optional: true  // Local model to use over the hard limit (default: first available local model)
+        },
+        {
+            itemprop: 'modified',
+            itemtype: { type: 'number' }
+        }
+    ]
+};
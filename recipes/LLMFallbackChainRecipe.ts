@@ -0,0 +1,36 @@
+/**
+ * LLMFallbackChain Recipe for ONE.core
+ *
+ * Ordered list of models to fail over to when the requested model errors or
+ * its circuit is open. One object per scope: an AI (scopeId = aiId) or a
+ * topic (scopeId = topicId). Topic chains take precedence over AI chains.
+ */
+
+export const LLMFallbackChainRecipe = {
+    $type$: 'Recipe' as const,
+    name: 'LLMFallbackChain',
+    rule: [
+        {
+            itemprop: '$type$',
+            itemtype: { type: 'string', regexp: /^LLMFallbackChain$/ }
+        },
+        {
+            itemprop: 'scope',
+            itemtype: { type: 'string', regexp: /^(ai|topic)$/ },
+            isId: true
+        },
+        {
+            itemprop: 'scopeId',
+            itemtype: { type: 'string' },
+            isId: true  // aiId or topicId
+        },
+        {
+            itemprop: 'modelIds',
+            itemtype: { type: 'array', item: { type: 'string' } }  // Tried in order; empty = no failover
+        },
+        {
+            itemprop: 'modified',
+            itemtype: { type: 'number' }
+        }
+    ]
+};
@@ -0,0 +1,63 @@
+/**
+ * LLMKeyVault Recipe for ONE.core
+ *
+ * API keys of one owner (Person ID), encrypted with the owner's ONE.core
+ * encryption keys. Several named keys per provider ('personal', 'team'); one
+ * of them is the provider's default, AIs can be assigned a specific key.
+ * Revoked keys stay listed without their encrypted value.
+ */
+
+export const LLMKeyVaultRecipe = {
+    $type$: 'Recipe' as const,
+    name: 'LLMKeyVault',
+    rule: [
+        {
+            itemprop: '$type$',
+            itemtype: { type: 'string', regexp: /^LLMKeyVault$/ }
+        },
+        {
+            itemprop: 'owner',
+            itemtype: { type: 'string' },
+            isId: true  // Person ID hash
+        },
+        {
+            itemprop: 'keys',
+            itemtype: {
+                type: 'array',
+                item: {
+                    type: 'object',
+                    rules: [
+                        { itemprop: 'keyId', itemtype: { type: 'string' } },
+                        { itemprop: 'provider', itemtype: { type: 'string' } },
+                        { itemprop: 'label', itemtype: { type: 'string' } },
+                        { itemprop: 'scope', itemtype: { type: 'string', regexp: /^(personal|team)$/ } },
+                        { itemprop: 'encryptedKey', itemtype: { type: 'string' }, optional: true },  // base64, absent once revoked
+                        { itemprop: 'hint', itemtype: { type: 'string' } },  // Last characters, for display
+                        { itemprop: 'isDefault', itemtype: { type: 'boolean' } },
+                        { itemprop: 'created', itemtype: { type: 'number' } },
+                        { itemprop: 'rotated', itemtype: { type: 'number' }, optional: true },
+                        { itemprop: 'revoked', itemtype: { type: 'number' }, optional: true }
+                    ]
+                }
+            }
+        },
+        {
+            itemprop: 'assignments',
+            itemtype: {
+                type: 'array',
+                item: {
+                    type: 'object',
+                    rules: [
+                        { itemprop: 'aiId', itemtype: { type: 'string' } },
+                        { itemprop: 'provider', itemtype: { type: 'string' } },
+                        { itemprop: 'keyId', itemtype: { type: 'string' } }
+                    ]
+                }
+            }
+        },
+        {
+            itemprop: 'modified',
+            itemtype: { type: 'number' }
+        }
+    ]
+};
@@ -182,6 +182,28 @@ export const LLMRecipe = {
             itemtype: { type: 'string' },
             optional: true
         },
+        // What the backend reported about the model (services/capability-discovery.ts)
+        {
+            itemprop: 'discoveredCapabilities',
+            itemtype: {
+                type: 'object',
+                rules: [
+                    { itemprop: 'source', itemtype: { type: 'string', regexp: /^(ollama|anthropic|openai|gguf)$/ } },
+                    { itemprop: 'discoveredAt', itemtype: { type: 'number' } },
+                    { itemprop: 'contextWindow', itemtype: { type: 'number' }, optional: true },
+                    { itemprop: 'maxOutputTokens', itemtype: { type: 'number' }, optional: true },
+                    { itemprop: 'supportsVision', itemtype: { type: 'boolean' }, optional: true },
+                    { itemprop: 'supportsTools', itemtype: { type: 'boolean' }, optional: true },
+                    { itemprop: 'supportsThinking', itemtype: { type: 'boolean' }, optional: true },
+                    { itemprop: 'supportsEmbedding', itemtype: { type: 'boolean' }, optional: true },
+                    { itemprop: 'template', itemtype: { type: 'string' }, optional: true },
+                    { itemprop: 'family', itemtype: { type: 'string' }, optional: true },
+                    { itemprop: 'parameterSize', itemtype: { type: 'string' }, optional: true },
+                    { itemprop: 'quantization', itemtype: { type: 'string' }, optional: true }
+                ]
+            },
+            optional: true
+        },
         {
             itemprop: 'checksum',
             itemtype: { type: 'string' },
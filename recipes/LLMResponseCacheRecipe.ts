@@ -0,0 +1,49 @@
+/**
+ * LLMResponseCache Recipe for ONE.core
+ *
+ * Cached LLM responses of one topic (scope = topicId, 'global' for requests
+ * without a topic). Entries are keyed by model, temperature and the hash of the
+ * normalized prompt; the optional embedding of the prompt serves near-duplicate
+ * lookups. Written in batches by ResponseCache, cleared when the topic changes.
+ */
+
+export const LLMResponseCacheRecipe = {
+    $type$: 'Recipe' as const,
+    name: 'LLMResponseCache',
+    rule: [
+        {
+            itemprop: '$type$',
+            itemtype: { type: 'string', regexp: /^LLMResponseCache$/ }
+        },
+        {
+            itemprop: 'scope',
+            itemtype: { type: 'string' },
+            isId: true  // topicId or 'global'
+        },
+        {
+            itemprop: 'entries',
+            itemtype: {
+                type: 'array',
+                item: {
+                    type: 'object',
+                    rules: [
+                        { itemprop: 'key', itemtype: { type: 'string' } },
+                        { itemprop: 'modelId', itemtype: { type: 'string' } },
+                        { itemprop: 'temperature', itemtype: { type: 'number' } },
+                        { itemprop: 'response', itemtype: { type: 'string' } },
+                        { itemprop: 'embedding', itemtype: { type: 'array', item: { type: 'number' } }, optional: true },
+                        { itemprop: 'embeddingModel', itemtype: { type: 'string' }, optional: true },
+                        { itemprop: 'created', itemtype: { type: 'number' } },
+                        { itemprop: 'expires', itemtype: { type: 'number' } },
+                        { itemprop: 'lastHit', itemtype: { type: 'number' } },
+                        { itemprop: 'hits', itemtype: { type: 'number' } }
+                    ]
+                }
+            }
+        },
+        {
+            itemprop: 'modified',
+            itemtype: { type: 'number' }
+        }
+    ]
+};
@@ -0,0 +1,82 @@
+/**
+ * LLMUsageDay / LLMUsageBucket Recipes for ONE.core
+ *
+ * Usage ledger of one UTC day: one entry per LLM call with its token counts
+ * and computed cost. Entries are stored in fixed-size LLMUsageBucket objects
+ * (a batch write rewrites only the newest bucket); the LLMUsageDay object
+ * records how many buckets the day has. Queries aggregate across days by
+ * model, AI, topic or provider.
+ */
+
+export const LLMUsageDayRecipe = {
+    $type$: 'Recipe' as const,
+    name: 'LLMUsageDay',
+    rule: [
+        {
+            itemprop: '$type$',
+            itemtype: { type: 'string', regexp: /^LLMUsageDay$/ }
+        },
+        {
+            itemprop: 'day',
+            itemtype: { type: 'string', regexp: /^\d{4}-\d{2}-\d{2}$/ },
+            isId: true
+        },
+        {
+            itemprop: 'bucketCount',
+            itemtype: { type: 'integer' }
+        },
+        {
+            itemprop: 'modified',
+            itemtype: { type: 'number' }
+        }
+    ]
+};
+
+export const LLMUsageBucketRecipe = {
+    $type$: 'Recipe' as const,
+    name: 'LLMUsageBucket',
+    rule: [
+        {
+            itemprop: '$type$',
+            itemtype: { type: 'string', regexp: /^LLMUsageBucket$/ }
+        },
+        {
+            itemprop: 'day',
+            itemtype: { type: 'string', regexp: /^\d{4}-\d{2}-\d{2}$/ },
+            isId: true
+        },
+        {
+            itemprop: 'bucket',
+            itemtype: { type: 'integer' },
+            isId: true
+        },
+        {
+            itemprop: 'entries',
+            itemtype: {
+                type: 'array',
+                item: {
+                    type: 'object',
+                    rules: [
+                        { itemprop: 'id', itemtype: { type: 'string' } },
+                        { itemprop: 'timestamp', itemtype: { type: 'number' } },
+                        { itemprop: 'modelId', itemtype: { type: 'string' } },
+                        { itemprop: 'provider', itemtype: { type: 'string' } },
+                        { itemprop: 'topicId', itemtype: { type: 'string' }, optional: true },
+                        { itemprop: 'aiId', itemtype: { type: 'string' }, optional: true },
+                        { itemprop: 'requestClass', itemtype: { type: 'string' }, optional: true },
+                        { itemprop: 'promptTokens', itemtype: { type: 'number' } },
+                        { itemprop: 'completionTokens', itemtype: { type: 'number' } },
+                        { itemprop: 'cacheCreationTokens', itemtype: { type: 'number' } },
+                        { itemprop: 'cacheReadTokens', itemtype: { type: 'number' } },
+                        { itemprop: 'costUsd', itemtype: { type: 'number' } },
+                        { itemprop: 'priced', itemtype: { type: 'boolean' } }  // false = unknown price, cost counted as 0
+                    ]
+                }
+            }
+        },
+        {
+            itemprop: 'modified',
+            itemtype: { type: 'number' }
+        }
+    ]
+};
@@ -45,6 +45,16 @@ export const ProposalConfigRecipe: Recipe = {
             itemprop: 'maxProposals',
             itemtype: { type: 'integer' } // Maximum proposals to return
         },
+        {
+            itemprop: 'minRelevance',
+            itemtype: { type: 'number' }, // 0.0 to 1.0, ranking score needed to be shown
+            optional: true
+        },
+        {
+            itemprop: 'feedbackWeight',
+            itemtype: { type: 'number' }, // 0.0 to 1.0, influence of learned weights
+            optional: true
+        },
         {
             itemprop: 'updatedAt',
             itemtype: { type: 'integer' } // Last update timestamp
@@ -3,6 +3,8 @@
  *
  * ProposalInteractionPlan: User's intent to interact with a proposal
  * ProposalInteractionResponse: Result of executing the plan
+ * ProposalInteractionLog: Per-user interaction history, replayed on startup
+ * ProposalInteractionLogBucket: Fixed-size slice of a log (appends rewrite one bucket)
  */
 
 import type { Recipe } from '@refinio/one.core/lib/recipes.js';
@@ -89,3 +91,78 @@ export const ProposalInteractionResponseRecipe: Recipe = {
         }
     ]
 };
+
+export const ProposalInteractionLogRecipe: Recipe = {
+    $type$: 'Recipe',
+    name: 'ProposalInteractionLog',
+    rule: [
+        {
+            itemprop: '$type$',
+            itemtype: { type: 'string', regexp: /^ProposalInteractionLog$/ }
+        },
+        {
+            itemprop: 'userEmail',
+            itemtype: { type: 'string' },
+            isId: true // One log per user
+        },
+        {
+            itemprop: 'lastBucket',
+            itemtype: { type: 'integer' } // Index of the bucket currently appended to
+        },
+        {
+            itemprop: 'updatedAt',
+            itemtype: { type: 'integer' }
+        },
+        {
+            itemprop: '$versionHash$',
+            itemtype: { type: 'string' },
+            optional: true
+        }
+    ]
+};
+
+export const ProposalInteractionLogBucketRecipe: Recipe = {
+    $type$: 'Recipe',
+    name: 'ProposalInteractionLogBucket',
+    rule: [
+        {
+            itemprop: '$type$',
+            itemtype: { type: 'string', regexp: /^ProposalInteractionLogBucket$/ }
+        },
+        {
+            itemprop: 'userEmail',
+            itemtype: { type: 'string' },
+            isId: true // Part of composite ID
+        },
+        {
+            itemprop: 'bucket',
+            itemtype: { type: 'integer' },
+            isId: true // Part of composite ID
+        },
+        {
+            itemprop: 'entries',
+            itemtype: {
+                type: 'array',
+                item: {
+                    type: 'object',
+                    rules: [
+                        { itemprop: 'proposalIdHash', itemtype: { type: 'string' } }, // IdHash of past subject
+                        { itemprop: 'action', itemtype: { type: 'string', regexp: /^(view|dismiss|share)$/ } },
+                        { itemprop: 'topicId', itemtype: { type: 'string' } },
+                        { itemprop: 'keywords', itemtype: { type: 'bag', item: { type: 'string' } } }, // Subject keyword terms
+                        { itemprop: 'createdAt', itemtype: { type: 'integer' } }
+                    ]
+                }
+            }
+        },
+        {
+            itemprop: 'updatedAt',
+            itemtype: { type: 'integer' }
+        },
+        {
+            itemprop: '$versionHash$',
+            itemtype: { type: 'string' },
+            optional: true
+        }
+    ]
+};
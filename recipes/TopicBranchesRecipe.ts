@@ -0,0 +1,63 @@
+/**
+ * TopicBranches Recipe for ONE.core
+ *
+ * Conversation branches of one topic. Channels only ever append, so a
+ * regenerated reply or an edited message does not replace anything: the
+ * superseded messages (channel entry hashes) are recorded here and left out of
+ * the active conversation. A branch stays linked to the message it diverged
+ * after (anchorHash); branches with the same anchor are siblings of the active
+ * continuation. A forked topic records where it was forked from.
+ */
+
+export const TopicBranchesRecipe = {
+    $type$: 'Recipe' as const,
+    name: 'TopicBranches',
+    rule: [
+        {
+            itemprop: '$type$',
+            itemtype: { type: 'string', regexp: /^TopicBranches$/ }
+        },
+        {
+            itemprop: 'topicId',
+            itemtype: { type: 'string' },
+            isId: true
+        },
+        {
+            itemprop: 'branches',
+            itemtype: {
+                type: 'array',
+                item: {
+                    type: 'object',
+                    rules: [
+                        { itemprop: 'branchId', itemtype: { type: 'string' } },
+                        { itemprop: 'kind', itemtype: { type: 'string', regexp: /^(regenerate|edit)$/ } },
+                        { itemprop: 'anchorHash', itemtype: { type: 'string' }, optional: true },  // Undefined = topic start
+                        { itemprop: 'supersededHashes', itemtype: { type: 'array', item: { type: 'string' } } },
+                        { itemprop: 'aiPersonId', itemtype: { type: 'string' }, optional: true },
+                        { itemprop: 'modelId', itemtype: { type: 'string' }, optional: true },
+                        { itemprop: 'created', itemtype: { type: 'number' } }
+                    ]
+                }
+            }
+        },
+        {
+            itemprop: 'forkedFromTopicId',
+            itemtype: { type: 'string' },
+            optional: true
+        },
+        {
+            itemprop: 'forkedAtHash',
+            itemtype: { type: 'string' },
+            optional: true
+        },
+        {
+            itemprop: 'forkPrefixLength',
+            itemtype: { type: 'number' },
+            optional: true  // Messages copied from the source topic - never answered again
+        },
+        {
+            itemprop: 'modified',
+            itemtype: { type: 'number' }
+        }
+    ]
+};
@@ -0,0 +1,81 @@
+/**
+ * TopicResearch Recipe for ONE.core
+ *
+ * Research runs of one topic (AITaskType 'research'). A run plans sub-queries,
+ * gathers evidence for each (tool calls, past subjects) and posts a report with
+ * citations into the topic. The run is stored after every step, so it resumes
+ * where it stopped when the app restarts mid-task.
+ */
+
+export const TopicResearchRecipe = {
+    $type$: 'Recipe' as const,
+    name: 'TopicResearch',
+    rule: [
+        {
+            itemprop: '$type$',
+            itemtype: { type: 'string', regexp: /^TopicResearch$/ }
+        },
+        {
+            itemprop: 'topicId',
+            itemtype: { type: 'string' },
+            isId: true
+        },
+        {
+            itemprop: 'runs',
+            itemtype: {
+                type: 'array',
+                item: {
+                    type: 'object',
+                    rules: [
+                        { itemprop: 'researchId', itemtype: { type: 'string' } },
+                        { itemprop: 'question', itemtype: { type: 'string' } },
+                        { itemprop: 'status', itemtype: { type: 'string', regexp: /^(planning|gathering|reporting|complete|failed)$/ } },
+                        { itemprop: 'depth', itemtype: { type: 'string', regexp: /^(shallow|deep)$/ } },
+                        { itemprop: 'sources', itemtype: { type: 'array', item: { type: 'string' } } },  // Empty = all
+                        { itemprop: 'aiPersonId', itemtype: { type: 'string' } },
+                        { itemprop: 'modelId', itemtype: { type: 'string' } },
+                        {
+                            itemprop: 'subQueries',
+                            itemtype: {
+                                type: 'array',
+                                item: {
+                                    type: 'object',
+                                    rules: [
+                                        { itemprop: 'query', itemtype: { type: 'string' } },
+                                        { itemprop: 'status', itemtype: { type: 'string', regexp: /^(pending|done|failed)$/ } },
+                                        { itemprop: 'findings', itemtype: { type: 'string' }, optional: true },
+                                        { itemprop: 'error', itemtype: { type: 'string' }, optional: true }
+                                    ]
+                                }
+                            }
+                        },
+                        {
+                            itemprop: 'evidence',
+                            itemtype: {
+                                type: 'array',
+                                item: {
+                                    type: 'object',
+                                    rules: [
+                                        { itemprop: 'ref', itemtype: { type: 'string' } },  // E1, E2, ... - cited in the report
+                                        { itemprop: 'subQuery', itemtype: { type: 'number' } },
+                                        { itemprop: 'source', itemtype: { type: 'string', regexp: /^(tool|subject)$/ } },
+                                        { itemprop: 'citation', itemtype: { type: 'string' } },
+                                        { itemprop: 'excerpt', itemtype: { type: 'string' } }
+                                    ]
+                                }
+                            }
+                        },
+                        { itemprop: 'error', itemtype: { type: 'string' }, optional: true },
+                        { itemprop: 'created', itemtype: { type: 'number' } },
+                        { itemprop: 'reportPostedAt', itemtype: { type: 'number' }, optional: true },  // Set before the report is sent
+                        { itemprop: 'completed', itemtype: { type: 'number' }, optional: true }
+                    ]
+                }
+            }
+        },
+        {
+            itemprop: 'modified',
+            itemtype: { type: 'number' }
+        }
+    ]
+};
@@ -0,0 +1,50 @@
+/**
+ * TopicTurnPolicy Recipe for ONE.core
+ *
+ * Which AIs of a group topic answer a message:
+ * - all:           every responding AI (default)
+ * - round-robin:   the AIs take turns
+ * - mention-only:  only AIs addressed with @name
+ * - relevance-bid: each AI scores its fit for the message, the best one answers
+ * - moderator:     the moderator AI chooses who speaks
+ * Outside 'all' an @mention always reaches the mentioned AI. AI messages trigger other AIs
+ * only with allowAIReplies, and at most maxConsecutiveAITurns times in a row
+ * before a human has to speak again.
+ */
+
+export const TopicTurnPolicyRecipe = {
+    $type$: 'Recipe' as const,
+    name: 'TopicTurnPolicy',
+    rule: [
+        {
+            itemprop: '$type$',
+            itemtype: { type: 'string', regexp: /^TopicTurnPolicy$/ }
+        },
+        {
+            itemprop: 'topicId',
+            itemtype: { type: 'string' },
+            isId: true
+        },
+        {
+            itemprop: 'mode',
+            itemtype: { type: 'string', regexp: /^(all|round-robin|mention-only|relevance-bid|moderator)$/ }
+        },
+        {
+            itemprop: 'moderatorPersonId',
+            itemtype: { type: 'string' },
+            optional: true  // AI Person ID - required for mode 'moderator'
+        },
+        {
+            itemprop: 'allowAIReplies',
+            itemtype: { type: 'boolean' }
+        },
+        {
+            itemprop: 'maxConsecutiveAITurns',
+            itemtype: { type: 'number' }
+        },
+        {
+            itemprop: 'modified',
+            itemtype: { type: 'number' }
+        }
+    ]
+};
@@ -6,11 +6,20 @@
 import { AIRecipe, AIListRecipe } from './AIRecipe.js';
 import { LLMRecipe } from './LLMRecipe.js';
 import { GlobalLLMSettingsRecipe } from './GlobalLLMSettingsRecipe.js';
+import { LLMFallbackChainRecipe } from './LLMFallbackChainRecipe.js';
+import { LLMUsageDayRecipe, LLMUsageBucketRecipe } from './LLMUsageDayRecipe.js';
+import { LLMBudgetRecipe } from './LLMBudgetRecipe.js';
+import { LLMKeyVaultRecipe } from './LLMKeyVaultRecipe.js';
+import { LLMResponseCacheRecipe } from './LLMResponseCacheRecipe.js';
+import { TopicTurnPolicyRecipe } from './TopicTurnPolicyRecipe.js';
+import { TopicBranchesRecipe } from './TopicBranchesRecipe.js';
+import { TopicResearchRecipe } from './TopicResearchRecipe.js';
+import { CustomTaskDefinitionRecipe, CustomTaskListRecipe } from './CustomTaskDefinitionRecipe.js';
 import { AISettingsRecipe } from './AISettingsRecipe.js';
 import { AppSettingsRecipe } from './AppSettingsRecipe.js';
 import { ProposalConfigRecipe } from './ProposalConfigRecipe.js';
 import { ProposalRecipe } from './ProposalRecipe.js';
-import { ProposalInteractionPlanRecipe, ProposalInteractionResponseRecipe } from './ProposalInteractionRecipes.js';
+import { ProposalInteractionPlanRecipe, ProposalInteractionResponseRecipe, ProposalInteractionLogRecipe, ProposalInteractionLogBucketRecipe } from './ProposalInteractionRecipes.js';
 import { ToolExecutionRecipe, type ToolExecution } from './ToolExecutionRecipe.js';
 import { SubjectRecipe } from '../one-ai/recipes/SubjectRecipe.js';
 import { KeywordRecipe } from '../one-ai/recipes/KeywordRecipe.js';
@@ -29,12 +38,25 @@ export const LAMA_CORE_RECIPES = [
     AIListRecipe,
     LLMRecipe,
     GlobalLLMSettingsRecipe,
+    LLMFallbackChainRecipe,
+    LLMUsageDayRecipe,
+    LLMUsageBucketRecipe,
+    LLMBudgetRecipe,
+    LLMKeyVaultRecipe,
+    LLMResponseCacheRecipe,
+    TopicTurnPolicyRecipe,
+    TopicBranchesRecipe,
+    TopicResearchRecipe,
+    CustomTaskDefinitionRecipe,
+    CustomTaskListRecipe,
     AISettingsRecipe,
     AppSettingsRecipe,
     ProposalConfigRecipe,
     ProposalRecipe,
     ProposalInteractionPlanRecipe,
     ProposalInteractionResponseRecipe,
+    ProposalInteractionLogRecipe,
+    ProposalInteractionLogBucketRecipe,
     ToolExecutionRecipe,
     SubjectRecipe,
     KeywordRecipe,
@@ -51,12 +73,25 @@ export {
     AIListRecipe,
     LLMRecipe,
     GlobalLLMSettingsRecipe,
+    LLMFallbackChainRecipe,
+    LLMUsageDayRecipe,
+    LLMUsageBucketRecipe,
+    LLMBudgetRecipe,
+    LLMKeyVaultRecipe,
+    LLMResponseCacheRecipe,
+    TopicTurnPolicyRecipe,
+    TopicBranchesRecipe,
+    TopicResearchRecipe,
+    CustomTaskDefinitionRecipe,
+    CustomTaskListRecipe,
     AISettingsRecipe,
     AppSettingsRecipe,
     ProposalConfigRecipe,
     ProposalRecipe,
     ProposalInteractionPlanRecipe,
     ProposalInteractionResponseRecipe,
+    ProposalInteractionLogRecipe,
+    ProposalInteractionLogBucketRecipe,
     ToolExecutionRecipe,
     SubjectRecipe,
     KeywordRecipe,
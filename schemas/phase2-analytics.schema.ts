@@ -0,0 +1,38 @@
+/**
+ * JSON Schema for Phase 2 analytics (PHASE2_ANALYTICS_PROMPT)
+ *
+ * Validated by the structured-output service - replies that break a rule
+ * (e.g. multi-word keywords) are sent back to the model for repair.
+ * Also passed as `format` for constrained decoding: all properties are
+ * required and additionalProperties is false, as OpenAI strict mode demands.
+ */
+
+export const PHASE2_ANALYTICS_SCHEMA = {
+  type: 'object',
+  required: ['keywords', 'description', 'language'],
+  additionalProperties: false,
+  properties: {
+    keywords: {
+      type: 'array',
+      description: 'Keywords of the main topics (3-8)',
+      items: {
+        type: 'string',
+        description: 'single word - no spaces, no hyphens',
+        pattern: '^[^\\s-]+$'
+      },
+      minItems: 1,
+      maxItems: 8
+    },
+    description: {
+      type: 'string',
+      description: 'Short topic label (2-5 words, NOT a sentence)',
+      minLength: 1,
+      maxLength: 80
+    },
+    language: {
+      type: 'string',
+      description: 'ISO 639-1 code of the assistant response',
+      pattern: '^[a-z]{2}$'
+    }
+  }
+}
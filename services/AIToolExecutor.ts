@@ -4,6 +4,7 @@
  * Unified tool execution for all AI in the app.
  * Routes by prefix: plan: → PlanRouter, mcp: → MCPManager
  * All calls go through PolicyEngine for access control.
+ * runAgentLoop() drives multi-step tool use (several calls per turn, limits, one ToolTrace).
  *
  * Stores ToolExecution objects for audit/journal tracking.
  * Emits 'tool-executed' events for listeners (e.g., JournalModule).
@@ -31,6 +32,8 @@ import {
 } from './tool-parser.js';
 
 import type { ToolExecution } from '../recipes/ToolExecutionRecipe.js';
+import { abortable, createAbortError } from './cancellation.js';
+import type { ChatMessage, ChatToolCall, ChatToolDefinition } from './llm-adapters/types.js';
 
 const MessageBus = createMessageBus('AIToolExecutor');
 
@@ -46,6 +49,8 @@ export interface ToolExecutionContext {
   entryPoint: 'internal';
   /** Request ID for correlation */
   requestId: string;
+  /** Aborts pending tool executions (stop generating) */
+  signal?: AbortSignal;
 }
 
 /**
@@ -80,6 +85,7 @@ export interface AIToolExecutorDeps {
   /** MCPManager for external tool access */
   mcpManager?: {
     executeTool: (tool: string, params: any, context?: any) => Promise<any>;
+    getAvailableTools?: () => Array<{ name: string; fullName?: string; server?: string; description?: string; inputSchema?: any }>;
   };
   /** PolicyEngine for access control (used via PlanRouter) */
   policyEngine?: any;
@@ -97,13 +103,91 @@ export interface AIToolExecutorConfig {
   maxIterations: number;
   /** Enable agent mode (unlimited iterations) */
   agentModeEnabled: boolean;
+  /** Safety cap on model turns in agent mode (default: 25) */
+  maxAgentIterations: number;
+  /** Max tool calls executed across one agent loop (default: 20) */
+  maxToolCalls: number;
+  /** Token budget across all model turns of one loop, 0 = unlimited (default: 0) */
+  tokenBudget: number;
+  /** Wall-clock budget for one agent loop in ms (default: 120000) */
+  timeBudgetMs: number;
 }
 
 const DEFAULT_CONFIG: AIToolExecutorConfig = {
   maxIterations: 5,
-  agentModeEnabled: false
+  agentModeEnabled: false,
+  maxAgentIterations: 25,
+  maxToolCalls: 20,
+  tokenBudget: 0,
+  timeBudgetMs: 120000
 };
 
+/**
+ * One model turn inside the agent loop
+ */
+export interface AgentTurn {
+  content: string;
+  thinking?: string;
+  toolCalls: ChatToolCall[];
+  usage?: { promptTokens: number; completionTokens: number; totalTokens: number };
+}
+
+/**
+ * Why an agent loop ended
+ */
+export type AgentStopReason = NonNullable<ToolTrace['stopReason']>;
+
+/**
+ * Intermediate step emitted while the agent loop runs
+ */
+export interface AgentStepEvent {
+  type: 'tool_start' | 'tool_result' | 'turn_complete' | 'stopped';
+  iteration: number;
+  tool?: string;
+  callId?: string;
+  success?: boolean;
+  /** Truncated tool result (tool_result) */
+  summary?: string;
+  duration?: number;
+  stopReason?: AgentStopReason;
+}
+
+/**
+ * Input for runAgentLoop
+ */
+export interface AgentLoopParams {
+  /** Conversation up to (not including) the first turn */
+  messages: ChatMessage[];
+  /** Model turn that requested the first tool calls */
+  firstTurn: AgentTurn;
+  /**
+   * Call the model with the extended conversation.
+   * final=true means tools must not be called (limit reached).
+   */
+  callModel: (messages: ChatMessage[], options: { final: boolean }) => Promise<AgentTurn>;
+  context: ToolExecutionContext;
+  onStep?: (event: AgentStepEvent) => void;
+}
+
+/**
+ * Output of runAgentLoop
+ */
+export interface AgentLoopResult {
+  content: string;
+  thinking?: string;
+  trace: ToolTrace;
+  stopReason: AgentStopReason;
+  /** Full conversation including tool calls and results */
+  messages: ChatMessage[];
+  /** All tool results as text (for Phase 0 extraction) */
+  toolResults: string;
+}
+
+/** Methods that only read state - safe to run in parallel with anything */
+const READ_ONLY_METHOD = /^(get|list|read|search|find|describe|query|fetch|lookup|count|stat|show)/i;
+
+const STEP_SUMMARY_LENGTH = 200;
+
 export class AIToolExecutor {
   private deps: AIToolExecutorDeps;
   private config: AIToolExecutorConfig;
@@ -131,8 +215,51 @@ export class AIToolExecutor {
     this.config = { ...this.config, ...config };
   }
 
+  /**
+   * Get the current configuration
+   */
+  getConfig(): AIToolExecutorConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Normalize a tool name requested by a model
+   * Bare MCP names (server:tool) get the mcp: prefix for backwards compatibility
+   */
+  normalizeToolName(tool: string): string {
+    return tool.includes(':') && !tool.startsWith('plan:') && !tool.startsWith('mcp:')
+      ? `mcp:${tool}`
+      : tool;
+  }
+
+  /**
+   * Get tool definitions for native tool calling
+   * MCP tools are exposed as mcp:server:tool so calls route back through execute()
+   */
+  getToolDefinitions(): ChatToolDefinition[] {
+    const mcpTools = this.deps.mcpManager?.getAvailableTools?.() || [];
+    const definitions: ChatToolDefinition[] = [];
+
+    for (const tool of mcpTools) {
+      const serverTool = tool.fullName || (tool.server ? `${tool.server}:${tool.name}` : tool.name);
+      const name = `mcp:${serverTool}`;
+      if (!parseToolName(name)) {
+        MessageBus.send('debug', `Skipping MCP tool without server prefix: ${serverTool}`);
+        continue;
+      }
+      definitions.push({
+        name,
+        description: tool.description || '',
+        inputSchema: tool.inputSchema || { type: 'object', properties: {} }
+      });
+    }
+
+    return definitions;
+  }
+
   /**
    * Parse LLM output for tool call
+   * Text fallback for models without native tool calling
    */
   parse(output: string): ParseResult {
     return parseToolCall(output);
@@ -149,6 +276,14 @@ export class AIToolExecutor {
   ): Promise<{ result: ToolExecutionResult; policy: PolicyResult; duration: number }> {
     const startTime = Date.now();
 
+    if (context.signal?.aborted) {
+      return {
+        result: { success: false, error: 'Cancelled' },
+        policy: { allowed: true, matchedRules: [] },
+        duration: 0
+      };
+    }
+
     // Validate tool prefix
     if (!isValidToolPrefix(tool)) {
       return {
@@ -409,6 +544,190 @@ export class AIToolExecutor {
     return serializeTrace(trace);
   }
 
+  /**
+   * Run the multi-step tool loop
+   *
+   * Executes the tool calls of each model turn (independent calls in parallel),
+   * feeds the results back via callModel and repeats until the model answers
+   * without tool calls or a limit is hit. In chat mode maxIterations bounds the
+   * number of tool turns; agent mode raises that to maxAgentIterations. Tool call,
+   * token and time budgets apply in both modes. Every step lands in one ToolTrace.
+   *
+   * context.signal cancels the loop: pending tool calls are abandoned, no further
+   * model turn is requested and the loop rejects with an AbortError.
+   */
+  async runAgentLoop(params: AgentLoopParams): Promise<AgentLoopResult> {
+    const { callModel, context, onStep } = params;
+    const agentMode = this.config.agentModeEnabled;
+    const maxTurns = agentMode ? this.config.maxAgentIterations : this.config.maxIterations;
+    const trace = createToolTrace(agentMode);
+    const conversation: ChatMessage[] = [...params.messages];
+    const toolResults: string[] = [];
+
+    let turn = params.firstTurn;
+    let tokensUsed = turn.usage?.totalTokens || 0;
+    let iteration = 0;
+    let stopReason: AgentStopReason = 'complete';
+
+    const checkCancelled = () => {
+      if (context.signal?.aborted) {
+        MessageBus.send('debug', `Agent loop cancelled after ${iteration} turns, ${trace.steps.length} tool calls`);
+        onStep?.({ type: 'stopped', iteration, stopReason: 'cancelled' });
+        throw createAbortError('Agent loop cancelled');
+      }
+    };
+
+    while (turn.toolCalls.length > 0) {
+      checkCancelled();
+      const limit = this.checkLoopLimits(iteration, maxTurns, trace, tokensUsed);
+      if (limit) {
+        stopReason = limit;
+        break;
+      }
+      iteration++;
+
+      conversation.push({ role: 'assistant', content: turn.content, toolCalls: turn.toolCalls });
+
+      // Calls beyond the tool call budget still need a result message (provider protocols)
+      const remaining = this.config.maxToolCalls - trace.steps.length;
+      const accepted = turn.toolCalls.slice(0, remaining);
+      const skipped = turn.toolCalls.slice(remaining);
+
+      const results = new Map<string, string>();
+      for (const batch of this.planBatches(accepted)) {
+        checkCancelled();
+        await Promise.all(batch.map(async call => {
+          results.set(call.id, await this.executeLoopCall(call, iteration, trace, context, onStep));
+        })).catch(error => {
+          checkCancelled();
+          throw error;
+        });
+      }
+
+      for (const call of turn.toolCalls) {
+        const text = results.get(call.id) ?? 'Skipped: tool call budget for this turn exhausted';
+        conversation.push({ role: 'tool', content: text, toolCallId: call.id, toolName: call.name });
+        if (results.has(call.id)) {
+          toolResults.push(`${call.name}:\n${text}`);
+        }
+      }
+      if (skipped.length > 0) {
+        MessageBus.send('debug', `Skipped ${skipped.length} tool calls (budget: ${this.config.maxToolCalls})`);
+      }
+
+      onStep?.({ type: 'turn_complete', iteration });
+
+      checkCancelled();
+      turn = await callModel(conversation, { final: false });
+      tokensUsed += turn.usage?.totalTokens || 0;
+    }
+
+    // Limit reached with tool calls still pending - ask for an answer without tools
+    if (stopReason !== 'complete') {
+      MessageBus.send('debug', `Agent loop stopped: ${stopReason} after ${iteration} turns, ${trace.steps.length} tool calls`);
+      onStep?.({ type: 'stopped', iteration, stopReason });
+      conversation.push({
+        role: 'user',
+        content: `Tool limit reached (${stopReason}). Do not call any more tools - answer with the information gathered so far.`
+      });
+      turn = await callModel(conversation, { final: true });
+    }
+
+    conversation.push({ role: 'assistant', content: turn.content });
+
+    trace.iterations = iteration;
+    trace.stopReason = stopReason;
+    finalizeTrace(trace);
+
+    return {
+      content: turn.content,
+      thinking: turn.thinking,
+      trace,
+      stopReason,
+      messages: conversation,
+      toolResults: toolResults.join('\n\n')
+    };
+  }
+
+  /**
+   * Check loop limits before starting another tool turn
+   */
+  private checkLoopLimits(
+    iteration: number,
+    maxTurns: number,
+    trace: ToolTrace,
+    tokensUsed: number
+  ): AgentStopReason | null {
+    if (iteration >= maxTurns) return 'max_iterations';
+    if (trace.steps.length >= this.config.maxToolCalls) return 'max_tool_calls';
+    if (this.config.tokenBudget > 0 && tokensUsed >= this.config.tokenBudget) return 'token_budget';
+    if (Date.now() - trace.startedAt >= this.config.timeBudgetMs) return 'time_budget';
+    return null;
+  }
+
+  /**
+   * Split one turn's tool calls into batches that can run in parallel
+   * Two calls conflict when they hit the same domain and one of them writes;
+   * conflicting calls run in the order the model issued them.
+   */
+  private planBatches(calls: ChatToolCall[]): ChatToolCall[][] {
+    const batches: ChatToolCall[][] = [];
+    let current: ChatToolCall[] = [];
+
+    for (const call of calls) {
+      const conflicts = current.some(other => this.callsConflict(call, other));
+      if (conflicts) {
+        batches.push(current);
+        current = [];
+      }
+      current.push(call);
+    }
+    if (current.length > 0) {
+      batches.push(current);
+    }
+
+    return batches;
+  }
+
+  private callsConflict(a: ChatToolCall, b: ChatToolCall): boolean {
+    const parsedA = parseToolName(this.normalizeToolName(a.name));
+    const parsedB = parseToolName(this.normalizeToolName(b.name));
+    if (!parsedA || !parsedB) return true;
+    if (parsedA.prefix !== parsedB.prefix || parsedA.domain !== parsedB.domain) return false;
+    return !READ_ONLY_METHOD.test(parsedA.method) || !READ_ONLY_METHOD.test(parsedB.method);
+  }
+
+  /**
+   * Execute one call of the loop, record it in the trace and report progress
+   */
+  private async executeLoopCall(
+    call: ChatToolCall,
+    iteration: number,
+    trace: ToolTrace,
+    context: ToolExecutionContext,
+    onStep?: (event: AgentStepEvent) => void
+  ): Promise<string> {
+    const tool = this.normalizeToolName(call.name);
+    onStep?.({ type: 'tool_start', iteration, tool, callId: call.id });
+
+    // Tools that cannot be interrupted keep running - their result is discarded
+    const { result, policy, duration } = await abortable(this.execute(tool, call.arguments, context), context.signal);
+    addTraceStep(trace, tool, call.arguments, { ...result }, policy, duration, { iteration, callId: call.id });
+
+    const text = this.formatResultForLLM(result);
+    onStep?.({
+      type: 'tool_result',
+      iteration,
+      tool,
+      callId: call.id,
+      success: result.success,
+      summary: text.length > STEP_SUMMARY_LENGTH ? `${text.substring(0, STEP_SUMMARY_LENGTH)}…` : text,
+      duration
+    });
+
+    return text;
+  }
+
   /**
    * Check if max iterations reached (for chat mode)
    */
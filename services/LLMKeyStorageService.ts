@@ -2,7 +2,9 @@
  * LLM Key Storage Service (AI Functionality)
  *
  * Extracted from OneCoreHandler - AI-specific secure storage.
- * Provides secure storage and retrieval for LLM API keys using LLM objects.
+ * Provides secure storage and retrieval for LLM API keys. With an ApiKeyVault,
+ * '<provider>_api_key' keys are the provider's default vault key; without
+ * one, only 'claude_api_key' is supported (stored in LLM objects).
  */
 
 import type ChannelManager from '@refinio/one.models/lib/models/ChannelManager.js';
@@ -10,6 +12,18 @@ import type LeuteModel from '@refinio/one.models/lib/models/Leute/LeuteModel.js'
 import { storeUnversionedObject } from '@refinio/one.core/lib/storage-unversioned-objects.js';
 import type { HashGroup, Person } from '@refinio/one.core/lib/recipes.js';
 import type { SHA256Hash } from '@refinio/one.core/lib/util/type-checks.js';
+import type { ApiKeyVault } from './api-key-vault.js';
+
+/**
+ * Vault provider of a storage key ('claude_api_key' → 'anthropic', 'openai_api_key' → 'openai')
+ */
+function toVaultProvider(key: string): string | undefined {
+  const match = /^(.+)_api_key$/.exec(key);
+  if (!match) {
+    return undefined;
+  }
+  return match[1] === 'claude' ? 'anthropic' : match[1];
+}
 
 /**
  * LLMKeyStorageService - Secure storage for LLM API keys
@@ -17,10 +31,12 @@ import type { SHA256Hash } from '@refinio/one.core/lib/util/type-checks.js';
 export class LLMKeyStorageService {
   private channelManager: ChannelManager;
   private leuteModel: LeuteModel;
+  private keyVault?: ApiKeyVault;
 
-  constructor(channelManager: ChannelManager, leuteModel: LeuteModel) {
+  constructor(channelManager: ChannelManager, leuteModel: LeuteModel, keyVault?: ApiKeyVault) {
     this.channelManager = channelManager;
     this.leuteModel = leuteModel;
+    this.keyVault = keyVault;
   }
 
   /**
@@ -55,6 +71,15 @@ export class LLMKeyStorageService {
     console.log(`[LLMKeyStorageService] Secure store: ${key}`);
 
     try {
+      const provider = toVaultProvider(key);
+      if (this.keyVault && provider) {
+        const stored = await this.keyVault.setProviderKey(provider, value);
+        return {
+          success: true,
+          data: { stored: true, keyId: stored.keyId }
+        };
+      }
+
       if (key === 'claude_api_key') {
         if (!llmConfigHandler) {
           throw new Error('LLM config handler not provided');
@@ -109,6 +134,15 @@ export class LLMKeyStorageService {
     console.log(`[LLMKeyStorageService] Secure retrieve: ${key}`);
 
     try {
+      const provider = toVaultProvider(key);
+      if (this.keyVault && provider) {
+        const apiKey = await this.keyVault.getApiKey(provider);
+        if (!apiKey) {
+          throw new Error('API key not found');
+        }
+        return { success: true, value: apiKey };
+      }
+
       if (key === 'claude_api_key') {
         if (!decryptToken) {
           throw new Error('Decrypt token function not provided');
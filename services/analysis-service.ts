@@ -3,6 +3,8 @@
  * Provides reusable analysis across chat, memories, files, and other data
  */
 
+import { extractJson } from './structured-output.js';
+
 export interface AnalysisContent {
   type: 'chat' | 'memory' | 'file' | 'custom';
   messages?: Array<{ role: string; content: string }>;  // For chat
@@ -98,16 +100,17 @@ export class LLMAnalysisService implements AnalysisService {
 
         const analysisJson = await this.llmManager.chat(prompt, modelId, {
           format: LLM_RESPONSE_SCHEMA,
+          requestClass: 'analysis',
           temperature: context?.temperature ?? 0,
           disableTools: context?.disableTools ?? true
         }) as string;
 
-        // Parse structured response
-        let cleanJson = analysisJson.trim();
-        if (cleanJson.startsWith('```')) {
-          cleanJson = cleanJson.replace(/^```(?:json)?\n?/, '').replace(/\n?```$/, '');
+        // Parse structured response (tolerates code fences and prose around the JSON)
+        const extracted = extractJson(analysisJson);
+        if (!extracted) {
+          throw new Error(`Model ${modelId} returned no parseable JSON`);
         }
-        const parsed = JSON.parse(cleanJson);
+        const parsed = extracted.value as any;
 
         // DEBUG: Log what the LLM actually returned
         console.log('[AnalysisService] 🔍 LLM returned:', JSON.stringify(parsed).substring(0, 500));
@@ -383,8 +386,8 @@ Keep your "response" field under 2000 characters for reliability.`;
         return false;
       }
 
-      // Skip models that failed structured output test
-      if (m.structuredOutputTested === false) {
+      // Skip models whose measured structured output reliability is too low
+      if (m.structuredOutputTested === false || this.llmManager.getStructuredOutputTested?.(m.id) === false) {
         return false;
       }
 
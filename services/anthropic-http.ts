@@ -4,11 +4,23 @@
  *
  * CORS Support: Anthropic enables CORS with 'anthropic-dangerous-direct-browser-access' header
  * See: https://simonwillison.net/2024/Aug/23/anthropic-dangerous-direct-browser-access/
+ *
+ * Requests go through the shared ProviderRateLimiter (per API key): 429/529
+ * responses are queued and retried, the ratelimit headers teach the limits.
  */
 
+import type { LLMRequestClass } from '../models/ai/types.js';
+import {
+  createRateLimitError,
+  estimateRequestTokens,
+  fetchWithRateLimit,
+  getProviderRateLimiter,
+  isRateLimitStatus
+} from './provider-rate-limiter.js';
+
 export interface AnthropicMessage {
   role: 'user' | 'assistant';
-  content: string;
+  content: string | any[]; // Content blocks for tool_use / tool_result
 }
 
 export interface AnthropicChatOptions {
@@ -23,15 +35,50 @@ export interface AnthropicChatOptions {
   max_tokens?: number;
   temperature?: number;
   tools?: any[];
+  tool_choice?: { type: 'auto' | 'none' | 'any' };
   onStream?: (chunk: string) => void;
   signal?: AbortSignal;
   proxyUrl?: string; // Optional proxy (not needed with CORS header)
+  requestClass?: LLMRequestClass; // Rate limiter queue priority (default: interactive)
+}
+
+/**
+ * Tool call from a tool_use content block
+ */
+export interface AnthropicToolUse {
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+/**
+ * Full response: text plus tool_use blocks, stop reason and usage
+ */
+export interface AnthropicChatResponse {
+  content: string;
+  toolUses: AnthropicToolUse[];
+  stop_reason?: string;
+  usage?: {
+    input_tokens: number;
+    output_tokens: number;
+    cache_creation_input_tokens?: number;
+    cache_read_input_tokens?: number;
+  };
 }
 
 /**
  * Chat with Anthropic API using fetch() - works in browser and Node.js
+ * Returns the text content only. Use chatWithAnthropicHTTPDetailed for tool calls.
  */
 export async function chatWithAnthropicHTTP(options: AnthropicChatOptions): Promise<string> {
+  const response = await chatWithAnthropicHTTPDetailed(options);
+  return response.content;
+}
+
+/**
+ * Chat with Anthropic API and return text, tool_use blocks and usage
+ */
+export async function chatWithAnthropicHTTPDetailed(options: AnthropicChatOptions): Promise<AnthropicChatResponse> {
   const {
     apiKey,
     model,
@@ -40,6 +87,7 @@ export async function chatWithAnthropicHTTP(options: AnthropicChatOptions): Prom
     max_tokens = 4096,
     temperature = 0.7,
     tools,
+    tool_choice,
     onStream,
     signal
   } = options;
@@ -57,6 +105,9 @@ export async function chatWithAnthropicHTTP(options: AnthropicChatOptions): Prom
 
   if (tools && tools.length > 0) {
     requestBody.tools = tools;
+    if (tool_choice) {
+      requestBody.tool_choice = tool_choice;
+    }
   }
 
   // Streaming vs non-streaming
@@ -69,31 +120,53 @@ export async function chatWithAnthropicHTTP(options: AnthropicChatOptions): Prom
     ? `${options.proxyUrl}/https://api.anthropic.com/v1/messages`
     : 'https://api.anthropic.com/v1/messages';
 
-  const response = await fetch(apiUrl, {
-    method: 'POST',
-    headers: {
-      'x-api-key': apiKey,
-      'anthropic-version': '2023-06-01',
-      'content-type': 'application/json',
-      'anthropic-dangerous-direct-browser-access': 'true' // Enable CORS support
-    },
-    body: JSON.stringify(requestBody),
-    signal
-  });
+  const body = JSON.stringify(requestBody);
+  const { response, ticket } = await fetchWithRateLimit(
+    'anthropic',
+    apiKey,
+    { estimatedTokens: estimateRequestTokens(body, max_tokens), requestClass: options.requestClass, signal },
+    () => fetch(apiUrl, {
+      method: 'POST',
+      headers: {
+        'x-api-key': apiKey,
+        'anthropic-version': '2023-06-01',
+        'content-type': 'application/json',
+        'anthropic-dangerous-direct-browser-access': 'true' // Enable CORS support
+      },
+      body,
+      signal
+    })
+  );
 
   if (!response.ok) {
     const errorText = await response.text();
-    throw new Error(`Anthropic API error (${response.status}): ${errorText}`);
+    const message = `Anthropic API error (${response.status}): ${errorText}`;
+    throw isRateLimitStatus(response.status) ? createRateLimitError(message, response.status, response.headers) : new Error(message);
   }
 
+  // Correct the rate limiter's token estimate with the reported usage
+  const settle = (usage: AnthropicChatResponse['usage']) => getProviderRateLimiter().complete(
+    ticket,
+    usage ? usage.input_tokens + (usage.cache_creation_input_tokens ?? 0) + usage.output_tokens : undefined
+  );
+
   // Non-streaming response
   if (!onStream) {
     const data = await response.json();
 
-    // Extract text content from content blocks
+    // Extract text and tool_use blocks
     if (data.content && Array.isArray(data.content)) {
       const textBlocks = data.content.filter((block: any) => block.type === 'text');
-      return textBlocks.map((block: any) => block.text).join('');
+      const toolUses = data.content
+        .filter((block: any) => block.type === 'tool_use')
+        .map((block: any) => ({ id: block.id, name: block.name, input: block.input || {} }));
+      settle(data.usage);
+      return {
+        content: textBlocks.map((block: any) => block.text).join(''),
+        toolUses,
+        stop_reason: data.stop_reason,
+        usage: data.usage
+      };
     }
 
     throw new Error('Unexpected response format from Anthropic API');
@@ -108,6 +181,10 @@ export async function chatWithAnthropicHTTP(options: AnthropicChatOptions): Prom
   const decoder = new TextDecoder();
   let buffer = '';
   let fullResponse = '';
+  let stopReason: string | undefined;
+  const usage = { input_tokens: 0, output_tokens: 0, cache_creation_input_tokens: 0, cache_read_input_tokens: 0 };
+  // Tool input arrives as partial JSON, keyed by content block index
+  const toolBlocks = new Map<number, { id: string; name: string; json: string }>();
 
   try {
     while (true) {
@@ -136,6 +213,18 @@ export async function chatWithAnthropicHTTP(options: AnthropicChatOptions): Prom
             const chunk = event.delta.text;
             fullResponse += chunk;
             onStream(chunk);
+          } else if (event.type === 'content_block_start' && event.content_block?.type === 'tool_use') {
+            toolBlocks.set(event.index, { id: event.content_block.id, name: event.content_block.name, json: '' });
+          } else if (event.type === 'content_block_delta' && event.delta?.type === 'input_json_delta') {
+            const block = toolBlocks.get(event.index);
+            if (block) block.json += event.delta.partial_json || '';
+          } else if (event.type === 'message_start' && event.message?.usage) {
+            usage.input_tokens = event.message.usage.input_tokens || 0;
+            usage.cache_creation_input_tokens = event.message.usage.cache_creation_input_tokens || 0;
+            usage.cache_read_input_tokens = event.message.usage.cache_read_input_tokens || 0;
+          } else if (event.type === 'message_delta') {
+            stopReason = event.delta?.stop_reason ?? stopReason;
+            usage.output_tokens = event.usage?.output_tokens ?? usage.output_tokens;
           }
         } catch (e) {
           // Ignore JSON parse errors for incomplete chunks
@@ -144,7 +233,24 @@ export async function chatWithAnthropicHTTP(options: AnthropicChatOptions): Prom
       }
     }
 
-    return fullResponse;
+    const toolUses: AnthropicToolUse[] = [];
+    for (const block of toolBlocks.values()) {
+      let input: Record<string, unknown> = {};
+      try {
+        input = block.json ? JSON.parse(block.json) : {};
+      } catch {
+        console.warn('[AnthropicHTTP] Failed to parse tool input for', block.name);
+      }
+      toolUses.push({ id: block.id, name: block.name, input });
+    }
+
+    settle(usage);
+    return {
+      content: fullResponse,
+      toolUses,
+      stop_reason: stopReason,
+      usage
+    };
   } finally {
     reader.releaseLock();
   }
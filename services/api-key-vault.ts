@@ -0,0 +1,375 @@
+/**
+ * API Key Vault
+ *
+ * Provider API keys of the owner in one LLMKeyVault object. Key values are
+ * encrypted with the owner's ONE.core encryption keys (injected as
+ * ApiKeyVaultCrypto) and only decrypted when a request needs them - listings
+ * carry a hint (last characters), never the key.
+ *
+ * A provider can have several named keys (personal, team). Requests use the
+ * key assigned to their AI, otherwise the provider's default key. Rotation
+ * replaces a key's value in place (assignments stay), revocation leaves the
+ * encrypted value and all assignments out of the new vault version but keeps
+ * the entry for the record.
+ *
+ * Keys still stored in UserSettings are imported once per provider
+ * (importLegacyKey) - after that the vault is the only key store.
+ */
+
+import type { SHA256IdHash } from '@refinio/one.core/lib/util/type-checks.js';
+import type { LLMKeyAssignment, LLMKeyVault, LLMVaultKey } from '../@OneObjectInterfaces.js';
+import { OEvent } from '@refinio/one.models/lib/misc/OEvent.js';
+import { createMessageBus } from '@refinio/one.core/lib/message-bus.js';
+
+const MessageBus = createMessageBus('ApiKeyVault');
+
+/** Characters of the key shown in listings */
+const HINT_LENGTH = 4;
+
+export interface ApiKeyVaultStorage {
+  storeVersionedObject: (obj: any) => Promise<any>;
+  getObjectByIdHash: (idHash: SHA256IdHash<any>) => Promise<any>;
+  calculateIdHashOfObj: (obj: any) => Promise<SHA256IdHash<any>>;
+}
+
+/**
+ * Encryption with the owner's keys (e.g. ONE.core CryptoApi encryptAndEmbedNonce
+ * / decryptWithEmbeddedNonce with the owner's own public encryption key)
+ */
+export interface ApiKeyVaultCrypto {
+  encrypt: (data: Uint8Array) => Uint8Array | Promise<Uint8Array>;
+  decrypt: (data: Uint8Array) => Uint8Array | Promise<Uint8Array>;
+}
+
+export type ApiKeyScope = LLMVaultKey['scope'];
+
+/**
+ * A vault key as shown to callers - without its value
+ */
+export interface ApiKeyInfo extends Omit<LLMVaultKey, 'encryptedKey'> {
+  status: 'active' | 'revoked';
+  assignedAIs: string[];
+}
+
+export interface AddApiKeyParams {
+  provider: string;
+  label: string;
+  apiKey: string;
+  scope?: ApiKeyScope;
+  /** Default: only if the provider has no active default key yet */
+  setAsDefault?: boolean;
+}
+
+export class ApiKeyVault {
+  private vault?: LLMKeyVault;
+  private loading?: Promise<LLMKeyVault>;
+  private writing: Promise<unknown> = Promise.resolve();
+
+  /** Keys of a provider were added, rotated, revoked or reassigned */
+  public onKeysChanged = new OEvent<(provider: string) => void>();
+
+  constructor(
+    private storage: ApiKeyVaultStorage,
+    private crypto: ApiKeyVaultCrypto,
+    private ownerId: string
+  ) {}
+
+  /**
+   * Keys of all providers or one provider, active before revoked
+   */
+  async listKeys(provider?: string): Promise<ApiKeyInfo[]> {
+    const vault = await this.load();
+    return vault.keys
+      .filter(key => !provider || key.provider === provider)
+      .map(key => toInfo(key, vault.assignments))
+      .sort((a, b) => Number(a.status === 'revoked') - Number(b.status === 'revoked') || a.created - b.created);
+  }
+
+  /**
+   * Whether a provider has an active key (default or assigned to the AI)
+   */
+  async hasKey(provider: string, aiId?: string): Promise<boolean> {
+    return !!this.findKey(await this.load(), provider, aiId);
+  }
+
+  /**
+   * Decrypted key for a request: the AI's assigned key, else the provider's default
+   */
+  async getApiKey(provider: string, aiId?: string): Promise<string | undefined> {
+    const key = this.findKey(await this.load(), provider, aiId);
+    if (!key?.encryptedKey) {
+      return undefined;
+    }
+    const decrypted = await this.crypto.decrypt(fromBase64(key.encryptedKey));
+    return new TextDecoder().decode(decrypted);
+  }
+
+  async addKey(params: AddApiKeyParams): Promise<ApiKeyInfo> {
+    const apiKey = params.apiKey.trim();
+    const label = params.label.trim();
+    if (!apiKey) {
+      throw new Error('API key is empty');
+    }
+    if (!label) {
+      throw new Error('Key label is required');
+    }
+
+    return await this.update(async vault => {
+      const active = vault.keys.filter(key => key.provider === params.provider && !key.revoked);
+      if (active.some(key => key.label === label)) {
+        throw new Error(`${params.provider} already has a key named "${label}"`);
+      }
+
+      const setAsDefault = params.setAsDefault ?? !active.some(key => key.isDefault);
+      const key: LLMVaultKey = {
+        keyId: `key-${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 9)}`,
+        provider: params.provider,
+        label,
+        scope: params.scope ?? 'personal',
+        encryptedKey: await this.encrypt(apiKey),
+        hint: toHint(apiKey),
+        isDefault: setAsDefault,
+        created: Date.now()
+      };
+
+      const keys = setAsDefault
+        ? vault.keys.map(other => other.provider === params.provider ? { ...other, isDefault: false } : other)
+        : vault.keys;
+      MessageBus.send('log', `Added ${params.provider} key "${label}" (…${key.hint})`);
+      return { vault: { ...vault, keys: [...keys, key] }, provider: params.provider, result: toInfo(key, vault.assignments) };
+    });
+  }
+
+  /**
+   * Replace the value of a key - its default flag and AI assignments stay
+   */
+  async rotateKey(keyId: string, apiKey: string): Promise<ApiKeyInfo> {
+    const value = apiKey.trim();
+    if (!value) {
+      throw new Error('API key is empty');
+    }
+
+    return await this.update(async vault => {
+      const key = getActiveKey(vault, keyId);
+      const rotated: LLMVaultKey = { ...key, encryptedKey: await this.encrypt(value), hint: toHint(value), rotated: Date.now() };
+      MessageBus.send('log', `Rotated ${key.provider} key "${key.label}" (…${rotated.hint})`);
+      return {
+        vault: { ...vault, keys: vault.keys.map(other => other.keyId === keyId ? rotated : other) },
+        provider: key.provider,
+        result: toInfo(rotated, vault.assignments)
+      };
+    });
+  }
+
+  /**
+   * Stop using a key: the new vault version has no value and no assignments
+   * for it - the oldest remaining active key of the provider becomes default
+   * if the revoked key was. Earlier vault versions still hold the encrypted
+   * value, so a leaked key must also be rotated or deleted at the provider.
+   */
+  async revokeKey(keyId: string): Promise<void> {
+    await this.update(async vault => {
+      const key = getActiveKey(vault, keyId);
+      const { encryptedKey: _dropped, ...rest } = key;
+      const revoked: LLMVaultKey = { ...rest, isDefault: false, revoked: Date.now() };
+
+      let keys = vault.keys.map(other => other.keyId === keyId ? revoked : other);
+      if (key.isDefault) {
+        const next = keys.find(other => other.provider === key.provider && !other.revoked);
+        if (next) {
+          keys = keys.map(other => other.keyId === next.keyId ? { ...other, isDefault: true } : other);
+          MessageBus.send('log', `${key.provider} default key is now "${next.label}"`);
+        }
+      }
+
+      MessageBus.send('log', `Revoked ${key.provider} key "${key.label}" (…${key.hint})`);
+      return {
+        vault: { ...vault, keys, assignments: vault.assignments.filter(assignment => assignment.keyId !== keyId) },
+        provider: key.provider,
+        result: undefined
+      };
+    });
+  }
+
+  async setDefaultKey(keyId: string): Promise<void> {
+    await this.update(async vault => {
+      const key = getActiveKey(vault, keyId);
+      return {
+        vault: {
+          ...vault,
+          keys: vault.keys.map(other => other.provider === key.provider ? { ...other, isDefault: other.keyId === keyId } : other)
+        },
+        provider: key.provider,
+        result: undefined
+      };
+    });
+  }
+
+  /**
+   * Use a specific key for an AI's requests to a provider (null: back to the default)
+   */
+  async assignKey(aiId: string, provider: string, keyId: string | null): Promise<void> {
+    await this.update(async vault => {
+      if (keyId !== null && getActiveKey(vault, keyId).provider !== provider) {
+        throw new Error(`Key ${keyId} is not a ${provider} key`);
+      }
+      const assignments = vault.assignments.filter(assignment => !(assignment.aiId === aiId && assignment.provider === provider));
+      if (keyId !== null) {
+        assignments.push({ aiId, provider, keyId });
+      }
+      return { vault: { ...vault, assignments }, provider, result: undefined };
+    });
+  }
+
+  async getAssignments(aiId?: string): Promise<LLMKeyAssignment[]> {
+    const vault = await this.load();
+    return vault.assignments.filter(assignment => !aiId || assignment.aiId === aiId);
+  }
+
+  /**
+   * Single-key setters (setApiKey, setConfig): rotate the provider's default
+   * key, or add one named 'Default'
+   */
+  async setProviderKey(provider: string, apiKey: string): Promise<ApiKeyInfo> {
+    const current = (await this.load()).keys.find(key => key.provider === provider && key.isDefault && !key.revoked);
+    return current
+      ? await this.rotateKey(current.keyId, apiKey)
+      : await this.addKey({ provider, label: await this.freeLabel(provider, 'Default'), apiKey, setAsDefault: true });
+  }
+
+  /**
+   * Import a key from UserSettings as the provider's default key
+   * Only providers the vault has never seen a key for (active or revoked) -
+   * a revoked key must not come back from the old store. Returns whether it
+   * was imported.
+   */
+  async importLegacyKey(provider: string, apiKey: string): Promise<boolean> {
+    const value = apiKey.trim();
+    if (!value || (await this.load()).keys.some(key => key.provider === provider)) {
+      return false;
+    }
+
+    return await this.update(async vault => {
+      if (vault.keys.some(key => key.provider === provider)) {
+        return { vault, provider, result: false };
+      }
+
+      const key: LLMVaultKey = {
+        keyId: `key-${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 9)}`,
+        provider,
+        label: 'Imported',
+        scope: 'personal',
+        encryptedKey: await this.encrypt(value),
+        hint: toHint(value),
+        isDefault: true,
+        created: Date.now()
+      };
+      MessageBus.send('log', `Imported ${provider} key from UserSettings (…${key.hint})`);
+      return { vault: { ...vault, keys: [...vault.keys, key] }, provider, result: true };
+    });
+  }
+
+  private findKey(vault: LLMKeyVault, provider: string, aiId?: string): LLMVaultKey | undefined {
+    const assignment = aiId
+      ? vault.assignments.find(candidate => candidate.aiId === aiId && candidate.provider === provider)
+      : undefined;
+    const assigned = assignment && vault.keys.find(key => key.keyId === assignment.keyId && !key.revoked);
+    return assigned || vault.keys.find(key => key.provider === provider && key.isDefault && !key.revoked);
+  }
+
+  private async freeLabel(provider: string, label: string): Promise<string> {
+    const taken = new Set((await this.load()).keys.filter(key => key.provider === provider && !key.revoked).map(key => key.label));
+    let candidate = label;
+    for (let n = 2; taken.has(candidate); n++) {
+      candidate = `${label} ${n}`;
+    }
+    return candidate;
+  }
+
+  private async encrypt(apiKey: string): Promise<string> {
+    return toBase64(await this.crypto.encrypt(new TextEncoder().encode(apiKey)));
+  }
+
+  /**
+   * Apply a change and store the vault - changes run one at a time
+   * A change that returns the vault unchanged stores nothing.
+   */
+  private async update<T>(
+    change: (vault: LLMKeyVault) => Promise<{ vault: LLMKeyVault; provider: string; result: T }>
+  ): Promise<T> {
+    const run = this.writing.then(async () => {
+      const current = await this.load();
+      const { vault, provider, result } = await change(current);
+      if (vault === current) {
+        return result;
+      }
+      const updated: LLMKeyVault = { ...vault, modified: Date.now() };
+      await this.storage.storeVersionedObject(updated);
+      this.vault = updated;
+      this.onKeysChanged.emit(provider);
+      return result;
+    });
+    this.writing = run.catch(() => undefined);
+    return await run;
+  }
+
+  private async load(): Promise<LLMKeyVault> {
+    if (this.vault) {
+      return this.vault;
+    }
+    if (!this.loading) {
+      this.loading = this.read().finally(() => { this.loading = undefined; });
+    }
+    return await this.loading;
+  }
+
+  private async read(): Promise<LLMKeyVault> {
+    const idHash = await this.storage.calculateIdHashOfObj({ $type$: 'LLMKeyVault' as const, owner: this.ownerId });
+    try {
+      const result = await this.storage.getObjectByIdHash(idHash);
+      this.vault = result.obj as LLMKeyVault;
+    } catch (error: any) {
+      if (!(error.message?.includes('not found') || error.code === 'NOT_FOUND')) {
+        throw error;
+      }
+      this.vault = { $type$: 'LLMKeyVault', owner: this.ownerId, keys: [], assignments: [], modified: Date.now() };
+    }
+    return this.vault;
+  }
+}
+
+function getActiveKey(vault: LLMKeyVault, keyId: string): LLMVaultKey {
+  const key = vault.keys.find(candidate => candidate.keyId === keyId);
+  if (!key) {
+    throw new Error(`API key ${keyId} not found`);
+  }
+  if (key.revoked) {
+    throw new Error(`API key "${key.label}" was revoked`);
+  }
+  return key;
+}
+
+function toInfo(key: LLMVaultKey, assignments: LLMKeyAssignment[]): ApiKeyInfo {
+  const { encryptedKey: _value, ...info } = key;
+  return {
+    ...info,
+    status: key.revoked ? 'revoked' : 'active',
+    assignedAIs: assignments.filter(assignment => assignment.keyId === key.keyId).map(assignment => assignment.aiId)
+  };
+}
+
+function toHint(apiKey: string): string {
+  return apiKey.length > HINT_LENGTH * 3 ? apiKey.slice(-HINT_LENGTH) : '';
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), char => char.charCodeAt(0));
+}
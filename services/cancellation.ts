@@ -0,0 +1,80 @@
+/**
+ * Cancellation helpers
+ *
+ * Every stage of the chat pipeline takes an optional AbortSignal:
+ * concurrency queue → adapter HTTP call → tool loop → tool executions.
+ * Cancelled stages throw an Error named 'AbortError', which
+ * isCancellationError() recognises so it is never retried or failed over.
+ */
+
+export function createAbortError(message: string = 'Request was cancelled'): Error {
+  const error = new Error(message);
+  error.name = 'AbortError';
+  return error;
+}
+
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+}
+
+/**
+ * Settle with the promise, or reject as soon as the signal aborts
+ * For work that cannot be stopped itself (platform inference, MCP calls) -
+ * the caller stops waiting, the result is discarded.
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    promise.catch(() => {});
+    return Promise.reject(createAbortError());
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(createAbortError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Sleep that ends early (rejecting) when the signal aborts
+ */
+export function abortableSleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return abortable(new Promise<void>(resolve => setTimeout(resolve, ms)), signal);
+}
+
+/**
+ * Controller that aborts when any of the given signals aborts
+ * dispose() detaches the listeners once the linked work is done.
+ */
+export function linkAbortSignals(...signals: Array<AbortSignal | undefined>): { controller: AbortController; dispose: () => void } {
+  const controller = new AbortController();
+  const sources = signals.filter((signal): signal is AbortSignal => !!signal);
+  const onAbort = () => controller.abort();
+
+  for (const signal of sources) {
+    if (signal.aborted) {
+      controller.abort();
+      break;
+    }
+    signal.addEventListener('abort', onAbort, { once: true });
+  }
+
+  return {
+    controller,
+    dispose: () => sources.forEach(signal => signal.removeEventListener('abort', onAbort))
+  };
+}
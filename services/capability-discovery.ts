@@ -0,0 +1,331 @@
+/**
+ * Capability Discovery
+ *
+ * Asks the backend what a model can do instead of guessing from its name:
+ * - Ollama: POST /api/show - capabilities (tools, vision, thinking, embedding),
+ *   model_info context length, chat template, family/size/quantization
+ * - Anthropic: GET /v1/models - the models the key can use, with limits
+ *   where the listing reports them
+ * - OpenAI-compatible: GET /v1/models - vLLM, LM Studio and llama.cpp report
+ *   the served context length and model type
+ * - On-device: GGUF header metadata (context length, chat template, projector)
+ *
+ * Results are stored as LLM.discoveredCapabilities. resolveLLMCapabilities()
+ * (capability-resolver.ts) prefers them over the static KNOWN_CAPABILITIES table.
+ */
+
+import type { LLMDiscoveredCapabilities } from '../@OneObjectInterfaces.js';
+
+type Discovered = Omit<LLMDiscoveredCapabilities, 'source' | 'discoveredAt'>;
+
+/**
+ * Relevant part of an Ollama /api/show response
+ */
+export interface OllamaShowResponse {
+  template?: string;
+  parameters?: string;
+  capabilities?: string[];
+  details?: {
+    family?: string;
+    families?: string[];
+    parameter_size?: string;
+    quantization_level?: string;
+  };
+  model_info?: Record<string, unknown>;
+  projector_info?: Record<string, unknown>;
+}
+
+/**
+ * Entry of the Anthropic model listing - limit fields are read when present
+ */
+export interface AnthropicModelInfo {
+  id: string;
+  display_name?: string;
+  created_at?: string;
+  [field: string]: unknown;
+}
+
+export interface GGUFMetadata {
+  version: number;
+  tensorCount: number;
+  metadata: Record<string, unknown>;
+  /** The header did not fit into the buffer - metadata holds the keys before the cut */
+  truncated: boolean;
+}
+
+/**
+ * Metadata of an Ollama model (POST /api/show)
+ */
+export async function showOllamaModel(
+  baseUrl: string,
+  model: string,
+  options: { headers?: Record<string, string>; signal?: AbortSignal } = {}
+): Promise<OllamaShowResponse> {
+  const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/api/show`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(options.headers || {}) },
+    body: JSON.stringify({ model }),
+    signal: options.signal
+  });
+
+  if (!response.ok) {
+    throw new Error(`Ollama /api/show failed for ${model} (${response.status}): ${response.statusText}`);
+  }
+  return await response.json() as OllamaShowResponse;
+}
+
+/**
+ * Capabilities from /api/show
+ * Ollama before 0.6 has no `capabilities` list - tools and thinking are then read from the template.
+ */
+export function capabilitiesFromOllamaShow(show: OllamaShowResponse): LLMDiscoveredCapabilities {
+  const info = show.model_info ?? {};
+  const architecture = typeof info['general.architecture'] === 'string' ? info['general.architecture'] : undefined;
+  const template = show.template || undefined;
+  const listed = show.capabilities;
+
+  const discovered: Discovered = {
+    contextWindow: numberOrUndefined(architecture ? info[`${architecture}.context_length`] : undefined),
+    supportsVision: listed
+      ? listed.includes('vision')
+      : !!show.projector_info || Object.keys(info).some(key => key.includes('.vision.')),
+    supportsTools: listed ? listed.includes('tools') : template?.includes('.Tools'),
+    supportsThinking: listed ? listed.includes('thinking') : template?.includes('.Think'),
+    supportsEmbedding: listed ? listed.includes('embedding') && !listed.includes('completion') : undefined,
+    template,
+    family: show.details?.family || architecture,
+    parameterSize: show.details?.parameter_size,
+    quantization: show.details?.quantization_level
+  };
+
+  return withSource(discovered, 'ollama');
+}
+
+/**
+ * Models available to an Anthropic API key (GET /v1/models, all pages)
+ */
+export async function listAnthropicModels(apiKey: string, options: { signal?: AbortSignal } = {}): Promise<AnthropicModelInfo[]> {
+  const models: AnthropicModelInfo[] = [];
+  let afterId: string | undefined;
+
+  do {
+    const url = `https://api.anthropic.com/v1/models?limit=100${afterId ? `&after_id=${encodeURIComponent(afterId)}` : ''}`;
+    const response = await fetch(url, {
+      method: 'GET',
+      headers: {
+        'x-api-key': apiKey,
+        'anthropic-version': '2023-06-01',
+        'anthropic-dangerous-direct-browser-access': 'true' // Enable CORS support
+      },
+      signal: options.signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`Anthropic model listing failed (${response.status}): ${response.statusText}`);
+    }
+
+    const page = await response.json() as { data?: AnthropicModelInfo[]; has_more?: boolean; last_id?: string };
+    models.push(...(Array.isArray(page.data) ? page.data : []));
+    afterId = page.has_more && page.last_id ? page.last_id : undefined;
+  } while (afterId);
+
+  return models;
+}
+
+/**
+ * Capabilities from an Anthropic listing entry
+ * Claude 3 and later all take images and tools; limits and thinking support
+ * are only set when the listing reports them.
+ */
+export function capabilitiesFromAnthropicModel(model: AnthropicModelInfo): LLMDiscoveredCapabilities {
+  const capabilities = (model.capabilities ?? {}) as Record<string, unknown>;
+
+  const discovered: Discovered = {
+    contextWindow: numberOrUndefined(model.max_input_tokens ?? model.context_window),
+    maxOutputTokens: numberOrUndefined(model.max_tokens ?? model.max_output_tokens),
+    supportsVision: flag(capabilities.image_input ?? capabilities.vision) ?? true,
+    supportsTools: flag(capabilities.tool_use ?? capabilities.tools) ?? true,
+    supportsThinking: flag(capabilities.thinking ?? capabilities.extended_thinking),
+    family: model.display_name
+  };
+
+  return withSource(discovered, 'anthropic');
+}
+
+/**
+ * Capabilities from an OpenAI-compatible /v1/models entry
+ * OpenAI itself lists IDs only; vLLM reports max_model_len, LM Studio
+ * max_context_length and the model type. Returns null when the entry says nothing.
+ */
+export function capabilitiesFromOpenAIModel(model: { id: string; [field: string]: unknown }): LLMDiscoveredCapabilities | null {
+  const type = typeof model.type === 'string' ? model.type : undefined;
+
+  const discovered: Discovered = {
+    contextWindow: numberOrUndefined(model.max_model_len ?? model.max_context_length ?? model.context_length ?? model.context_window),
+    supportsVision: type ? type === 'vlm' : undefined,
+    supportsEmbedding: type ? type === 'embeddings' : undefined,
+    family: typeof model.arch === 'string' ? model.arch : undefined,
+    quantization: typeof model.quantization === 'string' ? model.quantization : undefined
+  };
+
+  return Object.values(discovered).some(value => value !== undefined) ? withSource(discovered, 'openai') : null;
+}
+
+const GGUF_MAGIC = 0x46554747; // 'GGUF' little-endian
+
+// Arrays longer than this (vocabularies, merges) are skipped, not kept
+const GGUF_MAX_KEPT_ARRAY = 64;
+
+/**
+ * Parse the key/value metadata of a GGUF file header (version 2 and 3)
+ * The buffer may hold just the beginning of the file: parsing stops at the
+ * cut and returns the keys read so far.
+ */
+export function parseGGUFMetadata(buffer: ArrayBuffer): GGUFMetadata {
+  const view = new DataView(buffer);
+  const decoder = new TextDecoder();
+  let offset = 0;
+
+  const need = (bytes: number) => {
+    if (offset + bytes > view.byteLength) {
+      throw new RangeError('GGUF header truncated');
+    }
+  };
+  const u32 = () => { need(4); const value = view.getUint32(offset, true); offset += 4; return value; };
+  const u64 = () => { need(8); const value = Number(view.getBigUint64(offset, true)); offset += 8; return value; };
+  const string = () => {
+    const length = u64();
+    need(length);
+    const value = decoder.decode(new Uint8Array(buffer, offset, length));
+    offset += length;
+    return value;
+  };
+
+  const readValue = (type: number): unknown => {
+    switch (type) {
+      case 0: need(1); return view.getUint8(offset++);
+      case 1: need(1); return view.getInt8(offset++);
+      case 2: { need(2); const value = view.getUint16(offset, true); offset += 2; return value; }
+      case 3: { need(2); const value = view.getInt16(offset, true); offset += 2; return value; }
+      case 4: return u32();
+      case 5: { need(4); const value = view.getInt32(offset, true); offset += 4; return value; }
+      case 6: { need(4); const value = view.getFloat32(offset, true); offset += 4; return value; }
+      case 7: need(1); return view.getUint8(offset++) !== 0;
+      case 8: return string();
+      case 9: {
+        const itemType = u32();
+        const length = u64();
+        const items: unknown[] = [];
+        for (let i = 0; i < length; i++) {
+          const item = readValue(itemType);
+          if (length <= GGUF_MAX_KEPT_ARRAY) {
+            items.push(item);
+          }
+        }
+        return length <= GGUF_MAX_KEPT_ARRAY ? items : { length };
+      }
+      case 10: return u64();
+      case 11: { need(8); const value = Number(view.getBigInt64(offset, true)); offset += 8; return value; }
+      case 12: { need(8); const value = view.getFloat64(offset, true); offset += 8; return value; }
+      default: throw new Error(`Unknown GGUF value type ${type}`);
+    }
+  };
+
+  if (u32() !== GGUF_MAGIC) {
+    throw new Error('Not a GGUF file');
+  }
+  const version = u32();
+  if (version < 2) {
+    throw new Error(`Unsupported GGUF version ${version}`);
+  }
+
+  const tensorCount = u64();
+  const keyCount = u64();
+  const metadata: Record<string, unknown> = {};
+
+  try {
+    for (let i = 0; i < keyCount; i++) {
+      const key = string();
+      metadata[key] = readValue(u32());
+    }
+  } catch (error) {
+    if (error instanceof RangeError) {
+      return { version, tensorCount, metadata, truncated: true };
+    }
+    throw error;
+  }
+
+  return { version, tensorCount, metadata, truncated: false };
+}
+
+/**
+ * general.file_type → quantization name (llama.cpp LLAMA_FTYPE_*)
+ */
+const GGUF_FILE_TYPES: Record<number, string> = {
+  0: 'F32', 1: 'F16', 2: 'Q4_0', 3: 'Q4_1', 7: 'Q8_0', 8: 'Q5_0', 9: 'Q5_1',
+  10: 'Q2_K', 11: 'Q3_K_S', 12: 'Q3_K_M', 13: 'Q3_K_L', 14: 'Q4_K_S', 15: 'Q4_K_M',
+  16: 'Q5_K_S', 17: 'Q5_K_M', 18: 'Q6_K', 32: 'BF16'
+};
+
+/**
+ * Capabilities from GGUF metadata
+ * Tools and thinking come from the chat template (absent when the header was cut before it).
+ */
+export function capabilitiesFromGGUF(gguf: GGUFMetadata): LLMDiscoveredCapabilities {
+  const meta = gguf.metadata;
+  const architecture = typeof meta['general.architecture'] === 'string' ? meta['general.architecture'] : undefined;
+  const template = typeof meta['tokenizer.chat_template'] === 'string' ? meta['tokenizer.chat_template'] : undefined;
+  const fileType = numberOrUndefined(meta['general.file_type']);
+
+  const discovered: Discovered = {
+    contextWindow: numberOrUndefined(architecture ? meta[`${architecture}.context_length`] : undefined),
+    supportsVision: Object.keys(meta).some(key => key.startsWith('clip.') || key.includes('.vision.')) || undefined,
+    supportsTools: template ? /\btools\b/.test(template) : undefined,
+    supportsThinking: template ? /<think>|enable_thinking|reasoning_content/.test(template) : undefined,
+    supportsEmbedding: architecture && meta[`${architecture}.pooling_type`] !== undefined ? true : undefined,
+    template,
+    family: architecture,
+    parameterSize: typeof meta['general.size_label'] === 'string' ? meta['general.size_label'] : undefined,
+    quantization: fileType !== undefined ? GGUF_FILE_TYPES[fileType] : undefined
+  };
+
+  return withSource(discovered, 'gguf');
+}
+
+/**
+ * Same capabilities, ignoring when they were discovered
+ */
+export function sameDiscoveredCapabilities(a?: LLMDiscoveredCapabilities, b?: LLMDiscoveredCapabilities): boolean {
+  if (!a || !b) {
+    return a === b;
+  }
+  const { discoveredAt: _a, ...restA } = a;
+  const { discoveredAt: _b, ...restB } = b;
+  const keys = new Set([...Object.keys(restA), ...Object.keys(restB)]);
+  return [...keys].every(key => (restA as Record<string, unknown>)[key] === (restB as Record<string, unknown>)[key]);
+}
+
+/**
+ * Optional fields must be absent, not undefined, in ONE.core objects
+ */
+function withSource(discovered: Discovered, source: LLMDiscoveredCapabilities['source']): LLMDiscoveredCapabilities {
+  const defined = Object.fromEntries(Object.entries(discovered).filter(([, value]) => value !== undefined));
+  return { ...defined, source, discoveredAt: Date.now() };
+}
+
+function numberOrUndefined(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+/**
+ * Capability flags come as booleans or as { supported: boolean }
+ */
+function flag(value: unknown): boolean | undefined {
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  if (value && typeof value === 'object' && typeof (value as { supported?: unknown }).supported === 'boolean') {
+    return (value as { supported: boolean }).supported;
+  }
+  return undefined;
+}
@@ -1,13 +1,14 @@
 /**
  * Capability Resolver
- * Resolves LLM capabilities from model metadata or known defaults
+ * Resolves LLM capabilities from discovered model metadata or known defaults
  */
 
+import type { LLM, LLMDiscoveredCapabilities } from '../@OneObjectInterfaces.js';
 import type { LLMCapabilities } from '../models/ai/types.js';
 
 /**
  * Known model capability profiles
- * Used as fallback when capabilities aren't stored on LLM object
+ * Fallback for models without discovered capabilities (see capability-discovery.ts)
  */
 const KNOWN_CAPABILITIES: Record<string, Partial<LLMCapabilities>> = {
   // Anthropic Claude models
@@ -129,14 +130,14 @@ function findMatchingProfile(modelId: string): Partial<LLMCapabilities> | null {
  * Resolve capabilities for a model
  *
  * Priority:
- * 1. Capabilities stored on LLM object
- * 2. Known model profiles (by model ID pattern matching)
- * 3. Provider-based defaults
+ * 1. Explicit context length
+ * 2. Capabilities stored on LLM object
+ * 3. Known model profiles (by model ID pattern matching)
  * 4. Conservative defaults
  */
 export function resolveCapabilities(
   modelId: string,
-  storedCapabilities?: LLMCapabilities,
+  storedCapabilities?: Partial<LLMCapabilities>,
   provider?: string,
   contextLength?: number
 ): LLMCapabilities {
@@ -162,6 +163,36 @@ export function resolveCapabilities(
   return capabilities;
 }
 
+/**
+ * Resolve capabilities of an LLM object - discovered capabilities win over the known profiles
+ */
+export function resolveLLMCapabilities(
+  llm: Pick<LLM, 'name' | 'modelId' | 'provider' | 'contextLength' | 'discoveredCapabilities'>
+): LLMCapabilities {
+  return resolveCapabilities(
+    llm.modelId || llm.name,
+    toLLMCapabilities(llm.discoveredCapabilities),
+    llm.provider,
+    llm.discoveredCapabilities?.contextWindow ?? llm.contextLength
+  );
+}
+
+/**
+ * The LLMCapabilities fields of discovered capabilities (only the ones that were reported)
+ */
+export function toLLMCapabilities(discovered?: LLMDiscoveredCapabilities): Partial<LLMCapabilities> | undefined {
+  if (!discovered) {
+    return undefined;
+  }
+
+  const capabilities: Partial<LLMCapabilities> = {};
+  if (discovered.contextWindow !== undefined) capabilities.contextWindow = discovered.contextWindow;
+  if (discovered.supportsVision !== undefined) capabilities.supportsVision = discovered.supportsVision;
+  if (discovered.supportsTools !== undefined) capabilities.supportsTools = discovered.supportsTools;
+  if (discovered.supportsThinking !== undefined) capabilities.supportsThinking = discovered.supportsThinking;
+  return capabilities;
+}
+
 /**
  * Get capability hint text for prompts
  */
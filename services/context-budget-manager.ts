@@ -11,6 +11,25 @@
 
 import type { CompressionMode } from './subject-summarizer.js';
 import { summarizeSubjects, formatPastSubjectsForPrompt, type SubjectForSummary } from './subject-summarizer.js';
+import { getTokenizer, type Tokenizer } from './tokenizer.js';
+import type { ChatContentPart, PromptCacheHint } from './llm-adapters/types.js';
+import { toAnthropicContent } from './llm-adapters/content-format.js';
+
+/**
+ * Rough token cost of one image (Anthropic: ~width*height/750, capped near 1600)
+ */
+export const IMAGE_TOKEN_ESTIMATE = 1000;
+
+/**
+ * Conversation message in PromptParts
+ * content is the text rendering; parts (user messages only) carry images and
+ * documents for vision-capable models.
+ */
+export interface ContextMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+  parts?: ChatContentPart[];
+}
 
 export interface ContextBudget {
   // Model constraints
@@ -30,6 +49,7 @@ export interface ContextBudget {
   pastSubjectCount: number;      // How many past subjects to include
   currentMessageLimit: number;   // Max messages from current subject
   compressionMode: CompressionMode; // Current compression level
+  tokenizer?: string;            // Tokenizer used for the counts (name)
 }
 
 export interface PromptParts {
@@ -46,13 +66,14 @@ export interface PromptParts {
     cacheKey: string;             // Hash of subject list
   };
   part3: {
-    messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }>;
+    messages: ContextMessage[];
     tokens: number;
     cacheable: boolean;           // Depends on API capability
     cacheKey?: string;
   };
   part4: {
     message: string;              // Current user message
+    parts?: ChatContentPart[];    // Its attachments as content parts
     tokens: number;
     cacheable: false;
   };
@@ -69,13 +90,15 @@ export interface BuildContextParams {
   // Content
   systemPrompt: string;
   pastSubjects: SubjectForSummary[];
-  currentSubjectMessages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }>;
+  currentSubjectMessages: ContextMessage[];
   currentMessage: string;
+  currentMessageParts?: ChatContentPart[];
 
   // Optional overrides
   targetPastSubjectCount?: number;
   targetMessageLimit?: number;
   initialCompressionMode?: CompressionMode;
+  tokenizer?: Tokenizer;         // Defaults to the tokenizer for modelId
 }
 
 /**
@@ -86,12 +109,14 @@ export function createBudget(params: {
   systemPromptTokens: number;
   targetPastSubjectCount?: number;
   targetMessageLimit?: number;
+  tokenizer?: string;
 }): ContextBudget {
   const {
     modelContextWindow,
     systemPromptTokens,
     targetPastSubjectCount = 20,
-    targetMessageLimit = 30
+    targetMessageLimit = 30,
+    tokenizer
   } = params;
 
   // Reserve 25% for response generation
@@ -115,7 +140,8 @@ export function createBudget(params: {
     remaining: usableContext - systemPromptTokens,
     pastSubjectCount: targetPastSubjectCount,
     currentMessageLimit: targetMessageLimit,
-    compressionMode: 'balanced'
+    compressionMode: 'balanced',
+    tokenizer
   };
 }
 
@@ -124,25 +150,29 @@ export function createBudget(params: {
  */
 export function buildContextWithinBudget(params: BuildContextParams): PromptParts {
   const {
+    modelId,
     modelContextWindow,
     systemPrompt,
     pastSubjects,
     currentSubjectMessages,
     currentMessage,
+    currentMessageParts,
     targetPastSubjectCount = 20,
     targetMessageLimit = 30,
     initialCompressionMode = 'balanced'
   } = params;
+  const tokenizer = params.tokenizer ?? getTokenizer(modelId);
 
-  // Estimate token counts
-  const systemPromptTokens = estimateTokens(systemPrompt);
+  // Count tokens with the model's tokenizer
+  const systemPromptTokens = tokenizer.count(systemPrompt);
 
   // Create initial budget
   let budget = createBudget({
     modelContextWindow,
     systemPromptTokens,
     targetPastSubjectCount,
-    targetMessageLimit
+    targetMessageLimit,
+    tokenizer: tokenizer.name
   });
 
   // Build parts
@@ -151,7 +181,9 @@ export function buildContextWithinBudget(params: BuildContextParams): PromptPart
     pastSubjects: pastSubjects.slice(0, budget.pastSubjectCount),
     currentSubjectMessages: currentSubjectMessages.slice(-budget.currentMessageLimit),
     currentMessage,
-    budget
+    currentMessageParts,
+    budget,
+    tokenizer
   });
 
   // Check if over budget and adjust
@@ -181,7 +213,9 @@ export function buildContextWithinBudget(params: BuildContextParams): PromptPart
       pastSubjects: pastSubjects.slice(0, budget.pastSubjectCount),
       currentSubjectMessages: currentSubjectMessages.slice(-budget.currentMessageLimit),
       currentMessage,
-      budget
+      currentMessageParts,
+      budget,
+      tokenizer
     });
 
     // Prevent infinite loop
@@ -199,14 +233,16 @@ export function buildContextWithinBudget(params: BuildContextParams): PromptPart
 function buildParts(params: {
   systemPrompt: string;
   pastSubjects: SubjectForSummary[];
-  currentSubjectMessages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }>;
+  currentSubjectMessages: ContextMessage[];
   currentMessage: string;
+  currentMessageParts?: ChatContentPart[];
   budget: ContextBudget;
+  tokenizer: Tokenizer;
 }): PromptParts {
-  const { systemPrompt, pastSubjects, currentSubjectMessages, currentMessage, budget } = params;
+  const { systemPrompt, pastSubjects, currentSubjectMessages, currentMessage, currentMessageParts, budget, tokenizer } = params;
 
   // Part 1: System prompt (stable, cacheable)
-  const part1Tokens = estimateTokens(systemPrompt);
+  const part1Tokens = tokenizer.count(systemPrompt);
   const part1 = {
     content: systemPrompt,
     tokens: part1Tokens,
@@ -218,9 +254,10 @@ function buildParts(params: {
   const pastSubjectsText = formatPastSubjectsForPrompt(
     pastSubjects,
     budget.pastSubjectsBudget,
-    budget.compressionMode
+    budget.compressionMode,
+    tokenizer
   );
-  const part2Tokens = estimateTokens(pastSubjectsText);
+  const part2Tokens = tokenizer.count(pastSubjectsText);
   const part2 = {
     content: pastSubjectsText,
     tokens: part2Tokens,
@@ -230,7 +267,7 @@ function buildParts(params: {
 
   // Part 3: Current subject messages (maybe cacheable)
   const part3Tokens = currentSubjectMessages.reduce((sum, msg) =>
-    sum + estimateTokens(msg.content), 0
+    sum + tokenizer.count(msg.content) + estimateImageTokens(msg.parts), 0
   );
   const part3 = {
     messages: currentSubjectMessages,
@@ -240,9 +277,10 @@ function buildParts(params: {
   };
 
   // Part 4: Current message (never cacheable)
-  const part4Tokens = estimateTokens(currentMessage);
+  const part4Tokens = tokenizer.count(currentMessage) + estimateImageTokens(currentMessageParts);
   const part4 = {
     message: currentMessage,
+    parts: currentMessageParts,
     tokens: part4Tokens,
     cacheable: false as const
   };
@@ -263,6 +301,13 @@ function buildParts(params: {
   };
 }
 
+/**
+ * Tokens for the loaded images of a message (text is counted via content)
+ */
+function estimateImageTokens(parts?: ChatContentPart[]): number {
+  return (parts ?? []).filter(part => part.type === 'image' && part.data).length * IMAGE_TOKEN_ESTIMATE;
+}
+
 /**
  * Get next compression mode in sequence
  */
@@ -272,13 +317,6 @@ function getNextCompressionMode(current: CompressionMode): CompressionMode {
   return sequence[Math.min(currentIndex + 1, sequence.length - 1)];
 }
 
-/**
- * Estimate token count (1 token ≈ 4 characters)
- */
-function estimateTokens(text: string): number {
-  return Math.ceil(text.length / 4);
-}
-
 /**
  * Simple hash function for cache keys
  */
@@ -301,7 +339,7 @@ export function formatForAnthropicWithCaching(parts: PromptParts): {
     text: string;
     cache_control?: { type: 'ephemeral' };
   }>;
-  messages: Array<{ role: 'user' | 'assistant'; content: string }>;
+  messages: Array<{ role: 'user' | 'assistant'; content: string | any[] }>;
 } {
   const system: Array<{
     type: 'text';
@@ -327,9 +365,16 @@ export function formatForAnthropicWithCaching(parts: PromptParts): {
 
   // Part 3 + 4: Messages (not cached)
   // Filter out system messages for Anthropic (they go in the system field)
-  const messages: Array<{ role: 'user' | 'assistant'; content: string }> = [
-    ...(parts.part3.messages.filter(m => m.role !== 'system') as Array<{ role: 'user' | 'assistant'; content: string }>),
-    { role: 'user' as const, content: parts.part4.message }
+  // Messages with content parts become text/image blocks
+  const messages: Array<{ role: 'user' | 'assistant'; content: string | any[] }> = [
+    ...parts.part3.messages.filter(m => m.role !== 'system').map(m => ({
+      role: m.role as 'user' | 'assistant',
+      content: m.parts?.length ? toAnthropicContent(m.parts) : m.content
+    })),
+    {
+      role: 'user' as const,
+      content: parts.part4.parts?.length ? toAnthropicContent(parts.part4.parts) : parts.part4.message
+    }
   ];
 
   return { system, messages };
@@ -337,11 +382,13 @@ export function formatForAnthropicWithCaching(parts: PromptParts): {
 
 /**
  * Format for standard OpenAI/Ollama APIs (no caching)
+ * Content parts stay on the messages - adapters convert them with
+ * toOpenAIMessages() / toOllamaMessages().
  */
 export function formatForStandardAPI(parts: PromptParts): {
-  messages: Array<{ role: string; content: string }>;
+  messages: Array<{ role: string; content: string; parts?: ChatContentPart[] }>;
 } {
-  const messages: Array<{ role: string; content: string }> = [];
+  const messages: Array<{ role: string; content: string; parts?: ChatContentPart[] }> = [];
 
   // Combine part1 + part2 into system message
   const systemContent = [parts.part1.content, parts.part2.content]
@@ -359,12 +406,26 @@ export function formatForStandardAPI(parts: PromptParts): {
   // Add part4 current message
   messages.push({
     role: 'user',
-    content: parts.part4.message
+    content: parts.part4.message,
+    ...(parts.part4.parts?.length ? { parts: parts.part4.parts } : {})
   });
 
   return { messages };
 }
 
+/**
+ * Cache hint for callers that send formatForStandardAPI() messages
+ * The flattened system message starts with part1 (and part2) - adapters with
+ * prompt caching re-split it into cached blocks at these boundaries.
+ */
+export function getPromptCacheHint(parts: PromptParts): PromptCacheHint {
+  const segments = [{ text: parts.part1.content, cacheKey: parts.part1.cacheKey }];
+  if (parts.part2.content.trim()) {
+    segments.push({ text: parts.part2.content, cacheKey: parts.part2.cacheKey });
+  }
+  return { segments };
+}
+
 /**
  * Get budget statistics
  */
@@ -377,6 +438,7 @@ export function getBudgetStats(budget: ContextBudget): {
     reserved: string;
   };
   status: 'healthy' | 'tight' | 'critical';
+  tokenizer: string;
 } {
   const total = budget.modelContextWindow;
   const utilizationPercent = (budget.totalUsed / total) * 100;
@@ -389,6 +451,7 @@ export function getBudgetStats(budget: ContextBudget): {
       currentMessages: `${((budget.currentSubjectBudget / total) * 100).toFixed(1)}%`,
       reserved: `${((budget.responseReserve / total) * 100).toFixed(1)}%`
     },
-    status: utilizationPercent > 90 ? 'critical' : utilizationPercent > 75 ? 'tight' : 'healthy'
+    status: utilizationPercent > 90 ? 'critical' : utilizationPercent > 75 ? 'tight' : 'healthy',
+    tokenizer: budget.tokenizer || 'unknown'
   };
 }
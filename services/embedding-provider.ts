@@ -0,0 +1,119 @@
+/**
+ * AdapterEmbeddingProvider - EmbeddingProvider backed by the LLM adapter layer
+ *
+ * Embeds through LLMManager.embed(), so the embedding model can live on any
+ * backend with an embedding-capable adapter: Ollama, OpenAI-compatible servers
+ * (vLLM, llama.cpp, LocalAI), OpenAI or on-device transformers.js.
+ *
+ * Every result records the model and dimensions that produced it. Vectors of
+ * different models are not comparable - consumers keep both next to their
+ * vectors and re-embed when setModel() switches to another model
+ * (AISettings.embeddingModel changed).
+ */
+
+import type { EmbeddingProvider, EmbeddingModel } from '@cube/meaning.core';
+import type { EmbedResult } from './llm-adapters/types.js';
+
+/**
+ * Default embedding model for LAMA (Ollama)
+ */
+export const DEFAULT_EMBEDDING_MODEL = 'nomic-embed-text';
+
+/**
+ * Anything that can embed by model ID - LLMManager in practice
+ */
+export interface EmbeddingBackend {
+  embed(texts: string[], options: { model: string; signal?: AbortSignal }): Promise<EmbedResult>;
+}
+
+/**
+ * A vector together with the model that produced it
+ */
+export interface EmbeddingVector {
+  vector: number[];
+  model: string;
+  dimensions: number;
+}
+
+export class AdapterEmbeddingProvider implements EmbeddingProvider {
+  private modelId: string;
+  private dimensions?: number;
+
+  constructor(private backend: EmbeddingBackend, modelId: string = DEFAULT_EMBEDDING_MODEL) {
+    this.modelId = modelId;
+  }
+
+  /**
+   * Model identifier in meaning.core terms
+   * nomic-embed-text maps to nomic-embed-text-v1.5, everything else is 'custom'
+   */
+  get model(): EmbeddingModel {
+    return this.modelId.replace(/^ollama:/, '').startsWith('nomic-embed') ? 'nomic-embed-text-v1.5' : 'custom';
+  }
+
+  getModelId(): string {
+    return this.modelId;
+  }
+
+  /**
+   * Vector dimensions of the current model (known after the first embedding)
+   */
+  getDimensions(): number | undefined {
+    return this.dimensions;
+  }
+
+  /**
+   * Switch the embedding model - vectors embedded before are stale
+   */
+  setModel(modelId: string): void {
+    if (modelId === this.modelId) {
+      return;
+    }
+    this.modelId = modelId;
+    this.dimensions = undefined;
+  }
+
+  /**
+   * Generate embedding for text
+   */
+  async embed(text: string): Promise<number[]> {
+    const [vector] = await this.embedBatch([text]);
+    return vector;
+  }
+
+  /**
+   * Generate embeddings for multiple texts
+   */
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    return (await this.embedWithInfo(texts)).vectors;
+  }
+
+  /**
+   * Embed texts, keeping the model and dimensions of the result
+   */
+  async embedWithInfo(texts: string[], signal?: AbortSignal): Promise<EmbedResult> {
+    if (texts.length === 0) {
+      return { vectors: [], model: this.modelId, dimensions: this.dimensions ?? 0 };
+    }
+
+    const modelId = this.modelId;
+    const result = await this.backend.embed(texts, { model: modelId, signal });
+    if (result.vectors.length !== texts.length) {
+      throw new Error(`Embedding model ${modelId} returned ${result.vectors.length} vectors for ${texts.length} texts`);
+    }
+
+    // Record under the requested ID - backends may report a normalized name
+    const recorded: EmbedResult = { ...result, model: modelId };
+    if (modelId === this.modelId) {
+      this.dimensions = recorded.dimensions;
+    }
+    return recorded;
+  }
+}
+
+/**
+ * Create an AdapterEmbeddingProvider for the configured embedding model
+ */
+export function createEmbeddingProvider(backend: EmbeddingBackend, embeddingModel?: string): AdapterEmbeddingProvider {
+  return new AdapterEmbeddingProvider(backend, embeddingModel || DEFAULT_EMBEDDING_MODEL);
+}
@@ -1,8 +1,12 @@
 export * from './capability-resolver.js';
+export * from './capability-discovery.js';
 export * from './identity-prompt-builder.js';
 export * from './AICreateService.js';
 export * from './CreateContextCollector.js';
 
+// Token counting
+export * from './tokenizer.js';
+
 // Tool execution
 export * from './tool-trace.js';
 export * from './tool-parser.js';
@@ -11,5 +15,40 @@ export {
   type AIToolExecutorDeps,
   type AIToolExecutorConfig,
   type ToolExecutionContext,
-  type ToolExecutionResult
+  type ToolExecutionResult,
+  type AgentTurn,
+  type AgentStepEvent,
+  type AgentStopReason,
+  type AgentLoopParams,
+  type AgentLoopResult
 } from './AIToolExecutor.js';
+
+// LLM failover
+export * from './llm-failover.js';
+
+// Prompt cache statistics
+export * from './prompt-cache-tracker.js';
+
+// Provider rate limits (token buckets per provider and API key, Retry-After)
+export * from './provider-rate-limiter.js';
+
+// Cancellation (AbortSignal helpers)
+export * from './cancellation.js';
+
+// Embeddings (adapter-backed EmbeddingProvider)
+export * from './embedding-provider.js';
+
+// Structured output (JSON extraction, schema validation, repair, reliability)
+export * from './structured-output.js';
+
+// Token usage and cost ledger (per-AI / per-provider budgets)
+export * from './usage-ledger.js';
+
+// Routing of Ollama requests across servers (loaded models, queue depth, failover)
+export * from './ollama-scheduler.js';
+
+// Encrypted API key vault (named keys per provider, rotation, per-AI assignment)
+export * from './api-key-vault.js';
+
+// Opt-in response cache (exact and near-duplicate prompts, per-topic invalidation)
+export * from './response-cache.js';
@@ -6,9 +6,10 @@
  */
 
 import type { LLM } from '../../@OneObjectInterfaces.js';
-import type { LLMAdapter, AdapterCapabilities, ChatMessage, ChatOptions, ChatResult } from './types.js';
-import { chatWithAnthropicHTTP } from '../anthropic-http.js';
+import type { LLMAdapter, AdapterCapabilities, ChatMessage, ChatOptions, ChatResult, PromptCacheHint } from './types.js';
+import { chatWithAnthropicHTTPDetailed, type AnthropicChatOptions, type AnthropicChatResponse } from '../anthropic-http.js';
 import { formatForAnthropicWithCaching } from '../context-budget-manager.js';
+import { toAnthropicTools, toAnthropicMessages, decodeToolName } from './tool-format.js';
 import { createMessageBus } from '@refinio/one.core/lib/message-bus.js';
 
 const MessageBus = createMessageBus('AnthropicAdapter');
@@ -61,21 +62,25 @@ export class AnthropicAdapter implements LLMAdapter {
     const temperature = options?.temperature ?? llm.temperature ?? 0.7;
     const maxTokens = options?.maxTokens ?? llm.maxTokens ?? 4096;
 
-    // Get MCP tools if available and not explicitly disabled
-    const tools = !options?.disableTools && this.mcpManager
-      ? this.mcpManager.getClaudeTools?.()
-      : undefined;
+    // Native tool definitions from options, falling back to MCP manager (already in Claude format)
+    let tools: any[] | undefined;
+    if (!options?.disableTools) {
+      tools = options?.tools?.length
+        ? toAnthropicTools(options.tools)
+        : this.mcpManager?.getClaudeTools?.();
+    }
+    const toolChoice = tools?.length && options?.toolChoice ? { type: options.toolChoice } : undefined;
 
     // Check if we have PromptParts for caching support (passed via options)
     const promptParts = (options as any)?.promptParts;
 
-    let response: any;
+    let response: AnthropicChatResponse;
 
     if (promptParts) {
       // New path: Use PromptParts with caching
       const formatted = formatForAnthropicWithCaching(promptParts);
 
-      response = await chatWithAnthropicHTTP({
+      response = await chatWithAnthropicHTTPDetailed({
         apiKey,
         model: baseModelId,
         messages: formatted.messages,
@@ -83,19 +88,23 @@ export class AnthropicAdapter implements LLMAdapter {
         temperature,
         max_tokens: maxTokens,
         tools,
+        tool_choice: toolChoice,
         onStream: options?.onStream,
-        signal: (options as any)?.signal,
+        signal: options?.signal,
+        requestClass: options?.requestClass,
         proxyUrl: this.corsProxyUrl
       });
     } else {
-      // Legacy path: Standard message array
-      const anthropicMessages = messages
-        .filter(m => m.role !== 'system')
-        .map(m => ({ role: m.role as 'user' | 'assistant', content: m.content }));
+      // Legacy path: Standard message array (tool calls/results become content blocks)
+      const anthropicMessages = toAnthropicMessages(messages);
 
-      const systemMessage = messages.find(m => m.role === 'system')?.content;
+      // Stable system prefixes (options.promptCache) become cached blocks
+      const systemMessage = this.toSystemBlocks(
+        messages.find(m => m.role === 'system')?.content,
+        options?.promptCache
+      );
 
-      response = await chatWithAnthropicHTTP({
+      response = await chatWithAnthropicHTTPDetailed({
         apiKey,
         model: baseModelId,
         messages: anthropicMessages,
@@ -103,8 +112,10 @@ export class AnthropicAdapter implements LLMAdapter {
         temperature,
         max_tokens: maxTokens,
         tools,
+        tool_choice: toolChoice,
         onStream: options?.onStream,
-        signal: (options as any)?.signal,
+        signal: options?.signal,
+        requestClass: options?.requestClass,
         proxyUrl: this.corsProxyUrl
       });
     }
@@ -114,29 +125,67 @@ export class AnthropicAdapter implements LLMAdapter {
   }
 
   /**
-   * Normalize Anthropic response to standard ChatResult
+   * Split the system prompt into cache_control blocks at the hinted segment boundaries
+   * Segments must prefix the system prompt in order - the first mismatch ends the cached
+   * region and the remainder is sent uncached.
    */
-  private normalizeResponse(response: any): ChatResult {
-    // Handle different response formats
-    if (typeof response === 'string') {
-      return { content: response };
+  private toSystemBlocks(system: string | undefined, promptCache?: PromptCacheHint): AnthropicChatOptions['system'] {
+    if (!system || !promptCache?.segments.length) {
+      return system;
     }
 
-    if (typeof response === 'object') {
-      return {
-        content: response.content || response.text || '',
-        thinking: response.thinking,
-        usage: response.usage ? {
-          promptTokens: response.usage.input_tokens || 0,
-          completionTokens: response.usage.output_tokens || 0,
-          totalTokens: (response.usage.input_tokens || 0) + (response.usage.output_tokens || 0)
-        } : undefined,
-        finishReason: response.stop_reason === 'end_turn' ? 'stop' : response.stop_reason,
-        raw: response
-      };
+    const blocks: Array<{ type: 'text'; text: string; cache_control?: { type: 'ephemeral' } }> = [];
+    let rest = system;
+    for (const segment of promptCache.segments) {
+      if (!segment.text.trim() || !rest.startsWith(segment.text)) break;
+      blocks.push({ type: 'text', text: segment.text, cache_control: { type: 'ephemeral' } });
+      rest = rest.slice(segment.text.length).replace(/^\s+/, '');
     }
 
-    return { content: String(response) };
+    if (blocks.length === 0) {
+      MessageBus.send('debug', 'System prompt does not start with the cache segments - sending uncached');
+      return system;
+    }
+    if (rest) {
+      blocks.push({ type: 'text', text: rest });
+    }
+    return blocks;
+  }
+
+  /**
+   * Normalize Anthropic response to standard ChatResult
+   * input_tokens excludes cached tokens - promptTokens is the full prompt size
+   */
+  private normalizeResponse(response: AnthropicChatResponse): ChatResult {
+    const toolCalls = response.toolUses.map(use => ({
+      id: use.id,
+      name: decodeToolName(use.name),
+      arguments: use.input
+    }));
+
+    const finishReason: ChatResult['finishReason'] =
+      response.stop_reason === 'tool_use' ? 'tool_calls' :
+      response.stop_reason === 'max_tokens' ? 'length' :
+      response.stop_reason ? 'stop' : undefined;
+
+    const usage = response.usage;
+    const promptTokens = usage
+      ? (usage.input_tokens || 0) + (usage.cache_creation_input_tokens || 0) + (usage.cache_read_input_tokens || 0)
+      : 0;
+
+    return {
+      content: response.content,
+      usage: usage ? {
+        promptTokens,
+        completionTokens: usage.output_tokens || 0,
+        totalTokens: promptTokens + (usage.output_tokens || 0),
+        cacheCreationTokens: usage.cache_creation_input_tokens || 0,
+        cacheReadTokens: usage.cache_read_input_tokens || 0
+      } : undefined,
+      finishReason,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      raw: response
+    };
   }
 
   /**
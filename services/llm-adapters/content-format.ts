@@ -0,0 +1,93 @@
+/**
+ * Multimodal Content Conversion
+ *
+ * Translates provider-neutral content parts (ChatMessage.parts) to the native
+ * Anthropic, OpenAI and Ollama message formats:
+ * - Anthropic: text and image blocks (base64 source)
+ * - OpenAI:    text and image_url parts (data URL)
+ * - Ollama:    text content plus an `images` array of base64 strings
+ *
+ * Document parts carry extracted text and reach every provider as text.
+ * Image parts without loaded data degrade to a textual placeholder.
+ */
+
+import type { ChatContentPart, ChatImagePart } from './types.js';
+
+/**
+ * Placeholder for an image the model cannot see
+ */
+export function imagePlaceholder(image: Pick<ChatImagePart, 'name' | 'mimeType'>): string {
+  return `[Image attachment: ${image.name || 'image'} (${image.mimeType}) - not visible to this model]`;
+}
+
+/**
+ * Text rendering of a document part
+ */
+export function documentAsText(part: Extract<ChatContentPart, { type: 'document' }>): string {
+  return `[Document: ${part.name}]\n${part.text}`;
+}
+
+/**
+ * Render parts as plain text - the ChatMessage.content fallback
+ */
+export function renderPartsAsText(parts: ChatContentPart[]): string {
+  return parts.map(partAsText).join('\n\n');
+}
+
+/**
+ * True if any part is an image with loaded data
+ */
+export function hasImageData(parts: ChatContentPart[] | undefined): boolean {
+  return !!parts?.some(part => part.type === 'image' && !!part.data);
+}
+
+/**
+ * Anthropic content blocks
+ */
+export function toAnthropicContent(parts: ChatContentPart[]): any[] {
+  return parts.map(part => {
+    if (part.type === 'image' && part.data) {
+      return {
+        type: 'image',
+        source: { type: 'base64', media_type: part.mimeType, data: part.data }
+      };
+    }
+    return { type: 'text', text: partAsText(part) };
+  });
+}
+
+/**
+ * OpenAI content parts (also used by OpenAI-compatible servers)
+ */
+export function toOpenAIContent(parts: ChatContentPart[]): any[] {
+  return parts.map(part => {
+    if (part.type === 'image' && part.data) {
+      return {
+        type: 'image_url',
+        image_url: { url: `data:${part.mimeType};base64,${part.data}` }
+      };
+    }
+    return { type: 'text', text: partAsText(part) };
+  });
+}
+
+/**
+ * Ollama message fields - images travel next to the text content
+ */
+export function toOllamaContent(parts: ChatContentPart[]): { content: string; images?: string[] } {
+  const images = parts
+    .filter((part): part is ChatImagePart => part.type === 'image' && !!part.data)
+    .map(part => part.data!);
+  const content = parts
+    .filter(part => !(part.type === 'image' && part.data))
+    .map(partAsText)
+    .join('\n\n');
+
+  return images.length > 0 ? { content, images } : { content };
+}
+
+function partAsText(part: ChatContentPart): string {
+  if (part.type === 'text') return part.text;
+  if (part.type === 'document') return documentAsText(part);
+  return imagePlaceholder(part);
+}
@@ -8,17 +8,35 @@
 // Types and registry
 export * from './types.js';
 export * from './registry.js';
+export * from './tool-format.js';
+export * from './content-format.js';
 
 // Adapter implementations
 export { AnthropicAdapter } from './anthropic-adapter.js';
 export { OllamaAdapter } from './ollama-adapter.js';
 export { OpenAIAdapter } from './openai-adapter.js';
+export {
+  OpenAICompatibleAdapter,
+  OPENAI_COMPATIBLE_PROVIDERS,
+  OPENAI_COMPATIBLE_STRICT_SCHEMAS,
+  resolveOpenAICompatibleBaseUrl,
+  type AuthTokenResolver
+} from './openai-compatible-adapter.js';
 export { TransformersAdapter } from './transformers-adapter.js';
+export {
+  ReplayAdapter,
+  installReplayAdapter,
+  uninstallReplayAdapter,
+  type ReplayMode,
+  type ReplayAdapterOptions
+} from './replay-adapter.js';
+export * from './replay-fixtures.js';
 
 import { registerAdapter } from './registry.js';
 import { AnthropicAdapter } from './anthropic-adapter.js';
 import { OllamaAdapter } from './ollama-adapter.js';
 import { OpenAIAdapter } from './openai-adapter.js';
+import { OpenAICompatibleAdapter } from './openai-compatible-adapter.js';
 import { TransformersAdapter } from './transformers-adapter.js';
 
 /**
@@ -29,5 +47,6 @@ export function registerDefaultAdapters(): void {
   registerAdapter(new AnthropicAdapter());
   registerAdapter(new OllamaAdapter());
   registerAdapter(new OpenAIAdapter());
+  registerAdapter(new OpenAICompatibleAdapter());
   registerAdapter(new TransformersAdapter());
 }
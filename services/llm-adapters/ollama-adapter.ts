@@ -6,9 +6,11 @@
  */
 
 import type { LLM } from '../../@OneObjectInterfaces.js';
-import type { LLMAdapter, AdapterCapabilities, ChatMessage, ChatOptions, ChatResult } from './types.js';
-import { chatWithOllama } from '../ollama.js';
+import type { LLMAdapter, AdapterCapabilities, ChatMessage, ChatOptions, ChatResult, EmbedOptions, EmbedResult } from './types.js';
+import { chatWithOllama, embedBatchWithOllama } from '../ollama.js';
 import { formatForStandardAPI } from '../context-budget-manager.js';
+import { resolveLLMCapabilities } from '../capability-resolver.js';
+import { toOpenAITools, toOllamaMessages, fromOpenAIToolCalls } from './tool-format.js';
 import { createMessageBus } from '@refinio/one.core/lib/message-bus.js';
 
 const MessageBus = createMessageBus('OllamaAdapter');
@@ -22,7 +24,7 @@ export class OllamaAdapter implements LLMAdapter {
     streaming: true,
     structuredOutput: true, // Via JSON mode
     thinking: true, // Supported by reasoning models (gpt-oss, deepseek-r1)
-    toolCalls: false, // Ollama doesn't have native tool support
+    toolCalls: true, // Native /api/chat tools - per-model, see supportsToolCalls()
     embeddings: true
   };
 
@@ -37,6 +39,14 @@ export class OllamaAdapter implements LLMAdapter {
            (llm.inferenceType === 'server' && !llm.provider); // Default for server-based
   }
 
+  /**
+   * Tool support depends on the model template (qwen, llama3.1+, mistral-nemo, ...) -
+   * reported by /api/show, see capability-discovery.ts
+   */
+  supportsToolCalls(llm: LLM): boolean {
+    return resolveLLMCapabilities({ ...llm, provider: 'ollama' }).supportsTools === true;
+  }
+
   /**
    * Execute chat with Ollama
    */
@@ -56,12 +66,17 @@ export class OllamaAdapter implements LLMAdapter {
 
     if (promptParts) {
       const formatted = formatForStandardAPI(promptParts);
-      ollamaMessages = formatted.messages;
+      ollamaMessages = toOllamaMessages(formatted.messages as ChatMessage[]); // Content parts → native format
     } else {
-      // Standard message array
-      ollamaMessages = messages;
+      // Standard message array (tool calls/results in Ollama format)
+      ollamaMessages = toOllamaMessages(messages);
     }
 
+    // Ollama has no tool_choice - 'none' means the tools are simply not sent
+    const tools = !options?.disableTools && options?.tools?.length && options.toolChoice !== 'none'
+      ? toOpenAITools(options.tools)
+      : undefined;
+
     // Get cached context for this topic (if available)
     const cachedContext = options?.topicId ? this.contextCache.get(options.topicId) : undefined;
 
@@ -75,7 +90,10 @@ export class OllamaAdapter implements LLMAdapter {
           onStream: options?.onStream,
           onThinkingStream: options?.onThinkingStream,
           format: (options as any)?.format, // Structured output schema
+          tools,
           topicId: options?.topicId,
+          signal: options?.signal,
+          keepAlive: options?.keepAlive,
           context: cachedContext
         },
         baseUrl
@@ -112,7 +130,8 @@ export class OllamaAdapter implements LLMAdapter {
     }
 
     if (typeof response === 'object') {
-      // Ollama returns { content, thinking, context, ... }
+      // Ollama returns { content, thinking, context, toolCalls, ... }
+      const toolCalls = fromOpenAIToolCalls(response.toolCalls);
       return {
         content: response.content || response.response || response.message?.content || '',
         thinking: response.thinking, // Preserve thinking from reasoning models (gpt-oss, deepseek-r1)
@@ -121,7 +140,8 @@ export class OllamaAdapter implements LLMAdapter {
           completionTokens: response.eval_count || 0,
           totalTokens: (response.prompt_eval_count || 0) + (response.eval_count || 0)
         } : undefined,
-        finishReason: response.done ? 'stop' : undefined,
+        finishReason: toolCalls.length > 0 ? 'tool_calls' : response.done ? 'stop' : undefined,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
         raw: response
       };
     }
@@ -129,6 +149,17 @@ export class OllamaAdapter implements LLMAdapter {
     return { content: String(response) };
   }
 
+  /**
+   * Embed texts with an Ollama embedding model (e.g. nomic-embed-text)
+   */
+  async embed(llm: LLM, texts: string[], options?: EmbedOptions): Promise<EmbedResult> {
+    const modelName = llm.modelId || llm.name;
+    const baseUrl = llm.server || 'http://localhost:11434';
+
+    const vectors = await embedBatchWithOllama(modelName, texts, baseUrl, options?.authHeaders, options?.signal);
+    return { vectors, model: modelName, dimensions: vectors[0]?.length ?? 0 };
+  }
+
   /**
    * Test connection to Ollama server
    */
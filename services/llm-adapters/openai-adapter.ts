@@ -5,9 +5,10 @@
  */
 
 import type { LLM } from '../../@OneObjectInterfaces.js';
-import type { LLMAdapter, AdapterCapabilities, ChatMessage, ChatOptions, ChatResult } from './types.js';
-import { chatWithOpenAIHTTP } from '../openai-http.js';
+import type { LLMAdapter, AdapterCapabilities, ChatMessage, ChatOptions, ChatResult, EmbedOptions, EmbedResult } from './types.js';
+import { chatWithOpenAIHTTPDetailed, embedWithOpenAIHTTP, type OpenAIChatResponse } from '../openai-http.js';
 import { formatForStandardAPI } from '../context-budget-manager.js';
+import { toOpenAITools, toOpenAIMessages, fromOpenAIToolCalls } from './tool-format.js';
 import { createMessageBus } from '@refinio/one.core/lib/message-bus.js';
 
 const MessageBus = createMessageBus('OpenAIAdapter');
@@ -66,29 +67,31 @@ export class OpenAIAdapter implements LLMAdapter {
 
     if (promptParts) {
       const formatted = formatForStandardAPI(promptParts);
-      openaiMessages = formatted.messages;
+      openaiMessages = toOpenAIMessages(formatted.messages as ChatMessage[]); // Content parts → native format
     } else {
-      // Standard message array
-      openaiMessages = messages.map(m => ({
-        role: m.role,
-        content: m.content
-      }));
+      // Standard message array (tool calls/results in OpenAI format)
+      openaiMessages = toOpenAIMessages(messages);
     }
 
-    // Get MCP tools if available and not explicitly disabled (OpenAI format)
-    const tools = !options?.disableTools && this.mcpManager
-      ? this.mcpManager.getOpenAITools?.()
-      : undefined;
+    // Native tool definitions from options, falling back to MCP manager (already in OpenAI format)
+    let tools: any[] | undefined;
+    if (!options?.disableTools) {
+      tools = options?.tools?.length
+        ? toOpenAITools(options.tools)
+        : this.mcpManager?.getOpenAITools?.();
+    }
 
-    const response = await chatWithOpenAIHTTP({
+    const response = await chatWithOpenAIHTTPDetailed({
       apiKey,
       model: baseModelId,
       messages: openaiMessages,
       temperature,
       max_tokens: maxTokens,
       tools,
+      tool_choice: tools?.length ? options?.toolChoice : undefined,
       onStream: options?.onStream,
-      signal: (options as any)?.signal,
+      signal: options?.signal,
+      requestClass: options?.requestClass,
       proxyUrl: this.corsProxyUrl
     });
 
@@ -96,31 +99,42 @@ export class OpenAIAdapter implements LLMAdapter {
   }
 
   /**
-   * Normalize OpenAI response to standard ChatResult
+   * Embed texts with an OpenAI embedding model (e.g. text-embedding-3-small)
+   * The API key is passed as options.apiKey like for chat.
    */
-  private normalizeResponse(response: any): ChatResult {
-    if (typeof response === 'string') {
-      return { content: response };
+  async embed(llm: LLM, texts: string[], options?: EmbedOptions): Promise<EmbedResult> {
+    if (!options?.apiKey) {
+      throw new Error('OpenAI API key not provided - platform layer must supply options.apiKey');
     }
 
-    if (typeof response === 'object') {
-      // OpenAI returns { choices: [{ message: { content }, finish_reason }], usage }
-      const choice = response.choices?.[0];
-      return {
-        content: choice?.message?.content || response.content || '',
-        usage: response.usage ? {
-          promptTokens: response.usage.prompt_tokens || 0,
-          completionTokens: response.usage.completion_tokens || 0,
-          totalTokens: response.usage.total_tokens || 0
-        } : undefined,
-        finishReason: choice?.finish_reason === 'stop' ? 'stop' :
-                      choice?.finish_reason === 'length' ? 'length' :
-                      choice?.finish_reason === 'tool_calls' ? 'tool_calls' : undefined,
-        raw: response
-      };
-    }
+    const result = await embedWithOpenAIHTTP({
+      apiKey: options.apiKey,
+      model: (llm.modelId || llm.name).replace(/^openai:/, ''),
+      input: texts,
+      proxyUrl: this.corsProxyUrl,
+      signal: options.signal
+    });
+    return { ...result, dimensions: result.vectors[0]?.length ?? 0 };
+  }
 
-    return { content: String(response) };
+  /**
+   * Normalize OpenAI response to standard ChatResult
+   */
+  private normalizeResponse(response: OpenAIChatResponse): ChatResult {
+    const toolCalls = fromOpenAIToolCalls(response.tool_calls);
+    return {
+      content: response.content || '',
+      usage: response.usage ? {
+        promptTokens: response.usage.prompt_tokens || 0,
+        completionTokens: response.usage.completion_tokens || 0,
+        totalTokens: response.usage.total_tokens || 0
+      } : undefined,
+      finishReason: response.finish_reason === 'stop' ? 'stop' :
+                    response.finish_reason === 'length' ? 'length' :
+                    response.finish_reason === 'tool_calls' ? 'tool_calls' : undefined,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      raw: response
+    };
   }
 
   /**
@@ -0,0 +1,267 @@
+/**
+ * OpenAI-Compatible LLM Adapter
+ *
+ * Handles self-hosted servers that implement the OpenAI chat completions API:
+ * vLLM, llama.cpp server, LocalAI, LM Studio - or any other server configured
+ * with provider 'openai-compatible'.
+ *
+ * Configuration comes from the LLM object:
+ * - baseUrl (falls back to server, then the provider's default port)
+ * - authType 'bearer' - token from options.apiKey or the injected resolver
+ *
+ * JSON schemas are sent with strict: true unless strictSchemas turns it off for
+ * the provider - strict mode rejects schemas with optional properties or
+ * without additionalProperties: false on servers that enforce it.
+ */
+
+import type { LLM } from '../../@OneObjectInterfaces.js';
+import type { LLMAdapter, AdapterCapabilities, ChatMessage, ChatOptions, ChatResult, EmbedOptions, EmbedResult } from './types.js';
+import {
+  chatWithOpenAIHTTPDetailed,
+  embedWithOpenAIHTTP,
+  listOpenAIModels,
+  type OpenAIChatResponse,
+  type OpenAIResponseFormat
+} from '../openai-http.js';
+import { formatForStandardAPI } from '../context-budget-manager.js';
+import { resolveLLMCapabilities } from '../capability-resolver.js';
+import { toOpenAITools, toOpenAIMessages, fromOpenAIToolCalls } from './tool-format.js';
+import { createMessageBus } from '@refinio/one.core/lib/message-bus.js';
+
+const MessageBus = createMessageBus('OpenAICompatibleAdapter');
+
+/**
+ * Providers served by this adapter, with the server's default API root
+ */
+export const OPENAI_COMPATIBLE_PROVIDERS: Record<string, string> = {
+  'openai-compatible': 'http://localhost:8000/v1',
+  vllm: 'http://localhost:8000/v1',
+  llamacpp: 'http://localhost:8080/v1',
+  localai: 'http://localhost:8080/v1',
+  lmstudio: 'http://localhost:1234/v1'
+};
+
+/**
+ * Whether structured output is requested with strict: true, per provider
+ */
+export const OPENAI_COMPATIBLE_STRICT_SCHEMAS: Record<string, boolean> = {
+  'openai-compatible': true,
+  vllm: true,
+  llamacpp: true,
+  localai: true,
+  lmstudio: true
+};
+
+/**
+ * API root including /v1 - servers are often configured with the bare host
+ */
+export function resolveOpenAICompatibleBaseUrl(url: string | undefined, provider?: string): string {
+  if (!url) {
+    return OPENAI_COMPATIBLE_PROVIDERS[provider || ''] ?? OPENAI_COMPATIBLE_PROVIDERS['openai-compatible'];
+  }
+  const trimmed = url.replace(/\/+$/, '');
+  return /\/v\d+$/.test(trimmed) ? trimmed : `${trimmed}/v1`;
+}
+
+/**
+ * Resolves the bearer token of an LLM with authType 'bearer'
+ * Platforms inject this to read tokens from their secure storage.
+ */
+export type AuthTokenResolver = (llm: LLM) => Promise<string | undefined>;
+
+export class OpenAICompatibleAdapter implements LLMAdapter {
+  readonly id = 'openai-compatible';
+  readonly name = 'OpenAI-Compatible Server';
+
+  readonly capabilities: AdapterCapabilities = {
+    chat: true,
+    streaming: true,
+    structuredOutput: true, // response_format json_schema
+    thinking: true, // reasoning_content from servers with a reasoning parser
+    toolCalls: true, // Per-model, see supportsToolCalls()
+    embeddings: true // /v1/embeddings (vLLM, llama.cpp --embedding, LocalAI)
+  };
+
+  private resolveAuthToken?: AuthTokenResolver;
+  // Optional: CORS proxy URL for browser
+  private corsProxyUrl?: string;
+  private strictSchemas: Record<string, boolean>;
+
+  constructor(options?: {
+    resolveAuthToken?: AuthTokenResolver;
+    corsProxyUrl?: string;
+    /** Per-provider override of OPENAI_COMPATIBLE_STRICT_SCHEMAS */
+    strictSchemas?: Record<string, boolean>;
+  }) {
+    this.resolveAuthToken = options?.resolveAuthToken;
+    this.corsProxyUrl = options?.corsProxyUrl;
+    this.strictSchemas = { ...OPENAI_COMPATIBLE_STRICT_SCHEMAS, ...options?.strictSchemas };
+  }
+
+  /**
+   * Check if this adapter can handle the given LLM
+   */
+  canHandle(llm: LLM): boolean {
+    return !!llm.provider && llm.provider in OPENAI_COMPATIBLE_PROVIDERS;
+  }
+
+  /**
+   * Tool support depends on the served model (and on the server's tool parser)
+   */
+  supportsToolCalls(llm: LLM): boolean {
+    return resolveLLMCapabilities({ ...llm, modelId: this.getModelName(llm) }).supportsTools === true;
+  }
+
+  /**
+   * Execute chat against the server's /chat/completions endpoint
+   */
+  async chat(llm: LLM, messages: ChatMessage[], options?: ChatOptions): Promise<ChatResult> {
+    const baseUrl = this.getBaseUrl(llm);
+    const model = this.getModelName(llm);
+    const apiKey = await this.getAuthToken(llm, options);
+
+    MessageBus.send('debug', `OpenAI-compatible chat: ${model}, ${messages.length} msgs, ${baseUrl}`);
+
+    // Check if we have PromptParts for optimized context
+    let openaiMessages: any[];
+    const promptParts = (options as any)?.promptParts;
+
+    if (promptParts) {
+      const formatted = formatForStandardAPI(promptParts);
+      openaiMessages = toOpenAIMessages(formatted.messages as ChatMessage[]); // Content parts → native format
+    } else {
+      // Standard message array (tool calls/results in OpenAI format)
+      openaiMessages = toOpenAIMessages(messages);
+    }
+
+    const tools = options?.tools?.length && !options.disableTools
+      ? toOpenAITools(options.tools)
+      : undefined;
+
+    const response = await chatWithOpenAIHTTPDetailed({
+      apiKey,
+      baseUrl,
+      model,
+      messages: openaiMessages,
+      temperature: options?.temperature ?? llm.temperature ?? 0.7,
+      max_tokens: options?.maxTokens ?? llm.maxTokens ?? 4096,
+      tools,
+      tool_choice: tools ? options?.toolChoice : undefined,
+      response_format: this.toResponseFormat(options?.format, llm.provider),
+      onStream: options?.onStream,
+      onThinkingStream: options?.onThinkingStream,
+      signal: options?.signal,
+      requestClass: options?.requestClass,
+      proxyUrl: this.corsProxyUrl
+    });
+
+    return this.normalizeResponse(response);
+  }
+
+  /**
+   * Embed texts via the server's /embeddings endpoint
+   */
+  async embed(llm: LLM, texts: string[], options?: EmbedOptions): Promise<EmbedResult> {
+    const result = await embedWithOpenAIHTTP({
+      baseUrl: this.getBaseUrl(llm),
+      apiKey: await this.getAuthToken(llm, options),
+      model: this.getModelName(llm),
+      input: texts,
+      proxyUrl: this.corsProxyUrl,
+      signal: options?.signal
+    });
+    return { ...result, dimensions: result.vectors[0]?.length ?? 0 };
+  }
+
+  /**
+   * Test that the server is reachable and serves the model
+   */
+  async testConnection(llm: LLM): Promise<{ success: boolean; error?: string }> {
+    try {
+      const models = await this.listModels(llm);
+      const model = this.getModelName(llm);
+      if (models.length > 0 && !models.some(m => m.id === model)) {
+        return { success: false, error: `Model ${model} is not served at ${this.getBaseUrl(llm)}` };
+      }
+      return { success: true };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * List models served by the server (GET /v1/models)
+   */
+  async listModels(llm: LLM): Promise<Array<{ id: string; name: string; size?: number }>> {
+    const models = await listOpenAIModels({
+      baseUrl: this.getBaseUrl(llm),
+      apiKey: await this.getAuthToken(llm),
+      proxyUrl: this.corsProxyUrl
+    });
+    return models.map(m => ({ id: m.id, name: m.id }));
+  }
+
+  /**
+   * API root of the LLM's server - baseUrl, or server when it is a URL
+   */
+  getBaseUrl(llm: LLM): string {
+    const configured = llm.baseUrl || (llm.server?.startsWith('http') ? llm.server : undefined);
+    return resolveOpenAICompatibleBaseUrl(configured, llm.provider);
+  }
+
+  private getModelName(llm: LLM): string {
+    return (llm.modelId || llm.name).replace(`${llm.provider}:`, '');
+  }
+
+  private async getAuthToken(llm: LLM, options?: { apiKey?: string }): Promise<string | undefined> {
+    if (llm.authType !== 'bearer') {
+      return undefined;
+    }
+    const token = options?.apiKey ?? await this.resolveAuthToken?.(llm);
+    if (!token) {
+      throw new Error(`Bearer token for ${llm.name} not provided - platform layer must supply options.apiKey or resolveAuthToken`);
+    }
+    return token;
+  }
+
+  /**
+   * ChatOptions.format follows Ollama: 'json' or a JSON schema
+   */
+  private toResponseFormat(format: any, provider?: string): OpenAIResponseFormat | undefined {
+    if (!format) {
+      return undefined;
+    }
+    if (format === 'json') {
+      return { type: 'json_object' };
+    }
+    return {
+      type: 'json_schema',
+      json_schema: {
+        name: String(format.title || 'response').replace(/[^a-zA-Z0-9_-]/g, '_'),
+        schema: format,
+        strict: this.strictSchemas[provider || 'openai-compatible'] ?? true
+      }
+    };
+  }
+
+  /**
+   * Normalize OpenAI-format response to standard ChatResult
+   */
+  private normalizeResponse(response: OpenAIChatResponse): ChatResult {
+    const toolCalls = fromOpenAIToolCalls(response.tool_calls);
+    return {
+      content: response.content || '',
+      thinking: response.reasoning,
+      usage: response.usage ? {
+        promptTokens: response.usage.prompt_tokens || 0,
+        completionTokens: response.usage.completion_tokens || 0,
+        totalTokens: response.usage.total_tokens || 0
+      } : undefined,
+      finishReason: response.finish_reason === 'stop' ? 'stop' :
+                    response.finish_reason === 'length' ? 'length' :
+                    response.finish_reason === 'tool_calls' ? 'tool_calls' : undefined,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      raw: response
+    };
+  }
+}
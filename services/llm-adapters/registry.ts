@@ -6,6 +6,7 @@
  * for each LLM based on its properties.
  *
  * Selection priority:
+ * 0. Override adapter, if set (ReplayAdapter for record/replay testing)
  * 1. Exact match on provider
  * 2. Match on inferenceType (ondevice/server/cloud)
  * 3. canHandle() check for edge cases
@@ -19,6 +20,7 @@ const MessageBus = createMessageBus('LLMAdapterRegistry');
 
 class AdapterRegistry implements LLMAdapterRegistry {
   private adapters: Map<string, LLMAdapter> = new Map();
+  private override: LLMAdapter | null = null;
 
   /**
    * Register an adapter
@@ -32,15 +34,41 @@ class AdapterRegistry implements LLMAdapterRegistry {
     MessageBus.send('debug', `Registered adapter: ${adapter.id} (${adapter.name})`);
   }
 
+  /**
+   * Route every LLM the override can handle through it (null removes it)
+   */
+  setOverride(adapter: LLMAdapter | null): void {
+    this.override = adapter;
+    MessageBus.send('debug', adapter ? `Override adapter set: ${adapter.id}` : 'Override adapter removed');
+  }
+
+  /**
+   * The override adapter, if set
+   */
+  getOverride(): LLMAdapter | null {
+    return this.override;
+  }
+
   /**
    * Get the appropriate adapter for an LLM
+   * The override adapter, if set and able to handle the LLM, wins.
+   */
+  getAdapter(llm: LLM): LLMAdapter | null {
+    if (this.override?.canHandle(llm)) {
+      return this.override;
+    }
+    return this.getBackendAdapter(llm);
+  }
+
+  /**
+   * Get the adapter that talks to the LLM's backend, ignoring the override
    *
    * Selection logic:
    * 1. If LLM has a provider, look for exact match
    * 2. If no exact match, try inferenceType-based lookup
    * 3. Fall back to canHandle() check across all adapters
    */
-  getAdapter(llm: LLM): LLMAdapter | null {
+  getBackendAdapter(llm: LLM): LLMAdapter | null {
     // 1. Exact match on provider
     if (llm.provider) {
       const adapter = this.adapters.get(llm.provider);
@@ -53,11 +81,11 @@ class AdapterRegistry implements LLMAdapterRegistry {
     // 2. Match on inferenceType (maps to adapter conventions)
     if (llm.inferenceType) {
       // 'ondevice' typically handled by 'transformers' adapter
-      // 'server' could be ollama, lmstudio, etc. - need provider
+      // 'server' is ollama, or openai-compatible (vllm, llamacpp, localai, lmstudio) - need provider
       // 'cloud' could be anthropic, openai - need provider
       const inferenceTypeAdapters: Record<string, string[]> = {
         ondevice: ['transformers', 'local'],
-        server: ['ollama', 'lmstudio', 'vllm'],
+        server: ['ollama', 'openai-compatible'],
         cloud: ['anthropic', 'openai', 'google']
       };
 
@@ -102,6 +130,7 @@ class AdapterRegistry implements LLMAdapterRegistry {
    */
   clear(): void {
     this.adapters.clear();
+    this.override = null;
   }
 
   /**
@@ -0,0 +1,244 @@
+/**
+ * Record/Replay LLM Adapter
+ *
+ * Deterministic offline runs of everything that goes through LLMManager
+ * (chatWithAnalysis, TopicAnalyzer, LLMAnalysisService, embeddings).
+ *
+ * - record: forwards to the LLM's real backend adapter and stores each
+ *   request/response pair as a fixture, including the streamed chunks
+ * - replay: serves responses from fixtures - streaming and thinking callbacks
+ *   receive the recorded chunks, structured output the recorded JSON.
+ *   A request without a fixture throws; nothing falls through to a backend.
+ *
+ * installReplayAdapter() registers the adapter as the registry override, so
+ * every model is intercepted without changing the stored LLM objects.
+ */
+
+import type { LLM } from '../../@OneObjectInterfaces.js';
+import type { LLMAdapter, AdapterCapabilities, ChatMessage, ChatOptions, ChatResult, EmbedOptions, EmbedResult } from './types.js';
+import { getAdapterRegistry } from './registry.js';
+import {
+  computeFixtureKey,
+  normalizeChatRequest,
+  type ReplayFixture,
+  type ReplayFixtureStore
+} from './replay-fixtures.js';
+import { formatForStandardAPI } from '../context-budget-manager.js';
+import { abortableSleep, throwIfAborted } from '../cancellation.js';
+import { createMessageBus } from '@refinio/one.core/lib/message-bus.js';
+
+const MessageBus = createMessageBus('ReplayAdapter');
+
+export type ReplayMode = 'record' | 'replay';
+
+export interface ReplayAdapterOptions {
+  mode: ReplayMode;
+  store: ReplayFixtureStore;
+  /** Real adapter for an LLM in record mode (default: the registry's backend adapter) */
+  resolveBackend?: (llm: LLM) => LLMAdapter | null;
+  /** Delay between simulated stream chunks in replay mode (default 0) */
+  chunkDelayMs?: number;
+  /** Intercept only these model IDs (default: all models) */
+  models?: string[];
+}
+
+export class ReplayAdapter implements LLMAdapter {
+  readonly id = 'replay';
+  readonly name = 'Record/Replay';
+
+  readonly capabilities: AdapterCapabilities = {
+    chat: true,
+    streaming: true,
+    structuredOutput: true,
+    thinking: true,
+    toolCalls: true, // Per-model, mirrors the backend - see supportsToolCalls()
+    embeddings: true
+  };
+
+  private mode: ReplayMode;
+  private store: ReplayFixtureStore;
+  private resolveBackend: (llm: LLM) => LLMAdapter | null;
+  private chunkDelayMs: number;
+  private models?: Set<string>;
+
+  constructor(options: ReplayAdapterOptions) {
+    this.mode = options.mode;
+    this.store = options.store;
+    this.resolveBackend = options.resolveBackend ?? (llm => getAdapterRegistry().getBackendAdapter(llm));
+    this.chunkDelayMs = options.chunkDelayMs ?? 0;
+    this.models = options.models ? new Set(options.models) : undefined;
+  }
+
+  getMode(): ReplayMode {
+    return this.mode;
+  }
+
+  setMode(mode: ReplayMode): void {
+    this.mode = mode;
+    MessageBus.send('log', `Replay adapter mode: ${mode}`);
+  }
+
+  canHandle(llm: LLM): boolean {
+    return !this.models || this.models.has(this.getModelId(llm));
+  }
+
+  /**
+   * Same answer as the backend, so recorded and replayed requests carry the same tools
+   * (server adapters decide from static capability tables - no backend call needed)
+   */
+  supportsToolCalls(llm: LLM): boolean {
+    const backend = this.getBackend(llm);
+    if (!backend?.capabilities.toolCalls) {
+      return false;
+    }
+    return backend.supportsToolCalls ? backend.supportsToolCalls(llm) : true;
+  }
+
+  async chat(llm: LLM, messages: ChatMessage[], options?: ChatOptions): Promise<ChatResult> {
+    const model = this.getModelId(llm);
+    const promptParts = (options as any)?.promptParts;
+    const sent = promptParts ? formatForStandardAPI(promptParts).messages as ChatMessage[] : messages;
+    const request = normalizeChatRequest(model, sent, {
+      tools: options?.disableTools ? undefined : options?.tools,
+      toolChoice: options?.toolChoice,
+      format: options?.format
+    });
+    const key = await computeFixtureKey(request);
+
+    if (this.mode === 'record') {
+      return await this.recordChat(llm, messages, options, { key, model, request });
+    }
+
+    const fixture = await this.store.get(key);
+    if (!fixture?.response) {
+      const lastUser = [...sent].reverse().find(m => m.role === 'user')?.content ?? '';
+      const error = new Error(
+        `No replay fixture for ${model} (key ${key}) - last user message: "${lastUser.slice(0, 120)}". ` +
+        `Record it by running with the replay adapter in 'record' mode.`
+      );
+      error.name = 'ReplayMissError';
+      MessageBus.send('error', error.message);
+      throw error;
+    }
+
+    MessageBus.send('debug', `Replaying ${model} response from fixture ${key}`);
+    await this.emitChunks(fixture.thinkingChunks ?? this.splitIntoChunks(fixture.response.thinking), options?.onThinkingStream, options?.signal);
+    await this.emitChunks(fixture.streamChunks ?? this.splitIntoChunks(fixture.response.content), options?.onStream, options?.signal);
+
+    return { ...fixture.response, raw: { replayed: true, key } };
+  }
+
+  async embed(llm: LLM, texts: string[], options?: EmbedOptions): Promise<EmbedResult> {
+    const model = this.getModelId(llm);
+    const request = { model, texts };
+    const key = await computeFixtureKey(request);
+
+    if (this.mode === 'record') {
+      const backend = this.requireBackend(llm);
+      if (!backend.embed) {
+        throw new Error(`Adapter ${backend.id} has no embedding support - cannot record ${model}`);
+      }
+      const result = await backend.embed(llm, texts, options);
+      await this.store.put({ key, kind: 'embed', model, recordedAt: Date.now(), request, vectors: result.vectors });
+      return result;
+    }
+
+    throwIfAborted(options?.signal);
+    const fixture = await this.store.get(key);
+    if (!fixture?.vectors) {
+      const error = new Error(`No replay fixture for embedding ${texts.length} texts with ${model} (key ${key})`);
+      error.name = 'ReplayMissError';
+      MessageBus.send('error', error.message);
+      throw error;
+    }
+    return { vectors: fixture.vectors, model, dimensions: fixture.vectors[0]?.length ?? 0 };
+  }
+
+  private async recordChat(
+    llm: LLM,
+    messages: ChatMessage[],
+    options: ChatOptions | undefined,
+    fixture: Pick<ReplayFixture, 'key' | 'model' | 'request'>
+  ): Promise<ChatResult> {
+    const backend = this.requireBackend(llm);
+    const streamChunks: string[] = [];
+    const thinkingChunks: string[] = [];
+
+    // Wrap the callbacks the caller gave - wrapping absent ones would switch the backend to streaming
+    const onStream = options?.onStream;
+    const onThinkingStream = options?.onThinkingStream;
+    const result = await backend.chat(llm, messages, {
+      ...options,
+      onStream: onStream && (chunk => { streamChunks.push(chunk); onStream(chunk); }),
+      onThinkingStream: onThinkingStream && (chunk => { thinkingChunks.push(chunk); onThinkingStream(chunk); })
+    });
+
+    const { raw: _raw, ...response } = result;
+    await this.store.put({
+      ...fixture,
+      kind: 'chat',
+      recordedAt: Date.now(),
+      response,
+      ...(streamChunks.length > 0 ? { streamChunks } : {}),
+      ...(thinkingChunks.length > 0 ? { thinkingChunks } : {})
+    });
+    MessageBus.send('debug', `Recorded ${fixture.model} response as fixture ${fixture.key}`);
+
+    return result;
+  }
+
+  private async emitChunks(chunks: string[], callback: ((chunk: string) => void) | undefined, signal?: AbortSignal): Promise<void> {
+    if (!callback) {
+      return;
+    }
+    for (const chunk of chunks) {
+      throwIfAborted(signal);
+      if (this.chunkDelayMs > 0) {
+        await abortableSleep(this.chunkDelayMs, signal);
+      }
+      callback(chunk);
+    }
+  }
+
+  /**
+   * Word-sized chunks for fixtures recorded without streaming
+   */
+  private splitIntoChunks(text: string | undefined): string[] {
+    return text ? text.match(/\s*\S+\s*/g) ?? [text] : [];
+  }
+
+  private getBackend(llm: LLM): LLMAdapter | null {
+    const backend = this.resolveBackend(llm);
+    return backend === this ? null : backend;
+  }
+
+  private requireBackend(llm: LLM): LLMAdapter {
+    const backend = this.getBackend(llm);
+    if (!backend) {
+      throw new Error(`No backend adapter to record ${this.getModelId(llm)} (provider: ${llm.provider})`);
+    }
+    return backend;
+  }
+
+  private getModelId(llm: LLM): string {
+    return llm.modelId || llm.name;
+  }
+}
+
+/**
+ * Install a ReplayAdapter as the registry override - all matching models go through it
+ * Not registered as a regular adapter: its canHandle() accepts every model, which would
+ * make it the canHandle() fallback once uninstalled.
+ */
+export function installReplayAdapter(options: ReplayAdapterOptions): ReplayAdapter {
+  const adapter = new ReplayAdapter(options);
+  getAdapterRegistry().setOverride(adapter);
+  return adapter;
+}
+
+/**
+ * Stop intercepting - models go to their backend adapters again
+ */
+export function uninstallReplayAdapter(): void {
+  getAdapterRegistry().setOverride(null);
+}
@@ -0,0 +1,170 @@
+/**
+ * Replay Fixtures
+ *
+ * Recorded request/response pairs for ReplayAdapter, keyed by a hash of the
+ * normalized request. Normalization removes what changes between otherwise
+ * identical runs:
+ * - whitespace runs (collapsed), ISO timestamps (→ <timestamp>)
+ * - tool call ids (renumbered in order of appearance)
+ * - image data (the BLOB hash identifies the image)
+ * Sampling parameters (temperature, maxTokens) are not part of the key.
+ *
+ * Fixtures live in a ReplayFixtureStore. FileFixtureStore writes one JSON file
+ * per fixture through an injected file system (Node fs/promises in tests), so
+ * lama.core itself stays platform-independent.
+ */
+
+import { createCryptoHash } from '@refinio/one.core/lib/system/crypto-helpers.js';
+import type { ChatMessage, ChatResult, ChatToolDefinition } from './types.js';
+
+/**
+ * Request as it enters the fixture key
+ */
+export interface NormalizedChatRequest {
+  model: string;
+  messages: Array<{
+    role: string;
+    content: string;
+    parts?: Array<{ type: string; text?: string; blobHash?: string; name?: string }>;
+    toolCalls?: Array<{ id: string; name: string; arguments: Record<string, unknown> }>;
+    toolCallId?: string;
+  }>;
+  tools?: string[];
+  toolChoice?: string;
+  format?: unknown;
+}
+
+export interface ReplayFixture {
+  key: string;
+  kind: 'chat' | 'embed';
+  model: string;
+  recordedAt: number;
+  /** Normalized request - kept for diagnosing replay misses */
+  request: NormalizedChatRequest | { model: string; texts: string[] };
+  /** Chat response (kind 'chat') */
+  response?: Omit<ChatResult, 'raw'>;
+  /** Streamed chunks in arrival order (kind 'chat', streaming requests) */
+  streamChunks?: string[];
+  thinkingChunks?: string[];
+  /** Embedding vectors (kind 'embed') */
+  vectors?: number[][];
+}
+
+export interface ReplayFixtureStore {
+  get(key: string): Promise<ReplayFixture | undefined>;
+  put(fixture: ReplayFixture): Promise<void>;
+}
+
+/**
+ * Minimal file system surface FileFixtureStore needs (matches fs/promises)
+ */
+export interface FixtureFileSystem {
+  readFile(path: string, encoding: 'utf8'): Promise<string>;
+  writeFile(path: string, data: string, encoding: 'utf8'): Promise<void>;
+  mkdir(path: string, options: { recursive: true }): Promise<unknown>;
+}
+
+/**
+ * In-memory fixtures - for tests that build fixtures inline
+ */
+export class MemoryFixtureStore implements ReplayFixtureStore {
+  private fixtures = new Map<string, ReplayFixture>();
+
+  constructor(fixtures: ReplayFixture[] = []) {
+    fixtures.forEach(fixture => this.fixtures.set(fixture.key, fixture));
+  }
+
+  async get(key: string): Promise<ReplayFixture | undefined> {
+    return this.fixtures.get(key);
+  }
+
+  async put(fixture: ReplayFixture): Promise<void> {
+    this.fixtures.set(fixture.key, fixture);
+  }
+
+  getAll(): ReplayFixture[] {
+    return [...this.fixtures.values()];
+  }
+}
+
+/**
+ * One `<key>.json` file per fixture in a directory
+ */
+export class FileFixtureStore implements ReplayFixtureStore {
+  constructor(private directory: string, private fs: FixtureFileSystem) {}
+
+  async get(key: string): Promise<ReplayFixture | undefined> {
+    try {
+      return JSON.parse(await this.fs.readFile(this.pathFor(key), 'utf8'));
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async put(fixture: ReplayFixture): Promise<void> {
+    await this.fs.mkdir(this.directory, { recursive: true });
+    await this.fs.writeFile(this.pathFor(fixture.key), JSON.stringify(fixture, null, 2), 'utf8');
+  }
+
+  private pathFor(key: string): string {
+    return `${this.directory.replace(/\/+$/, '')}/${key}.json`;
+  }
+}
+
+/**
+ * Normalize free text for the fixture key
+ */
+export function normalizePromptText(text: string): string {
+  return text
+    .replace(/\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?/g, '<timestamp>')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Normalize a chat request (see module comment for what is removed)
+ */
+export function normalizeChatRequest(
+  model: string,
+  messages: ChatMessage[],
+  options: { tools?: ChatToolDefinition[]; toolChoice?: string; format?: unknown } = {}
+): NormalizedChatRequest {
+  const callIds = new Map<string, string>();
+  const callId = (id: string | undefined) => {
+    if (!id) return undefined;
+    if (!callIds.has(id)) callIds.set(id, `call_${callIds.size}`);
+    return callIds.get(id)!;
+  };
+
+  return {
+    model,
+    messages: messages.map(message => ({
+      role: message.role,
+      content: normalizePromptText(message.content),
+      ...(message.parts?.length ? {
+        parts: message.parts.map(part =>
+          part.type === 'text' ? { type: 'text', text: normalizePromptText(part.text) } :
+          part.type === 'image' ? { type: 'image', blobHash: part.blobHash } :
+          { type: 'document', name: part.name, text: normalizePromptText(part.text) }
+        )
+      } : {}),
+      ...(message.toolCalls?.length ? {
+        toolCalls: message.toolCalls.map(call => ({ id: callId(call.id)!, name: call.name, arguments: call.arguments }))
+      } : {}),
+      ...(message.toolCallId ? { toolCallId: callId(message.toolCallId) } : {})
+    })),
+    ...(options.tools?.length ? { tools: options.tools.map(tool => tool.name).sort() } : {}),
+    ...(options.toolChoice ? { toolChoice: options.toolChoice } : {}),
+    ...(options.format ? { format: options.format } : {})
+  };
+}
+
+/**
+ * Fixture key - SHA-256 of the normalized request
+ */
+export async function computeFixtureKey(request: NormalizedChatRequest | { model: string; texts: string[] }): Promise<string> {
+  return await createCryptoHash(JSON.stringify(request));
+}
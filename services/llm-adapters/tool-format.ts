@@ -0,0 +1,279 @@
+/**
+ * Native Tool Format Conversion
+ *
+ * Translates provider-neutral tool definitions, tool calls and tool result
+ * messages to the native Anthropic, OpenAI and Ollama protocols.
+ *
+ * Tool names like 'mcp:filesystem:read_file' contain colons, which the
+ * provider APIs reject (^[a-zA-Z0-9_-]{1,64}$). Names are encoded with '__'
+ * on the way out and decoded when the model calls a tool. Names that would not
+ * decode back unchanged (a '__' or another invalid character in a server or
+ * tool name) or exceed 64 characters get a hash suffix; every encoded name is
+ * remembered, so decoding returns the original.
+ */
+
+import type { ChatMessage, ChatToolCall, ChatToolDefinition } from './types.js';
+import { toAnthropicContent, toOpenAIContent, toOllamaContent } from './content-format.js';
+
+const NAME_SEPARATOR = '__';
+const MAX_TOOL_NAME_LENGTH = 64;
+
+// encoded name → original name, for names that don't decode by rule
+const encodedNames = new Map<string, string>();
+
+let callCounter = 0;
+
+/**
+ * Encode a tool name for provider APIs ('mcp:fs:read' → 'mcp__fs__read')
+ * Lossy or too long names become '<prefix>_h<hash>' (at most 64 characters).
+ */
+export function encodeToolName(name: string): string {
+  let encoded = name.split(':').join(NAME_SEPARATOR).replace(/[^a-zA-Z0-9_-]/g, '_');
+
+  if (decodeBySeparator(encoded) !== name || encoded.length > MAX_TOOL_NAME_LENGTH) {
+    const suffix = `_h${hashName(name)}`;
+    encoded = encoded.slice(0, MAX_TOOL_NAME_LENGTH - suffix.length) + suffix;
+  }
+
+  encodedNames.set(encoded, name);
+  return encoded;
+}
+
+/**
+ * Decode a provider tool name back to the executor format
+ */
+export function decodeToolName(name: string): string {
+  return encodedNames.get(name) ?? decodeBySeparator(name);
+}
+
+function decodeBySeparator(name: string): string {
+  return name.split(NAME_SEPARATOR).join(':');
+}
+
+/**
+ * FNV-1a (32 bit) in base 36 - synchronous, the adapters format tools synchronously
+ */
+function hashName(name: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < name.length; i++) {
+    hash ^= name.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+/**
+ * Generate a call id for providers that don't return one (Ollama)
+ */
+export function createToolCallId(): string {
+  return `call_${Date.now().toString(36)}_${++callCounter}`;
+}
+
+/**
+ * Normalize tool call arguments - OpenAI sends a JSON string, others an object
+ */
+export function parseToolArguments(args: unknown): Record<string, unknown> {
+  if (!args) return {};
+  if (typeof args === 'string') {
+    try {
+      const parsed = JSON.parse(args);
+      return parsed && typeof parsed === 'object' ? parsed : {};
+    } catch {
+      return {};
+    }
+  }
+  return typeof args === 'object' ? args as Record<string, unknown> : {};
+}
+
+/**
+ * Anthropic `tools` format
+ */
+export function toAnthropicTools(tools: ChatToolDefinition[]): any[] {
+  return tools.map(tool => ({
+    name: encodeToolName(tool.name),
+    description: tool.description,
+    input_schema: tool.inputSchema
+  }));
+}
+
+/**
+ * OpenAI `tools` format (also accepted by Ollama /api/chat)
+ */
+export function toOpenAITools(tools: ChatToolDefinition[]): any[] {
+  return tools.map(tool => ({
+    type: 'function',
+    function: {
+      name: encodeToolName(tool.name),
+      description: tool.description,
+      parameters: tool.inputSchema
+    }
+  }));
+}
+
+/**
+ * Convert messages to Anthropic format
+ * - assistant tool calls → tool_use content blocks
+ * - consecutive tool results → one user message with tool_result blocks
+ * - a user message right after tool results is appended to that message
+ * - user content parts → text / image blocks
+ * System messages are dropped (they go in the separate system field).
+ */
+export function toAnthropicMessages(messages: ChatMessage[]): Array<{ role: 'user' | 'assistant'; content: string | any[] }> {
+  const result: Array<{ role: 'user' | 'assistant'; content: string | any[] }> = [];
+
+  for (const message of messages) {
+    if (message.role === 'system') continue;
+
+    if (message.role === 'tool') {
+      const block = {
+        type: 'tool_result',
+        tool_use_id: message.toolCallId,
+        content: message.content
+      };
+      const last = result[result.length - 1];
+      if (last && last.role === 'user' && Array.isArray(last.content) && last.content.every((b: any) => b.type === 'tool_result')) {
+        last.content.push(block);
+      } else {
+        result.push({ role: 'user', content: [block] });
+      }
+      continue;
+    }
+
+    if (message.role === 'assistant' && message.toolCalls?.length) {
+      const blocks: any[] = [];
+      if (message.content) {
+        blocks.push({ type: 'text', text: message.content });
+      }
+      for (const call of message.toolCalls) {
+        blocks.push({
+          type: 'tool_use',
+          id: call.id,
+          name: encodeToolName(call.name),
+          input: call.arguments
+        });
+      }
+      result.push({ role: 'assistant', content: blocks });
+      continue;
+    }
+
+    // A user note after tool results joins the tool_result message (roles must alternate)
+    const last = result[result.length - 1];
+    if (message.role === 'user' && last?.role === 'user' && Array.isArray(last.content)) {
+      if (message.parts?.length) {
+        last.content.push(...toAnthropicContent(message.parts));
+      } else {
+        last.content.push({ type: 'text', text: message.content });
+      }
+      continue;
+    }
+
+    if (message.role === 'user' && message.parts?.length) {
+      result.push({ role: 'user', content: toAnthropicContent(message.parts) });
+      continue;
+    }
+
+    result.push({ role: message.role, content: message.content });
+  }
+
+  return result;
+}
+
+/**
+ * Convert messages to OpenAI format (tool_calls / role 'tool', content parts)
+ */
+export function toOpenAIMessages(messages: ChatMessage[]): any[] {
+  return messages.map(message => {
+    if (message.role === 'tool') {
+      return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+    }
+    if (message.role === 'assistant' && message.toolCalls?.length) {
+      return {
+        role: 'assistant',
+        content: message.content || null,
+        tool_calls: message.toolCalls.map(call => ({
+          id: call.id,
+          type: 'function',
+          function: {
+            name: encodeToolName(call.name),
+            arguments: JSON.stringify(call.arguments)
+          }
+        }))
+      };
+    }
+    if (message.role === 'user' && message.parts?.length) {
+      return { role: 'user', content: toOpenAIContent(message.parts) };
+    }
+    return { role: message.role, content: message.content };
+  });
+}
+
+/**
+ * Convert messages to Ollama format (arguments as objects, no call ids, images array)
+ */
+export function toOllamaMessages(messages: ChatMessage[]): any[] {
+  return messages.map(message => {
+    if (message.role === 'tool') {
+      return {
+        role: 'tool',
+        content: message.content,
+        ...(message.toolName ? { tool_name: encodeToolName(message.toolName) } : {})
+      };
+    }
+    if (message.role === 'assistant' && message.toolCalls?.length) {
+      return {
+        role: 'assistant',
+        content: message.content,
+        tool_calls: message.toolCalls.map(call => ({
+          function: {
+            name: encodeToolName(call.name),
+            arguments: call.arguments
+          }
+        }))
+      };
+    }
+    if (message.role === 'user' && message.parts?.length) {
+      return { role: 'user', ...toOllamaContent(message.parts) };
+    }
+    return { role: message.role, content: message.content };
+  });
+}
+
+/**
+ * Flatten tool traffic into plain text messages
+ * For adapters without native tool support - mirrors the text protocol
+ * that tool-parser.ts understands.
+ */
+export function flattenToolMessages(messages: ChatMessage[]): Array<{ role: 'system' | 'user' | 'assistant'; content: string }> {
+  return messages.map(message => {
+    if (message.role === 'tool') {
+      return {
+        role: 'user' as const,
+        content: `Tool result from ${message.toolName || 'tool'}:\n\n${message.content}`
+      };
+    }
+    if (message.role === 'assistant' && message.toolCalls?.length) {
+      const calls = message.toolCalls
+        .map(call => JSON.stringify({ tool: call.name, params: call.arguments }))
+        .join('\n');
+      return {
+        role: 'assistant' as const,
+        content: [message.content, calls].filter(Boolean).join('\n\n')
+      };
+    }
+    return { role: message.role, content: message.content };
+  });
+}
+
+/**
+ * Parse OpenAI-style tool_calls (OpenAI and Ollama responses)
+ */
+export function fromOpenAIToolCalls(toolCalls: any[] | undefined): ChatToolCall[] {
+  if (!Array.isArray(toolCalls)) return [];
+  return toolCalls
+    .filter(call => call?.function?.name)
+    .map(call => ({
+      id: call.id || createToolCallId(),
+      name: decodeToolName(call.function.name),
+      arguments: parseToolArguments(call.function.arguments)
+    }));
+}
@@ -11,8 +11,10 @@
  */
 
 import type { LLM } from '../../@OneObjectInterfaces.js';
-import type { LLMAdapter, AdapterCapabilities, ChatMessage, ChatOptions, ChatResult } from './types.js';
+import type { LLMAdapter, AdapterCapabilities, ChatMessage, ChatOptions, ChatResult, EmbedOptions, EmbedResult } from './types.js';
 import type { LLMPlatform } from '../llm-platform.js';
+import { flattenToolMessages } from './tool-format.js';
+import { abortable } from '../cancellation.js';
 import { createMessageBus } from '@refinio/one.core/lib/message-bus.js';
 
 const MessageBus = createMessageBus('TransformersAdapter');
@@ -76,13 +78,16 @@ export class TransformersAdapter implements LLMAdapter {
     const maxTokens = options?.maxTokens ?? llm.maxTokens ?? 2048;
 
     try {
-      const response = await this.platform.chatWithLocal(modelId, messages, {
+      // No native tool support - tool traffic is rendered as text
+      // Platforms that cannot interrupt inference still honour the signal: the result is discarded
+      const response = await abortable(this.platform.chatWithLocal(modelId, flattenToolMessages(messages), {
         onStream: options?.onStream,
         temperature,
         maxTokens,
         format: (options as any)?.format,
-        topicId: options?.topicId
-      });
+        topicId: options?.topicId,
+        signal: options?.signal
+      }), options?.signal);
 
       return this.normalizeResponse(response);
     } catch (error: any) {
@@ -91,6 +96,19 @@ export class TransformersAdapter implements LLMAdapter {
     }
   }
 
+  /**
+   * Embed texts with a local feature-extraction model (e.g. all-MiniLM-L6-v2)
+   */
+  async embed(llm: LLM, texts: string[], options?: EmbedOptions): Promise<EmbedResult> {
+    if (!this.platform?.embedLocal) {
+      throw new Error('Local embeddings not supported on this platform - LLMPlatform.embedLocal not available');
+    }
+
+    const modelId = llm.modelId || llm.name;
+    const vectors = await abortable(this.platform.embedLocal(modelId, texts, { signal: options?.signal }), options?.signal);
+    return { vectors, model: modelId, dimensions: vectors[0]?.length ?? 0 };
+  }
+
   /**
    * Normalize response to standard ChatResult
    */
@@ -9,13 +9,74 @@
  */
 
 import type { LLM } from '../../@OneObjectInterfaces.js';
+import type { LLMRequestClass } from '../../models/ai/types.js';
 
 /**
  * Chat message format (standard across all adapters)
+ *
+ * Assistant messages may carry the tool calls the model requested;
+ * 'tool' messages carry the result for one of those calls.
  */
 export interface ChatMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string; // Text-only rendering - always set, also when parts are given
+  parts?: ChatContentPart[]; // user only - multimodal content, sent instead of content
+  toolCalls?: ChatToolCall[]; // assistant only
+  toolCallId?: string; // tool only - id of the ChatToolCall this answers
+  toolName?: string; // tool only - name of the tool that produced the result
+}
+
+/**
+ * Image content - a ONE.core BLOB with its base64 data once loaded
+ * Without data adapters send a textual placeholder.
+ */
+export interface ChatImagePart {
+  type: 'image';
+  blobHash: string;
+  mimeType: string;
+  name?: string;
+  data?: string; // base64
+}
+
+/**
+ * Typed content part of a multimodal message
+ * Document parts carry text extracted from an attachment.
+ */
+export type ChatContentPart =
+  | { type: 'text'; text: string }
+  | ChatImagePart
+  | { type: 'document'; name: string; mimeType?: string; text: string };
+
+/**
+ * Tool definition passed to the model (provider-neutral)
+ * Adapters translate this to Anthropic `tools`, OpenAI `tools` or Ollama `tools`.
+ */
+export interface ChatToolDefinition {
+  /** Full tool name as understood by AIToolExecutor (e.g. 'mcp:filesystem:read_file') */
+  name: string;
+  description: string;
+  /** JSON schema describing the tool parameters */
+  inputSchema: Record<string, unknown>;
+}
+
+/**
+ * Structured tool call returned by the model
+ */
+export interface ChatToolCall {
+  /** Provider call id (generated for providers that don't supply one) */
+  id: string;
+  /** Full tool name (decoded back from the provider-safe name) */
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+/**
+ * Stable system prompt prefix segments for providers with prompt caching
+ * Segments appear in this order at the start of the system prompt (PromptParts
+ * part1, part2). cacheKey changes whenever the segment content changes.
+ */
+export interface PromptCacheHint {
+  segments: Array<{ text: string; cacheKey: string }>;
 }
 
 /**
@@ -31,7 +92,13 @@ export interface ChatOptions {
   onStream?: (chunk: string) => void;
   onThinkingStream?: (chunk: string) => void;
   disableTools?: boolean;
+  tools?: ChatToolDefinition[]; // Native tool definitions (adapters with toolCalls capability)
+  toolChoice?: 'auto' | 'none'; // 'none' = tools are described but must not be called
   apiKey?: string; // For cloud providers
+  promptCache?: PromptCacheHint; // Cache breakpoints for the system prompt (Anthropic)
+  signal?: AbortSignal; // Cancels the request - adapters must abort their HTTP call / inference
+  requestClass?: LLMRequestClass; // Rate limiter queue priority for cloud APIs (default: interactive)
+  keepAlive?: string; // How long Ollama keeps the model loaded afterwards ('-1' forever, '10m', '0') - default: forever
 }
 
 /**
@@ -46,11 +113,39 @@ export interface ChatResult {
     promptTokens: number;
     completionTokens: number;
     totalTokens: number;
+    /** Prompt tokens written to the provider's prompt cache (included in promptTokens) */
+    cacheCreationTokens?: number;
+    /** Prompt tokens served from the provider's prompt cache (included in promptTokens) */
+    cacheReadTokens?: number;
   };
   finishReason?: 'stop' | 'length' | 'tool_calls' | 'error';
+  toolCalls?: ChatToolCall[]; // Native tool calls requested by the model
   raw?: any; // Provider-specific raw response
 }
 
+/**
+ * Options for embedding operations
+ */
+export interface EmbedOptions {
+  signal?: AbortSignal;
+  // API key for providers that need one (resolved by LLMManager)
+  apiKey?: string;
+  // Auth headers for a protected Ollama server
+  authHeaders?: Record<string, string>;
+}
+
+/**
+ * Result from an embedding operation
+ * Vectors from different models (or dimensions) are not comparable -
+ * consumers store model and dimensions alongside the vectors.
+ */
+export interface EmbedResult {
+  vectors: number[][];
+  /** Model that produced the vectors (as reported by the backend when available) */
+  model: string;
+  dimensions: number;
+}
+
 /**
  * Adapter capabilities - what the adapter can do
  */
@@ -91,11 +186,24 @@ export interface LLMAdapter {
    */
   canHandle(llm: LLM): boolean;
 
+  /**
+   * Check if the given model can use native tool calling (optional)
+   * Defaults to capabilities.toolCalls when not implemented.
+   * Server adapters override this because tool support varies per model.
+   */
+  supportsToolCalls?(llm: LLM): boolean;
+
   /**
    * Execute a chat completion
    */
   chat(llm: LLM, messages: ChatMessage[], options?: ChatOptions): Promise<ChatResult>;
 
+  /**
+   * Embed texts with the given embedding model (adapters with embeddings capability)
+   * Returns one vector per text, in input order.
+   */
+  embed?(llm: LLM, texts: string[], options?: EmbedOptions): Promise<EmbedResult>;
+
   /**
    * Test connection to the backend (optional)
    * Returns true if the backend is reachable and the model is available
@@ -124,6 +232,21 @@ export interface LLMAdapterRegistry {
    */
   getAdapter(llm: LLM): LLMAdapter | null;
 
+  /**
+   * Get the backend adapter for an LLM, bypassing the override adapter
+   */
+  getBackendAdapter(llm: LLM): LLMAdapter | null;
+
+  /**
+   * Set (or remove with null) an adapter that takes precedence for every LLM it can handle
+   */
+  setOverride(adapter: LLMAdapter | null): void;
+
+  /**
+   * Get the override adapter, if set
+   */
+  getOverride(): LLMAdapter | null;
+
   /**
    * Get all registered adapters
    */
@@ -3,21 +3,74 @@
  *
  * Manages parallel execution of LLM requests based on resource constraints.
  * Allows:
- * - Remote APIs (Claude, OpenAI) to run in parallel (unlimited)
+ * - Remote APIs (Claude, OpenAI) to run in parallel (unlimited - requests/min and
+ *   tokens/min are enforced per API key by ProviderRateLimiter in the HTTP clients)
  * - Remote servers (remote Ollama/LM Studio) to run in parallel (unlimited)
  * - Local servers (local Ollama/LM Studio) to have limited concurrency (1 per instance)
+ *
+ * Limited groups schedule by request class (interactive > analysis > background),
+ * then topic priority, then per-topic round-robin so one busy topic cannot
+ * starve the others. Queued background work yields to interactive traffic.
+ *
+ * Limitation: preemption only reorders the queue. A request that holds a slot
+ * is never paused or cancelled for a higher class - a running background
+ * generation on a local server finishes before the interactive request starts
+ * (Ollama cannot suspend a generation, and cancelling would discard its work).
  */
 
-import { LLMResourceType, type LLMConcurrencyConfig } from '../models/ai/types.js';
+import { LLMResourceType, type LLMConcurrencyConfig, type LLMRequestClass } from '../models/ai/types.js';
+import { createAbortError, throwIfAborted } from './cancellation.js';
 
 interface ActiveRequest {
   requestId: string;
   modelId: string;
   topicId: string;
+  requestClass: LLMRequestClass;
   startTime: number;
   concurrencyGroupId: string;
 }
 
+interface PendingRequest {
+  requestId: string;
+  modelId: string;
+  topicId: string;
+  priority: number;
+  requestClass: LLMRequestClass;
+  queuedAt: number;
+  resolve: () => void;
+}
+
+interface ClassWaits {
+  granted: number;
+  waits: number[]; // Recent wait times (ms), newest last
+  maxWaitMs: number;
+}
+
+/**
+ * Queue depth and wait times of one concurrency group
+ */
+export interface ConcurrencyGroupMetrics {
+  groupId: string;
+  maxConcurrent: number | null;
+  active: number;
+  queued: Record<LLMRequestClass, number>;
+  waits: Record<LLMRequestClass, { granted: number; avgWaitMs: number; p95WaitMs: number; maxWaitMs: number }>;
+  /** Queued background requests pushed back by interactive requests */
+  preempted: number;
+  topics: Array<{ topicId: string; active: number; queued: number }>;
+}
+
+// Request classes by rank - shared with the provider rate limiter
+export const REQUEST_CLASSES: LLMRequestClass[] = ['interactive', 'analysis', 'background'];
+export const CLASS_RANK: Record<LLMRequestClass, number> = { interactive: 0, analysis: 1, background: 2 };
+
+// Each minute in the queue promotes a request by one class (no starvation)
+export const AGING_MS = 60_000;
+// Background work waits until interactive traffic on the group has been quiet this long
+const BACKGROUND_YIELD_MS = 3_000;
+// Wait samples kept per class for avg/p95
+const WAIT_SAMPLES = 100;
+
 export class LLMConcurrencyManager {
   // Active requests per concurrency group
   private activeRequests: Map<string, Set<ActiveRequest>>;
@@ -26,19 +79,27 @@ export class LLMConcurrencyManager {
   private modelConfigs: Map<string, LLMConcurrencyConfig>;
 
   // Queue of pending requests per concurrency group
-  private pendingQueues: Map<string, Array<{
-    requestId: string;
-    modelId: string;
-    topicId: string;
-    priority: number;
-    queuedAt: number;
-    resolve: () => void;
-  }>>;
+  // Dispatch order: class (with aging) > priority > least recently served topic > FIFO
+  private pendingQueues: Map<string, PendingRequest[]>;
+
+  // Per group: last interactive request start/end, topic → last grant time
+  private lastInteractiveAt: Map<string, number>;
+  private topicLastServed: Map<string, Map<string, number>>;
+  private yieldTimers: Map<string, ReturnType<typeof setTimeout>>;
+
+  // Per group metrics
+  private classWaits: Map<string, Record<LLMRequestClass, ClassWaits>>;
+  private preemptedCount: Map<string, number>;
 
   constructor() {
     this.activeRequests = new Map();
     this.modelConfigs = new Map();
     this.pendingQueues = new Map();
+    this.lastInteractiveAt = new Map();
+    this.topicLastServed = new Map();
+    this.yieldTimers = new Map();
+    this.classWaits = new Map();
+    this.preemptedCount = new Map();
   }
 
   /**
@@ -105,8 +166,22 @@ export class LLMConcurrencyManager {
   /**
    * Acquire slot for a request (waits if necessary)
    * Returns immediately if slot available, or queues and waits
+   *
+   * Interactive requests preempt queued background work: background requests
+   * only start once no interactive/analysis work is queued and interactive
+   * traffic on the group has been quiet for BACKGROUND_YIELD_MS.
+   *
+   * An aborted signal withdraws the request from the queue (rejects with AbortError).
    */
-  async acquireSlot(modelId: string, topicId: string, priority: number = 5): Promise<string> {
+  async acquireSlot(
+    modelId: string,
+    topicId: string,
+    priority: number = 5,
+    requestClass: LLMRequestClass = 'interactive',
+    signal?: AbortSignal
+  ): Promise<string> {
+    throwIfAborted(signal);
+
     // Get or infer config
     let config = this.modelConfigs.get(modelId);
     if (!config) {
@@ -118,52 +193,59 @@ export class LLMConcurrencyManager {
     }
 
     const { concurrencyGroupId, maxConcurrent } = config;
+    const requestId = `req-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
     // Unlimited concurrency - grant immediately
     if (maxConcurrent === null) {
-      const requestId = `req-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-      this.trackActiveRequest(requestId, modelId, topicId, concurrencyGroupId);
+      this.trackActiveRequest(requestId, modelId, topicId, requestClass, concurrencyGroupId);
+      this.recordWait(concurrencyGroupId, requestClass, 0);
       console.log(`[ConcurrencyManager] ✅ Immediate slot for ${modelId} (unlimited concurrency)`);
       return requestId;
     }
 
-    // Check if slot available
-    const active = this.activeRequests.get(concurrencyGroupId) || new Set();
-    if (active.size < maxConcurrent) {
-      const requestId = `req-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-      this.trackActiveRequest(requestId, modelId, topicId, concurrencyGroupId);
-      console.log(`[ConcurrencyManager] ✅ Slot acquired for ${modelId} (${active.size + 1}/${maxConcurrent})`);
-      return requestId;
+    if (requestClass === 'interactive') {
+      this.lastInteractiveAt.set(concurrencyGroupId, Date.now());
+      const queue = this.pendingQueues.get(concurrencyGroupId) ?? [];
+      const backgroundQueued = queue.filter(entry => entry.requestClass === 'background').length;
+      if (backgroundQueued > 0) {
+        this.preemptedCount.set(concurrencyGroupId, (this.preemptedCount.get(concurrencyGroupId) ?? 0) + backgroundQueued);
+        console.log(`[ConcurrencyManager] ⏸️ Interactive request for ${modelId} preempts ${backgroundQueued} queued background request(s)`);
+      }
     }
 
-    // No slot available - queue and wait
-    console.log(`[ConcurrencyManager] ⏳ Queuing request for ${modelId} (${active.size}/${maxConcurrent} active)`);
-    return new Promise((resolve) => {
-      const requestId = `req-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-
+    return new Promise((resolve, reject) => {
       if (!this.pendingQueues.has(concurrencyGroupId)) {
         this.pendingQueues.set(concurrencyGroupId, []);
       }
 
+      const onAbort = () => {
+        if (this.withdraw(concurrencyGroupId, requestId)) {
+          console.log(`[ConcurrencyManager] ✖️ Withdrew queued ${requestClass} request for ${modelId}`);
+          reject(createAbortError());
+        }
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
       this.pendingQueues.get(concurrencyGroupId)!.push({
         requestId,
         modelId,
         topicId,
         priority,
+        requestClass,
         queuedAt: Date.now(),
         resolve: () => {
-          this.trackActiveRequest(requestId, modelId, topicId, concurrencyGroupId);
+          signal?.removeEventListener('abort', onAbort);
+          this.trackActiveRequest(requestId, modelId, topicId, requestClass, concurrencyGroupId);
           resolve(requestId);
         }
       });
 
-      // Sort queue by priority (highest first), then by queuedAt (oldest first)
-      this.pendingQueues.get(concurrencyGroupId)!.sort((a, b) => {
-        if (a.priority !== b.priority) {
-          return b.priority - a.priority;
-        }
-        return a.queuedAt - b.queuedAt;
-      });
+      this.processNextQueued(concurrencyGroupId);
+
+      if (this.pendingQueues.get(concurrencyGroupId)?.some(entry => entry.requestId === requestId)) {
+        const active = this.activeRequests.get(concurrencyGroupId)?.size ?? 0;
+        console.log(`[ConcurrencyManager] ⏳ Queuing ${requestClass} request for ${modelId} (${active}/${maxConcurrent} active)`);
+      }
     });
   }
 
@@ -176,6 +258,9 @@ export class LLMConcurrencyManager {
       const request = Array.from(requests).find(r => r.requestId === requestId);
       if (request) {
         requests.delete(request);
+        if (request.requestClass === 'interactive') {
+          this.lastInteractiveAt.set(groupId, Date.now());
+        }
         console.log(`[ConcurrencyManager] 🔓 Released slot for ${request.modelId} (${requests.size} active)`);
 
         // Process next queued request for this group
@@ -186,7 +271,20 @@ export class LLMConcurrencyManager {
   }
 
   /**
-   * Process next queued request for a concurrency group
+   * Remove a queued request (false if it already got its slot)
+   */
+  private withdraw(concurrencyGroupId: string, requestId: string): boolean {
+    const queue = this.pendingQueues.get(concurrencyGroupId);
+    const index = queue?.findIndex(entry => entry.requestId === requestId) ?? -1;
+    if (index === -1) {
+      return false;
+    }
+    queue!.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Grant free slots of a concurrency group to queued requests
    */
   private processNextQueued(concurrencyGroupId: string): void {
     const queue = this.pendingQueues.get(concurrencyGroupId);
@@ -194,22 +292,125 @@ export class LLMConcurrencyManager {
       return;
     }
 
-    // Check if slot available
-    const config = Array.from(this.modelConfigs.values()).find(c => c.concurrencyGroupId === concurrencyGroupId);
-    const maxConcurrent = config?.maxConcurrent || 1;
-    const active = this.activeRequests.get(concurrencyGroupId) || new Set();
+    const maxConcurrent = this.getGroupLimit(concurrencyGroupId);
+
+    while (queue.length > 0) {
+      const active = this.activeRequests.get(concurrencyGroupId)?.size ?? 0;
+      if (maxConcurrent !== null && active >= maxConcurrent) {
+        return;
+      }
+
+      const index = this.selectNext(concurrencyGroupId, queue);
+      if (index === -1) {
+        // Only yielding background work left - retry when the quiet period ends
+        this.scheduleYieldCheck(concurrencyGroupId);
+        return;
+      }
 
-    if (active.size < maxConcurrent) {
-      const next = queue.shift()!;
-      console.log(`[ConcurrencyManager] 🚀 Processing queued request for ${next.modelId} (waited ${Date.now() - next.queuedAt}ms)`);
+      const [next] = queue.splice(index, 1);
+      const waited = Date.now() - next.queuedAt;
+      this.recordWait(concurrencyGroupId, next.requestClass, waited);
+      this.markTopicServed(concurrencyGroupId, next.topicId);
+      if (waited > 0) {
+        console.log(`[ConcurrencyManager] 🚀 Processing queued ${next.requestClass} request for ${next.modelId} (waited ${waited}ms)`);
+      }
       next.resolve();
     }
   }
 
+  /**
+   * Pick the queued request to run next (-1 = nothing may run yet)
+   */
+  private selectNext(concurrencyGroupId: string, queue: PendingRequest[]): number {
+    const now = Date.now();
+    const quiet = now - (this.lastInteractiveAt.get(concurrencyGroupId) ?? 0) >= BACKGROUND_YIELD_MS;
+    const served = this.topicLastServed.get(concurrencyGroupId);
+    const rank = (entry: PendingRequest) =>
+      Math.max(0, CLASS_RANK[entry.requestClass] - Math.floor((now - entry.queuedAt) / AGING_MS));
+
+    let best = -1;
+    for (let i = 0; i < queue.length; i++) {
+      const entry = queue[i];
+      const entryRank = rank(entry);
+      if (entryRank === CLASS_RANK.background && !quiet) continue;
+      if (best === -1) {
+        best = i;
+        continue;
+      }
+
+      const current = queue[best];
+      const currentRank = rank(current);
+      if (entryRank !== currentRank) {
+        if (entryRank < currentRank) best = i;
+        continue;
+      }
+      if (entry.priority !== current.priority) {
+        if (entry.priority > current.priority) best = i;
+        continue;
+      }
+      // Fairness: the topic served longest ago goes first
+      const entryServed = served?.get(entry.topicId) ?? 0;
+      const currentServed = served?.get(current.topicId) ?? 0;
+      if (entryServed !== currentServed) {
+        if (entryServed < currentServed) best = i;
+        continue;
+      }
+      if (entry.queuedAt < current.queuedAt) best = i;
+    }
+    return best;
+  }
+
+  private scheduleYieldCheck(concurrencyGroupId: string): void {
+    if (this.yieldTimers.has(concurrencyGroupId)) {
+      return;
+    }
+    const elapsed = Date.now() - (this.lastInteractiveAt.get(concurrencyGroupId) ?? 0);
+    const delay = Math.max(50, BACKGROUND_YIELD_MS - elapsed);
+    this.yieldTimers.set(concurrencyGroupId, setTimeout(() => {
+      this.yieldTimers.delete(concurrencyGroupId);
+      this.processNextQueued(concurrencyGroupId);
+    }, delay));
+  }
+
+  private markTopicServed(concurrencyGroupId: string, topicId: string): void {
+    if (!this.topicLastServed.has(concurrencyGroupId)) {
+      this.topicLastServed.set(concurrencyGroupId, new Map());
+    }
+    this.topicLastServed.get(concurrencyGroupId)!.set(topicId, Date.now());
+  }
+
+  private recordWait(concurrencyGroupId: string, requestClass: LLMRequestClass, waitMs: number): void {
+    if (!this.classWaits.has(concurrencyGroupId)) {
+      this.classWaits.set(concurrencyGroupId, {
+        interactive: { granted: 0, waits: [], maxWaitMs: 0 },
+        analysis: { granted: 0, waits: [], maxWaitMs: 0 },
+        background: { granted: 0, waits: [], maxWaitMs: 0 }
+      });
+    }
+    const waits = this.classWaits.get(concurrencyGroupId)![requestClass];
+    waits.granted++;
+    waits.maxWaitMs = Math.max(waits.maxWaitMs, waitMs);
+    waits.waits.push(waitMs);
+    if (waits.waits.length > WAIT_SAMPLES) {
+      waits.waits.shift();
+    }
+  }
+
+  private getGroupLimit(concurrencyGroupId: string): number | null {
+    const config = Array.from(this.modelConfigs.values()).find(c => c.concurrencyGroupId === concurrencyGroupId);
+    return config ? config.maxConcurrent : 1;
+  }
+
   /**
    * Track active request
    */
-  private trackActiveRequest(requestId: string, modelId: string, topicId: string, concurrencyGroupId: string): void {
+  private trackActiveRequest(
+    requestId: string,
+    modelId: string,
+    topicId: string,
+    requestClass: LLMRequestClass,
+    concurrencyGroupId: string
+  ): void {
     if (!this.activeRequests.has(concurrencyGroupId)) {
       this.activeRequests.set(concurrencyGroupId, new Set());
     }
@@ -218,6 +419,7 @@ export class LLMConcurrencyManager {
       requestId,
       modelId,
       topicId,
+      requestClass,
       startTime: Date.now(),
       concurrencyGroupId
     });
@@ -262,6 +464,81 @@ export class LLMConcurrencyManager {
     };
   }
 
+  /**
+   * Queue depth, wait times and per-topic load of every concurrency group
+   */
+  getMetrics(): ConcurrencyGroupMetrics[] {
+    const groupIds = new Set([
+      ...this.activeRequests.keys(),
+      ...this.pendingQueues.keys(),
+      ...this.classWaits.keys()
+    ]);
+
+    return [...groupIds].map(groupId => {
+      const active = [...(this.activeRequests.get(groupId) ?? [])];
+      const queue = this.pendingQueues.get(groupId) ?? [];
+      const classWaits = this.classWaits.get(groupId);
+
+      const queued = {} as ConcurrencyGroupMetrics['queued'];
+      const waits = {} as ConcurrencyGroupMetrics['waits'];
+      for (const requestClass of REQUEST_CLASSES) {
+        queued[requestClass] = queue.filter(entry => entry.requestClass === requestClass).length;
+        const samples = classWaits?.[requestClass].waits ?? [];
+        const sorted = [...samples].sort((a, b) => a - b);
+        waits[requestClass] = {
+          granted: classWaits?.[requestClass].granted ?? 0,
+          avgWaitMs: sorted.length > 0 ? Math.round(sorted.reduce((sum, w) => sum + w, 0) / sorted.length) : 0,
+          p95WaitMs: sorted.length > 0 ? sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.95))] : 0,
+          maxWaitMs: classWaits?.[requestClass].maxWaitMs ?? 0
+        };
+      }
+
+      const topics = new Map<string, { topicId: string; active: number; queued: number }>();
+      const topicEntry = (topicId: string) => {
+        if (!topics.has(topicId)) topics.set(topicId, { topicId, active: 0, queued: 0 });
+        return topics.get(topicId)!;
+      };
+      active.forEach(request => topicEntry(request.topicId).active++);
+      queue.forEach(entry => topicEntry(entry.topicId).queued++);
+
+      return {
+        groupId,
+        maxConcurrent: this.getGroupLimit(groupId),
+        active: active.length,
+        queued,
+        waits,
+        preempted: this.preemptedCount.get(groupId) ?? 0,
+        topics: [...topics.values()]
+      };
+    });
+  }
+
+  /**
+   * Register a model with the concurrency group of its server, unless it already is
+   * Requests routed to a server (OllamaScheduler) then queue behind that server's work.
+   */
+  ensureModel(modelId: string, provider: string, baseUrl?: string): void {
+    const existing = this.modelConfigs.get(modelId);
+    if (!existing || (baseUrl && existing.baseUrl !== baseUrl)) {
+      this.registerModel(modelId, this.inferConcurrencyConfig(modelId, provider, baseUrl));
+    }
+  }
+
+  /**
+   * Active and queued requests in a model's concurrency group
+   */
+  getModelLoad(modelId: string): { active: number; queued: number; maxConcurrent: number | null } {
+    const config = this.modelConfigs.get(modelId);
+    if (!config) {
+      return { active: 0, queued: 0, maxConcurrent: null };
+    }
+    return {
+      active: this.activeRequests.get(config.concurrencyGroupId)?.size ?? 0,
+      queued: this.pendingQueues.get(config.concurrencyGroupId)?.length ?? 0,
+      maxConcurrent: config.maxConcurrent
+    };
+  }
+
   /**
    * Check if a model can run immediately (without waiting)
    */
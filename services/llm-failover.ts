@@ -0,0 +1,203 @@
+/**
+ * LLM Failover
+ *
+ * Building blocks for automatic failover in LLMManager.chat():
+ * - Per-model circuit breaker (skip models that keep failing)
+ * - Retry with exponential backoff for transient errors
+ * - Fallback chain resolution (requested model first, then the configured chain)
+ *
+ * Circuit states:
+ * - closed:    requests flow normally
+ * - open:      requests are skipped until the cooldown expires
+ * - half_open: one trial request is let through; success closes, failure re-opens
+ *
+ * FAILED errors (bad API key, unknown model) open the circuit immediately with a
+ * long cooldown. UNHEALTHY errors (network, timeouts) open it after several
+ * consecutive failures with a short cooldown.
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerConfig {
+  failureThreshold: number;  // Consecutive UNHEALTHY failures before opening
+  unhealthyCooldownMs: number;
+  failedCooldownMs: number;
+}
+
+export interface RetryConfig {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface CircuitInfo {
+  modelId: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt?: number;
+  retryAt?: number;
+  lastError?: string;
+}
+
+/**
+ * Emitted when a request is answered by a different model than requested
+ */
+export interface ModelSwitchEvent {
+  topicId?: string;
+  requestedModelId: string;
+  fromModelId: string;
+  toModelId: string;
+  reason: 'circuit_open' | 'error' | 'budget';  // budget: hard spending limit, downgraded to a local model
+  error?: string;
+  /** Chunks streamed by the failed model are void - the fallback streams from the start */
+  restartStream: boolean;
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_CONFIG: CircuitBreakerConfig = {
+  failureThreshold: 3,
+  unhealthyCooldownMs: 30_000,
+  failedCooldownMs: 5 * 60_000
+};
+
+export const DEFAULT_RETRY_CONFIG: RetryConfig = {
+  maxRetries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 8_000
+};
+
+interface CircuitEntry {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt?: number;
+  retryAt?: number;
+  trialInFlight: boolean;
+  lastError?: string;
+}
+
+export class ModelCircuitBreaker {
+  private circuits = new Map<string, CircuitEntry>();
+  private config: CircuitBreakerConfig;
+
+  constructor(config: Partial<CircuitBreakerConfig> = {}) {
+    this.config = { ...DEFAULT_CIRCUIT_BREAKER_CONFIG, ...config };
+  }
+
+  /**
+   * Whether a request to this model may be attempted now
+   * An expired open circuit moves to half_open and admits a single trial request.
+   */
+  canRequest(modelId: string): boolean {
+    const entry = this.circuits.get(modelId);
+    if (!entry || entry.state === 'closed') {
+      return true;
+    }
+
+    if (entry.state === 'open') {
+      if (Date.now() < (entry.retryAt ?? 0)) {
+        return false;
+      }
+      entry.state = 'half_open';
+      entry.trialInFlight = false;
+    }
+
+    if (entry.trialInFlight) {
+      return false;
+    }
+    entry.trialInFlight = true;
+    return true;
+  }
+
+  recordSuccess(modelId: string): void {
+    this.circuits.delete(modelId);
+  }
+
+  /**
+   * End a half-open trial without a verdict (request was cancelled)
+   */
+  release(modelId: string): void {
+    const entry = this.circuits.get(modelId);
+    if (entry) {
+      entry.trialInFlight = false;
+    }
+  }
+
+  /**
+   * @param permanent - FAILED health status (configuration error) - opens immediately
+   */
+  recordFailure(modelId: string, permanent: boolean, error?: Error): void {
+    const entry = this.circuits.get(modelId) ?? { state: 'closed' as CircuitState, consecutiveFailures: 0, trialInFlight: false };
+    entry.consecutiveFailures++;
+    entry.trialInFlight = false;
+    entry.lastError = error?.message;
+
+    if (permanent || entry.state === 'half_open' || entry.consecutiveFailures >= this.config.failureThreshold) {
+      entry.state = 'open';
+      entry.openedAt = Date.now();
+      entry.retryAt = entry.openedAt + (permanent ? this.config.failedCooldownMs : this.config.unhealthyCooldownMs);
+    }
+
+    this.circuits.set(modelId, entry);
+  }
+
+  getState(modelId: string): CircuitState {
+    const entry = this.circuits.get(modelId);
+    if (entry?.state === 'open' && Date.now() >= (entry.retryAt ?? 0)) {
+      return 'half_open';
+    }
+    return entry?.state ?? 'closed';
+  }
+
+  /**
+   * Close circuits after the user fixed something (API key, server config)
+   * Without a modelId all circuits are reset.
+   */
+  reset(modelId?: string): void {
+    if (modelId) {
+      this.circuits.delete(modelId);
+    } else {
+      this.circuits.clear();
+    }
+  }
+
+  getCircuits(): CircuitInfo[] {
+    return [...this.circuits.entries()].map(([modelId, entry]) => ({
+      modelId,
+      state: this.getState(modelId),
+      consecutiveFailures: entry.consecutiveFailures,
+      openedAt: entry.openedAt,
+      retryAt: entry.retryAt,
+      lastError: entry.lastError
+    }));
+  }
+}
+
+/**
+ * Delay before retry number `attempt` (1-based): exponential with equal jitter
+ */
+export function getBackoffDelay(attempt: number, config: RetryConfig = DEFAULT_RETRY_CONFIG): number {
+  const ceiling = Math.min(config.maxDelayMs, config.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+}
+
+/**
+ * Cancelled requests (stopStreaming, AbortController) must not be retried or failed over
+ *
+ * An error is a cancellation when it is an AbortError (our pipeline, fetch) or
+ * when the request's signal was aborted - SDK clients wrap aborts in their own
+ * error classes, so pass the signal where there is one.
+ */
+export function isCancellationError(error: any, signal?: AbortSignal): boolean {
+  if (signal?.aborted) return true;
+  return error?.name === 'AbortError';
+}
+
+/**
+ * Candidate models for a request: the requested model, then the chain (deduplicated)
+ */
+export function buildFallbackChain(requestedModelId: string, chain: string[] | undefined): string[] {
+  return [...new Set([requestedModelId, ...(chain ?? [])].filter(Boolean))];
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
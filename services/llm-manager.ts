@@ -3,30 +3,14 @@
  * Handles AI model operations with optional MCP integration
  * Can run in Node.js or browser environments
  *
- * TODO: Implement PromptParts handling for abstraction-based context management
- *
- * AIPromptBuilder now returns PromptParts structure:
- * {
- *   part1: { content: string, tokens: number, cacheable: true, cacheKey: string }  // System prompt
- *   part2: { content: string, tokens: number, cacheable: true, cacheKey: string }  // Past subjects
- *   part3: { messages: [], tokens: number, cacheable: boolean }                    // Current messages
- *   part4: { message: string, tokens: number, cacheable: false }                   // New message
- * }
- *
- * LLM Manager should:
- * 1. Detect provider from modelId (Anthropic, OpenAI, Ollama)
- * 2. Format PromptParts appropriately:
- *    - Anthropic: Use formatForAnthropicWithCaching() → system array with cache_control
- *    - OpenAI/Ollama: Use formatForStandardAPI() → messages array
- * 3. Include cache_control metadata in Anthropic API calls
- *
- * Example Anthropic integration:
- *   import { formatForAnthropicWithCaching } from './context-budget-manager.js';
- *   const formatted = formatForAnthropicWithCaching(promptParts);
- *   await chatWithAnthropicHTTP(modelId, {
- *     system: formatted.system,  // Array with cache_control
- *     messages: formatted.messages
- *   });
+ * Prompt caching (PromptParts from AIPromptBuilder):
+ * - part1 (system prompt) and part2 (past subjects) are stable between messages
+ * - Callers that flatten PromptParts (formatForStandardAPI) pass
+ *   options.promptCache = getPromptCacheHint(promptParts); the AnthropicAdapter
+ *   re-splits the system message into cache_control blocks at those boundaries
+ * - PromptResult calls ({promptParts}) use formatForAnthropicWithCaching() directly
+ * - Cache creation/read tokens come back in ChatResult.usage and are tracked per
+ *   topic (getPromptCacheStats) together with the part1/part2 cache keys
  */
 
 import { OEvent } from '@refinio/one.models/lib/misc/OEvent.js';
@@ -36,21 +20,66 @@ import { storeUnversionedObject } from '@refinio/one.core/lib/storage-unversione
 import type { LLMPlatform } from './llm-platform.js';
 import type { SHA256Hash, SHA256IdHash } from '@refinio/one.core/lib/util/type-checks.js';
 import type { HashGroup, Person } from '@refinio/one.core/lib/recipes.js';
+import type { LLM, LLMDiscoveredCapabilities } from '../@OneObjectInterfaces.js';
 
 const MessageBus = createMessageBus('LLMManager');
 import { LLM_RESPONSE_SCHEMA } from '../schemas/llm-response.schema.js';
 import { chatWithOllama, getLocalOllamaModels, parseOllamaModel, cancelAllOllamaRequests, cancelStreamingForTopic } from './ollama.js';
 // Browser-compatible HTTP implementations (pure fetch, no SDK dependencies)
 import { chatWithAnthropicHTTP, testAnthropicApiKey } from './anthropic-http.js';
-import { chatWithOpenAIHTTP, testOpenAIApiKey as testOpenAIKey } from './openai-http.js';
-import * as lmstudio from './lmstudio.js';
+import { chatWithOpenAIHTTP, listOpenAIModels, testOpenAIApiKey as testOpenAIKey } from './openai-http.js';
 import { SystemPromptBuilder } from './system-prompt-builder.js';
 import type { SystemPromptContext } from './system-prompt-builder.js';
-import { formatForAnthropicWithCaching, formatForStandardAPI, type PromptParts } from './context-budget-manager.js';
-import { LLMConcurrencyManager } from './llm-concurrency-manager.js';
-import { getAdapterRegistry, registerDefaultAdapters, type LLMAdapterRegistry, type LLMAdapter, type ChatResult } from './llm-adapters/index.js';
-import { AIToolExecutor, type ToolExecutionContext } from './AIToolExecutor.js';
+import { formatForAnthropicWithCaching, formatForStandardAPI, getPromptCacheHint, type PromptParts } from './context-budget-manager.js';
+import { LLMConcurrencyManager, type ConcurrencyGroupMetrics } from './llm-concurrency-manager.js';
+import type { LLMRequestClass } from '../models/ai/types.js';
+import { getAdapterRegistry, registerDefaultAdapters, OPENAI_COMPATIBLE_PROVIDERS, resolveOpenAICompatibleBaseUrl, type LLMAdapterRegistry, type LLMAdapter, type ChatResult, type ChatMessage, type ChatToolDefinition, type PromptCacheHint, type EmbedOptions, type EmbedResult, createToolCallId, flattenToolMessages, hasImageData, toAnthropicContent, toOpenAIContent, toOllamaContent } from './llm-adapters/index.js';
+import { AIToolExecutor, type ToolExecutionContext, type AgentTurn, type AgentStepEvent } from './AIToolExecutor.js';
+import { parseToolCall } from './tool-parser.js';
+import { calibrateTokenizer, registerRankTable, type BPETokenizerFamily } from './tokenizer.js';
 import { LLMRegistry, getLLMRegistry, type LLMSource } from './llm-registry.js';
+import { abortable, abortableSleep, linkAbortSignals, throwIfAborted } from './cancellation.js';
+import { ModelCircuitBreaker, buildFallbackChain, getBackoffDelay, isCancellationError, DEFAULT_RETRY_CONFIG, type CircuitInfo, type ModelSwitchEvent } from './llm-failover.js';
+import type { FallbackChainManager } from '../models/settings/FallbackChainManager.js';
+import { PromptCacheTracker, type PromptCacheStats } from './prompt-cache-tracker.js';
+import {
+  StructuredOutputTracker,
+  generateStructured,
+  type JsonSchema,
+  type StructuredChatFn,
+  type StructuredMessage,
+  type StructuredOutputResult,
+  type StructuredOutputStats
+} from './structured-output.js';
+import type { ApiKeyVault } from './api-key-vault.js';
+import { ResponseCache, type CacheRequest, type ResponseCacheConfig, type ResponseCacheOptions, type ResponseCacheStats } from './response-cache.js';
+import { UsageLedger, type BudgetStatus, type UsageAggregate, type UsageGroupBy, type UsageQuery } from './usage-ledger.js';
+import type { BudgetManager } from '../models/settings/BudgetManager.js';
+import { computeUsageCost, LOCAL_PROVIDERS } from '../constants/model-pricing.js';
+import { getModelProvider } from '../constants/model-registry.js';
+import { getProviderRateLimiter, isRateLimitError, type RateLimits, type RateLimitState } from './provider-rate-limiter.js';
+import { OllamaScheduler, isServerUnreachableError, type OllamaServerState } from './ollama-scheduler.js';
+import {
+  showOllamaModel,
+  capabilitiesFromOllamaShow,
+  listAnthropicModels,
+  capabilitiesFromAnthropicModel,
+  capabilitiesFromOpenAIModel,
+  parseGGUFMetadata,
+  capabilitiesFromGGUF,
+  sameDiscoveredCapabilities,
+  type AnthropicModelInfo
+} from './capability-discovery.js';
+
+/**
+ * Bytes of a local model file read for its GGUF metadata
+ */
+const GGUF_HEADER_BYTES = 8 * 1024 * 1024;
+
+/**
+ * Parallel /api/show requests during Ollama model discovery
+ */
+const OLLAMA_SHOW_CONCURRENCY = 4;
 
 /**
  * LLM connection health status
@@ -82,7 +111,11 @@ class LLMManager {
   length: any;
   substring: any;
   // Event for streaming chat responses
-  onChatStream = new OEvent<(data: { chunk: string; partial: string }) => void>();
+  onChatStream = new OEvent<(data: { chunk: string; partial: string; topicId?: string; toolStep?: AgentStepEvent }) => void>();
+  // Event when a request is answered by a fallback model
+  onModelSwitch = new OEvent<(event: ModelSwitchEvent) => void>();
+  // Event when an AI or provider reaches its soft or hard spending limit (once per period and level)
+  onBudgetWarning = new OEvent<(status: BudgetStatus) => void>();
   contextLength: any;
   parameters: any;
   capabilities: any;
@@ -107,9 +140,32 @@ class LLMManager {
   private lastHealthCheck: Map<string, number>; // modelId → timestamp
   private readonly HEALTH_CHECK_CACHE_MS = 30000; // Cache health status for 30s
 
+  // Failover: circuit breaker per model + per-AI/per-topic fallback chains
+  private circuitBreaker: ModelCircuitBreaker;
+  private fallbackChainManager?: FallbackChainManager;
+
+  // Prompt cache hit/write statistics per topic
+  private promptCacheTracker: PromptCacheTracker;
+
+  // Measured structured output reliability per model (chatStructured)
+  private structuredOutputTracker: StructuredOutputTracker;
+
+  // Token usage and cost of every call + per-AI/per-provider budgets
+  private usageLedger: UsageLedger;
+  private budgetManager?: BudgetManager;
+  private keyVault?: ApiKeyVault;
+  private responseCache: ResponseCache;
+  private budgetWarnings: Set<string>; // scope:scopeId:periodStart:level already announced
+
+  // Abort controllers of in-flight chat() calls per topic (stopStreaming)
+  private topicRequests: Map<string, Set<AbortController>>;
+
   // Concurrency management
   private concurrencyManager: LLMConcurrencyManager;
 
+  // Server selection for models hosted on several Ollama servers
+  private ollamaScheduler: OllamaScheduler;
+
   // Ollama context cache for conversation continuation and analytics
   private ollamaContextCache: Map<string, number[]>; // topicId → context array
 
@@ -144,6 +200,13 @@ class LLMManager {
     // Initialize health tracking
     this.modelHealth = new Map()
     this.lastHealthCheck = new Map()
+    this.circuitBreaker = new ModelCircuitBreaker()
+    this.promptCacheTracker = new PromptCacheTracker()
+    this.structuredOutputTracker = new StructuredOutputTracker()
+    this.usageLedger = new UsageLedger() // In-memory until setUsageLedger() provides storage
+    this.responseCache = new ResponseCache(undefined, (texts, model) => this.embedForCache(texts, model)) // In-memory until setResponseCache()
+    this.budgetWarnings = new Set()
+    this.topicRequests = new Map()
 
     // Initialize concurrency manager
     this.concurrencyManager = new LLMConcurrencyManager()
@@ -158,12 +221,19 @@ class LLMManager {
     // Initialize LLM registry (in-memory model tracking)
     this.llmRegistry = getLLMRegistry()
 
+    this.ollamaScheduler = new OllamaScheduler(this.llmRegistry, this.concurrencyManager, baseUrl =>
+      this.getOllamaAuthHeadersFor(baseUrl)
+    )
+
     // Propagate platform to adapters that need it (e.g., TransformersAdapter)
     MessageBus.send('debug', `LLMManager: platform=${platform ? 'provided' : 'undefined'}, setPlatform in registry=${('setPlatform' in this.adapterRegistry)}`)
     if (platform && 'setPlatform' in this.adapterRegistry) {
       MessageBus.send('debug', 'LLMManager: Calling registry.setPlatform()')
       ;(this.adapterRegistry as any).setPlatform(platform)
     }
+    if (platform) {
+      this.registerTokenizerTables(platform)
+    }
 
     // Initialize system prompt builder
     this.systemPromptBuilder = new SystemPromptBuilder(
@@ -187,6 +257,20 @@ class LLMManager {
       ;(this.adapterRegistry as any).setPlatform(platform)
       MessageBus.send('debug', 'LLMManager.setPlatform: Platform propagated to adapter registry')
     }
+    this.registerTokenizerTables(platform)
+  }
+
+  /**
+   * Let the platform's BPE rank tables replace the token estimators (loaded on first use)
+   */
+  private registerTokenizerTables(platform: LLMPlatform): void {
+    const loadRanks = platform.loadTokenizerRanks
+    if (!loadRanks) {
+      return
+    }
+    for (const family of ['gpt', 'llama', 'qwen'] as BPETokenizerFamily[]) {
+      registerRankTable(family, () => loadRanks.call(platform, family))
+    }
   }
 
   /**
@@ -214,6 +298,101 @@ class LLMManager {
     MessageBus.send('debug', 'GlobalSettingsManager set');
   }
 
+  /**
+   * Set the FallbackChainManager for per-AI/per-topic failover chains
+   */
+  setFallbackChainManager(manager: FallbackChainManager): void {
+    this.fallbackChainManager = manager;
+    MessageBus.send('debug', 'FallbackChainManager set');
+  }
+
+  getFallbackChainManager(): FallbackChainManager | undefined {
+    return this.fallbackChainManager;
+  }
+
+  /**
+   * Replace the usage ledger (e.g. with one backed by ONE.core storage)
+   */
+  setUsageLedger(ledger: UsageLedger): void {
+    this.usageLedger = ledger;
+    MessageBus.send('debug', 'UsageLedger set');
+  }
+
+  getUsageLedger(): UsageLedger {
+    return this.usageLedger;
+  }
+
+  /**
+   * Set the BudgetManager for per-AI/per-provider spending limits
+   */
+  setBudgetManager(manager: BudgetManager): void {
+    this.budgetManager = manager;
+    MessageBus.send('debug', 'BudgetManager set');
+  }
+
+  getBudgetManager(): BudgetManager | undefined {
+    return this.budgetManager;
+  }
+
+  /**
+   * Set the encrypted API key vault - UserSettings keys are imported into it
+   */
+  setKeyVault(vault: ApiKeyVault): void {
+    this.keyVault = vault;
+    // A new or rotated key may fix models whose circuit opened on authentication errors
+    vault.onKeysChanged.listen(() => this.circuitBreaker.reset());
+    MessageBus.send('debug', 'ApiKeyVault set');
+  }
+
+  getKeyVault(): ApiKeyVault | undefined {
+    return this.keyVault;
+  }
+
+  /**
+   * Replace the response cache (e.g. with one backed by ONE.core storage)
+   */
+  setResponseCache(cache: ResponseCache): void {
+    cache.configure(this.responseCache.getConfig());
+    this.responseCache = cache;
+    MessageBus.send('debug', 'ResponseCache set');
+  }
+
+  getResponseCache(): ResponseCache {
+    return this.responseCache;
+  }
+
+  /**
+   * Prompt embeddings for the response cache's near-duplicate tier
+   */
+  async embedForCache(texts: string[], model: string): Promise<number[][]> {
+    return (await this.embed(texts, { model })).vectors;
+  }
+
+  /**
+   * API key for a provider: the AI's key from the vault or the provider's default
+   * vault key. UserSettings keys are imported into the vault on first use and
+   * only read directly when there is no vault.
+   */
+  private async resolveApiKey(provider: string, aiId?: string): Promise<string | undefined> {
+    if (this.keyVault) {
+      try {
+        const apiKey = await this.keyVault.getApiKey(provider, aiId);
+        if (apiKey) {
+          return apiKey;
+        }
+        // A key still in UserSettings moves into the vault - afterwards only the vault is read
+        const legacyKey = await this.userSettingsManager?.getApiKey(provider);
+        if (legacyKey) {
+          await this.keyVault.importLegacyKey(provider, legacyKey);
+        }
+        return await this.keyVault.getApiKey(provider, aiId);
+      } catch (error: any) {
+        MessageBus.send('alert', `Key vault lookup for ${provider} failed:`, error.message);
+      }
+    }
+    return await this.userSettingsManager?.getApiKey(provider) || undefined;
+  }
+
   /**
    * Discover models from all configured Ollama servers
    * Uses GlobalLLMSettingsManager to get server list
@@ -409,6 +588,14 @@ class LLMManager {
     }
   }
 
+  /**
+   * Auth headers for an Ollama server - auth is only configured for the server in settings
+   */
+  private async getOllamaAuthHeadersFor(baseUrl: string): Promise<Record<string, string> | undefined> {
+    const configured = this.getOllamaBaseUrl().replace(/\/+$/, '')
+    return baseUrl.replace(/\/+$/, '') === configured ? await this.getOllamaAuthHeaders() : undefined
+  }
+
   /**
    * Pre-warm the LLM connection to reduce cold start delays
    */
@@ -589,11 +776,432 @@ class LLMManager {
     }
   }
 
+  /**
+   * Chat with automatic failover
+   *
+   * Tries the requested model, then the fallback chain (options.fallbackModelIds,
+   * else the topic's chain, else the AI's chain from options.aiId). Transient errors
+   * are retried with backoff before moving on; models with an open circuit are
+   * skipped. A switch is announced via onModelSwitch / options.onModelSwitch before
+   * the fallback model starts streaming.
+   *
+   * options.signal cancels the request at any stage (queue, model call, tool loop);
+   * stopStreaming(topicId) aborts all requests of a topic.
+   *
+   * Cloud requests are checked against the budgets of options.aiId and the
+   * model's provider first - see applyBudgets().
+   *
+   * options.cache (true or ResponseCacheOptions) answers repeated requests from
+   * the response cache - see ResponseCache.
+   */
   async chat(messages: any, modelId: any, options: any = {}): Promise<unknown> {
     // modelId is required - no default
     if (!modelId) {
       throw new Error('Model ID is required for chat')
     }
+
+    // Tool loop follow-ups stay on the model that started the turn
+    if (!options.deferToolCalls) {
+      const budgetModelId = await this.applyBudgets(modelId, options)
+      if (budgetModelId !== modelId) {
+        // No failover from the local model back to the cloud
+        options = { ...options, fallbackModelIds: [] }
+        modelId = budgetModelId
+      }
+    }
+
+    // Opt-in response cache - tool loop turns always go to the model
+    const cacheOptions: ResponseCacheOptions | undefined = options.cache && !options.deferToolCalls
+      ? (options.cache === true ? {} : options.cache)
+      : undefined
+    let cacheRequest: CacheRequest | undefined
+    if (cacheOptions) {
+      cacheRequest = await this.responseCache.prepare({
+        modelId,
+        messages,
+        temperature: options.temperature,
+        format: options.format,
+        topicId: cacheOptions.topicId ?? options.topicId
+      })
+      const hit = await this.responseCache.lookup(cacheRequest, cacheOptions)
+      if (hit) {
+        MessageBus.send('debug', `Response for ${modelId} from cache (${hit.match})`)
+        options.onStream?.(hit.response)
+        return hit.response
+      }
+    }
+
+    const { controller, dispose } = linkAbortSignals(options.signal)
+    const untrack = this.trackTopicRequest(options.topicId, controller)
+    // A fallback answer is not cached under the requested model
+    let answeredBy = modelId
+    try {
+      const result = await this.chatWithFailover(messages, modelId, {
+        ...options,
+        signal: controller.signal,
+        onModelSwitch: (event: ModelSwitchEvent) => {
+          answeredBy = event.toModelId
+          options.onModelSwitch?.(event)
+        }
+      })
+      if (cacheRequest && typeof result === 'string' && answeredBy === modelId) {
+        await this.responseCache.store(cacheRequest, result, cacheOptions)
+      }
+      return result
+    } finally {
+      dispose()
+      untrack()
+    }
+  }
+
+  /**
+   * Failover loop behind chat()
+   */
+  private async chatWithFailover(messages: any, modelId: string, options: any): Promise<unknown> {
+    const chain = options.fallbackModelIds ?? await this.resolveFallbackChain(options)
+    const candidates = buildFallbackChain(modelId, chain)
+
+    let lastError: any
+    let previousModelId = modelId
+    let switchReason: ModelSwitchEvent['reason'] = 'error'
+    let streamed = false
+    let attempted = false
+
+    for (const candidate of candidates) {
+      throwIfAborted(options.signal)
+      if (!this.circuitBreaker.canRequest(candidate)) {
+        MessageBus.send('debug', `Skipping ${candidate} - circuit open`)
+        if (!attempted) switchReason = 'circuit_open'
+        continue
+      }
+
+      if (candidate !== modelId) {
+        const event: ModelSwitchEvent = {
+          topicId: options.topicId,
+          requestedModelId: modelId,
+          fromModelId: previousModelId,
+          toModelId: candidate,
+          reason: switchReason,
+          error: lastError?.message,
+          restartStream: streamed
+        }
+        MessageBus.send('log', `Failing over from ${previousModelId} to ${candidate} (${switchReason})`)
+        this.onModelSwitch.emit(event)
+        options.onModelSwitch?.(event)
+      }
+
+      attempted = true
+      streamed = false
+      const outcome = await this.chatWithRetry(messages, candidate, options, () => { streamed = true })
+      if (outcome.ok) {
+        return outcome.result
+      }
+
+      lastError = outcome.error
+      previousModelId = candidate
+      switchReason = 'error'
+    }
+
+    // Every circuit is open - try the requested model anyway rather than failing outright
+    if (!attempted) {
+      MessageBus.send('alert', `All candidate models have open circuits, trying ${modelId}`)
+      const outcome = await this.chatWithRetry(messages, modelId, options, () => {})
+      if (outcome.ok) {
+        return outcome.result
+      }
+      lastError = outcome.error
+    }
+
+    throw lastError
+  }
+
+  /**
+   * One model with retries: transient errors are retried with backoff as long as
+   * nothing was streamed and the model's circuit stays closed.
+   * Cancellations and post-tool failures are rethrown - they must not fail over.
+   */
+  private async chatWithRetry(
+    messages: any,
+    modelId: string,
+    options: any,
+    onStreamed: () => void
+  ): Promise<{ ok: boolean; result?: unknown; error?: any }> {
+    let streamed = false
+    const attemptOptions = {
+      ...options,
+      onStream: options.onStream && ((chunk: string) => { streamed = true; onStreamed(); options.onStream(chunk) }),
+      onThinkingStream: options.onThinkingStream && ((chunk: string) => { streamed = true; onStreamed(); options.onThinkingStream(chunk) })
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const result = await this.chatWithModel(messages, modelId, attemptOptions)
+        this.circuitBreaker.recordSuccess(modelId)
+        return { ok: true, result }
+      } catch (error: any) {
+        if (isCancellationError(error, options.signal) || error.noFailover) {
+          this.circuitBreaker.release(modelId)
+          throw error
+        }
+
+        // The Ollama server dropped out - the scheduler picks another server hosting the model
+        if (error.ollamaServer && !streamed && this.ollamaScheduler.hasAvailableServer(error.ollamaLLM, error.ollamaServer)) {
+          MessageBus.send('log', `Ollama server ${error.ollamaServer} unreachable, rerouting ${modelId}`)
+          continue
+        }
+
+        // Still rate limited after the limiter's own retries - the model is fine, try the next one
+        if (isRateLimitError(error)) {
+          this.circuitBreaker.release(modelId)
+          return { ok: false, error }
+        }
+
+        const permanent = this.classifyError(error) === LLMHealthStatus.FAILED
+        this.circuitBreaker.recordFailure(modelId, permanent, error)
+
+        const retryable = !permanent && !streamed && this.circuitBreaker.getState(modelId) === 'closed'
+        if (!retryable || attempt >= DEFAULT_RETRY_CONFIG.maxRetries) {
+          return { ok: false, error }
+        }
+
+        const delay = getBackoffDelay(attempt + 1)
+        MessageBus.send('debug', `Retrying ${modelId} in ${delay}ms (attempt ${attempt + 2}): ${error.message}`)
+        await abortableSleep(delay, options.signal)
+      }
+    }
+  }
+
+  /**
+   * Check the AI's and the provider's budget before a cloud request
+   * - soft limit: onBudgetWarning + alert, once per period
+   * - hard limit: 'warn' continues, 'downgrade' switches to the budget's
+   *   downgradeModelId or the first available local model, 'block' throws
+   * Returns the model to use.
+   */
+  private async applyBudgets(modelId: string, options: any): Promise<string> {
+    if (!this.budgetManager) {
+      return modelId
+    }
+    const provider = this.llmRegistry.get(modelId)?.provider ?? getModelProvider(modelId)
+    if (LOCAL_PROVIDERS.includes(provider)) {
+      return modelId
+    }
+
+    let budgets
+    try {
+      budgets = await this.budgetManager.resolve({ aiId: options.aiId, provider })
+    } catch (error) {
+      MessageBus.send('alert', 'Failed to resolve budgets:', error)
+      return modelId
+    }
+
+    for (const budget of budgets) {
+      const status = await this.usageLedger.getBudgetStatus(budget)
+      if (status.level === 'ok') {
+        continue
+      }
+      this.announceBudgetStatus(status)
+      if (status.level === 'soft' || budget.hardLimitAction === 'warn') {
+        continue
+      }
+
+      const scope = `${budget.scope} ${budget.scopeId}`
+      const downgradeModelId = budget.hardLimitAction === 'downgrade' ? budget.downgradeModelId ?? this.findLocalChatModel() : undefined
+      if (!downgradeModelId) {
+        const error: any = new Error(
+          `Budget exceeded for ${scope}: $${status.spentUsd.toFixed(2)} of $${budget.hardLimitUsd} this ${budget.period}` +
+          (budget.hardLimitAction === 'downgrade' ? ' - no local model available to downgrade to' : '')
+        )
+        error.name = 'BudgetExceededError'
+        error.noFailover = true
+        throw error
+      }
+
+      const event: ModelSwitchEvent = {
+        topicId: options.topicId,
+        requestedModelId: modelId,
+        fromModelId: modelId,
+        toModelId: downgradeModelId,
+        reason: 'budget',
+        restartStream: false
+      }
+      MessageBus.send('log', `Budget exceeded for ${scope}, downgrading ${modelId} to ${downgradeModelId}`)
+      this.onModelSwitch.emit(event)
+      options.onModelSwitch?.(event)
+      return downgradeModelId
+    }
+
+    return modelId
+  }
+
+  private announceBudgetStatus(status: BudgetStatus): void {
+    const { budget } = status
+    const key = `${budget.scope}:${budget.scopeId}:${status.periodStart}:${status.level}`
+    if (this.budgetWarnings.has(key)) {
+      return
+    }
+    this.budgetWarnings.add(key)
+
+    const limit = status.level === 'hard' ? budget.hardLimitUsd : budget.softLimitUsd
+    MessageBus.send('alert', `${status.level === 'hard' ? 'Hard' : 'Soft'} budget limit reached for ${budget.scope} ${budget.scopeId}: $${status.spentUsd.toFixed(2)} of $${limit} this ${budget.period}`)
+    this.onBudgetWarning.emit(status)
+  }
+
+  /**
+   * First available local chat model (budget downgrade target)
+   */
+  private findLocalChatModel(): string | undefined {
+    const local = this.llmRegistry.getAvailable().find(llm =>
+      LOCAL_PROVIDERS.includes(llm.provider ?? '') && (!llm.capabilities || llm.capabilities.includes('chat'))
+    )
+    return local ? local.modelId || local.name : undefined
+  }
+
+  /**
+   * Token usage and cost grouped by day, model, provider, AI or topic
+   */
+  async getUsage(groupBy: UsageGroupBy, query: UsageQuery = {}): Promise<UsageAggregate[]> {
+    return await this.usageLedger.aggregate(groupBy, query)
+  }
+
+  /**
+   * Current period status of all budgets that apply to an AI and/or provider
+   */
+  async getBudgetStatuses(context: { aiId?: string; provider?: string }): Promise<BudgetStatus[]> {
+    if (!this.budgetManager) {
+      return []
+    }
+    const budgets = await this.budgetManager.resolve(context)
+    return await Promise.all(budgets.map(budget => this.usageLedger.getBudgetStatus(budget)))
+  }
+
+  /**
+   * Fallback chain for a request (topic chain > AI chain)
+   */
+  private async resolveFallbackChain(options: any): Promise<string[]> {
+    if (!this.fallbackChainManager || options.disableFailover) {
+      return []
+    }
+    try {
+      return await this.fallbackChainManager.resolve({ topicId: options.topicId, aiId: options.aiId })
+    } catch (error) {
+      MessageBus.send('alert', 'Failed to resolve fallback chain:', error)
+      return []
+    }
+  }
+
+  /**
+   * Circuit breaker state of all models that recently failed
+   */
+  getCircuitStates(): CircuitInfo[] {
+    return this.circuitBreaker.getCircuits()
+  }
+
+  /**
+   * Close circuits (e.g. after fixing an API key or server config)
+   */
+  resetCircuit(modelId?: string): void {
+    this.circuitBreaker.reset(modelId)
+  }
+
+  /**
+   * A topic's messages changed - its cached responses stop answering near-duplicate prompts
+   */
+  async invalidateResponseCache(topicId: string): Promise<number> {
+    return await this.responseCache.invalidate(topicId)
+  }
+
+  configureResponseCache(config: Partial<ResponseCacheConfig>): void {
+    this.responseCache.configure(config)
+  }
+
+  getResponseCacheStats(): ResponseCacheStats {
+    return this.responseCache.getStats()
+  }
+
+  /**
+   * Availability and loaded models of the Ollama servers the scheduler routed to
+   */
+  getOllamaServerStates(): OllamaServerState[] {
+    return this.ollamaScheduler.getServerStates()
+  }
+
+  /**
+   * Rate limiter buckets per provider/server and API key
+   */
+  getRateLimitStates(): RateLimitState[] {
+    return getProviderRateLimiter().getStates()
+  }
+
+  /**
+   * Cap the rate limits of a provider ('anthropic', 'openai') or OpenAI-compatible server URL
+   */
+  setRateLimit(scope: string, limits: RateLimits): void {
+    getProviderRateLimiter().configure(scope, limits)
+  }
+
+  /**
+   * Prompt cache statistics of a topic, or of all topics without a topicId
+   */
+  getPromptCacheStats(topicId?: string): PromptCacheStats[] {
+    if (topicId) {
+      const stats = this.promptCacheTracker.getStats(topicId)
+      return stats ? [stats] : []
+    }
+    return this.promptCacheTracker.getAllStats()
+  }
+
+  resetPromptCacheStats(topicId?: string): void {
+    this.promptCacheTracker.reset(topicId)
+  }
+
+  /**
+   * Chat expecting JSON that matches the schema
+   * Extracts the JSON from mixed replies, re-prompts with the schema violations
+   * (options.maxRepairAttempts, default 1) and records the outcome per model.
+   * Remaining options are passed to chat().
+   */
+  async chatStructured<T = any>(
+    messages: StructuredMessage[],
+    modelId: string,
+    schema: JsonSchema,
+    options: any = {}
+  ): Promise<StructuredOutputResult<T>> {
+    const { maxRepairAttempts, useNativeFormat, ...chatOptions } = options
+    const chat: StructuredChatFn = async (conversation, callOptions) => {
+      const response = await this.chat(conversation, modelId, { ...chatOptions, ...callOptions })
+      if (typeof response === 'string') return response
+      return (response as any)?.content ?? JSON.stringify(response)
+    }
+    return await generateStructured<T>(chat, modelId, messages, schema, this.structuredOutputTracker, { maxRepairAttempts, useNativeFormat })
+  }
+
+  /**
+   * Measured structured output support - undefined until enough requests were seen
+   */
+  getStructuredOutputTested(modelId: string): boolean | undefined {
+    return this.structuredOutputTracker.isTested(modelId)
+  }
+
+  /**
+   * Structured output reliability of a model, or of all measured models
+   */
+  getStructuredOutputStats(modelId?: string): StructuredOutputStats[] {
+    if (modelId) {
+      const stats = this.structuredOutputTracker.getStats(modelId)
+      return stats ? [stats] : []
+    }
+    return this.structuredOutputTracker.getAllStats()
+  }
+
+  resetStructuredOutputStats(modelId?: string): void {
+    this.structuredOutputTracker.reset(modelId)
+  }
+
+  /**
+   * Chat with a single model (no failover)
+   */
+  private async chatWithModel(messages: any, modelId: string, options: any = {}): Promise<unknown> {
     const effectiveModelId = modelId
 
     // Try registry first, then fall back to storage (transition period)
@@ -610,6 +1218,18 @@ class LLMManager {
       throw new Error(`Model ${effectiveModelId} not found. Available: ${allAvailable.join(', ')}`)
     }
 
+    // Ollama models hosted on several servers: route to the least busy server that has it loaded
+    // (usage, health and circuits stay keyed by the requested model ID)
+    let concurrencyModelId = effectiveModelId
+    let ollamaRoute: { baseUrl: string } | undefined
+    if (llmObject.provider === 'ollama') {
+      const route = await this.ollamaScheduler.select(llmObject, { topicId: options.topicId })
+      llmObject = route.llm
+      ollamaRoute = { baseUrl: route.baseUrl }
+      concurrencyModelId = llmObject.modelId || llmObject.name
+      this.concurrencyManager.ensureModel(concurrencyModelId, 'ollama', route.baseUrl)
+    }
+
     // Detect provider from modelId if stored provider is unknown or missing
     let provider = llmObject.provider;
     if (!provider || provider === 'unknown') {
@@ -658,10 +1278,10 @@ class LLMManager {
 
     // Check if structured output is requested
     if ((options as any)?.format) {
-      // Check cached capability
-      if ((model as any).structuredOutputTested === false) {
+      // Measured capability (chatStructured outcomes)
+      if (this.structuredOutputTracker.isTested(effectiveModelId) === false) {
         throw new Error(
-          `Model ${effectiveModelId} does not support structured output (previously tested and failed). ` +
+          `Model ${effectiveModelId} does not support structured output (measured reliability too low). ` +
           `Try a different model or disable analysis features.`
         );
       }
@@ -696,58 +1316,82 @@ class LLMManager {
       }
     }
 
-    // Inject API key for Anthropic if not provided
-    if ((model as any).provider === 'anthropic' && !(options as any)?.apiKey) {
-      if (this.userSettingsManager) {
-        const apiKey = await this.userSettingsManager.getApiKey('anthropic')
-        if (apiKey) {
-          MessageBus.send('debug', 'Injected Claude API key from UserSettings')
-          options = { ...options, apiKey }
-        } else {
-          MessageBus.send('error', 'No Claude API key found in UserSettings')
-        }
+    // Inject API key for Anthropic / OpenAI if not provided (the AI's vault key, else the provider's)
+    if (((model as any).provider === 'anthropic' || (model as any).provider === 'openai') && !(options as any)?.apiKey) {
+      const apiKey = await this.resolveApiKey((model as any).provider, options.aiId)
+      if (apiKey) {
+        options = { ...options, apiKey }
       } else {
-        MessageBus.send('error', 'UserSettingsManager not available, cannot retrieve API key')
+        MessageBus.send('error', `No ${(model as any).provider} API key in the key vault or UserSettings`)
       }
     }
 
-    // Inject API key for OpenAI if not provided
-    if ((model as any).provider === 'openai' && !(options as any)?.apiKey) {
-      if (this.userSettingsManager) {
-        const apiKey = await this.userSettingsManager.getApiKey('openai')
-        if (apiKey) {
-          MessageBus.send('debug', 'Injected OpenAI API key from UserSettings')
-          options = { ...options, apiKey }
-        } else {
-          MessageBus.send('error', 'No OpenAI API key found in UserSettings')
-        }
-      } else {
-        MessageBus.send('error', 'UserSettingsManager not available, cannot retrieve API key')
+    // Inject bearer token for OpenAI-compatible servers (vLLM, llama.cpp, LocalAI) if not provided
+    if (llmObject.authType === 'bearer' && llmObject.provider && llmObject.provider in OPENAI_COMPATIBLE_PROVIDERS && !(options as any)?.apiKey) {
+      const apiKey = await this.resolveApiKey(llmObject.provider, options.aiId)
+      if (apiKey) {
+        MessageBus.send('debug', `Injected ${llmObject.provider} bearer token`)
+        options = { ...options, apiKey }
       }
     }
 
+    // Ollama keep-alive configured for this model (pinned, or unloaded after a while)
+    if (llmObject.provider === 'ollama' && options.keepAlive === undefined) {
+      const keepAlive = await this.globalSettingsManager?.getOllamaKeepAlive(llmObject.server || this.getOllamaBaseUrl(), llmObject.name)
+      if (keepAlive !== undefined) {
+        options = { ...options, keepAlive }
+      }
+    }
+
+    // Native tool calling: offer structured tool definitions to adapters that support them.
+    // The text parser (tool-parser.ts) is only used for models without native support.
+    const adapter = this.adapterRegistry.getAdapter(llmObject);
+    const usesNativeTools = !!adapter && this.supportsNativeTools(adapter, llmObject);
+    const nativeTools = usesNativeTools && !shouldDisableTools
+      ? this.resolveNativeTools(options)
+      : undefined;
+
     // Acquire concurrency slot (waits if necessary based on resource constraints)
     const topicId = options.topicId || 'unknown';
     const topicPriority = options.priority || 5;
-    const requestId = await this.concurrencyManager.acquireSlot(effectiveModelId, topicId, topicPriority);
+    const requestClass: LLMRequestClass = options.requestClass || 'interactive';
+    const requestId = await this.concurrencyManager.acquireSlot(concurrencyModelId, topicId, topicPriority, requestClass, options.signal);
 
     let response
+    let lastUsage: ChatResult['usage']
 
     try {
       // Demand/Supply pattern: LLM object describes what it needs, adapter provides it
       // The adapter registry selects the right adapter based on llmObject properties
-      const adapter = this.adapterRegistry.getAdapter(llmObject);
-
       if (adapter) {
         // Use adapter-based routing
         const chatResult = await adapter.chat(llmObject, enhancedMessages, {
           ...options,
+          tools: nativeTools,
           promptParts,
           platform: this.platform,
           ollamaContextCache: this.ollamaContextCache
         });
-        // Preserve thinking from reasoning models (gpt-oss, deepseek-r1)
-        if (chatResult.thinking) {
+        lastUsage = chatResult.usage;
+        if (chatResult.usage) {
+          this.recordUsage(effectiveModelId, provider, chatResult.usage, options);
+        }
+        if (chatResult.usage?.promptTokens) {
+          this.calibrateTokenCounts(effectiveModelId, promptParts, enhancedMessages, chatResult.usage.promptTokens);
+        }
+        if (chatResult.usage && options.topicId) {
+          this.recordPromptCache(options.topicId, effectiveModelId, chatResult.usage, promptParts, options.promptCache);
+        }
+        if (chatResult.toolCalls?.length) {
+          // Structured tool calls - executed below in runToolLoop
+          response = {
+            content: chatResult.content,
+            thinking: chatResult.thinking,
+            toolCalls: chatResult.toolCalls,
+            _hasThinking: !!chatResult.thinking
+          };
+        } else if (chatResult.thinking) {
+          // Preserve thinking from reasoning models (gpt-oss, deepseek-r1)
           response = {
             content: chatResult.content,
             thinking: chatResult.thinking,
@@ -764,8 +1408,6 @@ class LLMManager {
           response = await this.chatWithLocal(model as any, enhancedMessages, options)
         } else if ((model as any).provider === 'ollama') {
           response = await this.chatWithOllama(model as any, enhancedMessages, { ...options, promptParts })
-        } else if ((model as any).provider === 'lmstudio') {
-          response = await this.chatWithLMStudio(model as any, enhancedMessages, options)
         } else if ((model as any).provider === 'anthropic') {
           response = await this.chatWithClaude(model as any, enhancedMessages, { ...options, promptParts })
         } else if ((model as any).provider === 'openai') {
@@ -777,9 +1419,25 @@ class LLMManager {
         }
       }
 
-      // Mark model as healthy after successful call
-      this.markModelHealthy(effectiveModelId);
-    } catch (error: any) {
+      // Mark model as healthy after successful call
+      this.markModelHealthy(effectiveModelId);
+      if (ollamaRoute) {
+        this.ollamaScheduler.recordSuccess(ollamaRoute.baseUrl, options.topicId);
+      }
+    } catch (error: any) {
+      // A cancelled request says nothing about the model's health
+      if (isCancellationError(error, options.signal)) {
+        MessageBus.send('debug', `Chat cancelled for model ${effectiveModelId}`);
+        throw error;
+      }
+
+      // Lets chatWithRetry reroute to another server
+      if (ollamaRoute && isServerUnreachableError(error)) {
+        this.ollamaScheduler.markUnavailable(ollamaRoute.baseUrl, error);
+        (error as any).ollamaServer = ollamaRoute.baseUrl;
+        (error as any).ollamaLLM = llmObject;
+      }
+
       // Mark model as unhealthy/failed
       this.markModelUnhealthy(effectiveModelId, error);
 
@@ -806,19 +1464,160 @@ class LLMManager {
       modelId: effectiveModelId,
       isPrivateModel: effectiveModelId.endsWith('-private'),
       topicId: options.topicId,
-      personId: options.personId
+      personId: options.personId,
+      callerId: options.callerId || options.personId
+    }
+
+    // Caller drives the tool loop itself (follow-up turns inside runToolLoop)
+    if (options.deferToolCalls) {
+      return {
+        content: typeof response === 'string' ? response : response?.content || '',
+        thinking: typeof response === 'object' ? response?.thinking : undefined,
+        toolCalls: typeof response === 'object' ? response?.toolCalls : undefined,
+        usage: lastUsage,
+        _hasThinking: typeof response === 'object' && !!response?.thinking
+      }
     }
 
     // Process tool calls if present (ReACT pattern - tool results go back to LLM)
     // CRITICAL: Skip tool processing when tools are explicitly disabled (Phase 1 streaming)
     // This prevents JSON tool calls from being parsed and displayed to users
-    if (!shouldDisableTools) {
-      response = await this.processToolCalls(response, context, enhancedMessages, modelId, options)
+    if (!shouldDisableTools && options.toolChoice !== 'none') {
+      const firstTurn = this.toAgentTurn(response, lastUsage, usesNativeTools)
+      if (firstTurn.toolCalls.length > 0) {
+        // PromptParts calls have no message array - rebuild the conversation for the follow-ups
+        const conversation = promptParts ? formatForStandardAPI(promptParts).messages : enhancedMessages
+        try {
+          response = await this.runToolLoop(firstTurn, context, conversation, modelId, options, usesNativeTools, nativeTools)
+        } catch (error: any) {
+          // Tools have run - the request must not be repeated on a fallback model
+          error.noFailover = true
+          throw error
+        }
+      }
     }
 
     return response
   }
 
+  /**
+   * Feed provider-reported prompt tokens back into the model's tokenizer calibration
+   */
+  private calibrateTokenCounts(modelId: string, promptParts: PromptParts | undefined, messages: any[], promptTokens: number): void {
+    const sent = promptParts ? formatForStandardAPI(promptParts).messages : messages
+    const promptText = sent
+      .map((m: any) => typeof m.content === 'string' ? m.content : '')
+      .join('\n')
+    calibrateTokenizer(modelId, promptText, promptTokens)
+  }
+
+  /**
+   * Add a call to the usage ledger with its computed cost
+   */
+  private recordUsage(modelId: string, provider: string | undefined, usage: NonNullable<ChatResult['usage']>, options: any): void {
+    const resolvedProvider = provider || getModelProvider(modelId)
+    const costUsd = computeUsageCost(modelId, usage, resolvedProvider)
+    if (costUsd === undefined) {
+      MessageBus.send('debug', `No price for ${modelId} - usage recorded without cost`)
+    }
+    this.usageLedger.record({
+      modelId,
+      provider: resolvedProvider,
+      topicId: options.topicId,
+      aiId: options.aiId,
+      requestClass: options.requestClass || 'interactive',
+      promptTokens: usage.promptTokens ?? 0,
+      completionTokens: usage.completionTokens ?? 0,
+      cacheCreationTokens: usage.cacheCreationTokens ?? 0,
+      cacheReadTokens: usage.cacheReadTokens ?? 0,
+      costUsd: costUsd ?? 0,
+      priced: costUsd !== undefined
+    })
+  }
+
+  /**
+   * Track provider prompt cache usage with the cache keys of the segments that were sent
+   */
+  private recordPromptCache(
+    topicId: string,
+    modelId: string,
+    usage: NonNullable<ChatResult['usage']>,
+    promptParts: PromptParts | undefined,
+    promptCache: PromptCacheHint | undefined
+  ): void {
+    const segments = promptParts ? getPromptCacheHint(promptParts).segments : promptCache?.segments ?? []
+    this.promptCacheTracker.record(topicId, modelId, usage, segments.map(segment => segment.cacheKey))
+  }
+
+  /**
+   * Embed texts with an embedding model through its adapter
+   *
+   * Registered models use their own adapter. Unregistered model IDs are Ollama
+   * models on the configured server, unless prefixed with a provider
+   * ('transformers:Xenova/all-MiniLM-L6-v2', 'vllm:BAAI/bge-m3', 'openai:text-embedding-3-small').
+   */
+  async embed(texts: string[], options: { model: string; signal?: AbortSignal }): Promise<EmbedResult> {
+    const llm = this.resolveEmbeddingLLM(options.model)
+    const adapter = this.adapterRegistry.getAdapter(llm)
+    if (!adapter?.embed || !adapter.capabilities.embeddings) {
+      throw new Error(`No embedding support for ${options.model} (provider: ${llm.provider})`)
+    }
+
+    const embedOptions: EmbedOptions = { signal: options.signal }
+    if ((llm.provider === 'openai' || llm.authType === 'bearer') && llm.provider) {
+      embedOptions.apiKey = await this.resolveApiKey(llm.provider)
+    }
+    if (llm.provider === 'ollama') {
+      embedOptions.authHeaders = await this.getOllamaAuthHeadersFor(llm.server || this.getOllamaBaseUrl())
+    }
+
+    const result = await adapter.embed(llm, texts, embedOptions)
+    MessageBus.send('debug', `Embedded ${texts.length} texts with ${result.model} (${result.dimensions} dimensions)`)
+    return result
+  }
+
+  private resolveEmbeddingLLM(modelId: string): LLM {
+    const registered = this.llmRegistry.get(modelId)
+    if (registered) {
+      return registered
+    }
+
+    const separator = modelId.indexOf(':')
+    const prefix = separator > 0 ? modelId.slice(0, separator) : ''
+    let provider = 'ollama'
+    let name = modelId
+    if (prefix && (this.adapterRegistry.hasAdapter(prefix) || prefix in OPENAI_COMPATIBLE_PROVIDERS)) {
+      provider = prefix
+      name = modelId.slice(separator + 1)
+    }
+
+    return {
+      $type$: 'LLM',
+      name,
+      modelId: name,
+      provider,
+      inferenceType: provider === 'transformers' ? 'ondevice' : provider === 'openai' ? 'cloud' : 'server',
+      server: provider === 'ollama' ? this.getOllamaBaseUrl() : ''
+    } as LLM
+  }
+
+  /**
+   * Check if native tool calling can be used for this model
+   */
+  private supportsNativeTools(adapter: LLMAdapter, llmObject: any): boolean {
+    if (!adapter.capabilities.toolCalls) return false
+    return adapter.supportsToolCalls ? adapter.supportsToolCalls(llmObject) : true
+  }
+
+  /**
+   * Resolve tool definitions for a native tool call
+   * Explicit options.tools win; otherwise the AIToolExecutor supplies MCP tools
+   */
+  private resolveNativeTools(options: any): ChatToolDefinition[] | undefined {
+    const tools: ChatToolDefinition[] | undefined = options.tools ?? this.toolExecutor?.getToolDefinitions()
+    return tools && tools.length > 0 ? tools : undefined
+  }
+
   getToolDescriptions(): any {
     return this.mcpManager?.getToolDescriptions() || null
   }
@@ -862,276 +1661,129 @@ class LLMManager {
   }
 
   /**
-   * Extract complete JSON object from text using brace counting
-   * Handles nested objects/arrays robustly
+   * Normalize a chat() response into an agent turn
+   * Native tool calls are taken as-is; text models go through the tool parser
    */
-  private extractJsonFromText(text: string): string | null {
-    // Try to find JSON with "tool" and "parameters" keys
-    const toolIndex = text.indexOf('"tool"')
-    if (toolIndex === -1) return null
-
-    // Search backwards from "tool" to find the opening brace
-    let startIdx = -1
-    for (let i = toolIndex - 1; i >= 0; i--) {
-      const char = text[i]
-      if (char === '{') {
-        startIdx = i
-        break
-      }
-      // Stop if we hit characters that can't be part of JSON structure
-      if (char !== ' ' && char !== '\n' && char !== '\t' && char !== '\r' && char !== ',') {
-        break
-      }
-    }
-
-    if (startIdx === -1) return null
-
-    // Count braces to find matching closing brace
-    let depth = 0
-    let inString = false
-    let escape = false
-
-    for (let i = startIdx; i < text.length; i++) {
-      const char = text[i]
-
-      // Handle escape sequences in strings
-      if (escape) {
-        escape = false
-        continue
-      }
-
-      if (char === '\\' && inString) {
-        escape = true
-        continue
-      }
-
-      // Track string boundaries (JSON strings use double quotes)
-      if (char === '"' && !escape) {
-        inString = !inString
-        continue
-      }
+  private toAgentTurn(response: any, usage: ChatResult['usage'], usesNativeTools: boolean): AgentTurn {
+    const content = typeof response === 'string' ? response : response?.content || ''
+    const thinking = typeof response === 'object' ? response?.thinking : undefined
 
-      // Only count braces outside of strings
-      if (!inString) {
-        if (char === '{') {
-          depth++
-        } else if (char === '}') {
-          depth--
-          // Found matching closing brace
-          if (depth === 0) {
-            return text.substring(startIdx, i + 1)
-          }
-        }
-      }
+    if (typeof response === 'object' && response?.toolCalls?.length) {
+      return { content, thinking, toolCalls: response.toolCalls, usage }
     }
-
-    return null
-  }
-
-  async processToolCalls(response: any, context?: any, messages?: any[], modelId?: string, options?: any): Promise<any> {
-    // Handle both string responses and object responses (with thinking)
-    let responseText: string;
-    let hasThinking = false;
-    if (typeof response === 'object' && response._hasThinking) {
-      // Response includes thinking metadata
-      responseText = response.content;
-      hasThinking = true;
-    } else if (typeof response === 'string') {
-      responseText = response;
-    } else {
-      MessageBus.send('alert', 'Unexpected response type:', typeof response);
-      return response || '';
+    if (usesNativeTools) {
+      return { content, thinking, toolCalls: [], usage }
     }
 
-    // Check for tool calls in response - try both with and without backticks
-    let toolCallMatch = responseText?.match(/```json\s*({[\s\S]*?})\s*```/)
-    let toolCallJson = null
-
-    if (!toolCallMatch) {
-      // Try to extract plain JSON with robust brace counting
-      toolCallJson = this.extractJsonFromText(responseText)
-      if (toolCallJson) {
-        // Create a match-like array for compatibility with existing code
-        toolCallMatch = [toolCallJson, toolCallJson] as RegExpMatchArray
-      }
+    const { toolCall, textBefore } = parseToolCall(content)
+    if (!toolCall) {
+      return { content, thinking, toolCalls: [], usage }
     }
-
-    if (!toolCallMatch) {
-      return response || ''
+    return {
+      content: textBefore,
+      thinking,
+      toolCalls: [{ id: createToolCallId(), name: toolCall.tool, arguments: toolCall.params }],
+      usage
     }
+  }
 
-    MessageBus.send('debug', 'Found potential tool call:', toolCallMatch[1]?.substring(0, 100))
-
-    try {
-      const toolCall = JSON.parse(toolCallMatch[1])
-      if (toolCall.tool) {
-        MessageBus.send('debug', `Executing tool: ${toolCall.tool}`)
-
-        let result: any;
-        let toolResultText = '';
-
-        if (this.toolExecutor && context?.callerId) {
-          // Use unified AIToolExecutor
-          const execContext: ToolExecutionContext = {
-            callerId: context.callerId,
-            topicId: context.topicId,
-            entryPoint: 'internal',  // NOTE: use 'internal', not 'ai-assistant'
-            requestId: crypto.randomUUID()
-          };
-
-          // Add mcp: prefix for backwards compatibility with existing MCP tools
-          const toolName = toolCall.tool.includes(':') && !toolCall.tool.startsWith('plan:') && !toolCall.tool.startsWith('mcp:')
-            ? `mcp:${toolCall.tool}`
-            : toolCall.tool;
-
-          const { result: execResult } = await this.toolExecutor.execute(
-            toolName,
-            toolCall.parameters || {},
-            execContext
-          );
-
-          result = execResult;
-          toolResultText = this.toolExecutor.formatResultForLLM(execResult);
-        } else {
-          // Fallback to direct MCP execution
-          result = await this.mcpManager?.executeTool(
-            toolCall.tool,
-            toolCall.parameters || {},
-            context
-          );
-
-          // Extract text from MCP result
-          if (result.content && Array.isArray(result.content)) {
-            const textParts = result.content
-              .filter((c: any) => c.type === 'text')
-              .map((c: any) => c.text);
-            toolResultText = textParts.join('\n\n');
-          } else if (typeof result === 'string') {
-            toolResultText = result;
-          } else {
-            toolResultText = JSON.stringify(result, null, 2);
-          }
+  /**
+   * Run the multi-step tool loop for a response that requested tools
+   * Each follow-up turn goes through chat() with deferToolCalls so the loop
+   * (AIToolExecutor.runAgentLoop) stays in control. Steps are streamed via onChatStream.
+   */
+  private async runToolLoop(
+    firstTurn: AgentTurn,
+    context: any,
+    messages: ChatMessage[],
+    modelId: string,
+    options: any,
+    usesNativeTools: boolean,
+    tools: ChatToolDefinition[] | undefined
+  ): Promise<any> {
+    const executor = this.toolExecutor ?? new AIToolExecutor({ mcpManager: this.mcpManager })
+    const execContext: ToolExecutionContext = {
+      callerId: context.callerId,
+      topicId: context.topicId,
+      entryPoint: 'internal',  // NOTE: use 'internal', not 'ai-assistant'
+      requestId: crypto.randomUUID(),
+      signal: options.signal  // Cancels pending tool executions with the request
+    }
+
+    let partial = ''
+    const result = await executor.runAgentLoop({
+      messages,
+      firstTurn,
+      context: execContext,
+      callModel: async (conversation, { final }) => {
+        // Anthropic requires tool definitions while tool_use blocks are in the conversation,
+        // so the final turn keeps them and sets toolChoice 'none' instead
+        // Follow-ups stay on this model: the conversation holds its tool calls (retries still apply)
+        const turn = await this.chat(usesNativeTools ? conversation : flattenToolMessages(conversation), modelId, {
+          ...options,
+          tools: usesNativeTools ? tools : undefined,
+          toolChoice: final ? 'none' : 'auto',
+          deferToolCalls: true,
+          fallbackModelIds: []
+        })
+        return this.toAgentTurn(turn, (turn as any)?.usage, usesNativeTools)
+      },
+      onStep: step => {
+        if (step.type === 'tool_start') {
+          partial += `${partial ? '\n' : ''}🔧 ${step.tool}`
+        } else if (step.type === 'tool_result') {
+          partial += step.success ? ' ✓' : ' ✗'
         }
+        this.onChatStream.emit({ chunk: '', partial, topicId: context.topicId, toolStep: step })
+        options.onToolStep?.(step)
+      }
+    })
 
-        // CRITICAL: Implement ReACT pattern - send tool result back to LLM for natural response
-        // Instead of returning the tool result directly, let the LLM process it
-        if (messages && modelId && options) {
-          MessageBus.send('debug', 'ReACT: Sending tool result back to LLM')
-
-          // Build conversation with tool result
-          const conversationWithToolResult = [
-            ...messages,
-            {
-              role: 'assistant' as const,
-              content: responseText // The assistant's message with the tool call
-            },
-            {
-              role: 'user' as const,
-              content: `Tool result from ${toolCall.tool}:\n\n${toolResultText}\n\nPlease respond naturally to the user based on this information. Do not call any more tools, just provide a conversational response.`
-            }
-          ]
-
-          // CRITICAL: Recursively call chat() with disableTools to get proper streaming + analysis
-          // This ensures the follow-up response goes through the full chat pipeline
-
-          const reactOptions = {
-            ...options,
-            disableTools: true // Disable tools for the follow-up call to avoid infinite loops
-          }
-
-          // Recursive call to chat() - will go through full pipeline including processToolCalls
-          // but tools are disabled so it won't loop
-          const finalResponse = await this.chat(conversationWithToolResult, modelId, reactOptions)
-
-          // Attach tool results to response for Phase 0 extraction
-          if (typeof finalResponse === 'object' && finalResponse !== null) {
-            (finalResponse as any)._toolResults = toolResultText;
-          } else {
-            // If response is a string, convert to object with tool results
-            return {
-              content: finalResponse,
-              _toolResults: toolResultText
-            };
-          }
+    MessageBus.send('debug', `Tool loop finished: ${result.trace.steps.length} calls, ${result.trace.iterations} turns, ${result.stopReason}`)
 
-          return finalResponse
-        }
+    return {
+      content: result.content,
+      thinking: result.thinking,
+      _hasThinking: !!result.thinking,
+      _toolResults: result.toolResults,
+      _toolTrace: result.trace
+    }
+  }
 
-        // FALLBACK (for backward compatibility if messages/modelId not provided)
-        // Format the result and return it directly
-        MessageBus.send('alert', 'No messages/modelId provided - falling back to direct tool result')
-
-        let formattedResult = ''
-
-        if (toolCall.tool === 'filesystem:list_directory') {
-          // Parse and format directory listing elegantly
-          if (result.content && Array.isArray(result.content)) {
-            const textContent = result.content.find((c: any) => c.type === 'text')
-            if (textContent && textContent.text) {
-              // Parse the directory listing and format it nicely
-              const lines = textContent.text.split('\n').filter((line: any) => line.trim())
-              const dirs: string[] = []
-              const files: string[] = []
-
-              lines.forEach((line: any) => {
-                if (line.includes('[DIR]')) {
-                  dirs.push(line.replace('[DIR]', '').trim())
-                } else if (line.includes('[FILE]')) {
-                  files.push(line.replace('[FILE]', '').trim())
-                }
-              })
-
-              formattedResult = 'Here\'s what I found in the current directory:\n\n'
-
-              if (dirs.length > 0) {
-                formattedResult += '**📁 Folders:**\n'
-                dirs.forEach(dir => {
-                  formattedResult += `• ${dir}\n`
-                })
-                if (files.length > 0) formattedResult += '\n'
-              }
-
-              if (files.length > 0) {
-                formattedResult += '**📄 Files:**\n'
-                files.forEach(file => {
-                  formattedResult += `• ${file}\n`
-                })
-              }
-
-              formattedResult += `\n_Total: ${dirs.length} folders and ${files.length} files_`
-            } else {
-              formattedResult = 'I found the following items:\n\n' + JSON.stringify(result, null, 2)
-            }
-          } else {
-            formattedResult = 'Directory contents:\n\n' + JSON.stringify(result, null, 2)
-          }
-        } else {
-          // Use the already extracted tool result text
-          formattedResult = toolResultText
-        }
+  /**
+   * Chat through the registry's override adapter (record/replay) if it handles the model
+   * The legacy direct paths and analyzeWithCache bypass chatWithModel's adapter
+   * lookup - this keeps them recordable and replayable.
+   * @returns undefined if no override handles the model
+   */
+  private async chatThroughOverride(modelId: string, messages: any[], options: any = {}): Promise<unknown> {
+    const override = this.adapterRegistry.getOverride();
+    if (!override) {
+      return undefined;
+    }
 
-        // Handle both string responses and object responses (with thinking)
-        if (hasThinking && typeof response === 'object') {
-          // For responses with thinking, replace in the content field
-          return {
-            ...response,
-            content: responseText.replace(toolCallMatch[0], formattedResult)
-          };
-        } else {
-          // For plain string responses, replace directly
-          return responseText.replace(toolCallMatch[0], formattedResult);
-        }
-      }
-    } catch (error) {
-      MessageBus.send('error', 'Tool execution failed:', error)
+    const llm: LLM = this.llmRegistry.get(modelId)
+      ?? await this.getLLMFromStorage(modelId)
+      ?? { $type$: 'LLM', name: modelId, modelId } as LLM;
+    if (!override.canHandle(llm)) {
+      return undefined;
     }
 
-    return response || ''
+    MessageBus.send('debug', `Routing ${modelId} through override adapter ${override.id}`);
+    const result = await override.chat(llm, messages, options);
+    return result.thinking
+      ? { content: result.content, thinking: result.thinking, _hasThinking: true }
+      : result.content;
   }
 
   async chatWithOllama(model: any, messages: any, options: any = {}): Promise<unknown> {
     MessageBus.send('debug', `Ollama chat: ${model.parameters.modelName}, ${messages?.length || 0} msgs, ${model.baseUrl || 'localhost'}`);
 
+    const overridden = await this.chatThroughOverride(model.id, messages, options);
+    if (overridden !== undefined) {
+      return overridden;
+    }
+
     try {
       // Check if we have PromptParts for optimized context
       let ollamaMessages: any[];
@@ -1143,6 +1795,10 @@ class LLMManager {
         // Legacy path: Use messages directly
         ollamaMessages = messages;
       }
+      // Multimodal user messages carry their images next to the text
+      ollamaMessages = ollamaMessages.map((m: any) =>
+        m.role === 'user' && m.parts?.length ? { role: m.role, ...toOllamaContent(m.parts) } : m
+      );
 
       // Get cached context for this topic (if available)
       const cachedContext = options.topicId ? this.ollamaContextCache.get(options.topicId) : undefined;
@@ -1156,6 +1812,7 @@ class LLMManager {
           onThinkingStream: options.onThinkingStream,  // Pass through thinking stream callback
           format: options.format,  // Pass through structured output schema
           topicId: options.topicId,  // Pass through topicId for request tracking and cancellation
+          signal: options.signal,
           context: cachedContext  // Pass cached context for conversation continuation
         },
         model.baseUrl || 'http://localhost:11434'  // Use custom baseUrl if available
@@ -1174,7 +1831,7 @@ class LLMManager {
     } catch (error: any) {
       // If structured output was requested and failed, cache this
       if (options.format && error.message?.includes('generated no response')) {
-        model.structuredOutputTested = false;
+        this.structuredOutputTracker.record(model.id, 'failed');
         MessageBus.send('debug', `Model ${model.id} does not support structured output - cached`);
         throw new Error(
           `Model ${model.id} does not support structured output. ` +
@@ -1186,39 +1843,12 @@ class LLMManager {
     }
   }
   
-  async chatWithLMStudio(model: any, messages: any, options: any = {}): Promise<any> {
-    // Handle streaming if requested
-    if (model.parameters.stream) {
-      const stream = lmstudio.streamChatWithLMStudio(
-        model.parameters.modelName,
-        messages,
-        {
-          temperature: model.parameters.temperature,
-          max_tokens: model.parameters.maxTokens
-        }
-      )
-      
-      let fullResponse = ''
-      for await (const chunk of stream) {
-        fullResponse += chunk
-        // Emit streaming event
-        this.onChatStream.emit({ chunk, partial: fullResponse })
-      }
-      return fullResponse
+  async chatWithClaude(model: any, messages: any, options: any = {}): Promise<any> {
+    const overridden = await this.chatThroughOverride(model.id, messages, options);
+    if (overridden !== undefined) {
+      return overridden;
     }
-    
-    // Non-streaming chat
-    return await lmstudio.chatWithLMStudio(
-      model.parameters.modelName,
-      messages,
-      {
-        temperature: model.parameters.temperature,
-        max_tokens: model.parameters.maxTokens
-      }
-    )
-  }
 
-  async chatWithClaude(model: any, messages: any, options: any = {}): Promise<any> {
     // Platform layer must provide API key - lama.core is platform-agnostic
     const apiKey = options.apiKey
     if (!apiKey) {
@@ -1258,7 +1888,10 @@ class LLMManager {
     // Convert messages to Anthropic format
     const anthropicMessages = messages
       .filter((m: any) => m.role !== 'system')
-      .map((m: any) => ({ role: m.role as 'user' | 'assistant', content: m.content }));
+      .map((m: any) => ({
+        role: m.role as 'user' | 'assistant',
+        content: m.role === 'user' && m.parts?.length ? toAnthropicContent(m.parts) : m.content
+      }));
 
     // Extract system message
     const systemMessage = messages.find((m: any) => m.role === 'system')?.content || options.system;
@@ -1284,6 +1917,11 @@ class LLMManager {
   }
 
   async chatWithOpenAI(model: any, messages: any, options: any = {}): Promise<any> {
+    const overridden = await this.chatThroughOverride(model.id, messages, options);
+    if (overridden !== undefined) {
+      return overridden;
+    }
+
     // Platform layer must provide API key - lama.core is platform-agnostic
     const apiKey = options.apiKey
     if (!apiKey) {
@@ -1298,14 +1936,20 @@ class LLMManager {
     // Check if we have PromptParts for optimized context
     let openaiMessages: any[];
 
+    // Multimodal user messages become OpenAI content parts
+    const toOpenAIMessage = (m: any) => m.role === 'user' && m.parts?.length
+      ? { role: m.role, content: toOpenAIContent(m.parts) }
+      : m;
+
     if (options.promptParts) {
       const formatted = formatForStandardAPI(options.promptParts);
-      openaiMessages = formatted.messages;
+      openaiMessages = formatted.messages.map(toOpenAIMessage);
     } else {
       // Legacy path: Standard message array
-      openaiMessages = messages.map((m: any) => ({
+      openaiMessages = messages.map((m: any) => toOpenAIMessage({
         role: m.role,
-        content: m.content
+        content: m.content,
+        parts: m.parts
       }));
     }
 
@@ -1334,12 +1978,21 @@ class LLMManager {
    */
   async chatWithLocal(model: any, messages: any, options: any = {}): Promise<any> {
     MessageBus.send('debug', `Local chat: ${model.parameters?.modelName || model.id}, ${messages?.length || 0} msgs`);
+    const overridden = await this.chatThroughOverride(model.id, messages, options);
+    if (overridden !== undefined) {
+      return overridden;
+    }
 
     // Platform must implement chatWithLocal
     if (!this.platform?.chatWithLocal) {
       throw new Error('Local model inference not supported on this platform');
     }
 
+    // On-device models are text-only - content holds the text rendering of other parts
+    if (messages.some((m: any) => hasImageData(m.parts))) {
+      throw new Error(`Local model ${model.id} does not support image input`);
+    }
+
     // Convert messages to standard format
     const chatMessages = messages.map((m: any) => ({
       role: m.role as 'system' | 'user' | 'assistant',
@@ -1350,13 +2003,14 @@ class LLMManager {
     const modelId = model.id;
 
     try {
-      const response = await this.platform.chatWithLocal(modelId, chatMessages, {
+      const response = await abortable(this.platform.chatWithLocal(modelId, chatMessages, {
         onStream: options.onStream,
         temperature: model.parameters?.temperature ?? 0.7,
         maxTokens: model.parameters?.maxTokens ?? 2048,
         format: options.format,
-        topicId: options.topicId
-      });
+        topicId: options.topicId,
+        signal: options.signal
+      }), options.signal);
 
       return response;
     } catch (error: any) {
@@ -1411,17 +2065,50 @@ class LLMManager {
    */
   stopStreaming(topicId: string): boolean {
     MessageBus.send('debug', `Stopping streaming for topic: ${topicId}`)
-    return cancelStreamingForTopic(topicId)
+    const controllers = this.topicRequests.get(topicId)
+    controllers?.forEach(controller => controller.abort())
+    const ollamaCancelled = cancelStreamingForTopic(topicId)
+    return (controllers?.size ?? 0) > 0 || ollamaCancelled
+  }
+
+  /**
+   * Register a request's controller so stopStreaming(topicId) can abort it
+   * Returns the unregister function.
+   */
+  private trackTopicRequest(topicId: string | undefined, controller: AbortController): () => void {
+    if (!topicId) {
+      return () => {}
+    }
+    if (!this.topicRequests.has(topicId)) {
+      this.topicRequests.set(topicId, new Set())
+    }
+    const controllers = this.topicRequests.get(topicId)!
+    controllers.add(controller)
+    return () => {
+      controllers.delete(controller)
+      if (controllers.size === 0 && this.topicRequests.get(topicId) === controllers) {
+        this.topicRequests.delete(topicId)
+      }
+    }
   }
 
   getStoredApiKey(provider: any): any {
-    // Implement secure key storage
+    // Keys are only decrypted for requests - see resolveApiKey()
     return null
   }
 
+  /**
+   * Store a provider's key as its default vault key (rotating the current default)
+   */
   async setApiKey(provider: any, apiKey: any): Promise<any> {
-    // Store API key securely
+    if (this.keyVault) {
+      await this.keyVault.setProviderKey(provider, apiKey)
+    } else {
+      MessageBus.send('alert', `No key vault - API key for ${provider} not stored`)
+    }
     MessageBus.send('debug', `API key set for ${provider}`)
+    // A new key may fix models whose circuit opened on authentication errors
+    this.circuitBreaker.reset()
   }
 
   async getAllModels(): Promise<any[]> {
@@ -1506,6 +2193,7 @@ class LLMManager {
       contextLength: llm.contextLength || 4096,
       maxTokens: llm.maxTokens || 2048,
       capabilities: llm.capabilities || [],
+      discoveredCapabilities: llm.discoveredCapabilities,
       inferenceType: llm.inferenceType || (llm.provider === 'ollama' ? 'server' : 'cloud'),
       modelType: llm.inferenceType === 'ondevice' ? 'ondevice' : (llm.provider === 'ollama' ? 'local' : 'remote'),
       size: llm.size,
@@ -1567,9 +2255,20 @@ class LLMManager {
         return;
       }
 
-      MessageBus.send('debug', `Found ${ollamaModels.length} Ollama models, registering...`);
+      MessageBus.send('debug', `Found ${ollamaModels.length} Ollama models, querying capabilities...`);
 
-      for (const model of ollamaModels) {
+      // Context length, tools/vision/thinking from /api/show - name-based defaults where it fails
+      const headers = effectiveUrl === this.getOllamaBaseUrl() ? await this.getOllamaAuthHeaders() : undefined;
+      const discoveries: Array<LLMDiscoveredCapabilities | undefined> = [];
+      for (let i = 0; i < ollamaModels.length; i += OLLAMA_SHOW_CONCURRENCY) {
+        const batch = ollamaModels.slice(i, i + OLLAMA_SHOW_CONCURRENCY);
+        discoveries.push(...await Promise.all(
+          batch.map(model => this.discoverOllamaCapabilities(effectiveUrl, model.name, headers))
+        ));
+      }
+      const registered: LLM[] = [];
+
+      for (const [index, model] of ollamaModels.entries()) {
         try {
           // Include server host in modelId for multi-server uniqueness
           const host = new URL(effectiveUrl).host;
@@ -1577,6 +2276,7 @@ class LLMManager {
 
           const now = Date.now();
           const nowStr = new Date().toISOString();
+          const discovered = discoveries[index];
 
           // Create LLM object
           const llmObject: any = {
@@ -1589,9 +2289,11 @@ class LLMManager {
             inferenceType: 'server' as const,
             modelType: 'remote' as const,
             description: model.details?.family || 'Ollama model',
-            contextLength: (model.details as any)?.context_length || 4096,
+            size: model.size,
+            contextLength: discovered?.contextWindow || (model.details as any)?.context_length || 4096,
             maxTokens: 2048,
             capabilities: ['chat', 'completion'],
+            ...(discovered ? { discoveredCapabilities: discovered } : {}),
             active: true,
             deleted: false,
             created: now,
@@ -1602,6 +2304,7 @@ class LLMManager {
 
           // Register in in-memory registry
           this.llmRegistry.register(llmObject, 'ollama', serverId);
+          registered.push(llmObject);
 
           MessageBus.send('debug', `Registered Ollama model: ${modelId}`);
         } catch (error) {
@@ -1609,6 +2312,8 @@ class LLMManager {
         }
       }
 
+      await this.persistDiscoveredCapabilities(registered);
+
       MessageBus.send('log', `Ollama model discovery complete: ${ollamaModels.length} models from ${effectiveUrl}`);
     } catch (error) {
       MessageBus.send('error', 'Failed to discover Ollama models:', error);
@@ -1675,8 +2380,8 @@ class LLMManager {
     try {
       // Get API key from user settings if not provided
       let effectiveApiKey = apiKey;
-      if (!effectiveApiKey && this.userSettingsManager) {
-        effectiveApiKey = await this.userSettingsManager.getApiKey('anthropic');
+      if (!effectiveApiKey) {
+        effectiveApiKey = await this.resolveApiKey('anthropic');
       }
 
       if (!effectiveApiKey) {
@@ -1731,9 +2436,35 @@ class LLMManager {
         }
       ];
 
-      MessageBus.send('debug', `Registering ${claudeModels.length} Claude models...`);
+      // The key's model listing adds new models and their limits - the list above is the fallback
+      const listed = await listAnthropicModels(effectiveApiKey).catch((error: Error) => {
+        MessageBus.send('alert', `Anthropic model listing failed, using built-in model list: ${error.message}`);
+        return [] as AnthropicModelInfo[];
+      });
+      const models: Array<typeof claudeModels[number] & { discovered?: LLMDiscoveredCapabilities }> = claudeModels.map(model => {
+        const entry = findListedModel(listed, model.modelId);
+        return entry ? { ...model, discovered: capabilitiesFromAnthropicModel(entry) } : model;
+      });
+      for (const entry of listed) {
+        if (!models.some(model => model.discovered && listedModelMatches(entry.id, model.modelId))) {
+          const discovered = capabilitiesFromAnthropicModel(entry);
+          models.push({
+            modelId: entry.id,
+            name: entry.display_name || entry.id,
+            provider: 'anthropic',
+            description: `Anthropic ${entry.display_name || entry.id}`,
+            contextLength: discovered.contextWindow ?? 200000,
+            maxTokens: discovered.maxOutputTokens ?? 8192,
+            capabilities: ['chat', 'completion'],
+            discovered
+          });
+        }
+      }
+
+      MessageBus.send('debug', `Registering ${models.length} Claude models (${listed.length} listed by the API)...`);
+      const registered: LLM[] = [];
 
-      for (const model of claudeModels) {
+      for (const model of models) {
         try {
           const now = Date.now();
           const nowStr = new Date().toISOString();
@@ -1747,9 +2478,10 @@ class LLMManager {
             provider: model.provider,
             inferenceType: 'cloud' as const,
             description: model.description,
-            contextLength: model.contextLength,
+            contextLength: model.discovered?.contextWindow ?? model.contextLength,
             maxTokens: model.maxTokens,
             capabilities: model.capabilities,
+            ...(model.discovered ? { discoveredCapabilities: model.discovered } : {}),
             server: 'https://api.anthropic.com',
             modelType: 'remote' as const,
             active: true,
@@ -1762,6 +2494,7 @@ class LLMManager {
 
           // Register in in-memory registry
           this.llmRegistry.register(llmObject, 'anthropic');
+          registered.push(llmObject);
 
           MessageBus.send('debug', `Registered Claude model: ${model.name}`);
         } catch (error) {
@@ -1769,6 +2502,8 @@ class LLMManager {
         }
       }
 
+      await this.persistDiscoveredCapabilities(registered);
+
       MessageBus.send('log', 'Claude model discovery complete');
     } catch (error: any) {
       MessageBus.send('error', 'Claude model discovery failed:', error);
@@ -1801,6 +2536,7 @@ class LLMManager {
 
         const now = Date.now();
         const nowStr = new Date().toISOString();
+        const discovered = await this.discoverLocalCapabilities(modelId);
 
         // Create LLM object
         const llmObject: any = {
@@ -1811,9 +2547,10 @@ class LLMManager {
           provider: 'transformers',
           inferenceType: 'ondevice' as const,
           description: `On-device ${model.name}`,
-          contextLength: model.contextLength || 4096,
+          contextLength: discovered?.contextWindow || model.contextLength || 4096,
           maxTokens: 2048,
           capabilities: ['chat'],
+          ...(discovered ? { discoveredCapabilities: discovered } : {}),
           server: 'local',
           modelType: 'local' as const,
           size: model.sizeBytes,
@@ -1837,6 +2574,140 @@ class LLMManager {
     MessageBus.send('log', 'Local model discovery complete');
   }
 
+  /**
+   * Query a model's capabilities from its backend and store them on the LLM object
+   * (registry entry and, if configured, the stored LLM version)
+   * Returns null when the backend reports nothing about the model.
+   */
+  async discoverCapabilities(modelId: string): Promise<LLMDiscoveredCapabilities | null> {
+    const llm: LLM | null = this.llmRegistry.get(modelId) ?? await this.getLLMFromStorage(modelId);
+    if (!llm) {
+      throw new Error(`Model ${modelId} not found`);
+    }
+
+    const discovered = await this.queryCapabilities(llm);
+    if (!discovered) {
+      MessageBus.send('debug', `No capabilities reported for ${modelId}`);
+      return null;
+    }
+
+    const updated: LLM = {
+      ...withDiscoveredContextLength(llm, discovered),
+      discoveredCapabilities: discovered
+    };
+    const entry = this.llmRegistry.getEntry(modelId);
+    if (entry) {
+      this.llmRegistry.register(updated, entry.source, entry.serverId);
+    }
+    await this.persistDiscoveredCapabilities([updated]);
+
+    MessageBus.send('log', `Discovered capabilities of ${modelId} (${discovered.source}): context ${discovered.contextWindow ?? '?'}, tools ${discovered.supportsTools ?? '?'}, vision ${discovered.supportsVision ?? '?'}, thinking ${discovered.supportsThinking ?? '?'}`);
+    return discovered;
+  }
+
+  private async queryCapabilities(llm: LLM): Promise<LLMDiscoveredCapabilities | null> {
+    const modelId = llm.modelId || llm.name;
+
+    if (llm.inferenceType === 'ondevice') {
+      return await this.discoverLocalCapabilities(modelId) ?? null;
+    }
+
+    if (llm.provider === 'ollama' || (llm.inferenceType === 'server' && !llm.provider)) {
+      const baseUrl = llm.server || this.getOllamaBaseUrl();
+      const headers = baseUrl === this.getOllamaBaseUrl() ? await this.getOllamaAuthHeaders() : undefined;
+      return capabilitiesFromOllamaShow(await showOllamaModel(baseUrl, llm.filename || llm.name, { headers }));
+    }
+
+    if (llm.provider === 'anthropic') {
+      const apiKey = await this.resolveApiKey('anthropic');
+      if (!apiKey) {
+        throw new Error('No Anthropic API key configured');
+      }
+      const entry = findListedModel(await listAnthropicModels(apiKey), modelId);
+      return entry ? capabilitiesFromAnthropicModel(entry) : null;
+    }
+
+    if (llm.provider === 'openai' || (llm.provider && llm.provider in OPENAI_COMPATIBLE_PROVIDERS)) {
+      const isOpenAI = llm.provider === 'openai';
+      const apiKey = isOpenAI || llm.authType === 'bearer' ? await this.resolveApiKey(llm.provider) : undefined;
+      const models = await listOpenAIModels({
+        baseUrl: isOpenAI ? undefined : resolveOpenAICompatibleBaseUrl(llm.server, llm.provider),
+        apiKey
+      });
+      const name = modelId.replace(`${llm.provider}:`, '');
+      const entry = models.find(model => model.id === name);
+      return entry ? capabilitiesFromOpenAIModel(entry) : null;
+    }
+
+    return null;
+  }
+
+  private async discoverOllamaCapabilities(
+    baseUrl: string,
+    model: string,
+    headers?: Record<string, string>
+  ): Promise<LLMDiscoveredCapabilities | undefined> {
+    try {
+      return capabilitiesFromOllamaShow(await showOllamaModel(baseUrl, model, { headers }));
+    } catch (error: any) {
+      MessageBus.send('debug', `No capabilities for ${model} from ${baseUrl}: ${error.message}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Capabilities from the GGUF header of an on-device model (platforms without GGUF files return undefined)
+   */
+  private async discoverLocalCapabilities(modelId: string): Promise<LLMDiscoveredCapabilities | undefined> {
+    if (!this.platform?.readLocalModelHeader) {
+      return undefined;
+    }
+    try {
+      const header = await this.platform.readLocalModelHeader(modelId, GGUF_HEADER_BYTES);
+      return header ? capabilitiesFromGGUF(parseGGUFMetadata(header)) : undefined;
+    } catch (error: any) {
+      MessageBus.send('debug', `No GGUF metadata for ${modelId}: ${error.message}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Write discovered capabilities to the stored versions of configured models
+   * Discovery-only models live in the registry and are not stored. A new
+   * version is only written when the capabilities changed.
+   */
+  private async persistDiscoveredCapabilities(llms: LLM[]): Promise<void> {
+    const discovered = llms.filter(llm => llm.discoveredCapabilities);
+    if (discovered.length === 0 || !this.channelManager) {
+      return;
+    }
+
+    try {
+      const participantsHash = await this.getAppChannelParticipants();
+      if (!participantsHash) {
+        return;
+      }
+
+      for (const stored of await this.getAllLLMsFromStorage()) {
+        const match = discovered.find(llm => isSameModel(llm, stored));
+        if (!match || sameDiscoveredCapabilities(stored.discoveredCapabilities, match.discoveredCapabilities)) {
+          continue;
+        }
+
+        const updated = {
+          ...withDiscoveredContextLength(stored, match.discoveredCapabilities!),
+          discoveredCapabilities: match.discoveredCapabilities,
+          modified: Date.now()
+        };
+        await storeVersionedObject(updated);
+        await this.channelManager.postToChannel(participantsHash, updated);
+        MessageBus.send('debug', `Stored discovered capabilities of ${stored.modelId || stored.name}`);
+      }
+    } catch (error) {
+      MessageBus.send('alert', 'Failed to store discovered capabilities:', error);
+    }
+  }
+
   /**
    * Register a -private variant that REFERENCES base model config
    * -private is a separate identity (Person) but uses same model config
@@ -1998,6 +2869,16 @@ class LLMManager {
   ): Promise<string> {
     MessageBus.send('debug', `Analyzing with cached context for topic ${topicId}`);
 
+    // Recorded/replayed like every other request (replays need no cached context)
+    const overridden = await this.chatThroughOverride(modelId, [{ role: 'user', content: prompt }], {
+      temperature: 0.3,
+      maxTokens: 2048,
+      format: options.format
+    });
+    if (overridden !== undefined) {
+      return typeof overridden === 'string' ? overridden : (overridden as any).content;
+    }
+
     // Get cached context
     const cachedContext = this.ollamaContextCache.get(topicId);
     if (!cachedContext) {
@@ -2025,20 +2906,38 @@ class LLMManager {
 
     MessageBus.send('debug', `Reusing ${cachedContext.length} tokens of cached context`);
 
-    // Use single-message format with cached context
-    const response = await chatWithOllama(
-      model.parameters.modelName,
-      [{ role: 'user', content: prompt }],
-      {
-        temperature: model.parameters.temperature,
-        max_tokens: model.parameters.maxTokens,
-        context: cachedContext, // Reuse cached KV state
-        topicId, // For tracking
-        format: options.format // Support structured output for analytics
-      },
-      model.baseUrl || 'http://localhost:11434'
+    // Queued like other analytics work - yields to interactive requests on the same server
+    const baseUrl = model.baseUrl || 'http://localhost:11434';
+    const concurrencyModelId = llmObject.modelId || llmObject.name;
+    this.concurrencyManager.ensureModel(concurrencyModelId, 'ollama', baseUrl);
+    const requestId = await this.concurrencyManager.acquireSlot(
+      concurrencyModelId,
+      topicId,
+      options.priority || 5,
+      'background',
+      options.signal
     );
 
+    let response;
+    try {
+      // Use single-message format with cached context
+      response = await chatWithOllama(
+        model.parameters.modelName,
+        [{ role: 'user', content: prompt }],
+        {
+          temperature: model.parameters.temperature,
+          max_tokens: model.parameters.maxTokens,
+          context: cachedContext, // Reuse cached KV state
+          topicId, // For tracking
+          format: options.format, // Support structured output for analytics
+          signal: options.signal // Cancels the running analysis too, freeing the slot for interactive chat
+        },
+        baseUrl
+      );
+    } finally {
+      this.concurrencyManager.releaseSlot(requestId);
+    }
+
     // Extract content from response
     if (typeof response === 'object' && response !== null && 'content' in response) {
       return (response as any).content;
@@ -2079,6 +2978,13 @@ class LLMManager {
     return this.concurrencyManager.getStats();
   }
 
+  /**
+   * Queue depth and wait times per concurrency group and request class
+   */
+  getConcurrencyMetrics(): ConcurrencyGroupMetrics[] {
+    return this.concurrencyManager.getMetrics();
+  }
+
   /**
    * Check if a model can run immediately without queuing
    */
@@ -2087,6 +2993,37 @@ class LLMManager {
   }
 }
 
+/**
+ * Listed model IDs carry a date suffix the built-in IDs may lack ('claude-haiku-4-5' → 'claude-haiku-4-5-20251001')
+ */
+function listedModelMatches(listedId: string, modelId: string): boolean {
+  return listedId === modelId || listedId.startsWith(`${modelId}-`);
+}
+
+function findListedModel(listed: AnthropicModelInfo[], modelId: string): AnthropicModelInfo | undefined {
+  return listed.find(entry => entry.id === modelId) ?? listed.find(entry => listedModelMatches(entry.id, modelId));
+}
+
+/**
+ * Fill contextLength from the discovered context window unless the user configured one
+ * A contextLength equal to the previously discovered window came from discovery
+ * and follows the new one.
+ */
+function withDiscoveredContextLength<T extends LLM>(llm: T, discovered: LLMDiscoveredCapabilities): T {
+  const configured = !!llm.contextLength && llm.contextLength !== llm.discoveredCapabilities?.contextWindow;
+  return discovered.contextWindow && !configured ? { ...llm, contextLength: discovered.contextWindow } : llm;
+}
+
+/**
+ * Same model by modelId or by the LLM ID fields (name + server)
+ */
+function isSameModel(a: LLM, b: LLM): boolean {
+  if (a.modelId && a.modelId === b.modelId) {
+    return true;
+  }
+  return a.name === b.name && (a.server || '').replace(/\/+$/, '') === (b.server || '').replace(/\/+$/, '');
+}
+
 // Export both the class (for custom instantiation) and a default singleton
 export { LLMManager }
 export default new LLMManager()
\ No newline at end of file
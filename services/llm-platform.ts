@@ -1,3 +1,5 @@
+import type { BPETokenizerFamily } from './tokenizer.js';
+
 /**
  * Message format for chat operations
  */
@@ -15,6 +17,7 @@ export interface LocalChatOptions {
   maxTokens?: number;
   format?: any; // JSON schema for structured output (analytics)
   topicId?: string;
+  signal?: AbortSignal; // Stop generating - platforms should interrupt inference
 }
 
 /**
@@ -27,7 +30,13 @@ export interface LLMPlatform {
   emitMessageUpdate(
     topicId: string,
     messageId: string,
-    content: string | { thinking?: string; response: string; raw?: string; language?: string },
+    content: string | {
+      thinking?: string;
+      response: string;
+      raw?: string;
+      language?: string;
+      fallbackFrom?: string; // Unavailable model (name) a fallback model answered for - shown by the UI, not stored
+    },
     status: string,
     modelId?: string,
     modelName?: string
@@ -44,6 +53,23 @@ export interface LLMPlatform {
   unloadLocalModel?(modelId: string): Promise<void>;
   getAvailableLocalModels?(): Promise<Array<{ id: string; name: string; size: number; installed: boolean }>>;
 
+  /**
+   * Text of a family's BPE rank table (tiktoken format) for exact token counts
+   * Loaded on first use of the family (see registerRankTable).
+   * @returns null if the platform does not ship the table
+   */
+  loadTokenizerRanks?(family: BPETokenizerFamily): Promise<string | null>;
+
+  // Local embeddings (optional - feature-extraction pipeline, one vector per text)
+  embedLocal?(modelId: string, texts: string[], options?: { signal?: AbortSignal }): Promise<number[][]>;
+
+  /**
+   * First bytes of an installed model's weights file (GGUF header) for capability discovery
+   * @param maxBytes - Upper bound - the metadata of large vocabularies can take several MB
+   * @returns null if the model has no GGUF file (e.g. ONNX)
+   */
+  readLocalModelHeader?(modelId: string, maxBytes: number): Promise<ArrayBuffer | null>;
+
   /**
    * Get installed local text-generation models for ONE.core registration
    * Called by AIModule during init to register models in storage
@@ -1,175 +1,109 @@
 /**
  * LM Studio Integration Service (Platform-Agnostic)
- * Handles communication with LM Studio via OpenAI-compatible API
- * Works in both Node.js and browser environments using native fetch
+ *
+ * @deprecated LM Studio is served by OpenAICompatibleAdapter (provider 'lmstudio').
+ * These functions delegate to it and are kept for existing callers; they will
+ * be removed in a future release.
  */
 
-// Use native fetch (Node.js 18+ and all browsers)
-// No imports needed - fetch is global
-
-const LM_STUDIO_BASE_URL = 'http://localhost:1234/v1'
+import type { LLM } from '../@OneObjectInterfaces.js';
+import type { ChatMessage } from './llm-adapters/types.js';
+import { OpenAICompatibleAdapter } from './llm-adapters/openai-compatible-adapter.js';
 
 interface LLMOptions {
   temperature?: number;
   max_tokens?: number;
   stream?: boolean;
+  signal?: AbortSignal;
+}
+
+const adapter = new OpenAICompatibleAdapter();
+
+function toLLM(modelName?: string): LLM {
+  // The server answers with its loaded model when the name is unknown
+  const name = modelName || 'default';
+  return { $type$: 'LLM', name, modelId: name, provider: 'lmstudio' } as LLM;
+}
+
+function toMessages(messages: any[]): ChatMessage[] {
+  return messages.map((msg: any) => ({ role: msg.role, content: msg.content }));
 }
 
 /**
  * Check if LM Studio is running
  */
-async function isLMStudioRunning(): Promise<any> {
+async function isLMStudioRunning(): Promise<boolean> {
   try {
-    const response = await fetch(`${LM_STUDIO_BASE_URL}/models`)
-    return response.ok
+    await adapter.listModels(toLLM());
+    return true;
   } catch (error) {
-    console.log('[LMStudio] Service not running on localhost:1234')
-    return false
+    console.log('[LMStudio] Service not running on localhost:1234');
+    return false;
   }
 }
 
 /**
  * Get available models from LM Studio
  */
-async function getAvailableModels(): Promise<any> {
+async function getAvailableModels(): Promise<Array<{ id: string }>> {
   try {
-    const response = await fetch(`${LM_STUDIO_BASE_URL}/models`)
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`)
-    }
-    const data: any = await response.json()
-    return data.data || []
+    const models = await adapter.listModels(toLLM());
+    return models.map(model => ({ id: model.id }));
   } catch (error) {
-    console.error('[LMStudio] Failed to get models:', error)
-    return []
+    console.error('[LMStudio] Failed to get models:', error);
+    return [];
   }
 }
 
 /**
  * Chat with LM Studio using OpenAI-compatible API
  */
-async function chatWithLMStudio(modelName: any, messages: any, options: LLMOptions = {}): Promise<any> {
-  try {
-    console.log(`[LMStudio] Chatting with ${modelName}, ${messages.length} messages`)
-
-    // LM Studio uses OpenAI-compatible format
-    const formattedMessages: any[] = messages.map((msg: any) => ({
-      role: msg.role,
-      content: msg.content
-    }))
-
-    console.log(`[LMStudio] Sending ${formattedMessages.length} messages`)
-
-    const requestBody = {
-      model: modelName || 'default', // LM Studio will use the loaded model
-      messages: formattedMessages,
-      temperature: options.temperature ?? 0.7,
-      max_tokens: options.max_tokens ?? 1000,
-      stream: false
-    }
-    
-    console.log('[LMStudio] Request body:', JSON.stringify(requestBody, null, 2))
-    
-    const response = await fetch(`${LM_STUDIO_BASE_URL}/chat/completions`, {
-      method: 'POST',
-      headers: { 
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify(requestBody)
-    })
-    
-    if (!response.ok) {
-      const errorText = await response.text()
-      throw new Error(`LM Studio API error: ${response.status} - ${errorText}`)
-    }
-
-    const data: any = await response.json()
-    console.log('[LMStudio] Response received:', data.choices?.[0]?.message?.content?.substring(0, 100) + '...')
-
-    if (data.choices && data.choices.length > 0) {
-      return data.choices[0].message.content
-    }
-    
-    throw new Error('No response from LM Studio')
-  } catch (error) {
-    console.error('[LMStudio] Chat error:', error)
-    throw error
-  }
+async function chatWithLMStudio(modelName: any, messages: any, options: LLMOptions = {}): Promise<string> {
+  const result = await adapter.chat(toLLM(modelName), toMessages(messages), {
+    temperature: options.temperature ?? 0.7,
+    maxTokens: options.max_tokens ?? 1000,
+    signal: options.signal
+  });
+  return result.content;
 }
 
 /**
  * Stream chat with LM Studio (returns an async generator)
  */
-async function* streamChatWithLMStudio(modelName: any, messages: any, options: LLMOptions = {}) {
-  try {
-    console.log(`[LMStudio] Streaming chat with ${modelName}`)
-
-    const formattedMessages: any[] = messages.map((msg: any) => ({
-      role: msg.role,
-      content: msg.content
-    }))
-
-    const response = await fetch(`${LM_STUDIO_BASE_URL}/chat/completions`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        model: modelName || 'default',
-        messages: formattedMessages,
-        temperature: options.temperature ?? 0.7,
-        max_tokens: options.max_tokens ?? 1000,
-        stream: true
-      })
-    })
-    
-    if (!response.ok) {
-      throw new Error(`LM Studio API error: ${response.status}`)
+async function* streamChatWithLMStudio(modelName: any, messages: any, options: LLMOptions = {}): AsyncGenerator<string> {
+  const chunks: string[] = [];
+  let wake: (() => void) | undefined;
+  let done = false;
+  let failure: unknown;
+
+  adapter.chat(toLLM(modelName), toMessages(messages), {
+    temperature: options.temperature ?? 0.7,
+    maxTokens: options.max_tokens ?? 1000,
+    signal: options.signal,
+    onStream: (chunk: string) => {
+      chunks.push(chunk);
+      wake?.();
     }
-
-    if (!response.body) {
-      throw new Error('Response body is null')
+  }).catch(error => {
+    failure = error;
+  }).finally(() => {
+    done = true;
+    wake?.();
+  });
+
+  while (true) {
+    if (chunks.length > 0) {
+      yield chunks.shift()!;
+      continue;
     }
-
-    const reader = response.body.getReader()
-    const decoder = new TextDecoder()
-    let buffer = ''
-
-    try {
-      while (true) {
-        const { done, value } = await reader.read()
-
-        if (done) {
-          break
-        }
-
-        buffer += decoder.decode(value, { stream: true })
-        const lines = buffer.split('\n')
-        buffer = lines.pop() || ''
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            const data = line.slice(6)
-            if (data === '[DONE]') {
-              return
-            }
-            try {
-              const parsed = JSON.parse(data)
-              if (parsed.choices?.[0]?.delta?.content) {
-                yield parsed.choices[0].delta.content
-              }
-            } catch (e: any) {
-              console.error('[LMStudio] Failed to parse streaming data:', e)
-            }
-          }
-        }
-      }
-    } finally {
-      reader.releaseLock()
+    if (failure) {
+      throw failure;
     }
-  } catch (error) {
-    console.error('[LMStudio] Stream error:', error)
-    throw error
+    if (done) {
+      return;
+    }
+    await new Promise<void>(resolve => { wake = resolve; });
+    wake = undefined;
   }
 }
 
@@ -178,4 +112,4 @@ export {
   getAvailableModels,
   chatWithLMStudio,
   streamChatWithLMStudio
-}
\ No newline at end of file
+}
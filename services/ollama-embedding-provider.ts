@@ -3,10 +3,16 @@
  *
  * Uses Ollama's /api/embeddings endpoint with configurable model.
  * Default model: nomic-embed-text (768 dimensions)
+ *
+ * @deprecated Use AdapterEmbeddingProvider (embedding-provider.ts), which works
+ * with every embedding-capable LLM adapter, not just a running Ollama server.
  */
 
 import type { EmbeddingProvider, EmbeddingModel } from '@cube/meaning.core';
 import { embedWithOllama, embedBatchWithOllama } from './ollama.js';
+import { DEFAULT_EMBEDDING_MODEL } from './embedding-provider.js';
+
+export { DEFAULT_EMBEDDING_MODEL };
 
 export interface OllamaEmbeddingConfig {
   /** Ollama embedding model name (default: 'nomic-embed-text') */
@@ -70,11 +76,6 @@ export class OllamaEmbeddingProvider implements EmbeddingProvider {
   }
 }
 
-/**
- * Default embedding model for LAMA
- */
-export const DEFAULT_EMBEDDING_MODEL = 'nomic-embed-text';
-
 /**
  * Create OllamaEmbeddingProvider with settings from config
  */
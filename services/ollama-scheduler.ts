@@ -0,0 +1,290 @@
+/**
+ * Ollama Scheduler
+ *
+ * Routes a request for an Ollama model to one of the servers hosting it
+ * (GlobalLLMSettings.ollamaServers, discovered into the LLMRegistry as
+ * `<name>@<host>`). Each candidate server is scored by the expected wait:
+ * - queue:    active + queued requests in the server's concurrency group
+ * - cold:     the model is not loaded (/api/ps) and must be read from disk first
+ * - eviction: loading it would exceed the most memory the server was ever seen
+ *             using, so another loaded model gets evicted
+ * - sticky:   the topic's previous server is preferred (its Ollama context cache
+ *             is only valid there)
+ *
+ * Servers that fail to answer are skipped for SERVER_COOLDOWN_MS, then tried
+ * again. LLMManager reroutes a failed request to the next server right away.
+ */
+
+import type { LLM } from '../@OneObjectInterfaces.js';
+import type { LLMRegistry } from './llm-registry.js';
+import type { LLMConcurrencyManager } from './llm-concurrency-manager.js';
+import { listRunningOllamaModels, type OllamaRunningModel } from './ollama.js';
+import { createMessageBus } from '@refinio/one.core/lib/message-bus.js';
+
+const MessageBus = createMessageBus('OllamaScheduler');
+
+/** Loaded models (/api/ps) are re-read after this */
+const LOADED_TTL_MS = 5_000;
+/** /api/ps slower than this counts as the server being unavailable */
+const PS_TIMEOUT_MS = 2_000;
+/** Unavailable servers are skipped this long */
+const SERVER_COOLDOWN_MS = 30_000;
+
+/** Cost of one request ahead in the queue */
+const QUEUE_COST = 1;
+/** Servers without a concurrency limit run requests in parallel - each still slows the others */
+const PARALLEL_QUEUE_COST = 0.5;
+const COLD_LOAD_COST = 2;
+const EVICTION_COST = 1;
+const STICKY_BONUS = 0.5;
+
+const MAX_TOPIC_ROUTES = 500;
+
+/** Connection errors of a server that is down or not reachable (UND_ERR_CONNECT_TIMEOUT: Node's connect timeout) */
+const UNREACHABLE_CODES = new Set(['ECONNREFUSED', 'ENOTFOUND', 'EHOSTUNREACH', 'ENETUNREACH', 'EAI_AGAIN', 'UND_ERR_CONNECT_TIMEOUT']);
+
+export interface OllamaRoute {
+  /** LLM object of the chosen server */
+  llm: LLM;
+  baseUrl: string;
+  /** Why this server was chosen (for logs) */
+  reason: string;
+}
+
+export interface OllamaServerState {
+  baseUrl: string;
+  available: boolean;
+  unavailableUntil?: number;
+  lastError?: string;
+  loadedModels: Array<{ name: string; sizeVram: number; expiresAt: string }>;
+  /** Most memory the server was seen using (bytes) - the eviction threshold */
+  peakVramBytes: number;
+  refreshedAt?: number;
+}
+
+interface ServerEntry {
+  loaded: OllamaRunningModel[];
+  refreshedAt: number;
+  peakVram: number;
+  unavailableUntil?: number;
+  lastError?: string;
+  refreshing?: Promise<void>;
+}
+
+export class OllamaScheduler {
+  private servers = new Map<string, ServerEntry>();
+  private topicRoutes = new Map<string, string>();
+
+  constructor(
+    private registry: LLMRegistry,
+    private concurrency: LLMConcurrencyManager,
+    private getHeaders: (baseUrl: string) => Promise<Record<string, string> | undefined> = async () => undefined
+  ) {}
+
+  /**
+   * Pick the server for a request - the given LLM when no other server hosts the model
+   */
+  async select(llm: LLM, context: { topicId?: string } = {}): Promise<OllamaRoute> {
+    const candidates = this.getCandidates(llm);
+    if (candidates.length <= 1) {
+      return { llm, baseUrl: serverOf(llm), reason: 'only server' };
+    }
+
+    const now = Date.now();
+    let reachable = candidates.filter(candidate => !this.isUnavailable(serverOf(candidate), now));
+    await Promise.all(reachable.map(candidate => this.refreshLoaded(serverOf(candidate))));
+    reachable = reachable.filter(candidate => !this.isUnavailable(serverOf(candidate), Date.now()));
+
+    if (reachable.length === 0) {
+      // Everything is down - try the requested server, failover takes it from there
+      return { llm, baseUrl: serverOf(llm), reason: 'no server available' };
+    }
+
+    const stickyServer = context.topicId ? this.topicRoutes.get(context.topicId) : undefined;
+    const modelSize = this.getModelSize(llm, candidates);
+
+    const scored = reachable.map(candidate => {
+      const baseUrl = serverOf(candidate);
+      const server = this.servers.get(baseUrl);
+      const loaded = server?.loaded.some(model => model.name === llm.name) ?? false;
+
+      const modelId = candidate.modelId || candidate.name;
+      this.concurrency.ensureModel(modelId, 'ollama', baseUrl);
+      const load = this.concurrency.getModelLoad(modelId);
+      const queueCost = (load.active + load.queued) * (load.maxConcurrent === null ? PARALLEL_QUEUE_COST : QUEUE_COST);
+
+      const usedVram = server?.loaded.reduce((sum, model) => sum + model.size_vram, 0) ?? 0;
+      const evicts = !loaded && !!modelSize && !!server?.peakVram && usedVram + modelSize > server.peakVram;
+
+      const score = queueCost
+        + (loaded ? 0 : COLD_LOAD_COST)
+        + (evicts ? EVICTION_COST : 0)
+        - (baseUrl === stickyServer ? STICKY_BONUS : 0);
+
+      const reason = [
+        loaded ? 'loaded' : 'cold',
+        `queue ${load.active + load.queued}`,
+        ...(evicts ? ['evicts'] : []),
+        ...(baseUrl === stickyServer ? ['sticky'] : [])
+      ].join(', ');
+      return { candidate, baseUrl, score, reason };
+    });
+
+    // Lowest score wins; ties keep the requested server
+    scored.sort((a, b) => a.score - b.score || Number(b.baseUrl === serverOf(llm)) - Number(a.baseUrl === serverOf(llm)));
+    const best = scored[0];
+
+    if (best.baseUrl !== serverOf(llm)) {
+      MessageBus.send('debug', `Routing ${llm.name} to ${best.baseUrl} (${best.reason}) instead of ${serverOf(llm)}`);
+    }
+    return { llm: best.candidate, baseUrl: best.baseUrl, reason: best.reason };
+  }
+
+  /**
+   * A request succeeded on a server - remember it for the topic
+   */
+  recordSuccess(baseUrl: string, topicId?: string): void {
+    const server = this.servers.get(baseUrl);
+    if (server?.unavailableUntil) {
+      server.unavailableUntil = undefined;
+      server.lastError = undefined;
+      MessageBus.send('log', `Ollama server ${baseUrl} is back`);
+    }
+    if (topicId) {
+      this.topicRoutes.delete(topicId);
+      this.topicRoutes.set(topicId, baseUrl);
+      if (this.topicRoutes.size > MAX_TOPIC_ROUTES) {
+        this.topicRoutes.delete(this.topicRoutes.keys().next().value!);
+      }
+    }
+  }
+
+  /**
+   * Skip a server for SERVER_COOLDOWN_MS
+   */
+  markUnavailable(baseUrl: string, error: Error): void {
+    const server = this.getServer(baseUrl);
+    server.unavailableUntil = Date.now() + SERVER_COOLDOWN_MS;
+    server.lastError = error.message;
+    server.loaded = [];
+    MessageBus.send('alert', `Ollama server ${baseUrl} unavailable for ${SERVER_COOLDOWN_MS / 1000}s: ${error.message}`);
+  }
+
+  /**
+   * Whether another reachable server hosts the model
+   */
+  hasAvailableServer(llm: LLM, excludeBaseUrl?: string): boolean {
+    const now = Date.now();
+    return this.getCandidates(llm).some(candidate => {
+      const baseUrl = serverOf(candidate);
+      return baseUrl !== excludeBaseUrl && !this.isUnavailable(baseUrl, now);
+    });
+  }
+
+  getServerStates(): OllamaServerState[] {
+    const now = Date.now();
+    return [...this.servers.entries()].map(([baseUrl, server]) => ({
+      baseUrl,
+      available: !this.isUnavailable(baseUrl, now),
+      ...(server.unavailableUntil && server.unavailableUntil > now ? { unavailableUntil: server.unavailableUntil } : {}),
+      ...(server.lastError ? { lastError: server.lastError } : {}),
+      loadedModels: server.loaded.map(model => ({ name: model.name, sizeVram: model.size_vram, expiresAt: model.expires_at })),
+      peakVramBytes: server.peakVram,
+      ...(server.refreshedAt ? { refreshedAt: server.refreshedAt } : {})
+    }));
+  }
+
+  /**
+   * Re-read the loaded models of a server (/api/ps) unless they are fresh
+   * A server that does not answer is marked unavailable.
+   */
+  async refreshLoaded(baseUrl: string, force = false): Promise<void> {
+    const server = this.getServer(baseUrl);
+    if (!force && Date.now() - server.refreshedAt < LOADED_TTL_MS) {
+      return;
+    }
+    if (!server.refreshing) {
+      server.refreshing = this.readLoaded(baseUrl, server).finally(() => { server.refreshing = undefined; });
+    }
+    await server.refreshing;
+  }
+
+  private async readLoaded(baseUrl: string, server: ServerEntry): Promise<void> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    try {
+      const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`/api/ps timed out after ${PS_TIMEOUT_MS}ms`)), PS_TIMEOUT_MS);
+      });
+      const loaded = await Promise.race([listRunningOllamaModels(baseUrl, await this.getHeaders(baseUrl)), timeout]);
+
+      server.loaded = loaded;
+      server.refreshedAt = Date.now();
+      server.peakVram = Math.max(server.peakVram, loaded.reduce((sum, model) => sum + model.size_vram, 0));
+      server.unavailableUntil = undefined;
+      server.lastError = undefined;
+    } catch (error: any) {
+      this.markUnavailable(baseUrl, error);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * The LLM plus every registered Ollama LLM with the same model name on another server
+   */
+  private getCandidates(llm: LLM): LLM[] {
+    const byServer = new Map<string, LLM>([[serverOf(llm), llm]]);
+    for (const candidate of this.registry.getByProvider('ollama')) {
+      if (candidate.name === llm.name && !byServer.has(serverOf(candidate))) {
+        byServer.set(serverOf(candidate), candidate);
+      }
+    }
+    return [...byServer.values()];
+  }
+
+  /**
+   * Memory the model takes when loaded - measured where it runs, else its file size
+   */
+  private getModelSize(llm: LLM, candidates: LLM[]): number | undefined {
+    for (const server of this.servers.values()) {
+      const running = server.loaded.find(model => model.name === llm.name);
+      if (running) {
+        return running.size_vram || running.size;
+      }
+    }
+    return candidates.find(candidate => candidate.size)?.size;
+  }
+
+  private isUnavailable(baseUrl: string, now: number): boolean {
+    const until = this.servers.get(baseUrl)?.unavailableUntil;
+    return until !== undefined && until > now;
+  }
+
+  private getServer(baseUrl: string): ServerEntry {
+    let server = this.servers.get(baseUrl);
+    if (!server) {
+      server = { loaded: [], refreshedAt: 0, peakVram: 0 };
+      this.servers.set(baseUrl, server);
+    }
+    return server;
+  }
+}
+
+/**
+ * Errors that mean the server itself is gone (not a model or request problem)
+ * Classified by error code - fetch() in Node puts it on error.cause. Only a
+ * connect timeout counts: a slow generation, an HTTP error or a connection
+ * reset while the model runs leave the server available.
+ */
+export function isServerUnreachableError(error: any): boolean {
+  const code = error?.code ?? error?.cause?.code;
+  if (code) {
+    return UNREACHABLE_CODES.has(code);
+  }
+  // fetch() rejects with a TypeError when no connection was made ('fetch failed' in Node, 'Failed to fetch' in browsers)
+  return error instanceof TypeError && /fetch/i.test(error.message);
+}
+
+function serverOf(llm: LLM): string {
+  return (llm.server || 'http://localhost:11434').replace(/\/+$/, '');
+}
@@ -120,6 +120,7 @@ async function testOllamaModel(modelName: any, baseUrl: string = 'http://localho
  * Chat with Ollama using the /api/chat endpoint
  *
  * @param options.format - Optional JSON schema for structured outputs (Ollama native)
+ * @param options.tools - Optional tool definitions in Ollama/OpenAI format (native tool calling)
  */
 async function chatWithOllama(
   modelName: any,
@@ -132,6 +133,14 @@ async function chatWithOllama(
   const controller = new AbortController()
   const topicId = options.topicId // Extract topicId from options if provided
 
+  // Caller's AbortSignal (options.signal) cancels like cancelStreamingForTopic
+  const onCallerAbort = () => controller.abort()
+  if (options.signal?.aborted) {
+    controller.abort()
+  } else {
+    options.signal?.addEventListener('abort', onCallerAbort, { once: true })
+  }
+
   // Track this request with its controller and topicId
   activeRequests.set(requestId, { controller, topicId })
 
@@ -171,7 +180,8 @@ async function chatWithOllama(
       model: modelName,
       messages: formattedMessages,
       stream: useStreaming,
-      keep_alive: -1,  // Keep model loaded indefinitely (prevents 15-20s reload delays)
+      // Configured keep-alive, otherwise keep the model loaded indefinitely (prevents 15-20s reload delays)
+      keep_alive: options.keepAlive !== undefined ? toOllamaKeepAlive(options.keepAlive) : -1,
       options: {
         temperature: options.temperature || 0.7,
         num_predict: options.max_tokens || 4096,  // Increased default for longer responses
@@ -189,6 +199,12 @@ async function chatWithOllama(
     // DEBUG: Log the actual num_predict value being sent
     MessageBus.send('debug', `[${requestId}] Request config: model=${modelName}, num_predict=${requestBody.options.num_predict}, max_tokens=${options.max_tokens}, messages=${formattedMessages.length}`);
 
+    // Add tools for native tool calling (model must support tools)
+    if (options.tools && options.tools.length > 0) {
+      requestBody.tools = options.tools;
+      MessageBus.send('debug', `[${requestId}] Native tools: ${options.tools.length}`);
+    }
+
     // Add format parameter for structured outputs (Ollama native)
     if (options.format) {
       requestBody.format = options.format;
@@ -221,6 +237,10 @@ async function chatWithOllama(
       let content = json.message?.content || json.response || json.thinking || ''
       MessageBus.send('debug', `Non-streaming response: ${content.length} chars`)
 
+      if (Array.isArray(json.message?.tool_calls) && json.message.tool_calls.length > 0) {
+        return { content, toolCalls: json.message.tool_calls }
+      }
+
       if (!content) {
         MessageBus.send('error', 'No content found! Response structure:', JSON.stringify(json, null, 2));
         throw new Error('Ollama generated no response - check response structure above')
@@ -232,6 +252,7 @@ async function chatWithOllama(
     let fullResponse = ''
     let fullThinking = '' // Separate accumulation for thinking (reasoning models)
     let contextArray: number[] | undefined = undefined // Ollama context for caching
+    const toolCalls: any[] = [] // Native tool calls (arrive in message.tool_calls)
     let firstChunkTime = null
     let buffer = ''
 
@@ -266,6 +287,11 @@ async function chatWithOllama(
               contextArray = json.context
             }
 
+            // Collect native tool calls
+            if (Array.isArray(json.message?.tool_calls)) {
+              toolCalls.push(...json.message.tool_calls)
+            }
+
             // Handle different response formats:
             // 1. Regular models: json.message.content
             // 2. Reasoning models: json.message.thinking (store separately, NEVER show)
@@ -337,7 +363,7 @@ async function chatWithOllama(
               }
             }
 
-            if (!content && !thinking && !json.done) {
+            if (!content && !thinking && !json.done && !json.message?.tool_calls) {
               // Log details for debugging but don't crash
               // (Skip final completion messages with done: true)
               MessageBus.send('alert', 'No content/thinking extracted from JSON. Keys:', Object.keys(json))
@@ -361,6 +387,10 @@ async function chatWithOllama(
           contextArray = json.context
         }
 
+        if (Array.isArray(json.message?.tool_calls)) {
+          toolCalls.push(...json.message.tool_calls)
+        }
+
         let content = ''
         let thinking = ''
 
@@ -417,7 +447,7 @@ async function chatWithOllama(
     const hasResponse = fullResponse && fullResponse !== '';
     const hasThinking = fullThinking && fullThinking !== '';
 
-    if (!hasResponse && !hasThinking) {
+    if (!hasResponse && !hasThinking && toolCalls.length === 0) {
       // Completely empty - this is an actual error
       throw new Error('Ollama generated no response - model may not support structured output or failed to generate')
     }
@@ -445,11 +475,12 @@ async function chatWithOllama(
 
     // Return structured response with thinking and context as metadata
     // If there's thinking or context, return object; otherwise return string for backwards compat
-    if (fullThinking || contextArray) {
+    if (fullThinking || contextArray || toolCalls.length > 0) {
       return {
         content: fullResponse,
         thinking: fullThinking || undefined,
         context: contextArray,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
         _hasThinking: !!fullThinking,
         _hasContext: !!contextArray
       }
@@ -482,6 +513,8 @@ async function chatWithOllama(
     }
     
     throw error
+  } finally {
+    options.signal?.removeEventListener('abort', onCallerAbort)
   }
 }
 
@@ -625,13 +658,15 @@ export function parseOllamaModel(model: OllamaModel): OllamaModelInfo {
  * @param text - Text to embed
  * @param baseUrl - Ollama base URL (default: http://localhost:11434)
  * @param authHeaders - Optional auth headers
+ * @param signal - Optional AbortSignal to cancel the request
  * @returns Embedding vector (number[])
  */
 export async function embedWithOllama(
   modelName: string,
   text: string,
   baseUrl: string = 'http://localhost:11434',
-  authHeaders?: Record<string, string>
+  authHeaders?: Record<string, string>,
+  signal?: AbortSignal
 ): Promise<number[]> {
   try {
     const headers = {
@@ -645,7 +680,8 @@ export async function embedWithOllama(
       body: JSON.stringify({
         model: modelName,
         prompt: text
-      })
+      }),
+      signal
     });
 
     if (!response.ok) {
@@ -672,20 +708,209 @@ export async function embedWithOllama(
  * @param texts - Array of texts to embed
  * @param baseUrl - Ollama base URL
  * @param authHeaders - Optional auth headers
+ * @param signal - Optional AbortSignal to cancel the requests
  * @returns Array of embedding vectors
  */
 export async function embedBatchWithOllama(
   modelName: string,
   texts: string[],
   baseUrl: string = 'http://localhost:11434',
-  authHeaders?: Record<string, string>
+  authHeaders?: Record<string, string>,
+  signal?: AbortSignal
 ): Promise<number[][]> {
   // Ollama doesn't have native batch endpoint, so we parallelize single requests
   return Promise.all(
-    texts.map(text => embedWithOllama(modelName, text, baseUrl, authHeaders))
+    texts.map(text => embedWithOllama(modelName, text, baseUrl, authHeaders, signal))
   );
 }
 
+/**
+ * Progress line of a model pull
+ * `total`/`completed` are set while a layer downloads ('pulling <digest>')
+ */
+export interface OllamaPullProgress {
+  status: string
+  digest?: string
+  total?: number
+  completed?: number
+}
+
+/**
+ * Model loaded in memory (GET /api/ps)
+ */
+export interface OllamaRunningModel {
+  name: string
+  model: string
+  size: number
+  size_vram: number
+  expires_at: string
+  digest?: string
+  context_length?: number
+  details?: OllamaModel['details']
+}
+
+/**
+ * Keep-alive as Ollama expects it: seconds as number ('-1' = forever, '0' = unload now),
+ * durations ('10m', '24h') as string
+ */
+export function toOllamaKeepAlive(keepAlive: string | number): string | number {
+  return typeof keepAlive === 'string' && /^-?\d+$/.test(keepAlive) ? Number(keepAlive) : keepAlive
+}
+
+/**
+ * Valid keep-alive: seconds ('-1', '0', '300') or a duration ('30s', '10m', '24h')
+ */
+export function isValidOllamaKeepAlive(keepAlive: string): boolean {
+  return /^-?\d+(\.\d+)?(ms|s|m|h)?$/.test(keepAlive)
+}
+
+/**
+ * Download a model to the server (POST /api/pull)
+ * Resolves when the pull reports success; progress lines go to onProgress.
+ */
+export async function pullOllamaModel(
+  baseUrl: string,
+  model: string,
+  options: {
+    headers?: Record<string, string>
+    signal?: AbortSignal
+    insecure?: boolean
+    onProgress?: (progress: OllamaPullProgress) => void
+  } = {}
+): Promise<void> {
+  const response: any = await fetch(`${baseUrl}/api/pull`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(options.headers || {}) },
+    body: JSON.stringify({ model, insecure: options.insecure || undefined, stream: true }),
+    signal: options.signal
+  })
+
+  if (!response.ok) {
+    throw new Error(`Ollama pull of ${model} failed (${response.status}): ${await readErrorText(response)}`)
+  }
+
+  // NDJSON - one progress object per line, { error } on failure
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  let lastStatus = ''
+
+  const handleLine = (line: string) => {
+    if (!line.trim()) return
+    let progress: any
+    try {
+      progress = JSON.parse(line)
+    } catch {
+      throw new Error(`Ollama pull of ${model} returned malformed progress: ${line.slice(0, 200)}`)
+    }
+    if (progress.error) {
+      throw new Error(`Ollama pull of ${model} failed: ${progress.error}`)
+    }
+    lastStatus = progress.status
+    options.onProgress?.(progress)
+  }
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+      const lines = buffer.split('\n')
+      buffer = lines.pop() || ''
+      lines.forEach(handleLine)
+    }
+    // The last line may arrive without a trailing newline
+    handleLine(buffer + decoder.decode())
+  } finally {
+    reader.releaseLock()
+  }
+
+  if (lastStatus !== 'success') {
+    throw new Error(`Ollama pull of ${model} ended without success (last status: ${lastStatus || 'none'})`)
+  }
+}
+
+/**
+ * Remove a model from the server (DELETE /api/delete)
+ */
+export async function deleteOllamaModel(baseUrl: string, model: string, headers?: Record<string, string>): Promise<void> {
+  const response: any = await fetch(`${baseUrl}/api/delete`, {
+    method: 'DELETE',
+    headers: { 'Content-Type': 'application/json', ...(headers || {}) },
+    body: JSON.stringify({ model })
+  })
+
+  if (!response.ok) {
+    throw new Error(`Ollama delete of ${model} failed (${response.status}): ${await readErrorText(response)}`)
+  }
+}
+
+/**
+ * Copy a model under a new name (POST /api/copy)
+ */
+export async function copyOllamaModel(
+  baseUrl: string,
+  source: string,
+  destination: string,
+  headers?: Record<string, string>
+): Promise<void> {
+  const response: any = await fetch(`${baseUrl}/api/copy`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(headers || {}) },
+    body: JSON.stringify({ source, destination })
+  })
+
+  if (!response.ok) {
+    throw new Error(`Ollama copy of ${source} to ${destination} failed (${response.status}): ${await readErrorText(response)}`)
+  }
+}
+
+/**
+ * Models currently loaded in memory (GET /api/ps)
+ */
+export async function listRunningOllamaModels(baseUrl: string, headers?: Record<string, string>): Promise<OllamaRunningModel[]> {
+  const response: any = await fetch(`${baseUrl}/api/ps`, { headers: headers || {} })
+
+  if (!response.ok) {
+    throw new Error(`Ollama /api/ps failed (${response.status}): ${await readErrorText(response)}`)
+  }
+
+  const data = await response.json() as { models?: OllamaRunningModel[] }
+  return data.models || []
+}
+
+/**
+ * Load a model into memory, or unload it with keepAlive '0' (POST /api/generate without prompt)
+ * The keep-alive also resets the unload timer of an already loaded model.
+ */
+export async function loadOllamaModel(
+  baseUrl: string,
+  model: string,
+  keepAlive: string | number,
+  headers?: Record<string, string>
+): Promise<void> {
+  const response: any = await fetch(`${baseUrl}/api/generate`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(headers || {}) },
+    body: JSON.stringify({ model, keep_alive: toOllamaKeepAlive(keepAlive), stream: false })
+  })
+
+  if (!response.ok) {
+    throw new Error(`Ollama load of ${model} failed (${response.status}): ${await readErrorText(response)}`)
+  }
+  await response.json()
+}
+
+async function readErrorText(response: any): Promise<string> {
+  try {
+    const body = await response.json()
+    return body?.error || response.statusText
+  } catch {
+    return response.statusText
+  }
+}
+
 export {
   isOllamaRunning,
   testOllamaModel,
@@ -1,29 +1,85 @@
 /**
  * Browser-compatible OpenAI API client using fetch()
  * No Node.js SDK dependencies - pure HTTP implementation
+ *
+ * Also speaks to OpenAI-compatible servers (vLLM, llama.cpp server, LocalAI,
+ * LM Studio) - pass their baseUrl; apiKey is optional for servers without auth.
+ *
+ * Chat and embedding requests go through the shared ProviderRateLimiter (per
+ * server and API key): 429/529 responses are queued and retried, the
+ * x-ratelimit-* headers teach the limits.
  */
 
+import type { LLMRequestClass } from '../models/ai/types.js';
+import {
+  createRateLimitError,
+  estimateRequestTokens,
+  fetchWithRateLimit,
+  getProviderRateLimiter,
+  isRateLimitStatus
+} from './provider-rate-limiter.js';
+
+export const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
 export interface OpenAIMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | any[] | null; // Content parts for multimodal user messages
+  tool_calls?: any[]; // assistant tool calls
+  tool_call_id?: string; // tool result
 }
 
 export interface OpenAIChatOptions {
-  apiKey: string;
+  apiKey?: string; // Required by OpenAI, optional for self-hosted servers
+  baseUrl?: string; // API root including /v1 (default: OpenAI)
   model: string;
   messages: OpenAIMessage[];
   temperature?: number;
   max_tokens?: number;
   tools?: any[];
+  tool_choice?: 'auto' | 'none' | 'required';
+  response_format?: OpenAIResponseFormat;
   onStream?: (chunk: string) => void;
+  onThinkingStream?: (chunk: string) => void; // reasoning_content deltas (vLLM/llama.cpp reasoning parsers)
   signal?: AbortSignal;
   proxyUrl?: string; // Optional CORS proxy for browser use
+  requestClass?: LLMRequestClass; // Rate limiter queue priority (default: interactive)
+}
+
+/**
+ * Structured output: free-form JSON or JSON constrained by a schema
+ */
+export type OpenAIResponseFormat =
+  | { type: 'json_object' }
+  | { type: 'json_schema'; json_schema: { name: string; schema: Record<string, unknown>; strict?: boolean } };
+
+/**
+ * Full response: text plus tool_calls, finish reason and usage
+ */
+export interface OpenAIChatResponse {
+  content: string;
+  reasoning?: string; // reasoning_content from servers with a reasoning parser
+  tool_calls: Array<{ id: string; type: 'function'; function: { name: string; arguments: string } }>;
+  finish_reason?: string;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
 }
 
 /**
  * Chat with OpenAI API using fetch() - works in browser and Node.js
+ * Returns the text content only. Use chatWithOpenAIHTTPDetailed for tool calls.
  */
 export async function chatWithOpenAIHTTP(options: OpenAIChatOptions): Promise<string> {
+  const response = await chatWithOpenAIHTTPDetailed(options);
+  return response.content;
+}
+
+/**
+ * Chat with OpenAI API and return text, tool_calls and usage
+ */
+export async function chatWithOpenAIHTTPDetailed(options: OpenAIChatOptions): Promise<OpenAIChatResponse> {
   const {
     apiKey,
     model,
@@ -31,56 +87,79 @@ export async function chatWithOpenAIHTTP(options: OpenAIChatOptions): Promise<st
     temperature = 0.7,
     max_tokens = 4096,
     tools,
+    tool_choice,
+    response_format,
     onStream,
+    onThinkingStream,
     signal
   } = options;
 
   const requestBody: any = {
     model,
-    messages: messages.map(m => ({ role: m.role, content: m.content })),
+    messages,
     temperature,
     max_tokens
   };
 
   if (tools && tools.length > 0) {
     requestBody.tools = tools;
+    if (tool_choice) {
+      requestBody.tool_choice = tool_choice;
+    }
+  }
+
+  if (response_format) {
+    requestBody.response_format = response_format;
   }
 
   // Streaming vs non-streaming
   if (onStream) {
     requestBody.stream = true;
+    requestBody.stream_options = { include_usage: true };
   }
 
-  // Use proxy if provided (for browser CORS), otherwise direct API call
-  const apiUrl = options.proxyUrl
-    ? `${options.proxyUrl}/https://api.openai.com/v1/chat/completions`
-    : 'https://api.openai.com/v1/chat/completions';
-
-  const response = await fetch(apiUrl, {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${apiKey}`,
-      'Content-Type': 'application/json'
-    },
-    body: JSON.stringify(requestBody),
-    signal
-  });
+  const apiUrl = buildApiUrl(options.baseUrl, '/chat/completions', options.proxyUrl);
+
+  const body = JSON.stringify(requestBody);
+  const { response, ticket } = await fetchWithRateLimit(
+    rateLimitScope(options.baseUrl),
+    apiKey,
+    { estimatedTokens: estimateRequestTokens(body, max_tokens), requestClass: options.requestClass, signal },
+    () => fetch(apiUrl, {
+      method: 'POST',
+      headers: {
+        ...buildAuthHeaders(apiKey),
+        'Content-Type': 'application/json'
+      },
+      body,
+      signal
+    })
+  );
 
   if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`OpenAI API error (${response.status}): ${errorText}`);
+    throw await createHttpError(response, options.baseUrl);
   }
 
+  // Correct the rate limiter's token estimate with the reported usage
+  const settle = (usage: OpenAIChatResponse['usage']) => getProviderRateLimiter().complete(ticket, usage?.total_tokens);
+
   // Non-streaming response
   if (!onStream) {
     const data = await response.json();
 
     if (data.choices && data.choices.length > 0) {
       const message = data.choices[0].message;
-      return message.content || '';
+      settle(data.usage);
+      return {
+        content: message.content || '',
+        reasoning: message.reasoning_content || undefined,
+        tool_calls: message.tool_calls || [],
+        finish_reason: data.choices[0].finish_reason,
+        usage: data.usage
+      };
     }
 
-    throw new Error('Unexpected response format from OpenAI API');
+    throw new Error(`Unexpected response format from ${apiLabel(options.baseUrl)}`);
   }
 
   // Streaming response
@@ -92,6 +171,11 @@ export async function chatWithOpenAIHTTP(options: OpenAIChatOptions): Promise<st
   const decoder = new TextDecoder();
   let buffer = '';
   let fullResponse = '';
+  let fullReasoning = '';
+  let finishReason: string | undefined;
+  let usage: OpenAIChatResponse['usage'];
+  // Tool call fragments arrive keyed by index
+  const toolCalls = new Map<number, { id: string; name: string; arguments: string }>();
 
   try {
     while (true) {
@@ -123,6 +207,27 @@ export async function chatWithOpenAIHTTP(options: OpenAIChatOptions): Promise<st
               fullResponse += chunk;
               onStream(chunk);
             }
+            if (delta && delta.reasoning_content) {
+              fullReasoning += delta.reasoning_content;
+              onThinkingStream?.(delta.reasoning_content);
+            }
+            if (delta && Array.isArray(delta.tool_calls)) {
+              for (const fragment of delta.tool_calls) {
+                const existing = toolCalls.get(fragment.index) || { id: '', name: '', arguments: '' };
+                if (fragment.id) existing.id = fragment.id;
+                if (fragment.function?.name) existing.name += fragment.function.name;
+                if (fragment.function?.arguments) existing.arguments += fragment.function.arguments;
+                toolCalls.set(fragment.index, existing);
+              }
+            }
+            if (event.choices[0].finish_reason) {
+              finishReason = event.choices[0].finish_reason;
+            }
+          }
+
+          // Final chunk carries usage when stream_options.include_usage is set
+          if (event.usage) {
+            usage = event.usage;
           }
         } catch (e) {
           // Ignore JSON parse errors for incomplete chunks
@@ -131,12 +236,121 @@ export async function chatWithOpenAIHTTP(options: OpenAIChatOptions): Promise<st
       }
     }
 
-    return fullResponse;
+    settle(usage);
+    return {
+      content: fullResponse,
+      reasoning: fullReasoning || undefined,
+      tool_calls: Array.from(toolCalls.values()).map(call => ({
+        id: call.id,
+        type: 'function' as const,
+        function: { name: call.name, arguments: call.arguments }
+      })),
+      finish_reason: finishReason,
+      usage
+    };
   } finally {
     reader.releaseLock();
   }
 }
 
+/**
+ * List models served at baseUrl (GET /v1/models)
+ * Entries keep server-specific fields (vLLM max_model_len, LM Studio type, ...)
+ */
+export async function listOpenAIModels(options: {
+  baseUrl?: string;
+  apiKey?: string;
+  proxyUrl?: string;
+  signal?: AbortSignal;
+}): Promise<Array<{ id: string; owned_by?: string; created?: number; [field: string]: unknown }>> {
+  const response = await fetch(buildApiUrl(options.baseUrl, '/models', options.proxyUrl), {
+    method: 'GET',
+    headers: buildAuthHeaders(options.apiKey),
+    signal: options.signal
+  });
+
+  if (!response.ok) {
+    throw await createHttpError(response, options.baseUrl);
+  }
+
+  const data = await response.json();
+  return Array.isArray(data?.data) ? data.data : [];
+}
+
+/**
+ * Embed texts via POST /v1/embeddings - vectors are returned in input order
+ */
+export async function embedWithOpenAIHTTP(options: {
+  baseUrl?: string;
+  apiKey?: string;
+  model: string;
+  input: string[];
+  proxyUrl?: string;
+  signal?: AbortSignal;
+  requestClass?: LLMRequestClass;
+}): Promise<{ vectors: number[][]; model: string }> {
+  const body = JSON.stringify({ model: options.model, input: options.input });
+  const { response, ticket } = await fetchWithRateLimit(
+    rateLimitScope(options.baseUrl),
+    options.apiKey,
+    { estimatedTokens: estimateRequestTokens(body), requestClass: options.requestClass ?? 'background', signal: options.signal },
+    () => fetch(buildApiUrl(options.baseUrl, '/embeddings', options.proxyUrl), {
+      method: 'POST',
+      headers: {
+        ...buildAuthHeaders(options.apiKey),
+        'Content-Type': 'application/json'
+      },
+      body,
+      signal: options.signal
+    })
+  );
+
+  if (!response.ok) {
+    throw await createHttpError(response, options.baseUrl);
+  }
+
+  const data = await response.json();
+  getProviderRateLimiter().complete(ticket, data?.usage?.total_tokens);
+  if (!Array.isArray(data?.data)) {
+    throw new Error(`Unexpected embeddings response from ${apiLabel(options.baseUrl)}`);
+  }
+
+  const items = [...data.data].sort((a: any, b: any) => (a.index ?? 0) - (b.index ?? 0));
+  return {
+    vectors: items.map((item: any) => item.embedding as number[]),
+    model: data.model || options.model
+  };
+}
+
+/**
+ * Join the API root and endpoint path, prefixed with the CORS proxy if given
+ */
+function buildApiUrl(baseUrl: string | undefined, path: string, proxyUrl?: string): string {
+  const url = `${(baseUrl || OPENAI_BASE_URL).replace(/\/+$/, '')}${path}`;
+  return proxyUrl ? `${proxyUrl}/${url}` : url;
+}
+
+function buildAuthHeaders(apiKey?: string): Record<string, string> {
+  return apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {};
+}
+
+function apiLabel(baseUrl?: string): string {
+  return !baseUrl || baseUrl === OPENAI_BASE_URL ? 'OpenAI API' : `OpenAI-compatible server ${baseUrl}`;
+}
+
+/**
+ * Rate limiter scope: 'openai' for the OpenAI API, the server URL otherwise
+ */
+export function rateLimitScope(baseUrl?: string): string {
+  return !baseUrl || baseUrl === OPENAI_BASE_URL ? 'openai' : baseUrl.replace(/\/+$/, '');
+}
+
+async function createHttpError(response: Response, baseUrl?: string): Promise<Error> {
+  const errorText = await response.text();
+  const message = `${apiLabel(baseUrl)} error (${response.status}): ${errorText}`;
+  return isRateLimitStatus(response.status) ? createRateLimitError(message, response.status, response.headers) : new Error(message);
+}
+
 /**
  * Test an OpenAI API key
  */
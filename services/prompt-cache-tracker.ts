@@ -0,0 +1,132 @@
+/**
+ * Prompt Cache Tracker
+ *
+ * Per-topic statistics for provider prompt caching (Anthropic cache_control).
+ * LLMManager records the cache token counts of every response that reports
+ * them, together with the PromptParts cache keys that were sent.
+ *
+ * Cache keys explain misses: when part1 (system prompt) or part2 (past
+ * subjects) changes, the provider has to write the cache again.
+ *
+ * Savings are measured in input-token equivalents using Anthropic's
+ * multipliers: cache writes cost 1.25x, cache reads 0.1x a normal input token.
+ */
+
+import type { ChatResult } from './llm-adapters/types.js';
+
+export const CACHE_WRITE_MULTIPLIER = 1.25;
+export const CACHE_READ_MULTIPLIER = 0.1;
+
+export interface PromptCacheStats {
+  topicId: string;
+  requests: number;
+  /** Requests that read from the cache */
+  hits: number;
+  /** Requests that wrote the cache (first call, cache expired or invalidated) */
+  writes: number;
+  /** hits / requests */
+  hitRate: number;
+  uncachedTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  /** Share of prompt tokens served from the cache */
+  tokenHitRate: number;
+  /** Input-token equivalents saved compared to sending every prompt uncached (negative = overhead) */
+  savedTokens: number;
+  /** savedTokens relative to the uncached cost of all prompts */
+  savingsRate: number;
+  /** Cache key changes between consecutive requests (expected cache misses) */
+  invalidations: number;
+  cacheKeys: string[];
+  lastModelId?: string;
+  lastRequestAt?: number;
+}
+
+type CacheUsage = NonNullable<ChatResult['usage']>;
+
+export class PromptCacheTracker {
+  private stats = new Map<string, PromptCacheStats>();
+
+  /**
+   * Record the cache usage of one response
+   * Responses without cache token counts (providers without caching) are ignored.
+   */
+  record(topicId: string, modelId: string, usage: CacheUsage, cacheKeys: string[] = []): void {
+    if (usage.cacheCreationTokens === undefined && usage.cacheReadTokens === undefined) {
+      return;
+    }
+
+    const entry = this.stats.get(topicId) ?? this.createEntry(topicId);
+    const created = usage.cacheCreationTokens ?? 0;
+    const read = usage.cacheReadTokens ?? 0;
+
+    entry.requests++;
+    if (read > 0) entry.hits++;
+    if (created > 0) entry.writes++;
+    entry.cacheCreationTokens += created;
+    entry.cacheReadTokens += read;
+    entry.uncachedTokens += Math.max(0, usage.promptTokens - created - read);
+
+    if (cacheKeys.length > 0) {
+      if (entry.cacheKeys.length > 0 && cacheKeys.some((key, i) => key !== entry.cacheKeys[i])) {
+        entry.invalidations++;
+      }
+      entry.cacheKeys = cacheKeys;
+    }
+
+    entry.lastModelId = modelId;
+    entry.lastRequestAt = Date.now();
+    this.updateRates(entry);
+    this.stats.set(topicId, entry);
+  }
+
+  getStats(topicId: string): PromptCacheStats | undefined {
+    const entry = this.stats.get(topicId);
+    return entry ? { ...entry, cacheKeys: [...entry.cacheKeys] } : undefined;
+  }
+
+  getAllStats(): PromptCacheStats[] {
+    return [...this.stats.keys()].map(topicId => this.getStats(topicId)!);
+  }
+
+  /**
+   * Without a topicId all statistics are cleared
+   */
+  reset(topicId?: string): void {
+    if (topicId) {
+      this.stats.delete(topicId);
+    } else {
+      this.stats.clear();
+    }
+  }
+
+  private createEntry(topicId: string): PromptCacheStats {
+    return {
+      topicId,
+      requests: 0,
+      hits: 0,
+      writes: 0,
+      hitRate: 0,
+      uncachedTokens: 0,
+      cacheCreationTokens: 0,
+      cacheReadTokens: 0,
+      tokenHitRate: 0,
+      savedTokens: 0,
+      savingsRate: 0,
+      invalidations: 0,
+      cacheKeys: []
+    };
+  }
+
+  private updateRates(entry: PromptCacheStats): void {
+    const total = entry.uncachedTokens + entry.cacheCreationTokens + entry.cacheReadTokens;
+    const cost = entry.uncachedTokens
+      + entry.cacheCreationTokens * CACHE_WRITE_MULTIPLIER
+      + entry.cacheReadTokens * CACHE_READ_MULTIPLIER;
+
+    entry.hitRate = entry.requests > 0 ? entry.hits / entry.requests : 0;
+    entry.tokenHitRate = total > 0 ? entry.cacheReadTokens / total : 0;
+    entry.savedTokens = Math.round(total - cost);
+    entry.savingsRate = total > 0 ? (total - cost) / total : 0;
+  }
+}
@@ -1,8 +1,24 @@
 /**
- * ProposalEngine - Generates proposals based on subject matching
+ * ProposalEngine - Hybrid lexical + embedding proposal retrieval
  *
- * Scans past subjects for keyword matches with current subjects using Jaccard similarity.
- * Calculates recency boost for recent subjects.
+ * Builds a corpus of past subjects (description + keywords) and retrieves
+ * candidates two ways:
+ * - Lexical: BM25 over subject descriptions and keyword terms
+ * - Semantic: cosine similarity of description embeddings (AdapterEmbeddingProvider)
+ *
+ * The two ranked lists are merged with reciprocal rank fusion (RRF), which
+ * only looks at ranks - BM25 scores and cosine similarities live on
+ * incomparable scales. Without an embedding provider (or when the embedding
+ * backend is unreachable) retrieval falls back to the lexical list alone.
+ *
+ * Floors: the vector list only holds subjects with similarity >= minSimilarity;
+ * subjects only the lexical list found also need keyword Jaccard >= minJaccard.
+ *
+ * Cached subject vectors record the model and dimensions that produced them;
+ * vectors of another model are re-embedded before they are compared.
+ *
+ * Every proposal carries a score breakdown so the UI can explain why it was
+ * suggested.
  *
  * Reference: /specs/019-above-the-chat/tasks.md T012
  * Reference: /specs/019-above-the-chat/research.md lines 59-72
@@ -11,32 +27,113 @@
 import type { SHA256IdHash } from '@refinio/one.core/lib/util/type-checks.js';
 import { getObjectByIdHash } from '@refinio/one.core/lib/storage-versioned-objects.js';
 import { calculateIdHashOfObj } from '@refinio/one.core/lib/util/object.js';
+import type { AdapterEmbeddingProvider, EmbeddingVector } from './embedding-provider.js';
 
 export interface ProposalConfig {
   matchWeight: number;
   recencyWeight: number;
   recencyWindow: number;
-  minJaccard: number;
+  minJaccard: number;      // Keyword overlap needed by candidates the vector list did not return
+  minSimilarity?: number;  // Embedding similarity needed to enter the vector list (default: 0.5)
   maxProposals: number;
 }
 
+/**
+ * Why a proposal was suggested
+ * Ranks are 1-based; a missing rank means the retriever did not return the subject.
+ */
+export interface ProposalScoreBreakdown {
+  lexicalScore: number;       // BM25 over description + keywords
+  lexicalRank?: number;
+  vectorSimilarity?: number;  // Cosine similarity of description embeddings
+  vectorRank?: number;
+  fusedScore: number;         // Reciprocal rank fusion, normalized to 0.0-1.0
+  jaccard: number;            // Keyword overlap with the current subjects
+  recency: number;
+  feedback?: number;          // Learned from dismiss/view/share (set by ProposalRanker)
+  relevance?: number;         // Final ranking score (set by ProposalRanker)
+}
+
 export interface UnrankedProposal {
   pastSubject: SHA256IdHash<any>;
   jaccardScore: number;
+  matchScore?: number;  // Fused retrieval score - ranked instead of jaccardScore when present
   recencyScore: number;
   matchedKeywords: string[];
   pastSubjectName: string;
   sourceTopicId: string;
   createdAt: number;
+  scoreBreakdown?: ProposalScoreBreakdown;
+}
+
+interface CorpusEntry {
+  idHash: SHA256IdHash<any>;
+  name: string;
+  description: string;
+  keywords: string[];
+  tokens: string[];
+  topicId: string;
+  createdAt: number;
 }
 
+/** RRF constant - dampens the advantage of the very top ranks (Cormack et al.) */
+const RRF_K = 60;
+
+/** BM25 parameters */
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+/** Keyword terms count this many times in a document (they are curated, descriptions are prose) */
+const KEYWORD_FIELD_WEIGHT = 2;
+
+/** Each retriever contributes at most maxProposals * CANDIDATE_DEPTH candidates */
+const CANDIDATE_DEPTH = 5;
+
+/** Concurrent embedding requests while indexing the corpus */
+const EMBED_BATCH_SIZE = 8;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'how', 'in',
+  'is', 'it', 'its', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'what',
+  'when', 'which', 'with', 'about', 'into', 'der', 'die', 'das', 'und', 'ist', 'mit'
+]);
+
 export class ProposalEngine {
   private topicAnalysisModel: any;
   private topicManager?: any;  // Optional AITopicManager for default topic checks
+  private embeddingProvider?: AdapterEmbeddingProvider;
+  private embeddingCache = new Map<string, EmbeddingVector & { text: string }>();
 
-  constructor(topicAnalysisModel: any, topicManager?: any) {
+  constructor(topicAnalysisModel: any, topicManager?: any, embeddingProvider?: AdapterEmbeddingProvider) {
     this.topicAnalysisModel = topicAnalysisModel;
     this.topicManager = topicManager;
+    this.embeddingProvider = embeddingProvider;
+  }
+
+  /**
+   * Set or replace the embedding provider (e.g. after the embedding model changed)
+   * Cached subject vectors belong to the old model and are dropped.
+   */
+  setEmbeddingProvider(provider: AdapterEmbeddingProvider | undefined): void {
+    this.embeddingProvider = provider;
+    this.embeddingCache.clear();
+  }
+
+  /**
+   * Re-embed all subject descriptions with the provider's current model
+   * Called when the embedding model changed, so the next query does not pay for it.
+   * Returns the number of subjects embedded.
+   */
+  async reindexEmbeddings(): Promise<number> {
+    const provider = this.embeddingProvider;
+    if (!provider || !this.topicAnalysisModel) {
+      return 0;
+    }
+
+    const corpus = await this.loadCorpus('');
+    const embedded = await this.embedCorpus(provider, corpus);
+    console.log(`[ProposalEngine] Re-embedded ${embedded} subjects with ${provider.getModelId()}`);
+    return embedded;
   }
 
   /**
@@ -51,40 +148,24 @@ export class ProposalEngine {
    * Calculate Jaccard similarity between two keyword sets
    *
    * Jaccard = |intersection| / |union|
-   *
-   * @param set1 - First set of keywords
-   * @param set2 - Second set of keywords
-   * @returns Jaccard similarity score (0.0-1.0)
    */
   private calculateJaccard(set1: string[], set2: string[]): number {
-    if (set1.length === 0 && set2.length === 0) {
-      return 0;
-    }
-
     const s1 = new Set(set1.map(k => k.toLowerCase()));
     const s2 = new Set(set2.map(k => k.toLowerCase()));
-
-    // Calculate intersection
-    const intersection = new Set([...s1].filter(x => s2.has(x)));
-
-    // Calculate union
     const union = new Set([...s1, ...s2]);
 
     if (union.size === 0) {
       return 0;
     }
 
-    return intersection.size / union.size;
+    const intersection = [...s1].filter(x => s2.has(x));
+    return intersection.length / union.size;
   }
 
   /**
    * Calculate recency boost for a subject
    *
    * Linear decay: boost = max(0, 1 - (age / recencyWindow))
-   *
-   * @param createdAt - Subject creation timestamp
-   * @param recencyWindow - Time window for recency boost (ms)
-   * @returns Recency score (0.0-1.0)
    */
   private calculateRecencyBoost(createdAt: number, recencyWindow: number): number {
     const age = Date.now() - createdAt;
@@ -97,174 +178,348 @@ export class ProposalEngine {
   }
 
   /**
-   * Get proposals for a topic based on current subjects
-   *
-   * @param topicId - Current topic ID
-   * @param currentSubjectIdHashes - ID hashes of current subjects
-   * @param config - User's proposal configuration
-   * @returns Unranked proposals (ranking happens in ProposalRanker)
+   * Split text into lowercase terms for BM25
    */
-  async getProposalsForTopic(
-    topicId: string,
-    currentSubjectIdHashes: SHA256IdHash<any>[],
-    config: ProposalConfig
-  ): Promise<UnrankedProposal[]> {
-    console.log('[ProposalEngine] Getting proposals for topic:', topicId);
-    console.log('[ProposalEngine] Current subjects:', currentSubjectIdHashes.length);
+  private tokenize(text: string): string[] {
+    return text
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(token => token.length > 1 && !STOPWORDS.has(token));
+  }
 
-    if (!this.topicAnalysisModel) {
-      console.log('[ProposalEngine] TopicAnalysisModel not initialized');
-      return [];
+  private async resolveKeywordTerms(keywordIdHashes: unknown): Promise<string[]> {
+    const terms: string[] = [];
+    if (!Array.isArray(keywordIdHashes)) {
+      return terms;
     }
 
-    if (currentSubjectIdHashes.length === 0) {
-      console.log('[ProposalEngine] No current subjects');
-      return [];
+    for (const keywordIdHash of keywordIdHashes) {
+      try {
+        const keywordResult = await getObjectByIdHash(keywordIdHash);
+        const term = (keywordResult?.obj as any)?.term;
+        if (term) {
+          terms.push(term);
+        }
+      } catch (err) {
+        // Ignore keyword resolution errors
+      }
     }
 
-    // Get current subject keywords
-    const currentKeywords: string[] = [];
+    return terms;
+  }
+
+  /**
+   * Load descriptions and keyword terms of the current subjects (the query)
+   */
+  private async loadQuery(currentSubjectIdHashes: SHA256IdHash<any>[]): Promise<{ descriptions: string[]; keywords: string[] }> {
+    const descriptions: string[] = [];
+    const keywords: string[] = [];
+
     for (const subjectIdHash of currentSubjectIdHashes) {
       try {
         const result = await getObjectByIdHash(subjectIdHash);
-        if (result?.obj) {
-          const subject = result.obj as any;
-          if (subject.keywords && Array.isArray(subject.keywords)) {
-            // Keywords are ID hashes - need to resolve them
-            for (const keywordIdHash of subject.keywords) {
-              try {
-                const keywordResult = await getObjectByIdHash(keywordIdHash);
-                if (keywordResult?.obj) {
-                  const keyword = keywordResult.obj as any;
-                  if (keyword.term) {
-                    currentKeywords.push(keyword.term);
-                  }
-                }
-              } catch (err) {
-                console.warn('[ProposalEngine] Failed to resolve keyword:', keywordIdHash);
-              }
-            }
-          }
+        const subject = result?.obj as any;
+        if (!subject) continue;
+
+        if (subject.description) {
+          descriptions.push(subject.description);
         }
+        keywords.push(...await this.resolveKeywordTerms(subject.keywords));
       } catch (err) {
         console.warn('[ProposalEngine] Failed to load subject:', subjectIdHash);
       }
     }
 
-    console.log('[ProposalEngine] Current keywords:', currentKeywords);
-
-    if (currentKeywords.length === 0) {
-      console.log('[ProposalEngine] No keywords in current subjects');
-      return [];
-    }
+    return { descriptions, keywords };
+  }
 
-    // Get all past subjects from all topics (excluding current topic)
-    const allTopics = await this.topicAnalysisModel.getAllTopics();
+  /**
+   * Collect past subjects from all topics except the current one
+   */
+  private async loadCorpus(topicId: string): Promise<CorpusEntry[]> {
+    const allTopics: string[] = (await this.topicAnalysisModel.getAllTopics()) || [];
 
     // CRITICAL: Explicitly include "lama" memory topic for MCP-stored memories
     if (!allTopics.includes('lama')) {
       allTopics.push('lama');
     }
 
-    console.log('[ProposalEngine] Found', allTopics?.length || 0, 'total topics (including memories)');
+    const corpus: CorpusEntry[] = [];
+    const seen = new Set<string>();
 
-    const proposals: UnrankedProposal[] = [];
-
-    for (const pastTopicId of allTopics || []) {
-      // Skip current topic
-      if (pastTopicId === topicId) {
-        console.log('[ProposalEngine] Skipping current topic:', pastTopicId);
-        continue;
-      }
+    for (const pastTopicId of allTopics) {
+      if (pastTopicId === topicId) continue;
 
       try {
-        const isMemoryTopic = this.isMemoryTopic(pastTopicId);
-        console.log('[ProposalEngine] Processing topic:', pastTopicId, isMemoryTopic ? '(MEMORY)' : '');
-
         const pastSubjects = await this.topicAnalysisModel.getSubjects(pastTopicId);
 
-        console.log('[ProposalEngine] Found', pastSubjects?.length || 0, 'subjects in topic:', pastTopicId);
-
         for (const pastSubject of pastSubjects || []) {
-          // Get past subject keywords
-          const pastKeywords: string[] = [];
-          if (pastSubject.keywords && Array.isArray(pastSubject.keywords)) {
-            for (const keywordIdHash of pastSubject.keywords) {
-              try {
-                const keywordResult = await getObjectByIdHash(keywordIdHash);
-                if (keywordResult?.obj) {
-                  const keyword = keywordResult.obj as any;
-                  if (keyword.term) {
-                    pastKeywords.push(keyword.term);
-                  }
-                }
-              } catch (err) {
-                // Ignore keyword resolution errors
-              }
-            }
-          }
-
-          if (pastKeywords.length === 0) {
-            console.log('[ProposalEngine] Skipping subject with no keywords:', pastSubject.id || 'unknown');
-            continue;
-          }
+          const keywords = await this.resolveKeywordTerms(pastSubject.keywords);
+          const description: string = pastSubject.description || '';
 
-          // Calculate Jaccard similarity
-          const jaccardScore = this.calculateJaccard(currentKeywords, pastKeywords);
-
-          // Skip if below threshold
-          if (jaccardScore < config.minJaccard) {
-            console.log('[ProposalEngine] Skipping subject due to low Jaccard score:', {
-              subjectId: pastSubject.id || 'unknown',
-              score: jaccardScore.toFixed(3),
-              threshold: config.minJaccard,
-              pastKeywords: pastKeywords.slice(0, 5).join(', ')
-            });
+          if (keywords.length === 0 && !description) {
             continue;
           }
 
-          console.log('[ProposalEngine] ✅ Creating proposal for subject:', {
-            subjectId: pastSubject.id || 'unknown',
-            jaccardScore: jaccardScore.toFixed(3),
-            matchedKeywords: [...new Set(currentKeywords.map(k => k.toLowerCase()))].filter(k =>
-              new Set(pastKeywords.map(p => p.toLowerCase())).has(k)
-            ).slice(0, 5).join(', ')
-          });
-
-          // Calculate matched keywords
-          const currentSet = new Set(currentKeywords.map(k => k.toLowerCase()));
-          const pastSet = new Set(pastKeywords.map(k => k.toLowerCase()));
-          const matchedKeywords = [...currentSet].filter(k => pastSet.has(k));
-
-          // Calculate recency boost
-          const createdAt = pastSubject.created || pastSubject.createdAt || Date.now();
-          const recencyScore = this.calculateRecencyBoost(createdAt, config.recencyWindow);
-
           // Calculate proper ID hash for the subject
-          const pastSubjectIdHash = await calculateIdHashOfObj({
+          const idHash = await calculateIdHashOfObj({
             $type$: 'Subject',
             id: pastSubject.id
           } as any);
 
-          // Create proposal
-          // Use LLM-generated description as display name, fallback to keyword combination
-          proposals.push({
-            pastSubject: pastSubjectIdHash,
-            jaccardScore,
-            recencyScore,
-            matchedKeywords,
-            pastSubjectName: pastSubject.description || pastSubject.id || 'Unknown Subject',
-            sourceTopicId: pastTopicId,
-            createdAt
+          // Subjects shared between topics are proposed once
+          if (seen.has(idHash)) continue;
+          seen.add(idHash);
+
+          const keywordTokens = this.tokenize(keywords.join(' '));
+          const tokens = this.tokenize(description);
+          for (let i = 0; i < KEYWORD_FIELD_WEIGHT; i++) {
+            tokens.push(...keywordTokens);
+          }
+
+          corpus.push({
+            idHash,
+            // Use LLM-generated description as display name, fallback to keyword combination
+            name: description || pastSubject.id || 'Unknown Subject',
+            description,
+            keywords,
+            tokens,
+            topicId: pastTopicId,
+            createdAt: pastSubject.created || pastSubject.createdAt || Date.now()
           });
         }
       } catch (err) {
-        console.warn('[ProposalEngine] Failed to process topic:', pastTopicId, err);
+        console.warn('[ProposalEngine] Failed to process topic:', pastTopicId, this.isMemoryTopic(pastTopicId) ? '(MEMORY)' : '', err);
+      }
+    }
+
+    return corpus;
+  }
+
+  /**
+   * Okapi BM25 score of every document for the query terms
+   */
+  private scoreBM25(queryTerms: string[], corpus: CorpusEntry[]): number[] {
+    const terms = [...new Set(queryTerms)];
+    const documentCount = corpus.length;
+    const averageLength = corpus.reduce((sum, entry) => sum + entry.tokens.length, 0) / Math.max(1, documentCount);
+
+    const termFrequencies = corpus.map(entry => {
+      const frequencies = new Map<string, number>();
+      for (const token of entry.tokens) {
+        frequencies.set(token, (frequencies.get(token) ?? 0) + 1);
+      }
+      return frequencies;
+    });
+
+    const idf = new Map<string, number>();
+    for (const term of terms) {
+      const documentFrequency = termFrequencies.filter(frequencies => frequencies.has(term)).length;
+      idf.set(term, Math.log(1 + (documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5)));
+    }
+
+    return corpus.map((entry, index) => {
+      const lengthNorm = 1 - BM25_B + BM25_B * (entry.tokens.length / (averageLength || 1));
+      let score = 0;
+      for (const term of terms) {
+        const tf = termFrequencies[index].get(term) ?? 0;
+        if (tf === 0) continue;
+        score += idf.get(term)! * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * lengthNorm);
+      }
+      return score;
+    });
+  }
+
+  /**
+   * Cosine similarity of the query embedding against every subject description
+   * Returns null when no embedding provider is available or embedding fails.
+   */
+  private async scoreVectors(queryText: string, corpus: CorpusEntry[]): Promise<Array<number | undefined> | null> {
+    const provider = this.embeddingProvider;
+    if (!provider || !queryText) {
+      return null;
+    }
+
+    try {
+      const query = await provider.embedWithInfo([queryText]);
+      const queryVector = query.vectors[0];
+
+      await this.embedCorpus(provider, corpus);
+
+      // Only vectors from the query's model (and dimensions) are comparable
+      return corpus.map(entry => {
+        const cached = entry.description ? this.embeddingCache.get(entry.idHash) : undefined;
+        if (!cached || cached.model !== query.model || cached.dimensions !== query.dimensions) {
+          return undefined;
+        }
+        return cosineSimilarity(queryVector, cached.vector);
+      });
+    } catch (err) {
+      console.warn('[ProposalEngine] Embedding failed, using lexical retrieval only:', (err as Error).message);
+      return null;
+    }
+  }
+
+  /**
+   * Embed subjects whose description is new, changed, or embedded by another model
+   */
+  private async embedCorpus(provider: AdapterEmbeddingProvider, corpus: CorpusEntry[]): Promise<number> {
+    const model = provider.getModelId();
+    const missing = corpus.filter(entry => {
+      if (!entry.description) return false;
+      const cached = this.embeddingCache.get(entry.idHash);
+      return cached?.text !== entry.description || cached.model !== model;
+    });
+
+    for (let i = 0; i < missing.length; i += EMBED_BATCH_SIZE) {
+      const batch = missing.slice(i, i + EMBED_BATCH_SIZE);
+      const result = await provider.embedWithInfo(batch.map(entry => entry.description));
+      batch.forEach((entry, j) => {
+        this.embeddingCache.set(entry.idHash, {
+          text: entry.description,
+          vector: result.vectors[j],
+          model: result.model,
+          dimensions: result.dimensions
+        });
+      });
+    }
+    return missing.length;
+  }
+
+  /**
+   * Get proposals for a topic based on current subjects
+   *
+   * @param topicId - Current topic ID
+   * @param currentSubjectIdHashes - ID hashes of current subjects
+   * @param config - User's proposal configuration
+   * @returns Unranked proposals with fused scores (ranking happens in ProposalRanker)
+   */
+  async getProposalsForTopic(
+    topicId: string,
+    currentSubjectIdHashes: SHA256IdHash<any>[],
+    config: ProposalConfig
+  ): Promise<UnrankedProposal[]> {
+    console.log('[ProposalEngine] Getting proposals for topic:', topicId, 'subjects:', currentSubjectIdHashes.length);
+
+    if (!this.topicAnalysisModel) {
+      console.log('[ProposalEngine] TopicAnalysisModel not initialized');
+      return [];
+    }
+
+    if (currentSubjectIdHashes.length === 0) {
+      return [];
+    }
+
+    const query = await this.loadQuery(currentSubjectIdHashes);
+    const queryTerms = this.tokenize([...query.descriptions, ...query.keywords].join(' '));
+
+    if (queryTerms.length === 0) {
+      console.log('[ProposalEngine] No descriptions or keywords in current subjects');
+      return [];
+    }
+
+    const corpus = await this.loadCorpus(topicId);
+    if (corpus.length === 0) {
+      return [];
+    }
+
+    const depth = Math.max(1, config.maxProposals) * CANDIDATE_DEPTH;
+    const minSimilarity = config.minSimilarity ?? 0.5;
+
+    // Lexical list
+    const bm25Scores = this.scoreBM25(queryTerms, corpus);
+    const lexicalRanks = rankIndices(bm25Scores, score => score > 0, depth);
+
+    // Vector list (query text falls back to keywords when subjects have no descriptions)
+    const queryText = query.descriptions.length > 0 ? query.descriptions.join(' ') : query.keywords.join(', ');
+    const similarities = await this.scoreVectors(queryText, corpus);
+    const vectorRanks = similarities
+      ? rankIndices(similarities.map(s => s ?? -1), s => s >= minSimilarity, depth)
+      : new Map<number, number>();
+
+    // Reciprocal rank fusion, normalized so a subject ranked first by every active retriever scores 1.0
+    const activeLists = similarities ? 2 : 1;
+    const maxFused = activeLists / (RRF_K + 1);
+    const candidates = new Set([...lexicalRanks.keys(), ...vectorRanks.keys()]);
+    const currentKeywordSet = new Set(query.keywords.map(k => k.toLowerCase()));
+
+    const proposals: UnrankedProposal[] = [];
+    for (const index of candidates) {
+      const entry = corpus[index];
+      const lexicalRank = lexicalRanks.get(index);
+      const vectorRank = vectorRanks.get(index);
+
+      let fused = 0;
+      if (lexicalRank !== undefined) fused += 1 / (RRF_K + lexicalRank);
+      if (vectorRank !== undefined) fused += 1 / (RRF_K + vectorRank);
+      const fusedScore = fused / maxFused;
+
+      const jaccardScore = this.calculateJaccard(query.keywords, entry.keywords);
+      if (vectorRank === undefined && jaccardScore < config.minJaccard) {
+        continue;
       }
+
+      const recencyScore = this.calculateRecencyBoost(entry.createdAt, config.recencyWindow);
+      const matchedKeywords = [...new Set(entry.keywords.map(k => k.toLowerCase()))]
+        .filter(k => currentKeywordSet.has(k));
+
+      proposals.push({
+        pastSubject: entry.idHash,
+        jaccardScore,
+        matchScore: fusedScore,
+        recencyScore,
+        matchedKeywords,
+        pastSubjectName: entry.name,
+        sourceTopicId: entry.topicId,
+        createdAt: entry.createdAt,
+        scoreBreakdown: {
+          lexicalScore: bm25Scores[index],
+          lexicalRank,
+          vectorSimilarity: similarities?.[index],
+          vectorRank,
+          fusedScore,
+          jaccard: jaccardScore,
+          recency: recencyScore
+        }
+      });
     }
 
-    console.log('[ProposalEngine] Generated', proposals.length, 'proposals');
+    console.log('[ProposalEngine] Generated', proposals.length, 'proposals from', corpus.length, 'subjects', {
+      lexical: lexicalRanks.size,
+      vector: similarities ? vectorRanks.size : 'unavailable'
+    });
 
     return proposals;
   }
 }
+
+/**
+ * Rank document indices by score (descending), keeping those that pass the filter
+ * @returns Map of document index → 1-based rank
+ */
+function rankIndices(scores: number[], include: (score: number) => boolean, limit: number): Map<number, number> {
+  const ranked = scores
+    .map((score, index) => ({ score, index }))
+    .filter(item => include(item.score))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+
+  return new Map(ranked.map((item, i) => [item.index, i + 1]));
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) {
+    return 0;
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA === 0 || normB === 0 ? 0 : dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
@@ -2,65 +2,135 @@
  * ProposalRanker - Ranks proposals by relevance
  *
  * Calculates relevance scores using weighted combination of:
- * - Jaccard similarity (keyword match strength)
+ * - Match score (fused BM25 + embedding retrieval, Jaccard for legacy proposals)
  * - Recency boost (prefer recent subjects)
+ * - Learned feedback (per-user subject/keyword weights from dismiss/view/share)
  *
  * Reference: /specs/019-above-the-chat/tasks.md T013
  * Reference: /specs/019-above-the-chat/research.md lines 60-72
  */
 
+import type { ProposalScoreBreakdown } from './proposal-engine.js';
+
 export interface ProposalConfig {
   matchWeight: number;
   recencyWeight: number;
   recencyWindow: number;
   minJaccard: number;
   maxProposals: number;
+  minRelevance?: number;
+  feedbackWeight?: number;
+  learnedWeights?: LearnedProposalWeights;
+}
+
+/**
+ * Per-user ranking model learned from proposal interactions
+ * Weights range from -1 (always dismissed) to 1 (always shared).
+ */
+export interface LearnedProposalWeights {
+  subjects: Record<string, number>;  // Subject IdHash → weight
+  keywords: Record<string, number>;  // Keyword term (lowercase) → weight
+  interactionCount: number;
+  updatedAt: number;
 }
 
+export interface ProposalInteraction {
+  action: 'view' | 'dismiss' | 'share';
+  pastSubject: string;
+  keywords: string[];
+  createdAt?: number;
+}
+
+/** Weight change per interaction: [subject, keyword] */
+const INTERACTION_DELTAS: Record<ProposalInteraction['action'], [number, number]> = {
+  dismiss: [-0.4, -0.1],
+  view: [0.05, 0.02],
+  share: [0.3, 0.1]
+};
+
+/** Default influence of learned weights when config.feedbackWeight is unset */
+export const DEFAULT_FEEDBACK_WEIGHT = 0.5;
+
+/** Default relevance a proposal needs to be shown when config.minRelevance is unset - opt-in, nothing is dropped */
+export const DEFAULT_MIN_RELEVANCE = 0;
+
 export interface UnrankedProposal {
   pastSubject: any;
   jaccardScore: number;
+  matchScore?: number;
   recencyScore: number;
   matchedKeywords: string[];
   pastSubjectName: string;
   sourceTopicId: string;
   createdAt: number;
+  scoreBreakdown?: ProposalScoreBreakdown;
 }
 
 export interface RankedProposal extends UnrankedProposal {
   relevanceScore: number;
+  feedbackScore?: number;
+}
+
+/**
+ * Create an empty learned model
+ */
+export function createLearnedWeights(): LearnedProposalWeights {
+  return { subjects: {}, keywords: {}, interactionCount: 0, updatedAt: 0 };
 }
 
 export class ProposalRanker {
   /**
    * Rank proposals by relevance score
    *
-   * relevanceScore = jaccardScore * matchWeight + recencyScore * recencyWeight
+   * relevanceScore = matchScore * matchWeight + recencyScore * recencyWeight
+   * (matchScore falls back to jaccardScore), scaled by learned feedback
    *
    * @param proposals - Unranked proposals from ProposalEngine
    * @param config - User's proposal configuration
-   * @returns Proposals sorted by relevanceScore descending, limited to maxProposals
+   * @returns Proposals with relevanceScore >= minRelevance, sorted descending, limited to maxProposals
    */
   rankProposals(proposals: UnrankedProposal[], config: ProposalConfig): RankedProposal[] {
     console.log('[ProposalRanker] Ranking', proposals.length, 'proposals');
 
+    const learned = config.learnedWeights;
+    const feedbackWeight = config.feedbackWeight ?? DEFAULT_FEEDBACK_WEIGHT;
+
     // Calculate relevance scores
     const ranked: RankedProposal[] = proposals.map(proposal => {
-      const relevanceScore =
-        (proposal.jaccardScore * config.matchWeight) +
+      const baseScore =
+        ((proposal.matchScore ?? proposal.jaccardScore) * config.matchWeight) +
         (proposal.recencyScore * config.recencyWeight);
 
+      if (!learned || learned.interactionCount === 0) {
+        return {
+          ...proposal,
+          relevanceScore: baseScore,
+          scoreBreakdown: proposal.scoreBreakdown && { ...proposal.scoreBreakdown, relevance: baseScore }
+        };
+      }
+
+      // Learned feedback scales the score: dismissed topics sink, shared ones rise
+      const feedbackScore = this.getFeedbackScore(proposal, learned);
+      const relevanceScore = baseScore * (1 + feedbackWeight * feedbackScore);
       return {
         ...proposal,
-        relevanceScore
+        relevanceScore,
+        feedbackScore,
+        scoreBreakdown: proposal.scoreBreakdown && {
+          ...proposal.scoreBreakdown,
+          feedback: feedbackScore,
+          relevance: relevanceScore
+        }
       };
     });
 
-    // Sort by relevance score descending
-    ranked.sort((a, b) => b.relevanceScore - a.relevanceScore);
+    // Drop weak matches, sort by relevance score descending
+    const minRelevance = config.minRelevance ?? DEFAULT_MIN_RELEVANCE;
+    const relevant = ranked.filter(proposal => proposal.relevanceScore >= minRelevance);
+    relevant.sort((a, b) => b.relevanceScore - a.relevanceScore);
 
     // Limit to maxProposals
-    const limited = ranked.slice(0, config.maxProposals);
+    const limited = relevant.slice(0, config.maxProposals);
 
     console.log('[ProposalRanker] Top ranked:', {
       count: limited.length,
@@ -70,4 +140,57 @@ export class ProposalRanker {
 
     return limited;
   }
+
+  /**
+   * Feedback score in [-1, 1]: subject weight plus mean weight of the matched keywords
+   */
+  getFeedbackScore(proposal: UnrankedProposal, learned: LearnedProposalWeights): number {
+    const subjectWeight = learned.subjects[String(proposal.pastSubject)] ?? 0;
+
+    const keywordWeights = proposal.matchedKeywords
+      .map(keyword => learned.keywords[keyword.toLowerCase()])
+      .filter((weight): weight is number => weight !== undefined);
+    const keywordWeight = keywordWeights.length > 0
+      ? keywordWeights.reduce((sum, weight) => sum + weight, 0) / keywordWeights.length
+      : 0;
+
+    return clamp(subjectWeight + keywordWeight);
+  }
+
+  /**
+   * Update a user's learned weights with one interaction
+   * Returns a new object - the input is not modified.
+   */
+  applyInteraction(weights: LearnedProposalWeights, interaction: ProposalInteraction): LearnedProposalWeights {
+    const [subjectDelta, keywordDelta] = INTERACTION_DELTAS[interaction.action];
+    const subjects = { ...weights.subjects };
+    const keywords = { ...weights.keywords };
+
+    subjects[interaction.pastSubject] = clamp((subjects[interaction.pastSubject] ?? 0) + subjectDelta);
+    for (const keyword of interaction.keywords) {
+      const term = keyword.toLowerCase();
+      keywords[term] = clamp((keywords[term] ?? 0) + keywordDelta);
+    }
+
+    return {
+      subjects,
+      keywords,
+      interactionCount: weights.interactionCount + 1,
+      updatedAt: interaction.createdAt ?? Date.now()
+    };
+  }
+
+  /**
+   * Rebuild learned weights from an interaction history (oldest first)
+   */
+  replayInteractions(interactions: ProposalInteraction[]): LearnedProposalWeights {
+    return interactions.reduce(
+      (weights, interaction) => this.applyInteraction(weights, interaction),
+      createLearnedWeights()
+    );
+  }
+}
+
+function clamp(value: number): number {
+  return Math.max(-1, Math.min(1, value));
 }
@@ -0,0 +1,508 @@
+/**
+ * Provider Rate Limiter
+ *
+ * Token buckets for requests/min and tokens/min per provider and API key, so
+ * cloud calls wait in a queue instead of failing with 429 (rate limited) or
+ * 529 (overloaded).
+ *
+ * - Limits are learned from response headers (anthropic-ratelimit-*,
+ *   x-ratelimit-*); configured limits cap them. A bucket without known limits
+ *   lets everything through until the first headers arrive.
+ * - A 429/529 blocks the bucket for Retry-After (or an exponential backoff)
+ *   and the request is queued again - up to MAX_RATE_LIMIT_RETRIES times.
+ * - The queue runs by request class (interactive > analysis > background, one
+ *   class up per minute of waiting). Analysis and background requests leave a
+ *   reserve of the bucket to interactive chat, so they are throttled first.
+ *
+ * The HTTP clients (anthropic-http.ts, openai-http.ts) go through
+ * fetchWithRateLimit(); the token estimate of each request is corrected with
+ * the reported usage via complete().
+ */
+
+import { createMessageBus } from '@refinio/one.core/lib/message-bus.js';
+import type { LLMRequestClass } from '../models/ai/types.js';
+import { createAbortError, throwIfAborted } from './cancellation.js';
+import { AGING_MS, CLASS_RANK, REQUEST_CLASSES } from './llm-concurrency-manager.js';
+
+const MessageBus = createMessageBus('ProviderRateLimiter');
+
+export const MAX_RATE_LIMIT_RETRIES = 5;
+
+const MINUTE_MS = 60_000;
+const MAX_BACKOFF_MS = 60_000;
+// Share of the bucket each class must leave for higher classes
+const CLASS_RESERVE: Record<LLMRequestClass, number> = { interactive: 0, analysis: 0.1, background: 0.25 };
+
+export interface RateLimits {
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+}
+
+/**
+ * Rate limit state from one response's headers
+ */
+export interface RateLimitHeaders {
+  requestsLimit?: number;
+  requestsRemaining?: number;
+  tokensLimit?: number;
+  tokensRemaining?: number;
+  retryAfterMs?: number;
+}
+
+export interface RateLimitState {
+  scope: string;
+  /** Fingerprint of the API key - never the key itself */
+  keyId: string;
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+  requestsAvailable?: number;
+  tokensAvailable?: number;
+  /** Set while a Retry-After is in effect */
+  blockedUntil?: number;
+  queued: Record<LLMRequestClass, number>;
+  /** Requests that had to wait for capacity */
+  throttled: number;
+  /** 429/529 responses received */
+  rateLimited: number;
+}
+
+export interface RateLimitTicket {
+  bucketKey: string;
+  tokens: number;
+}
+
+interface HeaderSource {
+  get(name: string): string | null;
+}
+
+interface Meter {
+  learned?: number;
+  configured?: number;
+  level: number;
+  updatedAt: number;
+}
+
+interface Waiter {
+  tokens: number;
+  requestClass: LLMRequestClass;
+  queuedAt: number;
+  waited: boolean;
+  grant: () => void;
+}
+
+interface Bucket {
+  scope: string;
+  keyId: string;
+  requests: Meter;
+  tokens: Meter;
+  blockedUntil: number;
+  consecutiveRateLimits: number;
+  queue: Waiter[];
+  timer?: ReturnType<typeof setTimeout>;
+  throttled: number;
+  rateLimited: number;
+}
+
+export class ProviderRateLimiter {
+  private buckets = new Map<string, Bucket>();
+  private configured = new Map<string, RateLimits>();
+
+  /**
+   * Cap the limits of a scope (all keys) - e.g. a lower tier than the headers report
+   * Without limits the configuration is removed.
+   */
+  configure(scope: string, limits: RateLimits): void {
+    if (limits.requestsPerMinute === undefined && limits.tokensPerMinute === undefined) {
+      this.configured.delete(scope);
+    } else {
+      this.configured.set(scope, { ...limits });
+    }
+    for (const bucket of this.buckets.values()) {
+      if (bucket.scope === scope) {
+        setConfigured(bucket.requests, limits.requestsPerMinute);
+        setConfigured(bucket.tokens, limits.tokensPerMinute);
+        this.pump(bucket);
+      }
+    }
+  }
+
+  getConfigured(scope: string): RateLimits | undefined {
+    return this.configured.get(scope);
+  }
+
+  /**
+   * Wait until the bucket has room for one request of about `estimatedTokens`
+   * An aborted signal withdraws the request from the queue (rejects with AbortError).
+   */
+  async acquire(
+    scope: string,
+    apiKey: string | undefined,
+    options: { estimatedTokens?: number; requestClass?: LLMRequestClass; signal?: AbortSignal } = {}
+  ): Promise<RateLimitTicket> {
+    throwIfAborted(options.signal);
+    const bucket = this.getBucket(scope, apiKey);
+    const bucketKey = `${bucket.scope}|${bucket.keyId}`;
+    const tokens = Math.max(0, Math.round(options.estimatedTokens ?? 0));
+
+    await new Promise<void>((resolve, reject) => {
+      const signal = options.signal;
+      const waiter: Waiter = {
+        tokens,
+        requestClass: options.requestClass ?? 'interactive',
+        queuedAt: Date.now(),
+        waited: false,
+        grant: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        }
+      };
+      const onAbort = () => {
+        const index = bucket.queue.indexOf(waiter);
+        if (index !== -1) {
+          bucket.queue.splice(index, 1);
+          reject(createAbortError());
+          this.pump(bucket);
+        }
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      bucket.queue.push(waiter);
+      this.pump(bucket);
+      if (bucket.queue.includes(waiter)) {
+        waiter.waited = true;
+        bucket.throttled++;
+        MessageBus.send('debug', `Queuing ${waiter.requestClass} request for ${scope} (${bucket.queue.length} waiting)`);
+      }
+    });
+
+    return { bucketKey, tokens };
+  }
+
+  /**
+   * Learn limits from a response - the provider's remaining counts replace our estimate
+   */
+  observe(ticket: RateLimitTicket, status: number, headers: HeaderSource): void {
+    const bucket = this.buckets.get(ticket.bucketKey);
+    if (!bucket) {
+      return;
+    }
+    if (!isRateLimitStatus(status)) {
+      bucket.consecutiveRateLimits = 0;
+    }
+    const info = parseRateLimitHeaders(headers);
+    learn(bucket.requests, info.requestsLimit, info.requestsRemaining);
+    learn(bucket.tokens, info.tokensLimit, info.tokensRemaining);
+    this.pump(bucket);
+  }
+
+  /**
+   * Correct the token estimate with the tokens the provider reported
+   */
+  complete(ticket: RateLimitTicket, actualTokens?: number): void {
+    const bucket = this.buckets.get(ticket.bucketKey);
+    if (!bucket) {
+      return;
+    }
+    if (actualTokens !== undefined) {
+      refill(bucket.tokens, Date.now());
+      bucket.tokens.level = Math.min(capacity(bucket.tokens), bucket.tokens.level + ticket.tokens - actualTokens);
+    }
+    this.pump(bucket);
+  }
+
+  /**
+   * A 429/529 - block the bucket for Retry-After, or back off exponentially
+   */
+  penalize(ticket: RateLimitTicket, retryAfterMs?: number): number {
+    const bucket = this.buckets.get(ticket.bucketKey);
+    if (!bucket) {
+      return 0;
+    }
+    bucket.rateLimited++;
+    bucket.consecutiveRateLimits++;
+    const delay = retryAfterMs ?? Math.min(MAX_BACKOFF_MS, 1000 * 2 ** (bucket.consecutiveRateLimits - 1));
+    bucket.blockedUntil = Math.max(bucket.blockedUntil, Date.now() + delay);
+    MessageBus.send('alert', `${bucket.scope} rate limited - pausing ${delay}ms`);
+    this.pump(bucket);
+    return delay;
+  }
+
+  getStates(): RateLimitState[] {
+    const now = Date.now();
+    return [...this.buckets.values()].map(bucket => {
+      refill(bucket.requests, now);
+      refill(bucket.tokens, now);
+      const queued = { interactive: 0, analysis: 0, background: 0 };
+      bucket.queue.forEach(waiter => queued[waiter.requestClass]++);
+      return {
+        scope: bucket.scope,
+        keyId: bucket.keyId,
+        requestsPerMinute: finite(capacity(bucket.requests)),
+        tokensPerMinute: finite(capacity(bucket.tokens)),
+        requestsAvailable: isFinite(capacity(bucket.requests)) ? Math.floor(bucket.requests.level) : undefined,
+        tokensAvailable: isFinite(capacity(bucket.tokens)) ? Math.floor(bucket.tokens.level) : undefined,
+        blockedUntil: bucket.blockedUntil > now ? bucket.blockedUntil : undefined,
+        queued,
+        throttled: bucket.throttled,
+        rateLimited: bucket.rateLimited
+      };
+    });
+  }
+
+  /**
+   * Forget learned limits and counters (configured limits stay)
+   */
+  reset(): void {
+    for (const bucket of this.buckets.values()) {
+      if (bucket.timer) clearTimeout(bucket.timer);
+      bucket.queue.forEach(waiter => waiter.grant());
+    }
+    this.buckets.clear();
+  }
+
+  private getBucket(scope: string, apiKey: string | undefined): Bucket {
+    const keyId = fingerprintKey(apiKey);
+    const bucketKey = `${scope}|${keyId}`;
+    let bucket = this.buckets.get(bucketKey);
+    if (!bucket) {
+      const limits = this.configured.get(scope);
+      const now = Date.now();
+      bucket = {
+        scope,
+        keyId,
+        requests: { configured: limits?.requestsPerMinute, level: limits?.requestsPerMinute ?? 0, updatedAt: now },
+        tokens: { configured: limits?.tokensPerMinute, level: limits?.tokensPerMinute ?? 0, updatedAt: now },
+        blockedUntil: 0,
+        consecutiveRateLimits: 0,
+        queue: [],
+        throttled: 0,
+        rateLimited: 0
+      };
+      this.buckets.set(bucketKey, bucket);
+    }
+    return bucket;
+  }
+
+  /**
+   * Grant queued requests in class order while the bucket has room
+   * Stops at the first request that has to wait, so lower classes cannot overtake it.
+   */
+  private pump(bucket: Bucket): void {
+    if (bucket.timer) {
+      clearTimeout(bucket.timer);
+      bucket.timer = undefined;
+    }
+
+    while (bucket.queue.length > 0) {
+      const now = Date.now();
+      const rank = (waiter: Waiter) =>
+        Math.max(0, CLASS_RANK[waiter.requestClass] - Math.floor((now - waiter.queuedAt) / AGING_MS));
+      const next = bucket.queue.reduce((best, waiter) => rank(waiter) < rank(best) ? waiter : best);
+      const reserve = CLASS_RESERVE[REQUEST_CLASSES[rank(next)]];
+
+      const waitMs = Math.max(
+        bucket.blockedUntil - now,
+        timeUntilAvailable(bucket.requests, 1, reserve, now),
+        timeUntilAvailable(bucket.tokens, next.tokens, reserve, now)
+      );
+      if (waitMs > 0) {
+        bucket.timer = setTimeout(() => {
+          bucket.timer = undefined;
+          this.pump(bucket);
+        }, Math.min(Math.max(waitMs, 50), MINUTE_MS));
+        return;
+      }
+
+      take(bucket.requests, 1);
+      take(bucket.tokens, next.tokens);
+      bucket.queue.splice(bucket.queue.indexOf(next), 1);
+      if (next.waited) {
+        MessageBus.send('debug', `Releasing ${next.requestClass} request for ${bucket.scope} (waited ${now - next.queuedAt}ms)`);
+      }
+      next.grant();
+    }
+  }
+}
+
+/**
+ * Acquire, fetch, learn from the headers and re-queue on 429/529
+ * Returns the final response (possibly still a 429/529 after MAX_RATE_LIMIT_RETRIES)
+ * and the ticket for complete().
+ */
+export async function fetchWithRateLimit(
+  scope: string,
+  apiKey: string | undefined,
+  options: { estimatedTokens?: number; requestClass?: LLMRequestClass; signal?: AbortSignal },
+  doFetch: () => Promise<Response>
+): Promise<{ response: Response; ticket: RateLimitTicket }> {
+  const limiter = getProviderRateLimiter();
+
+  for (let attempt = 0; ; attempt++) {
+    const ticket = await limiter.acquire(scope, apiKey, options);
+    let response: Response;
+    try {
+      response = await doFetch();
+    } catch (error) {
+      limiter.complete(ticket, 0);
+      throw error;
+    }
+    limiter.observe(ticket, response.status, response.headers);
+
+    if (!isRateLimitStatus(response.status) || attempt >= MAX_RATE_LIMIT_RETRIES) {
+      return { response, ticket };
+    }
+
+    await response.body?.cancel().catch(() => {});
+    limiter.complete(ticket, 0); // Rejected - its tokens were not used
+    limiter.penalize(ticket, parseRateLimitHeaders(response.headers).retryAfterMs);
+  }
+}
+
+/**
+ * Error for a response that is still rate limited after all retries
+ * Named 'RateLimitError' and carries the HTTP status and Retry-After.
+ */
+export function createRateLimitError(message: string, status: number, headers?: HeaderSource): Error {
+  const error: any = new Error(message);
+  error.name = 'RateLimitError';
+  error.status = status;
+  error.retryAfterMs = headers ? parseRateLimitHeaders(headers).retryAfterMs : undefined;
+  return error;
+}
+
+export function isRateLimitError(error: any): boolean {
+  return error?.name === 'RateLimitError';
+}
+
+export function isRateLimitStatus(status: number): boolean {
+  return status === 429 || status === 529;
+}
+
+/**
+ * Anthropic (anthropic-ratelimit-*) and OpenAI (x-ratelimit-*) headers, plus Retry-After
+ */
+export function parseRateLimitHeaders(headers: HeaderSource): RateLimitHeaders {
+  const number = (name: string) => {
+    const value = headers.get(name);
+    const parsed = value === null ? NaN : Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  };
+
+  return {
+    requestsLimit: number('anthropic-ratelimit-requests-limit') ?? number('x-ratelimit-limit-requests'),
+    requestsRemaining: number('anthropic-ratelimit-requests-remaining') ?? number('x-ratelimit-remaining-requests'),
+    tokensLimit: number('anthropic-ratelimit-tokens-limit') ?? number('x-ratelimit-limit-tokens'),
+    tokensRemaining: number('anthropic-ratelimit-tokens-remaining') ?? number('x-ratelimit-remaining-tokens'),
+    retryAfterMs: number('retry-after-ms') ?? parseRetryAfter(headers.get('retry-after'))
+  };
+}
+
+/**
+ * Retry-After is either seconds or an HTTP date
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Rough token count of a request body (~4 characters per token) plus the output budget
+ */
+export function estimateRequestTokens(body: string, maxOutputTokens: number = 0): number {
+  return Math.ceil(body.length / 4) + maxOutputTokens;
+}
+
+function capacity(meter: Meter): number {
+  return Math.min(meter.learned ?? Infinity, meter.configured ?? Infinity);
+}
+
+function finite(value: number): number | undefined {
+  return isFinite(value) ? value : undefined;
+}
+
+function refill(meter: Meter, now: number): void {
+  const cap = capacity(meter);
+  if (isFinite(cap)) {
+    meter.level = Math.min(cap, meter.level + (now - meter.updatedAt) * cap / MINUTE_MS);
+  }
+  meter.updatedAt = now;
+}
+
+function take(meter: Meter, amount: number): void {
+  if (isFinite(capacity(meter))) {
+    meter.level -= amount;
+  }
+}
+
+/**
+ * Milliseconds until `amount` fits while leaving `reserve` of the capacity (0 = now)
+ * Requests larger than the whole bucket only wait for a full bucket.
+ */
+function timeUntilAvailable(meter: Meter, amount: number, reserve: number, now: number): number {
+  refill(meter, now);
+  const cap = capacity(meter);
+  if (!isFinite(cap) || cap <= 0) {
+    return 0;
+  }
+  const needed = Math.min(amount + reserve * cap, cap);
+  return meter.level >= needed ? 0 : Math.ceil((needed - meter.level) * MINUTE_MS / cap);
+}
+
+function learn(meter: Meter, limit: number | undefined, remaining: number | undefined): void {
+  const now = Date.now();
+  refill(meter, now);
+  if (limit !== undefined && limit > 0) {
+    if (meter.learned === undefined) {
+      meter.level = remaining ?? limit;
+    }
+    meter.learned = limit;
+  }
+  if (remaining !== undefined && isFinite(capacity(meter))) {
+    // Requests still in flight were charged here already - keep the lower value
+    meter.level = Math.min(meter.level, remaining);
+  }
+  meter.level = Math.min(meter.level, capacity(meter));
+}
+
+function setConfigured(meter: Meter, limit: number | undefined): void {
+  const now = Date.now();
+  refill(meter, now);
+  const wasUnlimited = !isFinite(capacity(meter));
+  meter.configured = limit;
+  // A bucket that was unlimited starts full
+  meter.level = wasUnlimited ? capacity(meter) : Math.min(meter.level, capacity(meter));
+}
+
+/**
+ * Non-reversible short ID of an API key (FNV-1a)
+ */
+function fingerprintKey(apiKey: string | undefined): string {
+  if (!apiKey) {
+    return 'default';
+  }
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < apiKey.length; i++) {
+    hash ^= apiKey.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `key-${(hash >>> 0).toString(16).padStart(8, '0')}`;
+}
+
+let limiterInstance: ProviderRateLimiter | null = null;
+
+/**
+ * Shared limiter - all HTTP clients of a process draw from the same buckets
+ */
+export function getProviderRateLimiter(): ProviderRateLimiter {
+  if (!limiterInstance) {
+    limiterInstance = new ProviderRateLimiter();
+  }
+  return limiterInstance;
+}
@@ -0,0 +1,450 @@
+/**
+ * Response Cache
+ *
+ * Opt-in cache for repeated LLM requests (chat option `cache`), meant for
+ * background analysis that re-asks the same question on unchanged history.
+ *
+ * - exact tier:    key = hash of model, temperature, output format and the
+ *                  normalized prompt (roles + whitespace-collapsed text)
+ * - semantic tier: with an embedding model configured and `cache.semantic`,
+ *                  a miss is compared against the prompt embeddings of the
+ *                  topic's entries for the same model and temperature
+ *
+ * Entries are grouped by topic ('global' without one). When a topic's
+ * messages change, invalidate(topicId) takes its entries out of the semantic
+ * tier - exact keys include the whole prompt and cannot match a changed
+ * history. With storage deps each group is one versioned LLMResponseCache
+ * object, loaded on first use and written in batches when entries are added
+ * or removed; hit counts stay in memory. Without storage the cache lives in
+ * memory only.
+ */
+
+import type { SHA256IdHash } from '@refinio/one.core/lib/util/type-checks.js';
+import type { LLMCachedResponse, LLMResponseCache } from '../@OneObjectInterfaces.js';
+import { createCryptoHash } from '@refinio/one.core/lib/system/crypto-helpers.js';
+import { createMessageBus } from '@refinio/one.core/lib/message-bus.js';
+
+const MessageBus = createMessageBus('ResponseCache');
+
+const GLOBAL_SCOPE = 'global';
+
+/** Stands for "provider default" - requests without a temperature */
+const DEFAULT_TEMPERATURE = -1;
+
+/** Prompt text embedded for the semantic tier (the end of the prompt - where the question is) */
+const EMBED_MAX_CHARS = 8_000;
+
+const DEFAULT_FLUSH_DELAY_MS = 10_000;
+
+export interface ResponseCacheConfig {
+  defaultTtlMs: number;
+  /** Entries per topic - least recently used are evicted */
+  maxEntriesPerScope: number;
+  /** Entries across all loaded topics */
+  maxEntries: number;
+  /** Longer responses are not cached */
+  maxResponseChars: number;
+  /** Model for prompt embeddings - without one the semantic tier is off */
+  embeddingModel?: string;
+  /** Minimum cosine similarity for a near-duplicate hit */
+  similarityThreshold: number;
+}
+
+export const DEFAULT_RESPONSE_CACHE_CONFIG: ResponseCacheConfig = {
+  defaultTtlMs: 24 * 60 * 60 * 1000,
+  maxEntriesPerScope: 200,
+  maxEntries: 2_000,
+  maxResponseChars: 32_000,
+  similarityThreshold: 0.97
+};
+
+/**
+ * The chat option: `cache: true` or per-request settings
+ */
+export interface ResponseCacheOptions {
+  ttlMs?: number;
+  /** Also accept near-duplicate prompts (needs config.embeddingModel) */
+  semantic?: boolean;
+  /** Topic whose changes invalidate the response (default: the request's topicId) */
+  topicId?: string;
+}
+
+export interface ResponseCacheStorage {
+  storeVersionedObject: (obj: any) => Promise<any>;
+  getObjectByIdHash: (idHash: SHA256IdHash<any>) => Promise<any>;
+  calculateIdHashOfObj: (obj: any) => Promise<SHA256IdHash<any>>;
+}
+
+/**
+ * A request prepared for lookup and store
+ */
+export interface CacheRequest {
+  key: string;
+  scope: string;
+  modelId: string;
+  temperature: number;
+  prompt: string;
+  /** Computed by a semantic lookup, reused when storing */
+  embedding?: number[];
+}
+
+export interface CacheHit {
+  response: string;
+  match: 'exact' | 'semantic';
+  similarity?: number;
+}
+
+export interface ResponseCacheStats {
+  hits: number;
+  semanticHits: number;
+  misses: number;
+  entries: number;
+  scopes: number;
+}
+
+export class ResponseCache {
+  private config: ResponseCacheConfig = { ...DEFAULT_RESPONSE_CACHE_CONFIG };
+  // scope → entries (loaded scopes only)
+  private scopes = new Map<string, LLMCachedResponse[]>();
+  private loading = new Map<string, Promise<void>>();
+  private dirtyScopes = new Set<string>();
+  // Topics invalidated before their cache was loaded
+  private staleScopes = new Set<string>();
+  private flushTimer?: ReturnType<typeof setTimeout>;
+  private flushDelayMs: number;
+  private stats = { hits: 0, semanticHits: 0, misses: 0 };
+
+  constructor(
+    private storage?: ResponseCacheStorage,
+    private embed?: (texts: string[], model: string) => Promise<number[][]>,
+    options: { flushDelayMs?: number } = {}
+  ) {
+    this.flushDelayMs = options.flushDelayMs ?? DEFAULT_FLUSH_DELAY_MS;
+  }
+
+  configure(config: Partial<ResponseCacheConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  getConfig(): ResponseCacheConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Normalize a request and compute its key
+   */
+  async prepare(request: {
+    modelId: string;
+    messages: any;
+    temperature?: number;
+    format?: unknown;
+    topicId?: string;
+  }): Promise<CacheRequest> {
+    const prompt = normalizePrompt(request.messages);
+    const temperature = request.temperature === undefined ? DEFAULT_TEMPERATURE : Math.round(request.temperature * 100) / 100;
+    const key = await createCryptoHash(JSON.stringify({
+      modelId: request.modelId,
+      temperature,
+      format: request.format ?? null,
+      prompt
+    }));
+    return { key, scope: request.topicId || GLOBAL_SCOPE, modelId: request.modelId, temperature, prompt };
+  }
+
+  /**
+   * Cached response for a request - exact match first, then (semantic) the
+   * most similar prompt above the threshold
+   */
+  async lookup(request: CacheRequest, options: ResponseCacheOptions = {}): Promise<CacheHit | null> {
+    const entries = await this.getScope(request.scope);
+    const now = Date.now();
+
+    const exact = entries.find(entry => entry.key === request.key && entry.expires > now);
+    if (exact) {
+      this.stats.hits++;
+      this.touch(exact, now);
+      return { response: exact.response, match: 'exact' };
+    }
+
+    const embeddingModel = this.config.embeddingModel;
+    if (options.semantic && embeddingModel && this.embed) {
+      const candidates = entries.filter(entry =>
+        entry.embedding && entry.embeddingModel === embeddingModel && entry.expires > now
+        && entry.modelId === request.modelId && entry.temperature === request.temperature
+      );
+      try {
+        request.embedding ??= (await this.embed([request.prompt.slice(-EMBED_MAX_CHARS)], embeddingModel))[0];
+        let best: { entry: LLMCachedResponse; similarity: number } | undefined;
+        for (const entry of candidates) {
+          const similarity = cosineSimilarity(request.embedding, entry.embedding!);
+          if (similarity >= this.config.similarityThreshold && (!best || similarity > best.similarity)) {
+            best = { entry, similarity };
+          }
+        }
+        if (best) {
+          this.stats.hits++;
+          this.stats.semanticHits++;
+          this.touch(best.entry, now);
+          MessageBus.send('debug', `Near-duplicate hit for ${request.modelId} (similarity ${best.similarity.toFixed(3)})`);
+          return { response: best.entry.response, match: 'semantic', similarity: best.similarity };
+        }
+      } catch (error: any) {
+        MessageBus.send('alert', `Prompt embedding failed, semantic lookup skipped: ${error.message}`);
+      }
+    }
+
+    this.stats.misses++;
+    return null;
+  }
+
+  /**
+   * Cache a response - persisted with the next flush
+   */
+  async store(request: CacheRequest, response: string, options: ResponseCacheOptions = {}): Promise<void> {
+    if (!response || response.length > this.config.maxResponseChars) {
+      return;
+    }
+
+    const now = Date.now();
+    const entry: LLMCachedResponse = {
+      key: request.key,
+      modelId: request.modelId,
+      temperature: request.temperature,
+      response,
+      ...(request.embedding && this.config.embeddingModel
+        ? { embedding: request.embedding, embeddingModel: this.config.embeddingModel }
+        : {}),
+      created: now,
+      expires: now + (options.ttlMs ?? this.config.defaultTtlMs),
+      lastHit: now,
+      hits: 0
+    };
+
+    const entries = (await this.getScope(request.scope)).filter(other => other.key !== request.key && other.expires > now);
+    entries.push(entry);
+    if (entries.length > this.config.maxEntriesPerScope) {
+      entries.sort((a, b) => b.lastHit - a.lastHit).splice(this.config.maxEntriesPerScope);
+    }
+    this.scopes.set(request.scope, entries);
+    this.markDirty(request.scope);
+    this.enforceTotalLimit();
+  }
+
+  /**
+   * A topic's messages changed - its entries no longer answer near-duplicate prompts
+   * Unloaded topics are not read for this: their entries are invalidated when
+   * they load. Returns the number of loaded entries taken out of the semantic tier.
+   */
+  async invalidate(topicId: string): Promise<number> {
+    const entries = this.scopes.get(topicId);
+    if (!entries) {
+      if (this.storage) {
+        this.staleScopes.add(topicId);
+      }
+      return 0;
+    }
+
+    const invalidated = this.dropEmbeddings(topicId, entries);
+    if (invalidated > 0) {
+      MessageBus.send('debug', `Invalidated ${invalidated} cached responses of topic ${topicId} for near-duplicate lookups`);
+    }
+    return invalidated;
+  }
+
+  /**
+   * Drop all entries of a topic
+   */
+  async clearTopic(topicId: string): Promise<number> {
+    const entries = await this.getScope(topicId);
+    if (entries.length === 0) {
+      return 0;
+    }
+    this.scopes.set(topicId, []);
+    this.markDirty(topicId);
+    MessageBus.send('debug', `Dropped ${entries.length} cached responses of topic ${topicId}`);
+    return entries.length;
+  }
+
+  /**
+   * Drop all loaded entries (topics not used since startup keep theirs until invalidated)
+   */
+  clear(): void {
+    for (const scope of this.scopes.keys()) {
+      this.scopes.set(scope, []);
+      this.markDirty(scope);
+    }
+    this.stats = { hits: 0, semanticHits: 0, misses: 0 };
+  }
+
+  getStats(): ResponseCacheStats {
+    let entries = 0;
+    for (const scopeEntries of this.scopes.values()) {
+      entries += scopeEntries.length;
+    }
+    return { ...this.stats, entries, scopes: this.scopes.size };
+  }
+
+  /**
+   * Write all changed topics now
+   */
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+    if (!this.storage) {
+      return;
+    }
+
+    const now = Date.now();
+    for (const scope of [...this.dirtyScopes]) {
+      this.dirtyScopes.delete(scope);
+      try {
+        const cache: LLMResponseCache = {
+          $type$: 'LLMResponseCache',
+          scope,
+          entries: (this.scopes.get(scope) ?? []).filter(entry => entry.expires > now),
+          modified: now
+        };
+        await this.storage.storeVersionedObject(cache);
+      } catch (error) {
+        this.dirtyScopes.add(scope);
+        MessageBus.send('alert', `Failed to store response cache of ${scope}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Hits only reorder eviction - they are not worth a new version of the topic's cache
+   */
+  private touch(entry: LLMCachedResponse, now: number): void {
+    entry.hits++;
+    entry.lastHit = now;
+  }
+
+  private dropEmbeddings(scope: string, entries: LLMCachedResponse[]): number {
+    let dropped = 0;
+    const updated = entries.map(entry => {
+      if (!entry.embedding) {
+        return entry;
+      }
+      dropped++;
+      const { embedding: _embedding, embeddingModel: _embeddingModel, ...rest } = entry;
+      return rest;
+    });
+    if (dropped > 0) {
+      this.scopes.set(scope, updated);
+      this.markDirty(scope);
+    }
+    return dropped;
+  }
+
+  /**
+   * Evict the least recently used entries across topics above maxEntries
+   */
+  private enforceTotalLimit(): void {
+    const all: Array<{ scope: string; entry: LLMCachedResponse }> = [];
+    for (const [scope, entries] of this.scopes) {
+      for (const entry of entries) {
+        all.push({ scope, entry });
+      }
+    }
+    if (all.length <= this.config.maxEntries) {
+      return;
+    }
+
+    const evicted = all.sort((a, b) => a.entry.lastHit - b.entry.lastHit).slice(0, all.length - this.config.maxEntries);
+    for (const { scope, entry } of evicted) {
+      this.scopes.set(scope, this.scopes.get(scope)!.filter(other => other !== entry));
+      this.markDirty(scope);
+    }
+  }
+
+  private markDirty(scope: string): void {
+    if (!this.storage) {
+      return;
+    }
+    this.dirtyScopes.add(scope);
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = undefined;
+        this.flush().catch(error => MessageBus.send('alert', 'Response cache flush failed:', error));
+      }, this.flushDelayMs);
+    }
+  }
+
+  private async getScope(scope: string): Promise<LLMCachedResponse[]> {
+    if (!this.scopes.has(scope) && this.storage) {
+      if (!this.loading.has(scope)) {
+        this.loading.set(scope, this.readScope(scope).finally(() => this.loading.delete(scope)));
+      }
+      await this.loading.get(scope);
+    }
+    return this.scopes.get(scope) ?? [];
+  }
+
+  private async readScope(scope: string): Promise<void> {
+    let stored: LLMCachedResponse[] = [];
+    try {
+      const idHash = await this.storage!.calculateIdHashOfObj({ $type$: 'LLMResponseCache' as const, scope });
+      const result = await this.storage!.getObjectByIdHash(idHash);
+      stored = (result.obj as LLMResponseCache).entries ?? [];
+    } catch (error: any) {
+      if (!(error.message?.includes('not found') || error.code === 'NOT_FOUND')) {
+        MessageBus.send('alert', `Failed to load response cache of ${scope}:`, error);
+      }
+    }
+
+    // Entries stored while loading win
+    if (!this.scopes.has(scope)) {
+      const now = Date.now();
+      this.scopes.set(scope, stored.filter(entry => entry.expires > now));
+    }
+    if (this.staleScopes.delete(scope)) {
+      this.dropEmbeddings(scope, this.scopes.get(scope)!);
+    }
+  }
+}
+
+/**
+ * Prompt text that identifies a request: roles and whitespace-collapsed text
+ * (images by BLOB hash, so the same image hits the cache)
+ */
+function normalizePrompt(messages: any): string {
+  const list = Array.isArray(messages) ? messages : [{ role: 'user', content: messages }];
+  return list.map((message: any) => {
+    const text = Array.isArray(message.parts)
+      ? message.parts.map(normalizePart).join(' ')
+      : normalizeText(message.content);
+    return `${message.role ?? 'user'}: ${text}`;
+  }).join('\n');
+}
+
+function normalizePart(part: any): string {
+  switch (part.type) {
+    case 'text': return normalizeText(part.text);
+    case 'image': return `[image:${part.blobHash}]`;
+    case 'document': return `[document:${part.name}] ${normalizeText(part.text)}`;
+    default: return normalizeText(part);
+  }
+}
+
+function normalizeText(content: any): string {
+  const text = typeof content === 'string' ? content : JSON.stringify(content ?? '');
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) {
+    return 0;
+  }
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+}
@@ -4,7 +4,9 @@
  * Uses MeaningDimension from meaning.core for semantic similarity.
  * Scoring: embedding similarity + small Jaccard boost for exact matches.
  *
- * Reference: Replaces Jaccard-only approach in proposal-engine.ts
+ * @deprecated ProposalEngine (proposal-engine.ts) retrieves by BM25 and
+ * embeddings fused by rank and is what ProposalsPlan uses. Kept for existing
+ * callers; will be removed in a future release.
  */
 
 import type { SHA256Hash, SHA256IdHash } from '@refinio/one.core/lib/util/type-checks.js';
@@ -12,6 +14,7 @@ import { getObjectByIdHash } from '@refinio/one.core/lib/storage-versioned-objec
 import type { MeaningDimension, MeaningQueryResult } from '@cube/meaning.core';
 import type { ProposalConfig, UnrankedProposal } from './proposal-engine.js';
 
+/** @deprecated Use ProposalConfig with ProposalEngine */
 export interface SemanticProposalConfig extends ProposalConfig {
   /** Boost factor for exact keyword matches (default: 0.1) */
   jaccardBoost?: number;
@@ -19,6 +22,7 @@ export interface SemanticProposalConfig extends ProposalConfig {
   minSimilarity?: number;
 }
 
+/** @deprecated Use ProposalEngine */
 export class SemanticProposalEngine {
   private meaningDimension: MeaningDimension;
 
@@ -0,0 +1,373 @@
+/**
+ * Structured Output
+ *
+ * Reliable JSON from models that do not always follow instructions:
+ * 1. extractJson() finds the JSON in the reply - code fences, prose around it,
+ *    trailing commas and smart quotes are tolerated
+ * 2. validateAgainstSchema() checks it against a JSON Schema (the subset used
+ *    by our schemas: type, required, properties, additionalProperties, items,
+ *    enum, pattern and min/max bounds)
+ * 3. On failure the model is re-prompted with the violations - bounded by
+ *    maxRepairAttempts
+ *
+ * Every outcome is recorded per model in StructuredOutputTracker, which turns
+ * `structuredOutputTested` into a measured property: undefined until
+ * MIN_SAMPLES requests, then whether the model's success rate reaches
+ * MIN_RELIABILITY.
+ */
+
+export interface JsonSchema {
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: unknown[];
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+  minimum?: number;
+  maximum?: number;
+  description?: string;
+  [keyword: string]: unknown;
+}
+
+export interface SchemaViolation {
+  path: string;
+  message: string;
+}
+
+/**
+ * How a structured request ended
+ * - valid:     the reply was valid JSON matching the schema
+ * - extracted: valid after extracting/cleaning the JSON from the reply
+ * - repaired:  valid only after a repair re-prompt
+ * - failed:    still invalid after all repair attempts
+ */
+export type StructuredOutcome = 'valid' | 'extracted' | 'repaired' | 'failed';
+
+export interface StructuredOutputStats {
+  modelId: string;
+  requests: number;
+  valid: number;
+  extracted: number;
+  repaired: number;
+  failed: number;
+  /** Share of requests that ended with valid output (after extraction/repair) */
+  reliability: number;
+  /** undefined until MIN_SAMPLES requests were measured */
+  structuredOutputTested?: boolean;
+  lastViolations?: SchemaViolation[];
+  lastRequestAt?: number;
+}
+
+export const MIN_SAMPLES = 3;
+export const MIN_RELIABILITY = 0.5;
+
+const DEFAULT_MAX_REPAIR_ATTEMPTS = 1;
+
+/**
+ * Validate a value against a JSON Schema - returns all violations (empty = valid)
+ */
+export function validateAgainstSchema(value: unknown, schema: JsonSchema, path: string = '$'): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+  const fail = (message: string) => violations.push({ path, message });
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      fail(`expected ${types.join(' or ')}, got ${describeType(value)}`);
+      return violations;
+    }
+  }
+
+  if (schema.enum && !schema.enum.some(option => option === value)) {
+    fail(`must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      fail(`must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      fail(`must be at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      fail(`${JSON.stringify(value)} does not match ${schema.pattern}${schema.description ? ` (${schema.description})` : ''}`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      fail(`must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      fail(`must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      fail(`must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      fail(`must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => violations.push(...validateAgainstSchema(item, schema.items!, `${path}[${index}]`)));
+    }
+  }
+
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (!(key in record)) {
+        violations.push({ path: `${path}.${key}`, message: 'is required' });
+      }
+    }
+    for (const [key, child] of Object.entries(record)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        violations.push(...validateAgainstSchema(child, propertySchema, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        violations.push({ path: `${path}.${key}`, message: 'is not allowed' });
+      } else if (typeof schema.additionalProperties === 'object') {
+        violations.push(...validateAgainstSchema(child, schema.additionalProperties, `${path}.${key}`));
+      }
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Find and parse the JSON value in a model reply
+ * Returns null if no parseable JSON was found. `cleaned` is true when the reply
+ * was not pure JSON (prose, code fences, trailing commas, smart quotes).
+ */
+export function extractJson(text: string): { value: unknown; cleaned: boolean } | null {
+  const trimmed = text.trim();
+  const direct = tryParse(trimmed);
+  if (direct.ok) {
+    return { value: direct.value, cleaned: false };
+  }
+
+  const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/i)?.[1];
+  const candidates = [fenced, findBalancedJson(fenced ?? trimmed), findBalancedJson(trimmed)]
+    .filter((candidate): candidate is string => !!candidate);
+
+  for (const candidate of candidates) {
+    for (const variant of [candidate, cleanJsonText(candidate)]) {
+      const parsed = tryParse(variant);
+      if (parsed.ok) {
+        return { value: parsed.value, cleaned: true };
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Per-model structured output reliability
+ */
+export class StructuredOutputTracker {
+  private stats = new Map<string, StructuredOutputStats>();
+
+  record(modelId: string, outcome: StructuredOutcome, violations?: SchemaViolation[]): StructuredOutputStats {
+    const entry = this.stats.get(modelId) ?? {
+      modelId,
+      requests: 0,
+      valid: 0,
+      extracted: 0,
+      repaired: 0,
+      failed: 0,
+      reliability: 0
+    };
+
+    entry.requests++;
+    entry[outcome]++;
+    entry.reliability = (entry.requests - entry.failed) / entry.requests;
+    entry.structuredOutputTested = entry.requests >= MIN_SAMPLES ? entry.reliability >= MIN_RELIABILITY : undefined;
+    if (violations?.length) {
+      entry.lastViolations = violations;
+    }
+    entry.lastRequestAt = Date.now();
+
+    this.stats.set(modelId, entry);
+    return { ...entry };
+  }
+
+  /**
+   * Measured structured output support (undefined = not enough samples yet)
+   */
+  isTested(modelId: string): boolean | undefined {
+    return this.stats.get(modelId)?.structuredOutputTested;
+  }
+
+  getStats(modelId: string): StructuredOutputStats | undefined {
+    const entry = this.stats.get(modelId);
+    return entry ? { ...entry } : undefined;
+  }
+
+  getAllStats(): StructuredOutputStats[] {
+    return [...this.stats.values()].map(entry => ({ ...entry }));
+  }
+
+  /**
+   * Without a modelId all measurements are cleared
+   */
+  reset(modelId?: string): void {
+    if (modelId) {
+      this.stats.delete(modelId);
+    } else {
+      this.stats.clear();
+    }
+  }
+}
+
+export interface StructuredMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * One model call - returns the reply text
+ * `format` is the schema for backends with constrained decoding (Ollama, OpenAI json_schema).
+ */
+export type StructuredChatFn = (messages: StructuredMessage[], options: { format?: JsonSchema; temperature?: number }) => Promise<string>;
+
+export interface StructuredOutputOptions {
+  /** Re-prompts after an invalid reply (default 1) */
+  maxRepairAttempts?: number;
+  /** Pass the schema as `format` for constrained decoding (default true) */
+  useNativeFormat?: boolean;
+}
+
+export interface StructuredOutputResult<T> {
+  value: T;
+  outcome: Exclude<StructuredOutcome, 'failed'>;
+  /** Model calls made, including repairs */
+  calls: number;
+  raw: string;
+}
+
+/**
+ * Request JSON matching the schema, re-prompting with the violations when needed
+ * Throws when the reply is still invalid after maxRepairAttempts; the outcome is
+ * recorded in the tracker either way. Errors of the chat call itself propagate
+ * unrecorded - they say nothing about the model's JSON skills.
+ */
+export async function generateStructured<T>(
+  chat: StructuredChatFn,
+  modelId: string,
+  messages: StructuredMessage[],
+  schema: JsonSchema,
+  tracker: StructuredOutputTracker,
+  options: StructuredOutputOptions = {}
+): Promise<StructuredOutputResult<T>> {
+  const maxRepairAttempts = options.maxRepairAttempts ?? DEFAULT_MAX_REPAIR_ATTEMPTS;
+  const format = options.useNativeFormat === false ? undefined : schema;
+
+  let conversation = messages;
+  let violations: SchemaViolation[] = [];
+
+  for (let call = 1; call <= maxRepairAttempts + 1; call++) {
+    const raw = await chat(conversation, { format, ...(call > 1 ? { temperature: 0 } : {}) });
+    const extracted = extractJson(raw);
+    violations = extracted
+      ? validateAgainstSchema(extracted.value, schema)
+      : [{ path: '$', message: 'reply contains no parseable JSON' }];
+
+    if (violations.length === 0) {
+      const outcome = call > 1 ? 'repaired' : extracted!.cleaned ? 'extracted' : 'valid';
+      tracker.record(modelId, outcome);
+      return { value: extracted!.value as T, outcome, calls: call, raw };
+    }
+
+    conversation = [
+      ...messages,
+      { role: 'assistant', content: raw },
+      { role: 'user', content: buildRepairPrompt(violations) }
+    ];
+  }
+
+  tracker.record(modelId, 'failed', violations);
+  throw new Error(
+    `Model ${modelId} returned invalid structured output after ${maxRepairAttempts + 1} attempts: ` +
+    violations.slice(0, 3).map(v => `${v.path} ${v.message}`).join('; ')
+  );
+}
+
+function buildRepairPrompt(violations: SchemaViolation[]): string {
+  const list = violations.slice(0, 10).map(v => `- ${v.path}: ${v.message}`).join('\n');
+  return `Your reply did not match the required JSON format:\n${list}\n\nReply with ONLY the corrected JSON object - no explanation, no code fences.`;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'object': return !!value && typeof value === 'object' && !Array.isArray(value);
+    case 'array': return Array.isArray(value);
+    case 'integer': return Number.isInteger(value);
+    case 'null': return value === null;
+    default: return typeof value === type;
+  }
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function tryParse(text: string): { ok: true; value: unknown } | { ok: false } {
+  try {
+    return { ok: true, value: JSON.parse(text) };
+  } catch {
+    return { ok: false };
+  }
+}
+
+/**
+ * Common near-JSON mistakes: trailing commas and typographic quotes
+ */
+function cleanJsonText(text: string): string {
+  return text
+    .replace(/[“”]/g, '"')
+    .replace(/,\s*([}\]])/g, '$1');
+}
+
+/**
+ * First balanced {...} or [...] span, skipping brackets inside strings
+ */
+function findBalancedJson(text: string): string | null {
+  const start = text.search(/[{[]/);
+  if (start === -1) {
+    return null;
+  }
+
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') inString = true;
+    else if (char === '{') stack.push('}');
+    else if (char === '[') stack.push(']');
+    else if (char === '}' || char === ']') {
+      if (stack.pop() !== char) return null;
+      if (stack.length === 0) return text.slice(start, i + 1);
+    }
+  }
+
+  return null;
+}
@@ -7,12 +7,13 @@
 
 import type { Subject } from '../one-ai/types/Subject.js';
 import { getLevelName } from './abstraction-level-calculator.js';
+import { getTokenizer, type Tokenizer } from './tokenizer.js';
 
 export type CompressionMode = 'rich' | 'balanced' | 'minimal' | 'extreme';
 
 export interface SubjectSummary {
   text: string;              // Formatted summary text
-  estimatedTokens: number;   // Rough token estimate (chars / 4)
+  estimatedTokens: number;   // Token count from the model's tokenizer
   mode: CompressionMode;     // Which compression mode was used
 }
 
@@ -31,7 +32,8 @@ export interface SubjectForSummary {
  */
 export function summarizeSubject(
   subject: SubjectForSummary,
-  mode: CompressionMode = 'balanced'
+  mode: CompressionMode = 'balanced',
+  tokenizer: Tokenizer = getTokenizer()
 ): SubjectSummary {
   const level = subject.abstractionLevel ?? 20; // Default to middle level
   const description = subject.description || 'Unknown Subject';  // Use description
@@ -66,7 +68,7 @@ export function summarizeSubject(
       text = formatBalanced({ name: description, level, primaryKeyword });
   }
 
-  const estimatedTokens = estimateTokens(text);
+  const estimatedTokens = tokenizer.count(text);
 
   return { text, estimatedTokens, mode };
 }
@@ -144,14 +146,15 @@ function formatExtreme(params: {
 export function summarizeSubjects(
   subjects: SubjectForSummary[],
   targetTokenBudget: number,
-  mode: CompressionMode = 'balanced'
+  mode: CompressionMode = 'balanced',
+  tokenizer: Tokenizer = getTokenizer()
 ): {
   summaries: SubjectSummary[];
   totalTokens: number;
   mode: CompressionMode;
 } {
   let currentMode = mode;
-  let summaries = subjects.map(s => summarizeSubject(s, currentMode));
+  let summaries = subjects.map(s => summarizeSubject(s, currentMode, tokenizer));
   let totalTokens = summaries.reduce((sum, s) => sum + s.estimatedTokens, 0);
 
   // If over budget, progressively compress
@@ -161,7 +164,7 @@ export function summarizeSubjects(
   while (totalTokens > targetTokenBudget && currentModeIndex < compressionSequence.length - 1) {
     currentModeIndex++;
     currentMode = compressionSequence[currentModeIndex];
-    summaries = subjects.map(s => summarizeSubject(s, currentMode));
+    summaries = subjects.map(s => summarizeSubject(s, currentMode, tokenizer));
     totalTokens = summaries.reduce((sum, s) => sum + s.estimatedTokens, 0);
   }
 
@@ -174,13 +177,14 @@ export function summarizeSubjects(
 export function formatPastSubjectsForPrompt(
   subjects: SubjectForSummary[],
   tokenBudget: number,
-  initialMode: CompressionMode = 'balanced'
+  initialMode: CompressionMode = 'balanced',
+  tokenizer: Tokenizer = getTokenizer()
 ): string {
   if (subjects.length === 0) {
     return '';
   }
 
-  const result = summarizeSubjects(subjects, tokenBudget, initialMode);
+  const result = summarizeSubjects(subjects, tokenBudget, initialMode, tokenizer);
 
   const header = `Past subjects (${subjects.length}) [${result.mode} mode]:`;
   const subjectLines = result.summaries.map(s => `- ${s.text}`);
@@ -188,13 +192,6 @@ export function formatPastSubjectsForPrompt(
   return [header, ...subjectLines, '', 'Use subject:get-messages tool to retrieve full context when needed.'].join('\n');
 }
 
-/**
- * Estimate token count (rough heuristic: 1 token ≈ 4 characters)
- */
-function estimateTokens(text: string): number {
-  return Math.ceil(text.length / 4);
-}
-
 /**
  * Extract keyword strings from various formats
  */
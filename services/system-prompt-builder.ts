@@ -13,7 +13,7 @@
  */
 
 import { buildIdentityPrompt, buildFallbackIdentity } from './identity-prompt-builder.js';
-import { resolveCapabilities } from './capability-resolver.js';
+import { resolveLLMCapabilities } from './capability-resolver.js';
 
 export interface SystemPromptSection {
   name: string;
@@ -105,12 +105,7 @@ export class SystemPromptBuilder {
           if (context.llmManager && ai.modelId) {
             const llm = await context.llmManager.getModel(ai.modelId);
             if (llm) {
-              capabilities = resolveCapabilities(
-                ai.modelId,
-                llm.capabilities,
-                llm.provider,
-                llm.contextLength
-              );
+              capabilities = resolveLLMCapabilities({ ...llm, modelId: ai.modelId });
             }
           }
 
@@ -0,0 +1,427 @@
+/**
+ * Tokenizer
+ *
+ * Pluggable token counting per model family. Replaces the old `chars / 4`
+ * heuristic, which is far off for code, German text and CJK.
+ *
+ * Two implementations:
+ *   - BPETokenizer: exact byte-level BPE from a rank table (tiktoken format).
+ *     GPT (cl100k), Llama 3 and Qwen 2 ship such tables. They are megabytes
+ *     each, so the platform registers a loader (registerRankTable) and the
+ *     table is loaded on first use of the family.
+ *   - EstimatingTokenizer: pre-tokenizes like BPE and prices each piece with a
+ *     per-family profile (word length, accents, CJK, digits, symbols). Used
+ *     until a table has loaded, for families without one, and for Claude (no
+ *     public vocabulary).
+ *
+ * Counts are calibrated per model against the prompt token usage adapters
+ * report in ChatResult (see calibrateTokenizer).
+ */
+
+import { createMessageBus } from '@refinio/one.core/lib/message-bus.js';
+
+const MessageBus = createMessageBus('Tokenizer');
+
+export type TokenizerFamily = 'gpt' | 'llama' | 'qwen' | 'claude' | 'generic';
+
+/** Families with a public BPE rank table */
+export type BPETokenizerFamily = 'gpt' | 'llama' | 'qwen';
+
+export interface Tokenizer {
+  /** Identifier for logs and budget stats (e.g. 'bpe:cl100k', 'estimate:claude') */
+  readonly name: string;
+  count(text: string): number;
+}
+
+export interface TokenizerCalibration {
+  /** Multiplier applied to raw counts (actual / estimated, smoothed) */
+  factor: number;
+  samples: number;
+  lastUpdated: number;
+}
+
+/**
+ * Per-family pricing of pre-tokenized pieces
+ */
+interface EstimatorProfile {
+  /** Average characters per token inside plain ASCII words */
+  wordChars: number;
+  /** Characters per token for words with accents/umlauts (split into more pieces) */
+  accentedWordChars: number;
+  /** Tokens per CJK character */
+  cjkPerChar: number;
+  /** Digits merged per token (cl100k: up to 3, Qwen/Llama 2: 1) */
+  digitGroup: number;
+  /** Characters per token in punctuation/operator runs (code) */
+  symbolChars: number;
+}
+
+const ESTIMATOR_PROFILES: Record<TokenizerFamily, EstimatorProfile> = {
+  gpt: { wordChars: 4.5, accentedWordChars: 3.0, cjkPerChar: 1.0, digitGroup: 3, symbolChars: 2.0 },
+  llama: { wordChars: 4.2, accentedWordChars: 2.8, cjkPerChar: 1.1, digitGroup: 3, symbolChars: 2.0 },
+  qwen: { wordChars: 4.2, accentedWordChars: 2.8, cjkPerChar: 0.75, digitGroup: 1, symbolChars: 2.0 },
+  claude: { wordChars: 3.8, accentedWordChars: 2.6, cjkPerChar: 1.2, digitGroup: 3, symbolChars: 1.8 },
+  // Unknown models: err on the high side so small contexts don't overflow
+  generic: { wordChars: 3.6, accentedWordChars: 2.5, cjkPerChar: 1.2, digitGroup: 1, symbolChars: 1.5 }
+};
+
+/**
+ * Pre-tokenization pattern (cl100k style): contractions, words with optional
+ * leading space, digit groups, symbol runs, whitespace
+ */
+const PRETOKENIZE_PATTERN = /'(?:[sdmt]|ll|ve|re)| ?\p{L}+| ?\p{N}+| ?[^\s\p{L}\p{N}]+|\s+(?!\S)|\s+/gu;
+
+/**
+ * Exact pre-tokenization patterns of the BPE tables - cl100k and Llama 3 merge
+ * up to 3 digits, Qwen 2 splits every digit
+ */
+const BPE_TABLES: Record<BPETokenizerFamily, { name: string; pattern: RegExp }> = {
+  gpt: {
+    name: 'cl100k',
+    pattern: /'(?:[sS]|[tT]|[rR][eE]|[vV][eE]|[mM]|[lL][lL]|[dD])|[^\r\n\p{L}\p{N}]?\p{L}+|\p{N}{1,3}| ?[^\s\p{L}\p{N}]+[\r\n]*|\s*[\r\n]+|\s+(?!\S)|\s+/gu
+  },
+  llama: {
+    name: 'llama3',
+    pattern: /'(?:[sS]|[tT]|[rR][eE]|[vV][eE]|[mM]|[lL][lL]|[dD])|[^\r\n\p{L}\p{N}]?\p{L}+|\p{N}{1,3}| ?[^\s\p{L}\p{N}]+[\r\n]*|\s*[\r\n]+|\s+(?!\S)|\s+/gu
+  },
+  qwen: {
+    name: 'qwen2',
+    pattern: /'(?:[sS]|[tT]|[rR][eE]|[vV][eE]|[mM]|[lL][lL]|[dD])|[^\r\n\p{L}\p{N}]?\p{L}+|\p{N}| ?[^\s\p{L}\p{N}]+[\r\n]*|\s*[\r\n]+|\s+(?!\S)|\s+/gu
+  }
+};
+
+const CJK_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/gu;
+const NON_ASCII_PATTERN = /[^\x00-\x7f]/;
+
+/**
+ * Calibration smoothing (exponential moving average weight of a new sample).
+ * Samples that lower the factor move it slower: undercounting overflows the
+ * context, and prefix-cached prompts (Ollama) report fewer tokens than were sent.
+ */
+const CALIBRATION_ALPHA_UP = 0.2;
+const CALIBRATION_ALPHA_DOWN = 0.05;
+/** Samples outside this ratio are ignored (cached prompts, truncation, template quirks) */
+const CALIBRATION_MIN_RATIO = 0.5;
+const CALIBRATION_MAX_RATIO = 2.5;
+/** Below this size the chat template overhead dominates the ratio */
+const CALIBRATION_MIN_TOKENS = 64;
+
+/**
+ * Heuristic tokenizer with a per-family profile
+ */
+export class EstimatingTokenizer implements Tokenizer {
+  readonly name: string;
+  private profile: EstimatorProfile;
+
+  constructor(family: TokenizerFamily) {
+    this.name = `estimate:${family}`;
+    this.profile = ESTIMATOR_PROFILES[family];
+  }
+
+  count(text: string): number {
+    if (!text) return 0;
+
+    let tokens = 0;
+    for (const match of text.matchAll(PRETOKENIZE_PATTERN)) {
+      tokens += this.countPiece(match[0]);
+    }
+    return Math.ceil(tokens);
+  }
+
+  private countPiece(piece: string): number {
+    const trimmed = piece.trimStart();
+
+    // Whitespace run (indentation, blank lines) - merged in chunks
+    if (!trimmed) {
+      return Math.ceil(piece.length / 4);
+    }
+
+    const first = trimmed.codePointAt(0)!;
+    const char = String.fromCodePoint(first);
+
+    if (/\p{N}/u.test(char)) {
+      return Math.ceil(trimmed.length / this.profile.digitGroup);
+    }
+
+    if (/\p{L}/u.test(char)) {
+      const cjkCount = (trimmed.match(CJK_PATTERN) || []).length;
+      const rest = trimmed.length - cjkCount;
+      let tokens = cjkCount * this.profile.cjkPerChar;
+      if (rest > 0) {
+        const chars = NON_ASCII_PATTERN.test(trimmed) ? this.profile.accentedWordChars : this.profile.wordChars;
+        // Common words up to ~wordChars letters are a single token
+        tokens += 1 + Math.floor((rest - 1) / chars);
+      }
+      return tokens;
+    }
+
+    // Symbols, punctuation, emoji - emoji cost several byte-level tokens
+    if (NON_ASCII_PATTERN.test(trimmed)) {
+      return Math.ceil(new TextEncoder().encode(trimmed).length / 2);
+    }
+    return Math.ceil(trimmed.length / this.profile.symbolChars);
+  }
+}
+
+/**
+ * Exact byte-level BPE tokenizer (tiktoken algorithm)
+ * Ranks map token bytes (as a binary string, one char per byte) to merge priority.
+ */
+export class BPETokenizer implements Tokenizer {
+  readonly name: string;
+  private ranks: Map<string, number>;
+  private pattern: RegExp;
+  private pieceCache = new Map<string, number>();
+  private static readonly PIECE_CACHE_LIMIT = 50000;
+
+  constructor(name: string, ranks: Map<string, number>, pattern: RegExp = PRETOKENIZE_PATTERN) {
+    this.name = `bpe:${name}`;
+    this.ranks = ranks;
+    this.pattern = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`);
+  }
+
+  count(text: string): number {
+    if (!text) return 0;
+
+    let tokens = 0;
+    for (const match of text.matchAll(this.pattern)) {
+      tokens += this.countPiece(match[0]);
+    }
+    return tokens;
+  }
+
+  private countPiece(piece: string): number {
+    const cached = this.pieceCache.get(piece);
+    if (cached !== undefined) return cached;
+
+    const bytes = toBinaryString(piece);
+    const count = this.ranks.has(bytes) ? 1 : this.merge(bytes).length;
+
+    if (this.pieceCache.size >= BPETokenizer.PIECE_CACHE_LIMIT) {
+      this.pieceCache.clear();
+    }
+    this.pieceCache.set(piece, count);
+    return count;
+  }
+
+  /**
+   * Repeatedly merge the adjacent pair with the lowest rank
+   */
+  private merge(bytes: string): string[] {
+    const parts = bytes.split('');
+
+    while (parts.length > 1) {
+      let bestRank = Infinity;
+      let bestIndex = -1;
+      for (let i = 0; i < parts.length - 1; i++) {
+        const rank = this.ranks.get(parts[i] + parts[i + 1]);
+        if (rank !== undefined && rank < bestRank) {
+          bestRank = rank;
+          bestIndex = i;
+        }
+      }
+      if (bestIndex === -1) break;
+      parts.splice(bestIndex, 2, parts[bestIndex] + parts[bestIndex + 1]);
+    }
+
+    return parts;
+  }
+}
+
+/**
+ * Parse a tiktoken rank file ("<base64 token> <rank>" per line)
+ */
+export function parseTiktokenRanks(data: string): Map<string, number> {
+  const ranks = new Map<string, number>();
+  for (const line of data.split('\n')) {
+    const [token, rank] = line.trim().split(' ');
+    if (!token || rank === undefined) continue;
+    ranks.set(atob(token), Number(rank));
+  }
+  return ranks;
+}
+
+function toBinaryString(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let result = '';
+  for (const byte of bytes) {
+    result += String.fromCharCode(byte);
+  }
+  return result;
+}
+
+/**
+ * Calibrated view of a base tokenizer for one model
+ */
+class CalibratedTokenizer implements Tokenizer {
+  constructor(
+    private base: Tokenizer,
+    private calibration: TokenizerCalibration
+  ) {}
+
+  get name(): string {
+    return `${this.base.name}*${this.calibration.factor.toFixed(2)}`;
+  }
+
+  count(text: string): number {
+    return Math.ceil(this.base.count(text) * this.calibration.factor);
+  }
+}
+
+const registeredTokenizers = new Map<TokenizerFamily, Tokenizer>();
+const rankLoaders = new Map<BPETokenizerFamily, () => Promise<string | null>>();
+const loadingTokenizers = new Map<TokenizerFamily, Promise<Tokenizer>>();
+const estimators = new Map<TokenizerFamily, EstimatingTokenizer>();
+const calibrations = new Map<string, TokenizerCalibration>();
+
+/**
+ * Resolve the tokenizer family from a model ID
+ */
+export function resolveTokenizerFamily(modelId?: string | null): TokenizerFamily {
+  if (!modelId) return 'generic';
+  const id = modelId.toLowerCase();
+
+  if (id.includes('claude') || id.includes('haiku') || id.includes('sonnet') || id.includes('opus')) {
+    return 'claude';
+  }
+  if (id.includes('gpt') || /^o[134](-|$)/.test(id)) {
+    return 'gpt';
+  }
+  if (id.includes('qwen')) {
+    return 'qwen';
+  }
+  if (id.includes('llama')) {
+    return 'llama';
+  }
+  return 'generic';
+}
+
+/**
+ * Register an exact tokenizer for a model family (replaces the estimator)
+ */
+export function registerTokenizer(family: TokenizerFamily, tokenizer: Tokenizer): void {
+  registeredTokenizers.set(family, tokenizer);
+  // Calibrations were measured against the previous tokenizer
+  for (const modelId of calibrations.keys()) {
+    if (resolveTokenizerFamily(modelId) === family) {
+      calibrations.delete(modelId);
+    }
+  }
+}
+
+/**
+ * Register the loader of a family's BPE rank table (tiktoken format)
+ * Nothing is loaded until the family is first counted - the estimator answers meanwhile.
+ * @param load - Resolves to the table's text, or null if the platform has none
+ */
+export function registerRankTable(family: BPETokenizerFamily, load: () => Promise<string | null>): void {
+  rankLoaders.set(family, load);
+  loadingTokenizers.delete(family);
+}
+
+/**
+ * Load a family's exact tokenizer if a rank table is registered
+ * @returns The BPE tokenizer, or the estimator if there is no table or it failed to load
+ */
+export function loadTokenizer(family: TokenizerFamily): Promise<Tokenizer> {
+  const registered = registeredTokenizers.get(family);
+  if (registered) return Promise.resolve(registered);
+
+  const load = rankLoaders.get(family as BPETokenizerFamily);
+  if (!load) return Promise.resolve(getEstimator(family));
+
+  let loading = loadingTokenizers.get(family);
+  if (!loading) {
+    const table = BPE_TABLES[family as BPETokenizerFamily];
+    loading = load()
+      .then(data => {
+        if (!data) return getEstimator(family);
+        const tokenizer = new BPETokenizer(table.name, parseTiktokenRanks(data), table.pattern);
+        registerTokenizer(family, tokenizer);
+        MessageBus.send('debug', `Loaded ${tokenizer.name} for ${family}`);
+        return tokenizer;
+      })
+      .catch(error => {
+        // Not retried - the estimator keeps counting
+        MessageBus.send('alert', `Could not load the ${table.name} rank table:`, error);
+        return getEstimator(family);
+      });
+    loadingTokenizers.set(family, loading);
+  }
+  return loading;
+}
+
+/**
+ * Get the uncalibrated tokenizer for a family
+ * Starts loading a registered rank table and estimates until it is there.
+ */
+export function getBaseTokenizer(family: TokenizerFamily): Tokenizer {
+  const registered = registeredTokenizers.get(family);
+  if (registered) return registered;
+
+  if (rankLoaders.has(family as BPETokenizerFamily)) {
+    void loadTokenizer(family);
+  }
+  return getEstimator(family);
+}
+
+function getEstimator(family: TokenizerFamily): EstimatingTokenizer {
+  let estimator = estimators.get(family);
+  if (!estimator) {
+    estimator = new EstimatingTokenizer(family);
+    estimators.set(family, estimator);
+  }
+  return estimator;
+}
+
+/**
+ * Get the tokenizer for a model (calibrated if usage data has been recorded)
+ */
+export function getTokenizer(modelId?: string | null): Tokenizer {
+  const base = getBaseTokenizer(resolveTokenizerFamily(modelId));
+  const calibration = modelId ? calibrations.get(modelId) : undefined;
+  return calibration ? new CalibratedTokenizer(base, calibration) : base;
+}
+
+/**
+ * Count tokens for a model
+ */
+export function countTokens(text: string, modelId?: string | null): number {
+  return getTokenizer(modelId).count(text);
+}
+
+/**
+ * Calibrate a model's token counts against provider-reported usage
+ *
+ * @param modelId - Model the prompt was sent to
+ * @param promptText - Full prompt text as sent (all message contents)
+ * @param actualPromptTokens - promptTokens from ChatResult.usage
+ */
+export function calibrateTokenizer(modelId: string, promptText: string, actualPromptTokens: number): void {
+  if (!modelId || !promptText || actualPromptTokens < CALIBRATION_MIN_TOKENS) return;
+
+  const estimated = getBaseTokenizer(resolveTokenizerFamily(modelId)).count(promptText);
+  if (estimated < CALIBRATION_MIN_TOKENS) return;
+
+  const ratio = actualPromptTokens / estimated;
+  if (ratio < CALIBRATION_MIN_RATIO || ratio > CALIBRATION_MAX_RATIO) return;
+
+  const existing = calibrations.get(modelId);
+  if (existing) {
+    const alpha = ratio > existing.factor ? CALIBRATION_ALPHA_UP : CALIBRATION_ALPHA_DOWN;
+    existing.factor = existing.factor * (1 - alpha) + ratio * alpha;
+    existing.samples++;
+    existing.lastUpdated = Date.now();
+  } else {
+    // First sample: never start below the uncalibrated count
+    calibrations.set(modelId, { factor: Math.max(1, ratio), samples: 1, lastUpdated: Date.now() });
+  }
+}
+
+/**
+ * Get calibration state for a model (undefined until the first usage report)
+ */
+export function getTokenizerCalibration(modelId: string): TokenizerCalibration | undefined {
+  const calibration = calibrations.get(modelId);
+  return calibration ? { ...calibration } : undefined;
+}
@@ -85,6 +85,7 @@ function extractJsonFromText(text: string): { json: string; start: number; end:
  * Looks for:
  * 1. ```json {"tool":"...", "params":{...}} ```
  * 2. {"tool":"...", "params":{...}}
+ * "parameters" is accepted as an alias for "params".
  */
 export function parseToolCall(text: string): ParseResult {
   // Try markdown code fence first
@@ -98,7 +99,7 @@ export function parseToolCall(text: string): ParseResult {
         return {
           toolCall: {
             tool: parsed.tool,
-            params: parsed.params || {}
+            params: parsed.params || parsed.parameters || {}
           },
           textBefore: text.substring(0, fenceStart).trim(),
           textAfter: text.substring(fenceStart + fenceMatch[0].length).trim()
@@ -118,7 +119,7 @@ export function parseToolCall(text: string): ParseResult {
         return {
           toolCall: {
             tool: parsed.tool,
-            params: parsed.params || {}
+            params: parsed.params || parsed.parameters || {}
           },
           textBefore: text.substring(0, extracted.start).trim(),
           textAfter: text.substring(extracted.end).trim()
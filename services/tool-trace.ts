@@ -27,6 +27,10 @@ export interface ToolStep {
   duration: number;
   policy: PolicyResult;
   timestamp: number;
+  /** Model turn that requested this call (agent loop) */
+  iteration?: number;
+  /** Provider tool call id (native tool calling) */
+  callId?: string;
 }
 
 export interface ToolTrace {
@@ -35,6 +39,10 @@ export interface ToolTrace {
   completedAt?: number;
   steps: ToolStep[];
   agentMode: boolean;
+  /** Number of model turns that requested tools */
+  iterations?: number;
+  /** Why the agent loop ended */
+  stopReason?: 'complete' | 'max_iterations' | 'max_tool_calls' | 'token_budget' | 'time_budget' | 'cancelled';
 }
 
 /**
@@ -58,7 +66,8 @@ export function addTraceStep(
   params: Record<string, unknown>,
   result: ToolStep['result'],
   policy: PolicyResult,
-  duration: number
+  duration: number,
+  extra?: { iteration?: number; callId?: string }
 ): void {
   trace.steps.push({
     seq: trace.steps.length + 1,
@@ -67,7 +76,8 @@ export function addTraceStep(
     result,
     duration,
     policy,
-    timestamp: Date.now()
+    timestamp: Date.now(),
+    ...extra
   });
 }
 
@@ -0,0 +1,360 @@
+/**
+ * Usage Ledger
+ *
+ * Every LLM call as an entry with its token counts and cost (constants/model-pricing.ts).
+ * LLMManager records the usage adapters report; queries aggregate entries by
+ * day, model, provider, AI or topic.
+ *
+ * Entries are grouped by UTC day. With storage deps, a day is stored as
+ * LLMUsageBucket objects of up to USAGE_BUCKET_SIZE entries plus an LLMUsageDay
+ * object with the bucket count. Unsaved entries are written in batches
+ * (flushDelayMs after the first one) into the newest bucket; days are loaded
+ * lazily when a query covers them. Without storage the ledger lives in memory only.
+ *
+ * Budgets (LLMBudget) are evaluated against the spend of their period, see
+ * evaluateBudget().
+ */
+
+import type { SHA256IdHash } from '@refinio/one.core/lib/util/type-checks.js';
+import type { LLMBudget, LLMUsageBucket, LLMUsageDay, LLMUsageEntry } from '../@OneObjectInterfaces.js';
+import { createMessageBus } from '@refinio/one.core/lib/message-bus.js';
+
+const MessageBus = createMessageBus('UsageLedger');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Queries without `from` cover this many days
+ */
+const DEFAULT_QUERY_DAYS = 30;
+
+const DEFAULT_FLUSH_DELAY_MS = 10_000;
+
+/**
+ * Entries per stored bucket - a flush rewrites at most this many old entries
+ */
+const USAGE_BUCKET_SIZE = 100;
+
+export interface UsageLedgerStorage {
+  storeVersionedObject: (obj: any) => Promise<any>;
+  getObjectByIdHash: (idHash: SHA256IdHash<any>) => Promise<any>;
+  calculateIdHashOfObj: (obj: any) => Promise<SHA256IdHash<any>>;
+}
+
+export type UsageRecord = Omit<LLMUsageEntry, 'id' | 'timestamp'> & { timestamp?: number };
+
+export type UsageGroupBy = 'day' | 'model' | 'provider' | 'ai' | 'topic';
+
+export interface UsageQuery {
+  /** Start (inclusive, ms) - default: DEFAULT_QUERY_DAYS days before `to` */
+  from?: number;
+  /** End (exclusive, ms) - default: now */
+  to?: number;
+  modelId?: string;
+  provider?: string;
+  aiId?: string;
+  topicId?: string;
+  requestClass?: string;
+}
+
+export interface UsageAggregate {
+  /** Day, model ID, provider, AI ID or topic ID ('none' for calls without AI/topic) */
+  key: string;
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  costUsd: number;
+  /** Calls of models without a known price - not included in costUsd */
+  unpricedRequests: number;
+}
+
+export type BudgetLevel = 'ok' | 'soft' | 'hard';
+
+export interface BudgetStatus {
+  budget: LLMBudget;
+  level: BudgetLevel;
+  spentUsd: number;
+  /** Start of the budget's current period (ms, UTC) */
+  periodStart: number;
+}
+
+export class UsageLedger {
+  // UTC day → entries (stored and unsaved)
+  private days = new Map<string, LLMUsageEntry[]>();
+  // Days whose stored object was merged into `days`
+  private loadedDays = new Set<string>();
+  private loading = new Map<string, Promise<void>>();
+  // Newest stored bucket of each loaded day
+  private openBuckets = new Map<string, LLMUsageBucket>();
+  // UTC day → entries not stored yet
+  private unsaved = new Map<string, LLMUsageEntry[]>();
+  private flushTimer?: ReturnType<typeof setTimeout>;
+  private flushChain: Promise<void> = Promise.resolve();
+  private flushDelayMs: number;
+  private sequence = 0;
+
+  constructor(private storage?: UsageLedgerStorage, options: { flushDelayMs?: number } = {}) {
+    this.flushDelayMs = options.flushDelayMs ?? DEFAULT_FLUSH_DELAY_MS;
+  }
+
+  /**
+   * Add an entry - persisted with the next flush
+   */
+  record(usage: UsageRecord): LLMUsageEntry {
+    const timestamp = usage.timestamp ?? Date.now();
+    // Optional fields must be absent, not undefined, in ONE.core objects
+    const entry = Object.fromEntries(
+      Object.entries({ ...usage, id: `${timestamp.toString(36)}-${(this.sequence++).toString(36)}`, timestamp })
+        .filter(([, value]) => value !== undefined)
+    ) as unknown as LLMUsageEntry;
+
+    const day = toDay(timestamp);
+    const entries = this.days.get(day) ?? [];
+    entries.push(entry);
+    this.days.set(day, entries);
+
+    if (this.storage) {
+      // Same array while a flush of this day runs, so it picks the entry up
+      const unsaved = this.unsaved.get(day) ?? [];
+      unsaved.push(entry);
+      this.unsaved.set(day, unsaved);
+      this.scheduleFlush();
+    }
+    return entry;
+  }
+
+  /**
+   * Entries matching the query, oldest first
+   */
+  async getEntries(query: UsageQuery = {}): Promise<LLMUsageEntry[]> {
+    const to = query.to ?? Date.now();
+    const from = query.from ?? to - DEFAULT_QUERY_DAYS * DAY_MS;
+
+    const result: LLMUsageEntry[] = [];
+    for (const day of daysBetween(from, to)) {
+      await this.loadDay(day);
+      for (const entry of this.days.get(day) ?? []) {
+        if (entry.timestamp >= from && entry.timestamp < to && matches(entry, query)) {
+          result.push(entry);
+        }
+      }
+    }
+    return result.sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  /**
+   * Totals per group, most expensive first (by day: chronological)
+   */
+  async aggregate(groupBy: UsageGroupBy, query: UsageQuery = {}): Promise<UsageAggregate[]> {
+    const groups = new Map<string, UsageAggregate>();
+
+    for (const entry of await this.getEntries(query)) {
+      const key = groupKey(entry, groupBy);
+      const group = groups.get(key) ?? {
+        key,
+        requests: 0,
+        promptTokens: 0,
+        completionTokens: 0,
+        cacheCreationTokens: 0,
+        cacheReadTokens: 0,
+        costUsd: 0,
+        unpricedRequests: 0
+      };
+      group.requests++;
+      group.promptTokens += entry.promptTokens;
+      group.completionTokens += entry.completionTokens;
+      group.cacheCreationTokens += entry.cacheCreationTokens;
+      group.cacheReadTokens += entry.cacheReadTokens;
+      group.costUsd += entry.costUsd;
+      if (!entry.priced) {
+        group.unpricedRequests++;
+      }
+      groups.set(key, group);
+    }
+
+    const result = [...groups.values()];
+    return groupBy === 'day'
+      ? result.sort((a, b) => a.key.localeCompare(b.key))
+      : result.sort((a, b) => b.costUsd - a.costUsd || b.requests - a.requests);
+  }
+
+  /**
+   * Spend in USD since a point in time
+   */
+  async getSpend(filter: Pick<UsageQuery, 'aiId' | 'provider' | 'topicId' | 'modelId'>, since: number): Promise<number> {
+    const entries = await this.getEntries({ ...filter, from: since });
+    return entries.reduce((sum, entry) => sum + entry.costUsd, 0);
+  }
+
+  /**
+   * Status of a budget in its current period
+   */
+  async getBudgetStatus(budget: LLMBudget, now: number = Date.now()): Promise<BudgetStatus> {
+    const periodStart = getPeriodStart(budget.period, now);
+    const filter = budget.scope === 'ai' ? { aiId: budget.scopeId } : { provider: budget.scopeId };
+    const spentUsd = await this.getSpend(filter, periodStart);
+    return { budget, level: evaluateBudget(budget, spentUsd), spentUsd, periodStart };
+  }
+
+  /**
+   * Write all unsaved days now (after a flush that is still running)
+   */
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+    if (!this.storage) {
+      return;
+    }
+
+    const flush = this.flushChain.then(async () => {
+      for (const day of [...this.unsaved.keys()]) {
+        try {
+          await this.flushDay(day);
+        } catch (error) {
+          MessageBus.send('alert', `Failed to store usage of ${day}:`, error);
+        }
+      }
+    });
+    this.flushChain = flush.catch(() => undefined);
+    await flush;
+  }
+
+  /**
+   * Append a day's unsaved entries to its newest bucket, starting buckets as they fill
+   */
+  private async flushDay(day: string): Promise<void> {
+    await this.loadDay(day);
+    const unsaved = this.unsaved.get(day) ?? [];
+
+    while (unsaved.length > 0) {
+      const open = this.openBuckets.get(day) ?? emptyBucket(day, 0);
+      const target = open.entries.length >= USAGE_BUCKET_SIZE ? emptyBucket(day, open.bucket + 1) : open;
+      const added = unsaved.slice(0, USAGE_BUCKET_SIZE - target.entries.length);
+
+      const bucket: LLMUsageBucket = { ...target, entries: [...target.entries, ...added], modified: Date.now() };
+      await this.storage!.storeVersionedObject(bucket);
+      if (target.entries.length === 0) {
+        const usageDay: LLMUsageDay = { $type$: 'LLMUsageDay', day, bucketCount: bucket.bucket + 1, modified: bucket.modified };
+        await this.storage!.storeVersionedObject(usageDay);
+      }
+
+      this.openBuckets.set(day, bucket);
+      unsaved.splice(0, added.length);
+    }
+    this.unsaved.delete(day);
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) {
+      return;
+    }
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = undefined;
+      this.flush().catch(error => MessageBus.send('alert', 'Usage ledger flush failed:', error));
+    }, this.flushDelayMs);
+  }
+
+  /**
+   * Merge the stored entries of a day with the ones recorded since startup
+   */
+  private async loadDay(day: string): Promise<void> {
+    if (!this.storage || this.loadedDays.has(day)) {
+      return;
+    }
+    if (!this.loading.has(day)) {
+      this.loading.set(day, this.readDay(day).finally(() => this.loading.delete(day)));
+    }
+    await this.loading.get(day);
+  }
+
+  private async readDay(day: string): Promise<void> {
+    const usageDay = await this.readObject<LLMUsageDay>({ $type$: 'LLMUsageDay', day });
+
+    const stored: LLMUsageEntry[] = [];
+    for (let index = 0; index < (usageDay?.bucketCount ?? 0); index++) {
+      const bucket = await this.readObject<LLMUsageBucket>({ $type$: 'LLMUsageBucket', day, bucket: index })
+        ?? emptyBucket(day, index);
+      stored.push(...bucket.entries);
+      this.openBuckets.set(day, bucket);
+    }
+
+    const recorded = this.days.get(day) ?? [];
+    const recordedIds = new Set(recorded.map(entry => entry.id));
+    this.days.set(day, [...stored.filter(entry => !recordedIds.has(entry.id)), ...recorded]);
+    this.loadedDays.add(day);
+  }
+
+  private async readObject<T>(idObj: object): Promise<T | undefined> {
+    const idHash = await this.storage!.calculateIdHashOfObj(idObj);
+    try {
+      const result = await this.storage!.getObjectByIdHash(idHash);
+      return result.obj as T;
+    } catch (error: any) {
+      if (error.message?.includes('not found') || error.code === 'NOT_FOUND') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Budget level for a spend: 'hard' at or above hardLimitUsd, 'soft' at or above softLimitUsd
+ */
+export function evaluateBudget(budget: LLMBudget, spentUsd: number): BudgetLevel {
+  if (budget.hardLimitUsd !== undefined && spentUsd >= budget.hardLimitUsd) {
+    return 'hard';
+  }
+  if (budget.softLimitUsd !== undefined && spentUsd >= budget.softLimitUsd) {
+    return 'soft';
+  }
+  return 'ok';
+}
+
+/**
+ * Start of the current day or calendar month (UTC)
+ */
+export function getPeriodStart(period: LLMBudget['period'], now: number = Date.now()): number {
+  const date = new Date(now);
+  return period === 'day'
+    ? Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+    : Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+}
+
+function emptyBucket(day: string, bucket: number): LLMUsageBucket {
+  return { $type$: 'LLMUsageBucket', day, bucket, entries: [], modified: 0 };
+}
+
+function toDay(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+function daysBetween(from: number, to: number): string[] {
+  const days: string[] = [];
+  for (let time = getPeriodStart('day', from); time < to; time += DAY_MS) {
+    days.push(toDay(time));
+  }
+  return days;
+}
+
+function matches(entry: LLMUsageEntry, query: UsageQuery): boolean {
+  return (!query.modelId || entry.modelId === query.modelId)
+    && (!query.provider || entry.provider === query.provider)
+    && (!query.aiId || entry.aiId === query.aiId)
+    && (!query.topicId || entry.topicId === query.topicId)
+    && (!query.requestClass || entry.requestClass === query.requestClass);
+}
+
+function groupKey(entry: LLMUsageEntry, groupBy: UsageGroupBy): string {
+  switch (groupBy) {
+    case 'day': return toDay(entry.timestamp);
+    case 'model': return entry.modelId;
+    case 'provider': return entry.provider;
+    case 'ai': return entry.aiId ?? 'none';
+    case 'topic': return entry.topicId ?? 'none';
+  }
+}
@@ -0,0 +1,120 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AIBranchManager } from '../models/ai/AIBranchManager.js';
+import { createMemoryStorage } from './helpers/memory-storage.js';
+
+/** TopicModel stand-in - one message list per topic, hashes m1, m2, ... */
+function createTopicModel() {
+  const rooms = new Map<string, any[]>();
+  let counter = 0;
+  const post = (topicId: string, text: string, sender: string) => {
+    const message = { hash: `m${++counter}`, data: { text, sender }, creationTime: new Date(counter * 1000) };
+    rooms.get(topicId)!.push(message);
+    return message;
+  };
+  return {
+    rooms,
+    post,
+    enterTopicRoom: async (topicId: string) => ({
+      retrieveAllMessages: async () => [...rooms.get(topicId)!],
+      sendMessage: async (text: string, sender: string) => { post(topicId, text, sender); }
+    }),
+    findTopic: async () => ({ name: 'Chat', aiParticipants: new Map([['ai', {}]]) }),
+    createTopic: async (_name: string, _participants: string[], topicId: string) => { rooms.set(topicId, []); }
+  };
+}
+
+function createBranchManager() {
+  const topicModel = createTopicModel();
+  topicModel.rooms.set('t1', []);
+  const processed: any[] = [];
+  const invalidated: string[] = [];
+
+  const messageProcessor = {
+    isAIContact: async (personId: string) => personId.startsWith('ai'),
+    processMessage: async (...args: any[]) => { processed.push(args); }
+  };
+  const topicManager = {
+    getAIPersonForTopic: () => 'ai',
+    getTopicDisplayName: () => 'Chat',
+    registerAITopic: () => {},
+    setTopicDisplayName: () => {}
+  };
+  const promptBuilder = { invalidateMessageCache: (topicId: string) => { invalidated.push(topicId); } };
+  const leuteModel = { myMainIdentity: async () => 'owner' };
+
+  const manager = new AIBranchManager(
+    createMemoryStorage('topicId'),
+    topicModel,
+    leuteModel as any,
+    topicManager as any,
+    messageProcessor as any,
+    promptBuilder as any,
+    {}
+  );
+  return { manager, topicModel, processed, invalidated };
+}
+
+const hashes = (messages: any[]) => messages.map(message => message.hash);
+
+describe('AIBranchManager', () => {
+  it('supersedes the last reply of the AI when regenerating', async () => {
+    const { manager, topicModel, processed, invalidated } = createBranchManager();
+    topicModel.post('t1', 'Hi', 'user');          // m1
+    topicModel.post('t1', 'Hello', 'ai');         // m2
+    topicModel.post('t1', 'Plan a trip', 'user'); // m3
+    topicModel.post('t1', 'Go to Rome', 'ai');    // m4
+    topicModel.post('t1', 'Or Paris', 'ai-b');    // m5
+
+    const branch = await manager.regenerate('t1', { aiPersonId: 'ai' as any, modelId: 'qwen' });
+
+    assert.equal(branch?.kind, 'regenerate');
+    assert.equal(branch?.anchorHash, 'm3');
+    assert.deepEqual(branch?.supersededHashes, ['m4']);
+    assert.deepEqual(hashes(await manager.getActiveMessages('t1')), ['m1', 'm2', 'm3', 'm5']);
+    assert.deepEqual(processed, [['t1', 'Plan a trip', 'user', 'ai', { modelId: 'qwen' }]]);
+    assert.deepEqual(invalidated, ['t1']);
+  });
+
+  it('supersedes the edited message and everything after it', async () => {
+    const { manager, topicModel } = createBranchManager();
+    topicModel.post('t1', 'Hi', 'user');          // m1
+    topicModel.post('t1', 'Hello', 'ai');         // m2
+    topicModel.post('t1', 'Plan a trip', 'user'); // m3
+    topicModel.post('t1', 'Go to Rome', 'ai');    // m4
+
+    await assert.rejects(manager.editAndResend('t1', 'm2', 'Changed'), /Only user messages can be edited/);
+
+    const branch = await manager.editAndResend('t1', 'm3', 'Plan a short trip');
+    assert.equal(branch.anchorHash, 'm2');
+    assert.deepEqual(branch.supersededHashes, ['m3', 'm4']);
+
+    const active = await manager.getActiveMessages('t1');
+    assert.deepEqual(hashes(active), ['m1', 'm2', 'm5']);
+    assert.equal(active[2].data.text, 'Plan a short trip');
+
+    // Branches add up
+    await manager.editAndResend('t1', 'm1', 'Hello');
+    assert.deepEqual([...await manager.getSupersededHashes('t1')].sort(), ['m1', 'm2', 'm3', 'm4', 'm5']);
+  });
+
+  it('copies the active conversation up to the fork point and records its length', async () => {
+    const { manager, topicModel } = createBranchManager();
+    topicModel.post('t1', 'Hi', 'user');          // m1
+    topicModel.post('t1', 'Hello', 'ai');         // m2
+    topicModel.post('t1', 'Plan a trip', 'user'); // m3
+    topicModel.post('t1', 'Go to Rome', 'ai');    // m4
+    await manager.regenerate('t1');
+    topicModel.post('t1', 'Go to Paris', 'ai');   // m5 - the regenerated reply
+    topicModel.post('t1', 'Thanks', 'user');      // m6
+
+    const fork = await manager.forkTopic('t1', 'm5');
+
+    assert.match(fork.topicId, /^owner:fork-/);
+    assert.equal(fork.copiedMessages, 4);
+    assert.equal(fork.copiedSubjects, 0);
+    assert.deepEqual(topicModel.rooms.get(fork.topicId)!.map(message => message.data.text), ['Hi', 'Hello', 'Plan a trip', 'Go to Paris']);
+    assert.equal(await manager.getForkPrefixLength(fork.topicId), 4);
+    assert.equal(await manager.getForkPrefixLength('t1'), 0);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AICustomTaskManager, type CustomTaskInput } from '../models/ai/AICustomTaskManager.js';
+import { createMemoryStorage, type MemoryStorage } from './helpers/memory-storage.js';
+
+function createManager(storage: MemoryStorage = createMemoryStorage('topicId', 'taskId')) {
+  const posted: string[] = [];
+  const topicModel = {
+    enterTopicRoom: async () => ({
+      retrieveAllMessages: async () => [],
+      sendMessage: async (text: string) => { posted.push(text); }
+    })
+  };
+  // Echoes the rendered prompt
+  const llmManager = { chat: async (messages: Array<{ content: string }>) => messages[messages.length - 1].content };
+  const topicManager = { getAIPersonForTopic: () => 'ai' };
+  const aiManager = { getModelIdForAI: () => 'llama', getAIId: () => 'ai', isAI: () => false };
+
+  const manager = new AICustomTaskManager(storage, topicModel, llmManager, topicManager as any, aiManager as any, () => null);
+  return { manager, posted };
+}
+
+function task(name: string, trigger: CustomTaskInput['trigger']): CustomTaskInput {
+  return { name, promptTemplate: `${name}: {{message}}`, trigger, outputAction: 'post-message' };
+}
+
+async function triggered(manager: AICustomTaskManager, message: string, messageNumber: number): Promise<string[]> {
+  return (await manager.runTriggeredTasks('t1', message, messageNumber)).map(result => result.name);
+}
+
+describe('AICustomTaskManager', () => {
+  it('runs the tasks whose trigger matches a message', async () => {
+    const { manager, posted } = createManager();
+    await manager.defineTask('t1', task('always', { type: 'every-message' }));
+    await manager.defineTask('t1', task('deadline', { type: 'keyword', keywords: ['Deadline', 'due'] }));
+    await manager.defineTask('t1', task('third', { type: 'every-n-messages', everyN: 3 }));
+    await manager.defineTask('t1', task('manual', { type: 'manual' }));
+
+    assert.deepEqual(await triggered(manager, 'Hello', 1), ['always']);
+    assert.deepEqual(await triggered(manager, 'The DEADLINE moved', 2), ['always', 'deadline']);
+    assert.deepEqual(await triggered(manager, 'Hello again', 3), ['always', 'third']);
+    assert.equal(posted[2], 'deadline: The DEADLINE moved');
+  });
+
+  it('skips disabled tasks', async () => {
+    const { manager } = createManager();
+    const defined = await manager.defineTask('t1', task('always', { type: 'every-message' }));
+    await manager.updateTask('t1', defined.taskId, { enabled: false });
+
+    assert.deepEqual(await triggered(manager, 'Hello', 1), []);
+  });
+
+  it('rejects triggers that can never match', async () => {
+    const { manager } = createManager();
+    await assert.rejects(manager.defineTask('t1', task('none', { type: 'keyword', keywords: [' '] })), /at least one keyword/);
+    await assert.rejects(manager.defineTask('t1', task('zero', { type: 'every-n-messages', everyN: 0 })), /everyN >= 1/);
+  });
+
+  it('stops running a task disabled on another device once invalidated', async () => {
+    const storage = createMemoryStorage('topicId', 'taskId');
+    const { manager } = createManager(storage);
+    const defined = await manager.defineTask('t1', task('always', { type: 'every-message' }));
+
+    await createManager(storage).manager.updateTask('t1', defined.taskId, { enabled: false });
+    manager.invalidate('t1');
+
+    assert.deepEqual(await triggered(manager, 'Hello', 1), []);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ResearchRun } from '@OneObjectInterfaces';
+import { AIResearchRunner } from '../models/ai/AIResearchRunner.js';
+import { createMemoryStorage, type MemoryStorage } from './helpers/memory-storage.js';
+
+function reportingRun(overrides: Partial<ResearchRun> = {}): ResearchRun {
+  return {
+    researchId: 'r1',
+    question: 'Why is the sky blue?',
+    status: 'reporting',
+    depth: 'shallow',
+    sources: [],
+    aiPersonId: 'ai',
+    modelId: 'llama',
+    subQueries: [{ query: 'Rayleigh scattering', status: 'done', findings: 'Short wavelengths scatter more' }],
+    evidence: [],
+    created: 1,
+    ...overrides
+  };
+}
+
+function createRunner(storage: MemoryStorage, runs: ResearchRun[]) {
+  const posted: string[] = [];
+  const topicModel = {
+    enterTopicRoom: async () => ({ sendMessage: async (text: string) => { posted.push(text); } })
+  };
+  const llmManager = {
+    chatStructured: async () => ({ value: { title: 'Blue sky', summary: 'Scattering', sections: [] } })
+  };
+  const aiManager = { getAIId: () => 'ai' };
+  storage.objects.set('TopicResearch:t1', { $type$: 'TopicResearch', topicId: 't1', runs, modified: 1 });
+
+  const runner = new AIResearchRunner(storage, topicModel, llmManager, {} as any, aiManager as any, () => null);
+  return { runner, posted };
+}
+
+async function finished(runner: AIResearchRunner, researchId = 'r1'): Promise<ResearchRun> {
+  for (;;) {
+    const run = (await runner.getRuns('t1')).find(r => r.researchId === researchId)!;
+    if (run.status === 'complete' || run.status === 'failed') return run;
+    await new Promise(resolve => setImmediate(resolve));
+  }
+}
+
+describe('AIResearchRunner', () => {
+  it('marks the report as posted before sending it', async () => {
+    const storage = createMemoryStorage('topicId');
+    const { runner, posted } = createRunner(storage, [reportingRun()]);
+
+    assert.equal(await runner.resumeAll(['t1']), 1);
+    const run = await finished(runner);
+
+    assert.equal(run.status, 'complete');
+    assert.equal(typeof run.reportPostedAt, 'number');
+    assert.equal(posted.length, 1);
+    assert.match(posted[0], /^# Blue sky/);
+  });
+
+  it('does not post the report again when resumed after posting', async () => {
+    const storage = createMemoryStorage('topicId');
+    const { runner, posted } = createRunner(storage, [reportingRun({ reportPostedAt: 2 })]);
+
+    assert.equal(await runner.resumeAll(['t1']), 1);
+    assert.equal((await finished(runner)).status, 'complete');
+    assert.deepEqual(posted, []);
+  });
+
+  it('resumes a run started on another device once invalidated', async () => {
+    const storage = createMemoryStorage('topicId');
+    const { runner, posted } = createRunner(storage, [reportingRun({ status: 'complete' })]);
+    assert.equal(await runner.resumeAll(['t1']), 0);
+
+    storage.objects.get('TopicResearch:t1').runs.push(reportingRun({ researchId: 'r2' }));
+    runner.invalidate('t1');
+
+    assert.equal(await runner.resumeAll(['t1']), 1);
+    assert.equal((await finished(runner, 'r2')).status, 'complete');
+    assert.equal(posted.length, 1);
+  });
+});
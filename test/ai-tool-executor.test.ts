@@ -0,0 +1,112 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AIToolExecutor, type AgentTurn, type AIToolExecutorConfig } from '../services/AIToolExecutor.js';
+import type { ChatToolCall } from '../services/llm-adapters/types.js';
+
+const context = { callerId: 'ai' as any, topicId: 't1', entryPoint: 'internal' as const, requestId: 'r1' };
+
+/** MCPManager stand-in - records when each tool starts and ends */
+function createMcpManager() {
+  const events: string[] = [];
+  return {
+    events,
+    executeTool: async (tool: string) => {
+      events.push(`start ${tool}`);
+      await new Promise(resolve => setImmediate(resolve));
+      events.push(`end ${tool}`);
+      return { content: [{ type: 'text', text: `result of ${tool}` }] };
+    }
+  };
+}
+
+function call(id: string, name: string): ChatToolCall {
+  return { id, name: `mcp:${name}`, arguments: {} };
+}
+
+function turn(toolCalls: ChatToolCall[], totalTokens = 10): AgentTurn {
+  return { content: toolCalls.length ? '' : 'Answer', toolCalls, usage: { promptTokens: totalTokens, completionTokens: 0, totalTokens } };
+}
+
+async function runLoop(firstTurn: AgentTurn, config: Partial<AIToolExecutorConfig> = {}, nextTurn = () => turn([])) {
+  const mcpManager = createMcpManager();
+  const finals: boolean[] = [];
+  const executor = new AIToolExecutor({ mcpManager }, config);
+  const result = await executor.runAgentLoop({
+    messages: [{ role: 'user', content: 'Question' }],
+    firstTurn,
+    callModel: async (_messages, { final }) => {
+      finals.push(final);
+      return final ? turn([]) : nextTurn();
+    },
+    context
+  });
+  return { result, events: mcpManager.events, finals };
+}
+
+describe('AIToolExecutor.runAgentLoop', () => {
+  it('runs read-only calls of one turn in parallel', async () => {
+    const { events } = await runLoop(turn([
+      call('1', 'files:readFile'),
+      call('2', 'files:listDirectory'),
+      call('3', 'web:search')
+    ]));
+
+    assert.deepEqual(events.slice(0, 3), ['start files:readFile', 'start files:listDirectory', 'start web:search']);
+  });
+
+  it('runs a write after the calls of the same domain before it', async () => {
+    const { events } = await runLoop(turn([
+      call('1', 'files:readFile'),
+      call('2', 'web:search'),
+      call('3', 'files:writeFile'),
+      call('4', 'files:readFile')
+    ]));
+
+    assert.deepEqual(events, [
+      'start files:readFile', 'start web:search', 'end files:readFile', 'end web:search',
+      'start files:writeFile', 'end files:writeFile',
+      'start files:readFile', 'end files:readFile'
+    ]);
+  });
+
+  it('stops at maxIterations and asks for an answer without tools', async () => {
+    let turns = 0;
+    const { result, finals } = await runLoop(
+      turn([call('1', 'web:search')]),
+      { maxIterations: 2 },
+      () => turn([call(String(++turns + 1), 'web:search')])
+    );
+
+    assert.equal(result.stopReason, 'max_iterations');
+    assert.equal(result.trace.iterations, 2);
+    assert.equal(result.trace.steps.length, 2);
+    assert.deepEqual(finals, [false, false, true]);
+    assert.equal(result.content, 'Answer');
+  });
+
+  it('stops when the token budget is used up', async () => {
+    const { result, events } = await runLoop(turn([call('1', 'web:search')], 150), { tokenBudget: 100 });
+
+    assert.equal(result.stopReason, 'token_budget');
+    assert.deepEqual(events, []);
+    // The unanswered tool call is not sent back to the model
+    assert.equal(result.messages.some(message => message.role === 'tool'), false);
+  });
+
+  it('records every step of all turns in one trace', async () => {
+    let turns = 0;
+    const { result } = await runLoop(
+      turn([call('a', 'web:search'), call('b', 'files:readFile')]),
+      {},
+      () => ++turns === 1 ? turn([call('c', 'files:writeFile')]) : turn([])
+    );
+
+    assert.equal(result.stopReason, 'complete');
+    assert.deepEqual(
+      result.trace.steps.map(step => [step.seq, step.tool, step.iteration, step.callId]),
+      [[1, 'mcp:web:search', 1, 'a'], [2, 'mcp:files:readFile', 1, 'b'], [3, 'mcp:files:writeFile', 2, 'c']]
+    );
+    assert.ok(result.trace.completedAt);
+    assert.match(result.toolResults, /result of files:writeFile/);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AITurnCoordinator, type TurnCandidate, type TurnRequest } from '../models/ai/AITurnCoordinator.js';
+import { DEFAULT_TURN_POLICY, type TurnPolicySettings } from '../models/settings/TurnPolicyManager.js';
+
+const candidates: TurnCandidate[] = [
+  { personId: 'ada', displayName: 'Ada', modelId: 'llama' },
+  { personId: 'bob', displayName: 'Bob Smith', modelId: 'qwen' },
+  { personId: 'cy', displayName: 'Cy', modelId: 'claude' }
+];
+
+function request(policy: Partial<TurnPolicySettings>, overrides: Partial<TurnRequest> = {}, text = 'What do you think?'): TurnRequest {
+  return {
+    topicId: 'topic',
+    policy: { ...DEFAULT_TURN_POLICY, ...policy },
+    message: { text, senderId: 'user', fromAI: false },
+    candidates,
+    recentSenderIds: [],
+    consecutiveAITurns: 0,
+    ...overrides
+  };
+}
+
+/** chatStructured stand-in - answers by model ID */
+function llmManager(answers: Record<string, unknown | Error>): { chatStructured: (...args: any[]) => Promise<any>; calls: string[] } {
+  const calls: string[] = [];
+  return {
+    calls,
+    chatStructured: async (_messages: any[], modelId: string) => {
+      calls.push(modelId);
+      const answer = answers[modelId];
+      if (answer instanceof Error || answer === undefined) {
+        throw answer ?? new Error(`no answer for ${modelId}`);
+      }
+      return { value: answer };
+    }
+  };
+}
+
+describe('AITurnCoordinator', () => {
+  it('lets every AI answer in mode all', async () => {
+    const decision = await new AITurnCoordinator(null).selectSpeakers(request({ mode: 'all' }));
+    assert.deepEqual(decision.speakers, ['ada', 'bob', 'cy']);
+  });
+
+  it('keeps AIs from answering AI messages unless allowed', async () => {
+    const coordinator = new AITurnCoordinator(null);
+    const fromAI = { message: { text: 'Hi', senderId: 'ada', fromAI: true } };
+
+    assert.deepEqual((await coordinator.selectSpeakers(request({ mode: 'all' }, fromAI))).speakers, []);
+    assert.deepEqual(
+      (await coordinator.selectSpeakers(request({ mode: 'all', allowAIReplies: true }, fromAI))).speakers,
+      ['ada', 'bob', 'cy']
+    );
+  });
+
+  it('stops AI-to-AI loops at maxConsecutiveAITurns', async () => {
+    const decision = await new AITurnCoordinator(null).selectSpeakers(request(
+      { mode: 'all', allowAIReplies: true, maxConsecutiveAITurns: 3 },
+      { message: { text: 'Hi', senderId: 'ada', fromAI: true }, consecutiveAITurns: 3 }
+    ));
+    assert.deepEqual(decision.speakers, []);
+    assert.match(decision.reason, /loop guard/);
+  });
+
+  it('rotates through the candidates in round-robin mode', async () => {
+    const coordinator = new AITurnCoordinator(null);
+    assert.deepEqual((await coordinator.selectSpeakers(request({ mode: 'round-robin' }))).speakers, ['ada']);
+    assert.deepEqual(
+      (await coordinator.selectSpeakers(request({ mode: 'round-robin' }, { recentSenderIds: ['bob', 'user'] }))).speakers,
+      ['cy']
+    );
+    assert.deepEqual(
+      (await coordinator.selectSpeakers(request({ mode: 'round-robin' }, { recentSenderIds: ['cy'] }))).speakers,
+      ['ada']
+    );
+  });
+
+  it('answers @mentions outside mode all, also without the space in a name', async () => {
+    const coordinator = new AITurnCoordinator(null);
+    assert.deepEqual((await coordinator.selectSpeakers(request({ mode: 'mention-only' }))).speakers, []);
+    assert.deepEqual(
+      (await coordinator.selectSpeakers(request({ mode: 'round-robin' }, {}, '@BobSmith and @cy, any ideas?'))).speakers,
+      ['bob', 'cy']
+    );
+  });
+
+  it('gives the turn to the highest bid and skips failed bids', async () => {
+    const llm = llmManager({ llama: { score: 4 }, qwen: { score: 8 }, claude: new Error('offline') });
+    const decision = await new AITurnCoordinator(llm).selectSpeakers(request({ mode: 'relevance-bid' }));
+
+    assert.deepEqual(decision.speakers, ['bob']);
+    assert.deepEqual(llm.calls.sort(), ['claude', 'llama', 'qwen']);
+  });
+
+  it('answers AI messages only with a high enough bid', async () => {
+    const llm = llmManager({ llama: { score: 2 }, qwen: { score: 3 }, claude: { score: 1 } });
+    const decision = await new AITurnCoordinator(llm).selectSpeakers(request(
+      { mode: 'relevance-bid', allowAIReplies: true },
+      { message: { text: 'Hi', senderId: 'x', fromAI: true } }
+    ));
+    assert.deepEqual(decision.speakers, []);
+  });
+
+  it('falls back to round-robin when every bid fails', async () => {
+    const decision = await new AITurnCoordinator(llmManager({})).selectSpeakers(request({ mode: 'relevance-bid' }));
+    assert.deepEqual(decision.speakers, ['ada']);
+    assert.match(decision.reason, /^bidding failed/);
+  });
+
+  it('lets the moderator name the speakers', async () => {
+    const moderator: TurnCandidate = { personId: 'mod', displayName: 'Mod', modelId: 'moderator' };
+    const llm = llmManager({ moderator: { speakers: ['@bob smith', 'Nobody'], reason: 'expert' } });
+    const decision = await new AITurnCoordinator(llm).selectSpeakers(request({ mode: 'moderator', moderatorPersonId: 'mod' }, { moderator }));
+
+    assert.deepEqual(decision.speakers, ['bob']);
+    assert.equal(decision.reason, 'moderator: expert');
+  });
+
+  it('falls back to round-robin without a moderator', async () => {
+    const decision = await new AITurnCoordinator(null).selectSpeakers(request({ mode: 'moderator', moderatorPersonId: 'mod' }));
+    assert.deepEqual(decision.speakers, ['ada']);
+    assert.match(decision.reason, /^moderator unavailable/);
+  });
+});
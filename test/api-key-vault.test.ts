@@ -0,0 +1,36 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ApiKeyVault } from '../services/api-key-vault.js';
+import { createMemoryStorage } from './helpers/memory-storage.js';
+
+// Reversible stand-in for the owner's encryption
+const crypto = {
+  encrypt: (data: Uint8Array) => data.map(byte => byte ^ 0x5a),
+  decrypt: (data: Uint8Array) => data.map(byte => byte ^ 0x5a)
+};
+
+describe('ApiKeyVault', () => {
+  it('imports a UserSettings key once as the default key', async () => {
+    const storage = createMemoryStorage('owner');
+    const vault = new ApiKeyVault(storage, crypto, 'owner');
+
+    assert.equal(await vault.importLegacyKey('anthropic', 'sk-ant-legacy-1234'), true);
+    assert.equal(await vault.importLegacyKey('anthropic', 'sk-ant-other-5678'), false);
+
+    assert.equal(await vault.getApiKey('anthropic'), 'sk-ant-legacy-1234');
+    const [key] = await vault.listKeys('anthropic');
+    assert.equal(key.label, 'Imported');
+    assert.equal(key.isDefault, true);
+    assert.equal(storage.writes.length, 1);
+    assert.ok(!JSON.stringify(storage.writes[0]).includes('sk-ant-legacy'));
+  });
+
+  it('does not bring a revoked key back from UserSettings', async () => {
+    const vault = new ApiKeyVault(createMemoryStorage('owner'), crypto, 'owner');
+    const key = await vault.addKey({ provider: 'openai', label: 'Personal', apiKey: 'sk-openai-1234' });
+    await vault.revokeKey(key.keyId);
+
+    assert.equal(await vault.importLegacyKey('openai', 'sk-openai-1234'), false);
+    assert.equal(await vault.getApiKey('openai'), undefined);
+  });
+});
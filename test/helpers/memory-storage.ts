@@ -0,0 +1,43 @@
+/**
+ * In-memory stand-in for the ONE.core storage functions the managers get
+ * injected (storeVersionedObject, getObjectByIdHash, calculateIdHashOfObj)
+ *
+ * The "ID hash" of an object is its type and the values of the given ID
+ * fields, e.g. createMemoryStorage('topicId') stores 'TopicResearch:t1'.
+ * Objects are cloned on the way in and out, like real storage.
+ */
+
+export interface MemoryStorage {
+  /** Stored objects by ID hash (latest version) */
+  objects: Map<string, any>;
+  /** Every stored version, in order */
+  writes: any[];
+  /** Number of getObjectByIdHash calls */
+  reads: number;
+  storeVersionedObject: (obj: any) => Promise<{ obj: any }>;
+  getObjectByIdHash: (idHash: any) => Promise<{ obj: any }>;
+  calculateIdHashOfObj: (obj: any) => Promise<any>;
+}
+
+export function createMemoryStorage(...idFields: string[]): MemoryStorage {
+  const idOf = (obj: any) => [obj.$type$, ...idFields.filter(field => obj[field] !== undefined).map(field => obj[field])].join(':');
+
+  const storage: MemoryStorage = {
+    objects: new Map(),
+    writes: [],
+    reads: 0,
+    storeVersionedObject: async obj => {
+      storage.writes.push(obj);
+      storage.objects.set(idOf(obj), structuredClone(obj));
+      return { obj };
+    },
+    getObjectByIdHash: async idHash => {
+      storage.reads++;
+      const obj = storage.objects.get(idHash);
+      if (!obj) throw Object.assign(new Error('Object not found'), { code: 'NOT_FOUND' });
+      return { obj: structuredClone(obj) };
+    },
+    calculateIdHashOfObj: async obj => idOf(obj)
+  };
+  return storage;
+}
@@ -0,0 +1,11 @@
+/**
+ * Minimal ONE.core platform for unit tests: the Node.js crypto helpers only
+ * (load-nodejs.js also loads storage and network modules the tests do not need)
+ */
+
+import { setPlatformForCh } from '@refinio/one.core/lib/system/crypto-helpers.js';
+import * as CryptoHelpers from '@refinio/one.core/lib/system/nodejs/crypto-helpers.js';
+import { setPlatformLoaded } from '@refinio/one.core/lib/system/platform.js';
+
+setPlatformForCh(CryptoHelpers);
+setPlatformLoaded('nodejs');
@@ -0,0 +1,125 @@
+import { describe, it, mock, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { LLMConcurrencyManager } from '../services/llm-concurrency-manager.js';
+
+const LOCAL = 'http://localhost:11434';
+
+function createManager(): LLMConcurrencyManager {
+  const manager = new LLMConcurrencyManager();
+  for (const modelId of ['llama', 'qwen']) {
+    manager.ensureModel(modelId, 'ollama', LOCAL);
+  }
+  return manager;
+}
+
+/** Records the order in which queued requests get their slot */
+function track(order: string[], label: string, request: Promise<string>): Promise<string> {
+  return request.then(requestId => {
+    order.push(label);
+    return requestId;
+  });
+}
+
+describe('LLMConcurrencyManager', () => {
+  beforeEach(() => {
+    mock.method(console, 'log', () => {});
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+    mock.timers.reset();
+  });
+
+  it('grants remote API requests immediately', async () => {
+    const manager = new LLMConcurrencyManager();
+    const ids = await Promise.all([
+      manager.acquireSlot('claude-sonnet-4', 't1'),
+      manager.acquireSlot('claude-sonnet-4', 't2')
+    ]);
+    assert.equal(manager.getStats().totalActive, 2);
+    ids.forEach(id => manager.releaseSlot(id));
+    assert.equal(manager.getStats().totalActive, 0);
+  });
+
+  it('runs one request at a time on a local server and serves interactive before analysis', async () => {
+    const manager = createManager();
+    const order: string[] = [];
+
+    const first = await manager.acquireSlot('llama', 't1', 5, 'analysis');
+    const analysis = track(order, 'analysis', manager.acquireSlot('qwen', 't2', 5, 'analysis'));
+    const interactive = track(order, 'interactive', manager.acquireSlot('llama', 't3', 5, 'interactive'));
+    assert.equal(manager.getStats().totalPending, 2);
+
+    manager.releaseSlot(first);
+    manager.releaseSlot(await interactive);
+    await analysis;
+    assert.deepEqual(order, ['interactive', 'analysis']);
+  });
+
+  it('orders equal classes by topic priority', async () => {
+    const manager = createManager();
+    const order: string[] = [];
+
+    const first = await manager.acquireSlot('llama', 't0');
+    const low = track(order, 'low', manager.acquireSlot('llama', 't1', 2));
+    const high = track(order, 'high', manager.acquireSlot('llama', 't2', 9));
+
+    manager.releaseSlot(first);
+    manager.releaseSlot(await high);
+    await low;
+    assert.deepEqual(order, ['high', 'low']);
+  });
+
+  it('serves the topic that waited longest among equal requests', async () => {
+    const manager = createManager();
+    const granted: Array<[string, string]> = [];
+    const request = (topicId: string) =>
+      manager.acquireSlot('llama', topicId).then(id => { granted.push([topicId, id]); });
+
+    const first = await manager.acquireSlot('llama', 'busy');
+    const requests = [request('busy'), request('busy'), request('other')];
+
+    manager.releaseSlot(first);
+    for (let i = 0; i < requests.length; i++) {
+      await new Promise(resolve => setImmediate(resolve));
+      manager.releaseSlot(granted[i][1]);
+    }
+    await Promise.all(requests);
+    assert.deepEqual(granted.map(([topicId]) => topicId), ['other', 'busy', 'busy']);
+  });
+
+  it('holds background work back while interactive traffic is recent', async () => {
+    mock.timers.enable({ apis: ['setTimeout', 'Date'], now: 1_000_000 });
+    const manager = createManager();
+    let backgroundStarted = false;
+
+    const interactive = await manager.acquireSlot('llama', 't1', 5, 'interactive');
+    const background = manager.acquireSlot('llama', 't2', 5, 'background').then(id => {
+      backgroundStarted = true;
+      return id;
+    });
+    manager.releaseSlot(interactive);
+
+    mock.timers.tick(1_000);
+    await Promise.resolve();
+    assert.equal(backgroundStarted, false);
+
+    mock.timers.tick(2_500);
+    manager.releaseSlot(await background);
+    assert.equal(backgroundStarted, true);
+  });
+
+  it('withdraws a queued request when its signal aborts', async () => {
+    const manager = createManager();
+    const controller = new AbortController();
+
+    const first = await manager.acquireSlot('llama', 't1');
+    const queued = manager.acquireSlot('llama', 't2', 5, 'interactive', controller.signal);
+    controller.abort();
+
+    await assert.rejects(queued, { name: 'AbortError' });
+    assert.equal(manager.getStats().totalPending, 0);
+    manager.releaseSlot(first);
+    assert.equal(manager.getStats().totalActive, 0);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, mock, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { ModelCircuitBreaker, buildFallbackChain, getBackoffDelay } from '../services/llm-failover.js';
+
+const config = { failureThreshold: 3, unhealthyCooldownMs: 1_000, failedCooldownMs: 60_000 };
+
+describe('ModelCircuitBreaker', () => {
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['Date'], now: 0 });
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+  });
+
+  it('opens after failureThreshold consecutive UNHEALTHY failures', () => {
+    const breaker = new ModelCircuitBreaker(config);
+    breaker.recordFailure('llama', false);
+    breaker.recordFailure('llama', false);
+    assert.equal(breaker.getState('llama'), 'closed');
+    assert.equal(breaker.canRequest('llama'), true);
+
+    breaker.recordFailure('llama', false, new Error('timeout'));
+    assert.equal(breaker.getState('llama'), 'open');
+    assert.equal(breaker.canRequest('llama'), false);
+    assert.deepEqual(breaker.getCircuits(), [
+      { modelId: 'llama', state: 'open', consecutiveFailures: 3, openedAt: 0, retryAt: 1_000, lastError: 'timeout' }
+    ]);
+  });
+
+  it('closes again after a success', () => {
+    const breaker = new ModelCircuitBreaker(config);
+    breaker.recordFailure('llama', false);
+    breaker.recordFailure('llama', false);
+    breaker.recordSuccess('llama');
+    breaker.recordFailure('llama', false);
+    assert.equal(breaker.getState('llama'), 'closed');
+  });
+
+  it('opens on a permanent failure at once with failedCooldownMs', () => {
+    const breaker = new ModelCircuitBreaker(config);
+    breaker.recordFailure('claude', true, new Error('invalid x-api-key'));
+    assert.equal(breaker.getState('claude'), 'open');
+
+    mock.timers.tick(config.unhealthyCooldownMs);
+    assert.equal(breaker.canRequest('claude'), false);
+    mock.timers.tick(config.failedCooldownMs - config.unhealthyCooldownMs);
+    assert.equal(breaker.canRequest('claude'), true);
+  });
+
+  it('admits exactly one trial when half open, and release frees it', () => {
+    const breaker = new ModelCircuitBreaker(config);
+    breaker.recordFailure('claude', true);
+    mock.timers.tick(config.failedCooldownMs);
+    assert.equal(breaker.getState('claude'), 'half_open');
+
+    assert.equal(breaker.canRequest('claude'), true);
+    assert.equal(breaker.canRequest('claude'), false);
+
+    // Cancelled trial - no verdict, the next request may try
+    breaker.release('claude');
+    assert.equal(breaker.canRequest('claude'), true);
+
+    // A failed trial opens the circuit again, whatever the threshold
+    breaker.recordFailure('claude', false);
+    assert.equal(breaker.getState('claude'), 'open');
+    assert.equal(breaker.canRequest('claude'), false);
+  });
+});
+
+describe('getBackoffDelay', () => {
+  it('doubles the delay per attempt within [ceiling/2, ceiling] and caps it', () => {
+    const retry = { maxRetries: 5, baseDelayMs: 100, maxDelayMs: 500 };
+    const random = mock.method(Math, 'random', () => 0);
+    assert.deepEqual([1, 2, 3, 4, 5].map(attempt => getBackoffDelay(attempt, retry)), [50, 100, 200, 250, 250]);
+
+    random.mock.mockImplementation(() => 1);
+    assert.deepEqual([1, 2, 3, 4, 5].map(attempt => getBackoffDelay(attempt, retry)), [100, 200, 400, 500, 500]);
+    random.mock.restore();
+  });
+});
+
+describe('buildFallbackChain', () => {
+  it('puts the requested model first and drops duplicates and empty IDs', () => {
+    assert.deepEqual(buildFallbackChain('gpt-4o', ['claude', 'gpt-4o', '', 'llama', 'claude']), ['gpt-4o', 'claude', 'llama']);
+    assert.deepEqual(buildFallbackChain('gpt-4o', undefined), ['gpt-4o']);
+  });
+});
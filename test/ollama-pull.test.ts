@@ -0,0 +1,59 @@
+import { describe, it, mock, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { pullOllamaModel, type OllamaPullProgress } from '../services/ollama.js';
+
+/** Streams the given chunks as the body of every /api/pull response */
+function mockPull(chunks: string[]): void {
+  mock.method(globalThis, 'fetch', async () => {
+    const encoder = new TextEncoder();
+    const body = new ReadableStream({
+      start(controller) {
+        for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+        controller.close();
+      }
+    });
+    return new Response(body, { status: 200 });
+  });
+}
+
+async function pull(): Promise<string[]> {
+  const statuses: string[] = [];
+  await pullOllamaModel('http://localhost:11434', 'llama3', {
+    onProgress: (progress: OllamaPullProgress) => statuses.push(progress.status)
+  });
+  return statuses;
+}
+
+describe('pullOllamaModel', () => {
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('reports progress lines split across chunks, including a last line without newline', async () => {
+    mockPull([
+      '{"status":"pulling manifest"}\n{"status":"down',
+      'loading","total":10,"completed":5}\n',
+      '{"status":"success"}'
+    ]);
+
+    assert.deepEqual(await pull(), ['pulling manifest', 'downloading', 'success']);
+  });
+
+  it('fails with the error reported by the server', async () => {
+    mockPull(['{"status":"pulling manifest"}\n', '{"error":"pull model manifest: file does not exist"}']);
+
+    await assert.rejects(pull(), /Ollama pull of llama3 failed: pull model manifest: file does not exist/);
+  });
+
+  it('names the model when a progress line is malformed', async () => {
+    mockPull(['{"status":"pulling manifest"}\n<html>Bad Gateway</html>\n']);
+
+    await assert.rejects(pull(), /Ollama pull of llama3 returned malformed progress: <html>Bad Gateway/);
+  });
+
+  it('fails when the stream ends without success', async () => {
+    mockPull(['{"status":"pulling manifest"}\n']);
+
+    await assert.rejects(pull(), /ended without success \(last status: pulling manifest\)/);
+  });
+});
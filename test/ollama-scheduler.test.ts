@@ -0,0 +1,28 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { isServerUnreachableError } from '../services/ollama-scheduler.js';
+
+function fetchFailure(code: string): TypeError {
+  return new TypeError('fetch failed', { cause: Object.assign(new Error(code), { code }) });
+}
+
+describe('isServerUnreachableError', () => {
+  it('detects refused, unresolvable and timed-out connections by code', () => {
+    assert.equal(isServerUnreachableError(fetchFailure('ECONNREFUSED')), true);
+    assert.equal(isServerUnreachableError(fetchFailure('ENOTFOUND')), true);
+    assert.equal(isServerUnreachableError(fetchFailure('UND_ERR_CONNECT_TIMEOUT')), true);
+    assert.equal(isServerUnreachableError(Object.assign(new Error('connect EHOSTUNREACH'), { code: 'EHOSTUNREACH' })), true);
+  });
+
+  it('detects a browser fetch that made no connection', () => {
+    assert.equal(isServerUnreachableError(new TypeError('Failed to fetch')), true);
+  });
+
+  it('keeps the server available for generation timeouts and request errors', () => {
+    assert.equal(isServerUnreachableError(new DOMException('The operation timed out', 'TimeoutError')), false);
+    assert.equal(isServerUnreachableError(new Error('Generation timed out after 120000ms')), false);
+    assert.equal(isServerUnreachableError(new Error('Ollama API error: network model not found')), false);
+    assert.equal(isServerUnreachableError(fetchFailure('ECONNRESET')), false);
+    assert.equal(isServerUnreachableError(new TypeError("Cannot read properties of undefined (reading 'content')")), false);
+  });
+});
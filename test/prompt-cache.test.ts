@@ -0,0 +1,118 @@
+import { describe, it, mock, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { AnthropicAdapter } from '../services/llm-adapters/anthropic-adapter.js';
+import { PromptCacheTracker } from '../services/prompt-cache-tracker.js';
+import { formatForStandardAPI, getPromptCacheHint, type PromptParts } from '../services/context-budget-manager.js';
+
+function promptParts(part2: string): PromptParts {
+  return {
+    part1: { content: 'You are a helpful assistant.', tokens: 6, cacheable: true, cacheKey: 'system-1' },
+    part2: { content: part2, tokens: 4, cacheable: true, cacheKey: 'subjects-1' },
+    part3: { messages: [], tokens: 0, cacheable: false },
+    part4: { message: 'Hello', tokens: 1, cacheable: false },
+    totalTokens: 11,
+    budget: {} as PromptParts['budget']
+  };
+}
+
+/** Answers every Anthropic request and keeps the request bodies */
+function mockAnthropic(usage: Record<string, number>): any[] {
+  const bodies: any[] = [];
+  mock.method(globalThis, 'fetch', async (_url: string, init: RequestInit) => {
+    bodies.push(JSON.parse(init.body as string));
+    return new Response(JSON.stringify({ content: [{ type: 'text', text: 'Hi' }], stop_reason: 'end_turn', usage }), {
+      status: 200,
+      headers: { 'content-type': 'application/json' }
+    });
+  });
+  return bodies;
+}
+
+const claude = { provider: 'anthropic', modelId: 'claude-sonnet-4', name: 'claude-sonnet-4' } as any;
+
+describe('Anthropic prompt caching', () => {
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('sends part1 and part2 as cached system blocks', async () => {
+    const bodies = mockAnthropic({ input_tokens: 5, output_tokens: 2 });
+    const parts = promptParts('Past subjects: gardening');
+
+    await new AnthropicAdapter().chat(claude, formatForStandardAPI(parts).messages as any, {
+      apiKey: 'sk-ant-test',
+      promptCache: getPromptCacheHint(parts)
+    });
+
+    assert.deepEqual(bodies[0].system, [
+      { type: 'text', text: 'You are a helpful assistant.', cache_control: { type: 'ephemeral' } },
+      { type: 'text', text: 'Past subjects: gardening', cache_control: { type: 'ephemeral' } }
+    ]);
+    assert.deepEqual(bodies[0].messages, [{ role: 'user', content: 'Hello' }]);
+
+    // Callers that pass the PromptParts themselves get the same blocks
+    await new AnthropicAdapter().chat(claude, [], { apiKey: 'sk-ant-test', promptParts: parts } as any);
+    assert.deepEqual(bodies[1].system, bodies[0].system);
+  });
+
+  it('sends the system prompt uncached when it does not start with the segments', async () => {
+    const bodies = mockAnthropic({ input_tokens: 5, output_tokens: 2 });
+
+    await new AnthropicAdapter().chat(claude, [{ role: 'system', content: 'Other prompt' }, { role: 'user', content: 'Hello' }], {
+      apiKey: 'sk-ant-test',
+      promptCache: getPromptCacheHint(promptParts(''))
+    });
+
+    assert.equal(bodies[0].system, 'Other prompt');
+  });
+
+  it('reports cache creation and read tokens as part of the prompt', async () => {
+    mockAnthropic({ input_tokens: 10, output_tokens: 2, cache_creation_input_tokens: 0, cache_read_input_tokens: 90 });
+    const parts = promptParts('');
+
+    const result = await new AnthropicAdapter().chat(claude, formatForStandardAPI(parts).messages as any, {
+      apiKey: 'sk-ant-test',
+      promptCache: getPromptCacheHint(parts)
+    });
+
+    assert.deepEqual(result.usage, { promptTokens: 100, completionTokens: 2, totalTokens: 102, cacheCreationTokens: 0, cacheReadTokens: 90 });
+  });
+});
+
+describe('PromptCacheTracker', () => {
+  it('computes per-topic hit rates and savings from the recorded usage', () => {
+    const tracker = new PromptCacheTracker();
+    const keys = ['system-1', 'subjects-1'];
+    tracker.record('t1', 'claude', { promptTokens: 1000, completionTokens: 10, totalTokens: 1010, cacheCreationTokens: 800, cacheReadTokens: 0 }, keys);
+    tracker.record('t1', 'claude', { promptTokens: 1000, completionTokens: 10, totalTokens: 1010, cacheCreationTokens: 0, cacheReadTokens: 800 }, keys);
+    tracker.record('t2', 'claude', { promptTokens: 500, completionTokens: 10, totalTokens: 510, cacheCreationTokens: 400, cacheReadTokens: 0 }, keys);
+
+    const stats = tracker.getStats('t1')!;
+    assert.equal(stats.requests, 2);
+    assert.equal(stats.hits, 1);
+    assert.equal(stats.writes, 1);
+    assert.equal(stats.hitRate, 0.5);
+    assert.equal(stats.uncachedTokens, 400);
+    assert.equal(stats.tokenHitRate, 0.4);
+    // 2000 tokens would have cost 2000 - they cost 400 + 800 * 1.25 + 800 * 0.1 = 1480
+    assert.equal(stats.savedTokens, 520);
+    assert.equal(stats.invalidations, 0);
+
+    assert.equal(tracker.getStats('t2')!.hitRate, 0);
+    assert.equal(tracker.getAllStats().length, 2);
+  });
+
+  it('counts cache key changes as invalidations and ignores usage without cache counts', () => {
+    const tracker = new PromptCacheTracker();
+    const usage = { promptTokens: 100, completionTokens: 1, totalTokens: 101, cacheCreationTokens: 80, cacheReadTokens: 0 };
+    tracker.record('t1', 'claude', usage, ['system-1', 'subjects-1']);
+    tracker.record('t1', 'claude', usage, ['system-1', 'subjects-2']);
+    tracker.record('t1', 'gpt-4o', { promptTokens: 100, completionTokens: 1, totalTokens: 101 });
+
+    const stats = tracker.getStats('t1')!;
+    assert.equal(stats.requests, 2);
+    assert.equal(stats.invalidations, 1);
+    assert.deepEqual(stats.cacheKeys, ['system-1', 'subjects-2']);
+    assert.equal(stats.lastModelId, 'claude');
+  });
+});
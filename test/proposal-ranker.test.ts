@@ -0,0 +1,39 @@
+import { describe, it, mock, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { ProposalRanker, type ProposalConfig, type UnrankedProposal } from '../services/proposal-ranker.js';
+
+const config: ProposalConfig = { matchWeight: 0.7, recencyWeight: 0.3, recencyWindow: 30 * 86_400_000, minJaccard: 0.1, maxProposals: 10 };
+
+function proposal(name: string, matchScore: number, recencyScore: number): UnrankedProposal {
+  return {
+    pastSubject: name,
+    jaccardScore: 0,
+    matchScore,
+    recencyScore,
+    matchedKeywords: [],
+    pastSubjectName: name,
+    sourceTopicId: 't1',
+    createdAt: 0
+  };
+}
+
+describe('ProposalRanker', () => {
+  beforeEach(() => {
+    mock.method(console, 'log', () => {});
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('keeps weak matches unless minRelevance is set', () => {
+    const ranker = new ProposalRanker();
+    const proposals = [proposal('weak', 0.05, 0.1), proposal('strong', 0.9, 0.5)];
+
+    assert.deepEqual(ranker.rankProposals(proposals, config).map(p => p.pastSubjectName), ['strong', 'weak']);
+    assert.deepEqual(
+      ranker.rankProposals(proposals, { ...config, minRelevance: 0.15 }).map(p => p.pastSubjectName),
+      ['strong']
+    );
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, mock, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { ProviderRateLimiter, parseRateLimitHeaders } from '../services/provider-rate-limiter.js';
+
+function headers(values: Record<string, string>): { get(name: string): string | null } {
+  return { get: name => values[name] ?? null };
+}
+
+/** Tracks whether a queued acquire was granted yet */
+function track<T>(request: Promise<T>): { granted: () => boolean; request: Promise<T> } {
+  let granted = false;
+  request.then(() => { granted = true; }, () => {});
+  return { granted: () => granted, request };
+}
+
+async function flush(): Promise<void> {
+  await new Promise<void>(resolve => setImmediate(resolve));
+}
+
+describe('ProviderRateLimiter', () => {
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['Date', 'setTimeout'], now: 0 });
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+    mock.restoreAll();
+  });
+
+  it('lets requests through while no limits are known', async () => {
+    const limiter = new ProviderRateLimiter();
+    await Promise.all([1, 2, 3].map(() => limiter.acquire('anthropic', 'key', { estimatedTokens: 1000 })));
+
+    const [state] = limiter.getStates();
+    assert.equal(state.requestsPerMinute, undefined);
+    assert.equal(state.throttled, 0);
+  });
+
+  it('queues requests beyond the configured limit until the bucket refills', async () => {
+    const limiter = new ProviderRateLimiter();
+    limiter.configure('openai', { requestsPerMinute: 10 });
+    for (let i = 0; i < 10; i++) {
+      await limiter.acquire('openai', 'key');
+    }
+
+    const queued = track(limiter.acquire('openai', 'key'));
+    await flush();
+    assert.equal(queued.granted(), false);
+    assert.equal(limiter.getStates()[0].queued.interactive, 1);
+
+    mock.timers.tick(6_000);
+    await queued.request;
+    assert.equal(limiter.getStates()[0].throttled, 1);
+  });
+
+  it('keeps a reserve of the bucket for interactive requests', async () => {
+    const limiter = new ProviderRateLimiter();
+    limiter.configure('anthropic', { requestsPerMinute: 4 });
+    for (let i = 0; i < 3; i++) {
+      await limiter.acquire('anthropic', 'key', { requestClass: 'background' });
+    }
+
+    const background = track(limiter.acquire('anthropic', 'key', { requestClass: 'background' }));
+    await flush();
+    assert.equal(background.granted(), false);
+
+    // The last request of the bucket is left to interactive chat
+    await limiter.acquire('anthropic', 'key', { requestClass: 'interactive' });
+    assert.equal(background.granted(), false);
+  });
+
+  it('separates buckets by API key', async () => {
+    const limiter = new ProviderRateLimiter();
+    limiter.configure('openai', { requestsPerMinute: 1 });
+    await limiter.acquire('openai', 'key-a');
+    await limiter.acquire('openai', 'key-b');
+
+    const keyIds = limiter.getStates().map(state => state.keyId);
+    assert.equal(new Set(keyIds).size, 2);
+    // Only a fingerprint of the key is kept
+    assert.ok(keyIds.every(keyId => /^key-[0-9a-f]{8}$/.test(keyId)));
+  });
+
+  it('learns limits from response headers', async () => {
+    const limiter = new ProviderRateLimiter();
+    const ticket = await limiter.acquire('openai', 'key');
+    limiter.observe(ticket, 200, headers({ 'x-ratelimit-limit-requests': '60', 'x-ratelimit-remaining-requests': '0' }));
+
+    const queued = track(limiter.acquire('openai', 'key'));
+    await flush();
+    assert.equal(queued.granted(), false);
+    assert.equal(limiter.getStates()[0].requestsPerMinute, 60);
+
+    mock.timers.tick(1_000);
+    await queued.request;
+  });
+
+  it('blocks the bucket for Retry-After after a 429', async () => {
+    const limiter = new ProviderRateLimiter();
+    const ticket = await limiter.acquire('anthropic', 'key');
+    limiter.observe(ticket, 429, headers({}));
+    assert.equal(limiter.penalize(ticket, 2_000), 2_000);
+
+    const queued = track(limiter.acquire('anthropic', 'key'));
+    await flush();
+    assert.equal(queued.granted(), false);
+    assert.equal(limiter.getStates()[0].blockedUntil, 2_000);
+
+    mock.timers.tick(2_000);
+    await queued.request;
+    assert.equal(limiter.getStates()[0].rateLimited, 1);
+  });
+
+  it('backs off exponentially without Retry-After', async () => {
+    const limiter = new ProviderRateLimiter();
+    const ticket = await limiter.acquire('anthropic', 'key');
+    assert.equal(limiter.penalize(ticket), 1_000);
+    assert.equal(limiter.penalize(ticket), 2_000);
+    assert.equal(limiter.penalize(ticket), 4_000);
+  });
+
+  it('withdraws an aborted request from the queue', async () => {
+    const limiter = new ProviderRateLimiter();
+    limiter.configure('openai', { requestsPerMinute: 1 });
+    await limiter.acquire('openai', 'key');
+
+    const controller = new AbortController();
+    const queued = limiter.acquire('openai', 'key', { signal: controller.signal });
+    controller.abort();
+
+    await assert.rejects(queued, { name: 'AbortError' });
+    assert.equal(limiter.getStates()[0].queued.interactive, 0);
+  });
+
+  it('parses Anthropic, OpenAI and Retry-After headers', () => {
+    assert.deepEqual(parseRateLimitHeaders(headers({
+      'anthropic-ratelimit-requests-limit': '50',
+      'anthropic-ratelimit-requests-remaining': '49',
+      'anthropic-ratelimit-tokens-limit': '40000',
+      'anthropic-ratelimit-tokens-remaining': '39000',
+      'retry-after': '3'
+    })), {
+      requestsLimit: 50,
+      requestsRemaining: 49,
+      tokensLimit: 40000,
+      tokensRemaining: 39000,
+      retryAfterMs: 3000
+    });
+    assert.equal(parseRateLimitHeaders(headers({ 'x-ratelimit-limit-tokens': '90000' })).tokensLimit, 90000);
+    assert.equal(parseRateLimitHeaders(headers({ 'retry-after-ms': '250' })).retryAfterMs, 250);
+  });
+});
@@ -0,0 +1,80 @@
+import './helpers/one-core-platform.js';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+import type { LLM } from '../@OneObjectInterfaces.js';
+import { ReplayAdapter } from '../services/llm-adapters/replay-adapter.js';
+import { FileFixtureStore, MemoryFixtureStore } from '../services/llm-adapters/replay-fixtures.js';
+import type { LLMAdapter } from '../services/llm-adapters/types.js';
+
+const FIXTURES = fileURLToPath(new URL('./fixtures/replay', import.meta.url));
+
+const llm = { $type$: 'LLM', name: 'llama3.2:3b', modelId: 'llama3.2:3b', provider: 'ollama' } as LLM;
+
+const question = [
+  { role: 'system' as const, content: 'You are a helpful assistant.' },
+  { role: 'user' as const, content: 'What is the capital of France?' }
+];
+
+function fakeBackend(answer: string): LLMAdapter & { calls: number } {
+  return {
+    id: 'fake',
+    name: 'Fake backend',
+    capabilities: { chat: true, streaming: true },
+    calls: 0,
+    canHandle: () => true,
+    async chat(_llm, _messages, options) {
+      this.calls++;
+      options?.onStream?.(answer);
+      return { content: answer };
+    }
+  } as LLMAdapter & { calls: number };
+}
+
+describe('ReplayAdapter', () => {
+  it('replays a committed fixture with its streamed chunks', async () => {
+    const adapter = new ReplayAdapter({ mode: 'replay', store: new FileFixtureStore(FIXTURES, fs) });
+    const chunks: string[] = [];
+
+    const result = await adapter.chat(llm, question, { onStream: chunk => chunks.push(chunk) });
+
+    assert.equal(result.content, 'Paris is the capital of France.');
+    assert.deepEqual(chunks, ['Paris ', 'is the ', 'capital of France.']);
+    assert.deepEqual(result.usage, { promptTokens: 21, completionTokens: 8 });
+  });
+
+  it('matches fixtures on the normalized prompt', async () => {
+    const adapter = new ReplayAdapter({ mode: 'replay', store: new FileFixtureStore(FIXTURES, fs) });
+
+    const result = await adapter.chat(llm, [
+      question[0],
+      { role: 'user', content: '  What is the   capital of France?\n' }
+    ]);
+
+    assert.equal(result.content, 'Paris is the capital of France.');
+  });
+
+  it('throws ReplayMissError for a request without fixture', async () => {
+    const adapter = new ReplayAdapter({ mode: 'replay', store: new FileFixtureStore(FIXTURES, fs) });
+
+    await assert.rejects(
+      adapter.chat(llm, [{ role: 'user', content: 'What is the capital of Spain?' }]),
+      { name: 'ReplayMissError' }
+    );
+  });
+
+  it('records through the backend and replays without it', async () => {
+    const store = new MemoryFixtureStore();
+    const backend = fakeBackend('Madrid.');
+    const adapter = new ReplayAdapter({ mode: 'record', store, resolveBackend: () => backend });
+    const messages = [{ role: 'user' as const, content: 'What is the capital of Spain?' }];
+
+    assert.equal((await adapter.chat(llm, messages)).content, 'Madrid.');
+    adapter.setMode('replay');
+    assert.equal((await adapter.chat(llm, messages)).content, 'Madrid.');
+
+    assert.equal(backend.calls, 1);
+    assert.equal(store.getAll().length, 1);
+  });
+});
@@ -0,0 +1,96 @@
+import './helpers/one-core-platform.js';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ResponseCache, type ResponseCacheStorage } from '../services/response-cache.js';
+import { createMemoryStorage } from './helpers/memory-storage.js';
+
+// Every prompt embeds to the same vector - any prompt of the same model is a near duplicate
+const embed = async (texts: string[]) => texts.map(() => [1, 0, 0]);
+
+function createCache(storage?: ResponseCacheStorage): ResponseCache {
+  const cache = new ResponseCache(storage, embed, { flushDelayMs: 60_000 });
+  cache.configure({ embeddingModel: 'embed' });
+  return cache;
+}
+
+async function cacheResponse(cache: ResponseCache, topicId: string, question: string, response: string): Promise<void> {
+  const request = await cache.prepare({ modelId: 'llama', messages: [{ role: 'user', content: question }], topicId });
+  assert.equal(await cache.lookup(request, { semantic: true }), null);
+  await cache.store(request, response);
+}
+
+async function ask(cache: ResponseCache, topicId: string, question: string) {
+  const request = await cache.prepare({ modelId: 'llama', messages: [{ role: 'user', content: question }], topicId });
+  return await cache.lookup(request, { semantic: true });
+}
+
+describe('ResponseCache', () => {
+  it('answers the same prompt exactly, ignoring whitespace', async () => {
+    const cache = new ResponseCache();
+    await cacheResponse(cache, 't1', 'Summarize  the topic', 'Summary');
+
+    assert.deepEqual(await ask(cache, 't1', 'Summarize the topic\n'), { response: 'Summary', match: 'exact' });
+    assert.equal(await ask(cache, 't1', 'Name the subjects'), null);
+    assert.deepEqual(cache.getStats(), { hits: 1, semanticHits: 0, misses: 2, entries: 1, scopes: 1 });
+  });
+
+  it('answers near-duplicate prompts from the semantic tier', async () => {
+    const cache = createCache();
+    await cacheResponse(cache, 't1', 'Summarize the topic', 'Summary');
+
+    const hit = await ask(cache, 't1', 'Please summarize this topic');
+    assert.equal(hit?.match, 'semantic');
+    assert.equal(hit?.response, 'Summary');
+  });
+
+  it('stores new entries but not cache hits', async () => {
+    const storage = createMemoryStorage('scope');
+    const cache = createCache(storage);
+    await cacheResponse(cache, 't1', 'Summarize the topic', 'Summary');
+    await cache.flush();
+    assert.equal(storage.writes.length, 1);
+
+    await ask(cache, 't1', 'Summarize the topic');
+    await ask(cache, 't1', 'Please summarize this topic');
+    await cache.flush();
+    assert.equal(storage.writes.length, 1);
+  });
+
+  it('takes a changed topic out of the semantic tier and keeps exact matches', async () => {
+    const cache = createCache();
+    await cacheResponse(cache, 't1', 'Summarize the topic', 'Summary');
+
+    assert.equal(await cache.invalidate('t1'), 1);
+    assert.equal(await ask(cache, 't1', 'Please summarize this topic'), null);
+    assert.equal((await ask(cache, 't1', 'Summarize the topic'))?.match, 'exact');
+  });
+
+  it('does not load an unloaded topic to invalidate it', async () => {
+    const storage = createMemoryStorage('scope');
+    const writer = createCache(storage);
+    await cacheResponse(writer, 't1', 'Summarize the topic', 'Summary');
+    await writer.flush();
+
+    const cache = createCache(storage);
+    const reads = storage.reads;
+    assert.equal(await cache.invalidate('t1'), 0);
+    assert.equal(await cache.invalidate('never-cached'), 0);
+    assert.equal(storage.reads, reads);
+
+    // Invalidated when it loads
+    assert.equal(await ask(cache, 't1', 'Please summarize this topic'), null);
+    assert.equal((await ask(cache, 't1', 'Summarize the topic'))?.match, 'exact');
+    await cache.flush();
+    assert.equal(storage.objects.get('LLMResponseCache:t1').entries[0].embedding, undefined);
+  });
+
+  it('drops all entries of a topic with clearTopic', async () => {
+    const cache = createCache();
+    await cacheResponse(cache, 't1', 'Summarize the topic', 'Summary');
+    await cacheResponse(cache, 't2', 'Summarize the topic', 'Other summary');
+
+    assert.equal(await cache.clearTopic('t1'), 1);
+    assert.equal(await ask(cache, 't1', 'Summarize the topic'), null);
+    assert.equal((await ask(cache, 't2', 'Summarize the topic'))?.response, 'Other summary');
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  StructuredOutputTracker,
+  extractJson,
+  generateStructured,
+  validateAgainstSchema,
+  type JsonSchema,
+  type StructuredChatFn,
+  type StructuredMessage
+} from '../services/structured-output.js';
+
+const schema: JsonSchema = {
+  type: 'object',
+  required: ['keywords'],
+  additionalProperties: false,
+  properties: {
+    keywords: { type: 'array', minItems: 1, items: { type: 'string', pattern: '^[a-z]+$' } }
+  }
+};
+
+const messages: StructuredMessage[] = [{ role: 'user', content: 'Extract keywords' }];
+
+function scriptedChat(replies: string[]): StructuredChatFn & { calls: Array<{ messages: StructuredMessage[]; options: any }> } {
+  const calls: Array<{ messages: StructuredMessage[]; options: any }> = [];
+  const chat = async (conversation: StructuredMessage[], options: any) => {
+    calls.push({ messages: conversation, options });
+    return replies[calls.length - 1] ?? replies[replies.length - 1];
+  };
+  return Object.assign(chat, { calls });
+}
+
+describe('structured output', () => {
+  it('extracts JSON from code fences, prose, trailing commas and smart quotes', () => {
+    assert.deepEqual(extractJson('{"a": 1}'), { value: { a: 1 }, cleaned: false });
+    assert.deepEqual(extractJson('Sure:\n```json\n{"a": [1, 2,]}\n```'), { value: { a: [1, 2] }, cleaned: true });
+    assert.deepEqual(extractJson('Here it is: {“a”: "x}"} - done'), { value: { a: 'x}' }, cleaned: true });
+    assert.equal(extractJson('no json here'), null);
+  });
+
+  it('reports every schema violation with its path', () => {
+    const violations = validateAgainstSchema({ keywords: ['ok', 'Bad'], extra: true }, schema);
+    assert.deepEqual(violations.map(v => v.path), ['$.keywords[1]', '$.extra']);
+  });
+
+  it('returns a valid first reply without repair', async () => {
+    const chat = scriptedChat(['{"keywords": ["llm"]}']);
+    const tracker = new StructuredOutputTracker();
+
+    const result = await generateStructured(chat, 'model', messages, schema, tracker);
+
+    assert.deepEqual(result.value, { keywords: ['llm'] });
+    assert.equal(result.outcome, 'valid');
+    assert.equal(result.calls, 1);
+    assert.deepEqual(chat.calls[0].options, { format: schema });
+  });
+
+  it('re-prompts with the violations and records the repair', async () => {
+    const chat = scriptedChat(['{"keywords": []}', '{"keywords": ["cache"]}']);
+    const tracker = new StructuredOutputTracker();
+
+    const result = await generateStructured(chat, 'model', messages, schema, tracker);
+
+    assert.equal(result.outcome, 'repaired');
+    assert.equal(result.calls, 2);
+    const repair = chat.calls[1];
+    assert.equal(repair.options.temperature, 0);
+    assert.deepEqual(repair.messages.slice(0, 2), [...messages, { role: 'assistant', content: '{"keywords": []}' }]);
+    assert.match(repair.messages[2].content, /\$\.keywords: must have at least 1 items/);
+    assert.equal(tracker.getStats('model')?.repaired, 1);
+  });
+
+  it('throws after maxRepairAttempts and records the failure', async () => {
+    const chat = scriptedChat(['not json']);
+    const tracker = new StructuredOutputTracker();
+
+    await assert.rejects(
+      generateStructured(chat, 'model', messages, schema, tracker, { maxRepairAttempts: 2, useNativeFormat: false }),
+      /after 3 attempts: \$ reply contains no parseable JSON/
+    );
+    assert.equal(chat.calls.length, 3);
+    assert.equal(chat.calls[0].options.format, undefined);
+    const stats = tracker.getStats('model')!;
+    assert.equal(stats.failed, 1);
+    assert.deepEqual(stats.lastViolations, [{ path: '$', message: 'reply contains no parseable JSON' }]);
+  });
+
+  it('measures structuredOutputTested once MIN_SAMPLES requests were recorded', () => {
+    const tracker = new StructuredOutputTracker();
+    tracker.record('model', 'failed');
+    tracker.record('model', 'failed');
+    assert.equal(tracker.isTested('model'), undefined);
+    tracker.record('model', 'valid');
+    assert.equal(tracker.isTested('model'), false);
+    tracker.record('model', 'repaired');
+    assert.equal(tracker.isTested('model'), true);
+  });
+});
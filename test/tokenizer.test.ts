@@ -0,0 +1,134 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  BPETokenizer,
+  EstimatingTokenizer,
+  calibrateTokenizer,
+  countTokens,
+  getTokenizer,
+  getTokenizerCalibration,
+  loadTokenizer,
+  parseTiktokenRanks,
+  registerRankTable,
+  resolveTokenizerFamily
+} from '../services/tokenizer.js';
+
+/**
+ * Small tiktoken-format table: every byte, then the merges listed in rank order
+ */
+function rankTable(merges: string[]): string {
+  const lines: string[] = [];
+  for (let byte = 0; byte < 256; byte++) {
+    lines.push(`${btoa(String.fromCharCode(byte))} ${byte}`);
+  }
+  merges.forEach((merge, i) => lines.push(`${btoa(merge)} ${256 + i}`));
+  return lines.join('\n');
+}
+
+const MERGES = ['th', 'the', ' c', ' ca', 'at', ' the', '12', '123'];
+
+describe('tokenizer', () => {
+  it('resolves model families from model IDs', () => {
+    assert.equal(resolveTokenizerFamily('claude-sonnet-4'), 'claude');
+    assert.equal(resolveTokenizerFamily('gpt-4o-mini'), 'gpt');
+    assert.equal(resolveTokenizerFamily('o3-mini'), 'gpt');
+    assert.equal(resolveTokenizerFamily('qwen2.5:7b'), 'qwen');
+    assert.equal(resolveTokenizerFamily('llama3.2:3b'), 'llama');
+    assert.equal(resolveTokenizerFamily('mistral'), 'generic');
+    assert.equal(resolveTokenizerFamily(undefined), 'generic');
+  });
+
+  it('counts nothing for empty text', () => {
+    assert.equal(countTokens('', 'gpt-4o'), 0);
+  });
+
+  it('counts common English words as about one token each', () => {
+    const count = new EstimatingTokenizer('gpt').count('The quick brown fox jumps over the lazy dog.');
+    assert.ok(count >= 9 && count <= 12, `got ${count}`);
+  });
+
+  it('prices accented words, CJK and code higher than plain prose of the same length', () => {
+    const tokenizer = new EstimatingTokenizer('generic');
+    const prose = 'the house is on the hill and the road is long';
+    const german = 'Straßenüberführung Größenänderungsmöglichkeit';
+    const cjk = '東京は日本の首都です東京は日本の首都です';
+    const code = 'if(a&&b){x[i]+=y[j]*2;}else{return!z;}';
+
+    const perChar = (text: string) => tokenizer.count(text) / text.length;
+    assert.ok(perChar(german) > perChar(prose));
+    assert.ok(perChar(cjk) > perChar(prose));
+    assert.ok(perChar(code) > perChar(prose));
+  });
+
+  it('counts digits per family digit group', () => {
+    assert.ok(new EstimatingTokenizer('qwen').count('1234567890') > new EstimatingTokenizer('gpt').count('1234567890'));
+  });
+
+  it('calibrates against reported usage and ignores outliers', () => {
+    const modelId = 'llama-calibration-test';
+    const prompt = 'word '.repeat(400);
+    const estimated = countTokens(prompt, modelId);
+
+    calibrateTokenizer(modelId, prompt, estimated * 10);
+    assert.equal(getTokenizerCalibration(modelId), undefined);
+
+    calibrateTokenizer(modelId, prompt, Math.round(estimated * 1.5));
+    const calibration = getTokenizerCalibration(modelId);
+    assert.ok(calibration);
+    assert.equal(calibration.samples, 1);
+    assert.ok(Math.abs(calibration.factor - 1.5) < 0.01);
+    assert.ok(countTokens(prompt, modelId) > estimated);
+    assert.match(getTokenizer(modelId).name, /^estimate:llama\*1\.5/);
+  });
+
+  it('never starts below the uncalibrated count and lowers slowly', () => {
+    const modelId = 'gpt-calibration-test';
+    const prompt = 'token '.repeat(400);
+    const estimated = countTokens(prompt, modelId);
+
+    calibrateTokenizer(modelId, prompt, Math.round(estimated * 0.8));
+    assert.equal(getTokenizerCalibration(modelId)?.factor, 1);
+
+    calibrateTokenizer(modelId, prompt, Math.round(estimated * 0.6));
+    const factor = getTokenizerCalibration(modelId)!.factor;
+    assert.ok(factor < 1 && factor > 0.95, `got ${factor}`);
+  });
+
+  it('counts exactly with a BPE rank table', () => {
+    const tokenizer = new BPETokenizer('test', parseTiktokenRanks(rankTable(MERGES)));
+
+    assert.equal(tokenizer.name, 'bpe:test');
+    assert.equal(tokenizer.count('the'), 1);
+    // ' c' merges before 'at', then ' ca' - ' cat' has no rank
+    assert.equal(tokenizer.count(' cat'), 2);
+    assert.equal(tokenizer.count('the cat'), 3);
+    assert.equal(tokenizer.count('the the the'), 3);
+    assert.equal(tokenizer.count('dog'), 3);
+    // Multi-byte characters start as one part per UTF-8 byte
+    assert.equal(tokenizer.count('ü'), 2);
+  });
+
+  it('loads a registered rank table on first use and estimates until then', async () => {
+    let loads = 0;
+    registerRankTable('qwen', async () => {
+      loads++;
+      return rankTable(MERGES);
+    });
+
+    assert.equal(getTokenizer('qwen2.5:7b').name, 'estimate:qwen');
+    const tokenizer = await loadTokenizer('qwen');
+    assert.equal(tokenizer.name, 'bpe:qwen2');
+    assert.equal(getTokenizer('qwen2.5:7b').name, 'bpe:qwen2');
+    assert.equal(loads, 1);
+
+    // Qwen 2 splits digits, so the '12' and '123' merges never apply
+    assert.equal(countTokens('123', 'qwen2.5:7b'), 3);
+    assert.equal(countTokens('the cat', 'qwen2.5:7b'), 3);
+  });
+
+  it('keeps the estimator when no rank table is available', async () => {
+    registerRankTable('llama', async () => null);
+    assert.equal((await loadTokenizer('llama')).name, 'estimate:llama');
+    assert.equal((await loadTokenizer('claude')).name, 'estimate:claude');
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { decodeToolName, encodeToolName, toOpenAITools } from '../services/llm-adapters/tool-format.js';
+
+const VALID_NAME = /^[a-zA-Z0-9_-]{1,64}$/;
+
+describe('tool name encoding', () => {
+  it('encodes colons as double underscores and decodes them back', () => {
+    const encoded = encodeToolName('mcp:filesystem:read_file');
+    assert.equal(encoded, 'mcp__filesystem__read_file');
+    assert.equal(decodeToolName(encoded), 'mcp:filesystem:read_file');
+  });
+
+  it('decodes names that were never encoded by rule', () => {
+    assert.equal(decodeToolName('plan__memory__search'), 'plan:memory:search');
+  });
+
+  it('keeps names containing the separator apart', () => {
+    const a = encodeToolName('mcp:my__server:read');
+    const b = encodeToolName('mcp:my:server:read');
+
+    assert.notEqual(a, b);
+    assert.match(a, VALID_NAME);
+    assert.equal(decodeToolName(a), 'mcp:my__server:read');
+    assert.equal(decodeToolName(b), 'mcp:my:server:read');
+  });
+
+  it('replaces characters the providers reject', () => {
+    const encoded = encodeToolName('mcp:files.v2:read/dir');
+    assert.match(encoded, VALID_NAME);
+    assert.equal(decodeToolName(encoded), 'mcp:files.v2:read/dir');
+  });
+
+  it('hash-truncates names longer than 64 characters', () => {
+    const long = `mcp:${'very_long_server_name_'.repeat(3)}:${'tool_'.repeat(8)}a`;
+    const similar = `${long}b`;
+
+    const encoded = encodeToolName(long);
+    assert.match(encoded, VALID_NAME);
+    assert.notEqual(encodeToolName(similar), encoded);
+    assert.equal(decodeToolName(encoded), long);
+  });
+
+  it('encodes deterministically', () => {
+    const name = `mcp:x:${'y'.repeat(80)}`;
+    assert.equal(encodeToolName(name), encodeToolName(name));
+  });
+
+  it('is applied to tool definitions', () => {
+    const [tool] = toOpenAITools([{ name: 'mcp:fs:read', description: 'Read', inputSchema: { type: 'object' } }]);
+    assert.equal(tool.function.name, 'mcp__fs__read');
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { TurnPolicyManager } from '../models/settings/TurnPolicyManager.js';
+import { createMemoryStorage } from './helpers/memory-storage.js';
+
+describe('TurnPolicyManager', () => {
+  it('validates and stores policies', async () => {
+    const manager = new TurnPolicyManager(createMemoryStorage('topicId'));
+    await assert.rejects(manager.setPolicy('t1', { mode: 'moderator' }), /requires moderatorPersonId/);
+
+    await manager.setPolicy('t1', { mode: 'round-robin', allowAIReplies: true });
+    assert.deepEqual(await manager.getEffectivePolicy('t1'), { mode: 'round-robin', allowAIReplies: true, maxConsecutiveAITurns: 3 });
+  });
+
+  it('reads a version stored elsewhere after invalidate', async () => {
+    const storage = createMemoryStorage('topicId');
+    const manager = new TurnPolicyManager(storage);
+    assert.equal((await manager.getEffectivePolicy('t1')).mode, 'all');
+
+    // A version synced from another device
+    await new TurnPolicyManager(storage).setPolicy('t1', { mode: 'mention-only' });
+    assert.equal((await manager.getEffectivePolicy('t1')).mode, 'all');
+
+    manager.invalidate('t1');
+    assert.equal((await manager.getEffectivePolicy('t1')).mode, 'mention-only');
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { UsageLedger, type UsageRecord } from '../services/usage-ledger.js';
+import { createMemoryStorage } from './helpers/memory-storage.js';
+
+const DAY = Date.UTC(2026, 4, 12, 10);
+
+function usage(index: number): UsageRecord {
+  return {
+    timestamp: DAY + index,
+    modelId: 'gpt-4o',
+    provider: 'openai',
+    promptTokens: 10,
+    completionTokens: 5,
+    cacheCreationTokens: 0,
+    cacheReadTokens: 0,
+    costUsd: 0.01,
+    priced: true
+  };
+}
+
+describe('UsageLedger storage', () => {
+  it('appends to the newest bucket and starts buckets as they fill', async () => {
+    const storage = createMemoryStorage('day', 'bucket');
+    const ledger = new UsageLedger(storage, { flushDelayMs: 60_000 });
+
+    for (let i = 0; i < 150; i++) ledger.record(usage(i));
+    await ledger.flush();
+    ledger.record(usage(150));
+    await ledger.flush();
+
+    const day = storage.objects.get('LLMUsageDay:2026-05-12');
+    assert.equal(day.bucketCount, 2);
+    assert.equal(storage.objects.get('LLMUsageBucket:2026-05-12:0').entries.length, 100);
+    assert.equal(storage.objects.get('LLMUsageBucket:2026-05-12:1').entries.length, 51);
+
+    // The second flush only rewrote the open bucket
+    const lastWrite = storage.writes.at(-1);
+    assert.equal(lastWrite.$type$, 'LLMUsageBucket');
+    assert.equal(lastWrite.bucket, 1);
+  });
+
+  it('loads stored buckets and keeps appending after a restart', async () => {
+    const storage = createMemoryStorage('day', 'bucket');
+    const first = new UsageLedger(storage, { flushDelayMs: 60_000 });
+    for (let i = 0; i < 120; i++) first.record(usage(i));
+    await first.flush();
+
+    const second = new UsageLedger(storage, { flushDelayMs: 60_000 });
+    second.record(usage(500));
+    await second.flush();
+
+    const entries = await second.getEntries({ from: DAY - 1000, to: DAY + 1000 });
+    assert.equal(entries.length, 121);
+    assert.equal(storage.objects.get('LLMUsageBucket:2026-05-12:1').entries.length, 21);
+
+    const [total] = await second.aggregate('provider', { from: DAY - 1000, to: DAY + 1000 });
+    assert.equal(total.requests, 121);
+    assert.equal(total.promptTokens, 1210);
+  });
+
+  it('stores entries recorded during a flush', async () => {
+    const storage = createMemoryStorage('day', 'bucket');
+    const ledger = new UsageLedger(storage, { flushDelayMs: 60_000 });
+
+    ledger.record(usage(0));
+    const flushing = ledger.flush();
+    ledger.record(usage(1));
+    await flushing;
+    await ledger.flush();
+
+    assert.equal(storage.objects.get('LLMUsageBucket:2026-05-12:0').entries.length, 2);
+  });
+});